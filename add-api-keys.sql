@@ -0,0 +1,17 @@
+-- Personal API keys (Authorization: Bearer df_...), stored as SHA-256 hashes
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  prefix TEXT NOT NULL, -- e.g. df_a1B2c3, for display only
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL CHECK (scopes <@ ARRAY['read', 'scrape', 'billing']::TEXT[]),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id);
+
+-- Hashes stay server-side: no client policies
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,11 @@
+-- Collection-aware scraping
+-- Subset of collection handles to scrape (NULL = whole catalogue)
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS collections_filter TEXT[];
+
+-- Collections seen during the scrape; products reference them by handle
+ALTER TABLE scrape_data ADD COLUMN IF NOT EXISTS collections JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- New progress phase for the collection membership pass
+ALTER TABLE scrape_jobs DROP CONSTRAINT IF EXISTS scrape_jobs_progress_phase_check;
+ALTER TABLE scrape_jobs ADD CONSTRAINT scrape_jobs_progress_phase_check
+  CHECK (progress_phase IN ('queued', 'fetching', 'collections', 'saving', 'done'));
@@ -0,0 +1,271 @@
+-- Credit ledger: every credit movement is an immutable entry with an idempotency key.
+-- users.credits and organizations.credits become cached balances that only
+-- post_credit_entry writes; credit_ledger_drift() reports any disagreement.
+-- Run after add-organizations.sql.
+CREATE TABLE IF NOT EXISTS credit_ledger (
+  id BIGSERIAL PRIMARY KEY,
+  -- Personal wallet entries have organization_id NULL. Organization wallet
+  -- entries set organization_id; user_id is then the member who caused them.
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount <> 0), -- Positive credits, negative debits
+  balance_after INTEGER NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('opening_balance', 'signup_bonus', 'purchase', 'usage', 'refund', 'adjustment')),
+  idempotency_key TEXT NOT NULL UNIQUE,
+  transaction_id UUID, -- transactions row for purchases
+  job_id UUID, -- scrape job for usage and refunds
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (user_id IS NOT NULL OR organization_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_user ON credit_ledger(user_id, id) WHERE organization_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_organization ON credit_ledger(organization_id, id) WHERE organization_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_job_id ON credit_ledger(job_id);
+
+-- Entries are never edited; corrections are new 'adjustment' entries.
+-- Deletes are only allowed as the cascade from deleting the user or organization
+-- (foreign key actions run one trigger level down).
+CREATE OR REPLACE FUNCTION prevent_credit_ledger_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'credit_ledger entries are immutable';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS credit_ledger_immutable ON credit_ledger;
+CREATE TRIGGER credit_ledger_immutable
+  BEFORE UPDATE OR DELETE ON credit_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_credit_ledger_changes();
+
+-- The only writer of credit balances.
+-- Returns status 'applied', 'duplicate' (key already posted; nothing changes),
+-- 'insufficient_credits' or 'account_not_found'.
+CREATE OR REPLACE FUNCTION post_credit_entry(
+  p_user_id UUID,
+  p_organization_id UUID,
+  p_amount INTEGER,
+  p_kind TEXT,
+  p_idempotency_key TEXT,
+  p_description TEXT DEFAULT NULL,
+  p_transaction_id UUID DEFAULT NULL,
+  p_job_id UUID DEFAULT NULL
+)
+RETURNS TABLE (status TEXT, entry_id BIGINT, balance INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_balance INTEGER;
+  existing credit_ledger%ROWTYPE;
+  new_id BIGINT;
+BEGIN
+  -- Lock the wallet so movements on it are serialized
+  IF p_organization_id IS NOT NULL THEN
+    PERFORM 1 FROM organizations WHERE id = p_organization_id FOR UPDATE;
+  ELSE
+    PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'account_not_found'::TEXT, NULL::BIGINT, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  SELECT * INTO existing FROM credit_ledger WHERE idempotency_key = p_idempotency_key;
+  IF FOUND THEN
+    RETURN QUERY SELECT 'duplicate'::TEXT, existing.id, existing.balance_after;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(l.amount), 0)::INTEGER INTO current_balance
+  FROM credit_ledger l
+  WHERE CASE
+    WHEN p_organization_id IS NOT NULL THEN l.organization_id = p_organization_id
+    ELSE l.organization_id IS NULL AND l.user_id = p_user_id
+  END;
+
+  IF current_balance + p_amount < 0 THEN
+    RETURN QUERY SELECT 'insufficient_credits'::TEXT, NULL::BIGINT, current_balance;
+    RETURN;
+  END IF;
+
+  INSERT INTO credit_ledger (
+    user_id, organization_id, amount, balance_after, kind,
+    idempotency_key, transaction_id, job_id, description
+  )
+  VALUES (
+    p_user_id, p_organization_id, p_amount, current_balance + p_amount, p_kind,
+    p_idempotency_key, p_transaction_id, p_job_id, p_description
+  )
+  RETURNING id INTO new_id;
+
+  IF p_organization_id IS NOT NULL THEN
+    UPDATE organizations
+    SET credits = current_balance + p_amount,
+        updated_at = NOW()
+    WHERE id = p_organization_id;
+  ELSE
+    UPDATE users
+    SET credits = current_balance + p_amount,
+        updated_at = NOW()
+    WHERE id = p_user_id;
+  END IF;
+
+  RETURN QUERY SELECT 'applied'::TEXT, new_id, current_balance + p_amount;
+END;
+$$;
+
+-- Opening balances carry existing credits into the ledger (safe to re-run)
+INSERT INTO credit_ledger (user_id, amount, balance_after, kind, idempotency_key, description)
+SELECT id, credits, credits, 'opening_balance', 'opening:user:' || id, 'Balance before the credit ledger'
+FROM users
+WHERE COALESCE(credits, 0) <> 0
+ON CONFLICT (idempotency_key) DO NOTHING;
+
+INSERT INTO credit_ledger (organization_id, amount, balance_after, kind, idempotency_key, description)
+SELECT id, credits, credits, 'opening_balance', 'opening:organization:' || id, 'Balance before the credit ledger'
+FROM organizations
+WHERE credits <> 0
+ON CONFLICT (idempotency_key) DO NOTHING;
+
+-- deduct_credits now posts to the ledger. The optional idempotency key makes
+-- retries safe (e.g. 'scrape:<job id>'); TRUE means the charge is recorded.
+DROP FUNCTION IF EXISTS deduct_credits(UUID, INTEGER);
+CREATE OR REPLACE FUNCTION deduct_credits(
+  user_id UUID,
+  amount INTEGER,
+  idempotency_key TEXT DEFAULT NULL,
+  job_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  org_id UUID;
+  result_status TEXT;
+BEGIN
+  SELECT m.organization_id INTO org_id
+  FROM organization_members m
+  WHERE m.user_id = deduct_credits.user_id;
+
+  SELECT r.status INTO result_status
+  FROM post_credit_entry(
+    deduct_credits.user_id,
+    org_id,
+    -deduct_credits.amount,
+    'usage',
+    COALESCE(deduct_credits.idempotency_key, 'usage:' || uuid_generate_v4()),
+    'Scrape job deduction',
+    NULL,
+    deduct_credits.job_id
+  ) r;
+
+  RETURN result_status IN ('applied', 'duplicate');
+END;
+$$;
+
+-- add_credits posts a purchase, keyed by the payment so it is granted once
+CREATE OR REPLACE FUNCTION add_credits(
+  user_id UUID,
+  amount INTEGER,
+  plan_id TEXT DEFAULT NULL,
+  payment_intent_id TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result_status TEXT;
+BEGIN
+  SELECT r.status INTO result_status
+  FROM post_credit_entry(
+    add_credits.user_id,
+    NULL,
+    add_credits.amount,
+    'purchase',
+    'payment:' || COALESCE(add_credits.payment_intent_id, uuid_generate_v4()::TEXT),
+    'Credit purchase' || COALESCE(' (' || add_credits.plan_id || ')', '')
+  ) r;
+
+  RETURN result_status IN ('applied', 'duplicate');
+END;
+$$;
+
+-- Superseded by post_credit_entry
+DROP FUNCTION IF EXISTS add_organization_credits(UUID, INTEGER);
+
+-- Signup credits go through the ledger too
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.users (id, email, credits)
+  VALUES (NEW.id, COALESCE(NEW.email, ''), 0)
+  ON CONFLICT (id) DO NOTHING;
+
+  PERFORM post_credit_entry(NEW.id, NULL, 5, 'signup_bonus', 'signup:' || NEW.id, 'Free credits on signup');
+
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log error but don't fail the auth process
+    RAISE WARNING 'Error in handle_new_user: %', SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+-- Wallets whose cached balance disagrees with the sum of their ledger entries
+CREATE OR REPLACE FUNCTION credit_ledger_drift()
+RETURNS TABLE (account_type TEXT, account_id UUID, cached_balance INTEGER, ledger_balance INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'user', u.id, COALESCE(u.credits, 0), COALESCE(l.total, 0)::INTEGER
+  FROM users u
+  LEFT JOIN (
+    SELECT user_id, SUM(amount) AS total
+    FROM credit_ledger
+    WHERE organization_id IS NULL
+    GROUP BY user_id
+  ) l ON l.user_id = u.id
+  WHERE COALESCE(u.credits, 0) <> COALESCE(l.total, 0)
+  UNION ALL
+  SELECT 'organization', o.id, o.credits, COALESCE(l.total, 0)::INTEGER
+  FROM organizations o
+  LEFT JOIN (
+    SELECT organization_id, SUM(amount) AS total
+    FROM credit_ledger
+    WHERE organization_id IS NOT NULL
+    GROUP BY organization_id
+  ) l ON l.organization_id = o.id
+  WHERE o.credits <> COALESCE(l.total, 0);
+$$;
+
+-- Credit functions are for the backend (service role) only
+REVOKE EXECUTE ON FUNCTION post_credit_entry(UUID, UUID, INTEGER, TEXT, TEXT, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION deduct_credits(UUID, INTEGER, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION add_credits(UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION credit_ledger_drift() FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE credit_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own ledger entries"
+  ON credit_ledger FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,150 @@
+-- Credit reservations for scrape jobs
+-- Credits are reserved (a 'usage' ledger entry) when a job is created or resumed,
+-- and settled when it finishes: kept for a full scrape, partly refunded for a
+-- partial one, and fully refunded when the job fails or is cancelled.
+-- Every refund is also recorded as a 'refund' row in transactions.
+-- Run after add-credit-ledger.sql.
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS credits_reserved INTEGER NOT NULL DEFAULT 0; -- Held for the current run
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS credits_spent INTEGER NOT NULL DEFAULT 0; -- Settled charges, across runs
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS credits_refunded INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS reservation_key TEXT; -- Ledger key of the held reservation
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS billing_note TEXT; -- Why the job cost what it did
+
+-- Jobs charged before reservations were paid the full price (5 credits)
+UPDATE scrape_jobs SET credits_spent = 5 WHERE credits_charged AND credits_spent = 0;
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS job_id UUID REFERENCES scrape_jobs(id) ON DELETE SET NULL;
+
+-- Refund part of a reservation to the wallet it was taken from
+-- Keyed by the reservation, so it is refunded at most once whatever calls it.
+-- Returns the post_credit_entry status.
+CREATE OR REPLACE FUNCTION refund_credit_reservation(
+  p_reservation_key TEXT,
+  p_amount INTEGER,
+  p_description TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reservation credit_ledger%ROWTYPE;
+  refund_transaction_id UUID := uuid_generate_v4();
+  result_status TEXT;
+BEGIN
+  SELECT * INTO reservation
+  FROM credit_ledger
+  WHERE idempotency_key = 'reserve:' || p_reservation_key;
+
+  IF NOT FOUND THEN
+    RETURN 'account_not_found';
+  END IF;
+
+  SELECT r.status INTO result_status
+  FROM post_credit_entry(
+    reservation.user_id,
+    reservation.organization_id,
+    p_amount,
+    'refund',
+    'refund:' || p_reservation_key,
+    p_description,
+    refund_transaction_id,
+    reservation.job_id
+  ) r;
+
+  IF result_status = 'applied' THEN
+    -- The job row may not exist (its insert failed after the reservation)
+    INSERT INTO transactions (id, user_id, organization_id, job_id, type, amount, description, processed)
+    VALUES (
+      refund_transaction_id,
+      reservation.user_id,
+      reservation.organization_id,
+      (SELECT id FROM scrape_jobs WHERE id = reservation.job_id),
+      'refund',
+      p_amount,
+      p_description,
+      TRUE
+    );
+  END IF;
+
+  RETURN result_status;
+END;
+$$;
+
+-- Settle a job's held reservation: keep p_keep credits and refund the rest
+-- With nothing held (a free resume, or settling twice) only the note changes.
+CREATE OR REPLACE FUNCTION settle_scrape_credits(
+  p_job_id UUID,
+  p_keep INTEGER,
+  p_note TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job scrape_jobs%ROWTYPE;
+  keep INTEGER;
+  refund INTEGER;
+BEGIN
+  SELECT * INTO job FROM scrape_jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF job.credits_reserved <= 0 OR job.reservation_key IS NULL THEN
+    UPDATE scrape_jobs SET billing_note = p_note WHERE id = p_job_id;
+    RETURN;
+  END IF;
+
+  keep := LEAST(GREATEST(p_keep, 0), job.credits_reserved);
+  refund := job.credits_reserved - keep;
+
+  IF refund > 0 THEN
+    PERFORM refund_credit_reservation(job.reservation_key, refund, p_note);
+  END IF;
+
+  UPDATE scrape_jobs
+  SET credits_spent = credits_spent + keep,
+      credits_refunded = credits_refunded + refund,
+      credits_reserved = 0,
+      credits_charged = credits_spent + keep > 0,
+      reservation_key = NULL,
+      billing_note = p_note
+  WHERE id = p_job_id;
+END;
+$$;
+
+-- A job that ends failed or cancelled gets its held reservation back, however
+-- it got there (the processor, POST /scrape/cancel, or claim_scrape_job giving up)
+CREATE OR REPLACE FUNCTION release_scrape_job_credits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM settle_scrape_credits(
+    NEW.id,
+    0,
+    CASE NEW.status
+      WHEN 'cancelled' THEN 'Cancelled: reserved credits refunded'
+      ELSE 'Scrape failed: reserved credits refunded'
+    END
+  );
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS release_scrape_job_credits ON scrape_jobs;
+CREATE TRIGGER release_scrape_job_credits
+  AFTER UPDATE OF status ON scrape_jobs
+  FOR EACH ROW
+  WHEN (NEW.status IN ('failed', 'cancelled') AND NEW.credits_reserved > 0)
+  EXECUTE FUNCTION release_scrape_job_credits();
+
+REVOKE EXECUTE ON FUNCTION refund_credit_reservation(TEXT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_scrape_credits(UUID, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,18 @@
+-- Saved CSV export templates (column selection, order, header names, row granularity)
+CREATE TABLE IF NOT EXISTS export_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  columns JSONB NOT NULL, -- [{ "key": "title", "header": "Name" }, ...]
+  granularity TEXT NOT NULL DEFAULT 'variant' CHECK (granularity IN ('variant', 'product')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_export_templates_user_id ON export_templates(user_id);
+
+ALTER TABLE export_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own export templates"
+  ON export_templates FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,6 @@
+-- Allow cancelled scrape jobs and link retries to the job they retry
+ALTER TABLE scrape_jobs DROP CONSTRAINT IF EXISTS scrape_jobs_status_check;
+ALTER TABLE scrape_jobs ADD CONSTRAINT scrape_jobs_status_check
+  CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled'));
+
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS retry_of UUID REFERENCES scrape_jobs(id) ON DELETE SET NULL;
@@ -0,0 +1,79 @@
+-- Durable scrape job queue
+-- Run this in Supabase SQL Editor. The scrape_jobs table doubles as the queue:
+-- workers claim pending rows (or running rows whose lease expired) and keep
+-- their lease alive with heartbeats while scraping.
+
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS locked_by TEXT;
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 3;
+
+CREATE INDEX IF NOT EXISTS idx_scrape_jobs_queue ON scrape_jobs(status, locked_until, created_at);
+
+-- Claim the oldest runnable job for a worker
+CREATE OR REPLACE FUNCTION claim_scrape_job(
+  worker_id TEXT,
+  lease_seconds INTEGER
+)
+RETURNS SETOF scrape_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  claimed_id UUID;
+BEGIN
+  -- Jobs whose lease expired too many times are given up on
+  UPDATE scrape_jobs
+  SET status = 'failed',
+      error_message = 'Job abandoned after repeated worker failures',
+      locked_by = NULL,
+      locked_until = NULL,
+      updated_at = NOW()
+  WHERE status = 'running'
+    AND locked_until < NOW()
+    AND attempts >= max_attempts;
+
+  SELECT id INTO claimed_id
+  FROM scrape_jobs
+  WHERE status = 'pending'
+     OR (status = 'running' AND locked_until < NOW())
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF claimed_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE scrape_jobs
+  SET status = 'running',
+      locked_by = worker_id,
+      locked_until = NOW() + make_interval(secs => lease_seconds),
+      attempts = attempts + 1,
+      updated_at = NOW()
+  WHERE id = claimed_id
+  RETURNING *;
+END;
+$$;
+
+-- Extend the lease on a job the worker still holds
+CREATE OR REPLACE FUNCTION extend_scrape_job_lease(
+  job_id UUID,
+  worker_id TEXT,
+  lease_seconds INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE scrape_jobs
+  SET locked_until = NOW() + make_interval(secs => lease_seconds)
+  WHERE id = job_id
+    AND locked_by = worker_id
+    AND status = 'running';
+
+  RETURN FOUND;
+END;
+$$;
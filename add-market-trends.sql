@@ -0,0 +1,142 @@
+-- Platform-wide market trends (GET /trends), aggregated from store snapshots
+-- Stores are keyed by normalized URL, so a store scraped by several users
+-- counts once. Only aggregates leave the database: no store URLs, names or
+-- product titles, and product types and vendors seen in fewer than
+-- p_min_stores stores are left out. Run after add-store-history.sql.
+
+-- Latest snapshot of each store taken at or before a point in time
+CREATE OR REPLACE FUNCTION market_snapshots(p_at TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (store_key TEXT, snapshot_id UUID, taken_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (st.normalized_url) st.normalized_url, sn.id, sn.created_at
+  FROM store_snapshots sn
+  JOIN stores st ON st.id = sn.store_id
+  WHERE sn.created_at <= p_at
+  ORDER BY st.normalized_url, sn.created_at DESC;
+$$;
+
+-- Product types across the latest snapshot of every store, with the median
+-- of each product's lowest variant price (in the stores' own currencies)
+CREATE OR REPLACE FUNCTION market_product_types(p_min_stores INTEGER, p_limit INTEGER DEFAULT 10)
+RETURNS TABLE (product_type TEXT, stores INTEGER, products INTEGER, median_price NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH latest AS (
+    SELECT * FROM market_snapshots(NOW())
+  ),
+  prices AS (
+    SELECT v.snapshot_id, v.product_id, MIN(v.price) AS price
+    FROM latest l
+    JOIN snapshot_variants v ON v.snapshot_id = l.snapshot_id
+    GROUP BY v.snapshot_id, v.product_id
+  ),
+  products AS (
+    SELECT l.store_key, btrim(p.product_type) AS label, pr.price
+    FROM latest l
+    JOIN snapshot_products p ON p.snapshot_id = l.snapshot_id
+    LEFT JOIN prices pr ON pr.snapshot_id = p.snapshot_id AND pr.product_id = p.product_id
+    WHERE btrim(COALESCE(p.product_type, '')) <> ''
+  )
+  SELECT
+    mode() WITHIN GROUP (ORDER BY label),
+    COUNT(DISTINCT store_key)::INTEGER,
+    COUNT(*)::INTEGER,
+    ROUND((percentile_cont(0.5) WITHIN GROUP (ORDER BY price))::NUMERIC, 2)
+  FROM products
+  GROUP BY lower(label)
+  HAVING COUNT(DISTINCT store_key) >= p_min_stores
+  ORDER BY COUNT(*) DESC
+  LIMIT p_limit;
+$$;
+
+-- Vendors' product counts now and at p_since, over stores snapshotted at both
+-- times (so growth is not just more stores being scraped)
+CREATE OR REPLACE FUNCTION market_vendor_growth(
+  p_since TIMESTAMP WITH TIME ZONE,
+  p_min_stores INTEGER
+)
+RETURNS TABLE (vendor TEXT, stores INTEGER, products INTEGER, previous_products INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH pairs AS (
+    SELECT cur.store_key, cur.snapshot_id AS current_id, prev.snapshot_id AS previous_id
+    FROM market_snapshots(NOW()) cur
+    JOIN market_snapshots(p_since) prev ON prev.store_key = cur.store_key
+    WHERE cur.snapshot_id <> prev.snapshot_id
+  ),
+  counts AS (
+    SELECT pr.store_key, btrim(p.vendor) AS label,
+      COUNT(*) FILTER (WHERE p.snapshot_id = pr.current_id) AS current_count,
+      COUNT(*) FILTER (WHERE p.snapshot_id = pr.previous_id) AS previous_count
+    FROM pairs pr
+    JOIN snapshot_products p ON p.snapshot_id IN (pr.current_id, pr.previous_id)
+    WHERE btrim(COALESCE(p.vendor, '')) <> ''
+    GROUP BY pr.store_key, btrim(p.vendor)
+  )
+  SELECT
+    mode() WITHIN GROUP (ORDER BY label),
+    (COUNT(DISTINCT store_key) FILTER (WHERE current_count > 0))::INTEGER,
+    SUM(current_count)::INTEGER,
+    SUM(previous_count)::INTEGER
+  FROM counts
+  GROUP BY lower(label)
+  HAVING COUNT(DISTINCT store_key) FILTER (WHERE current_count > 0) >= p_min_stores;
+$$;
+
+-- Products first seen since p_since, per day, plus a row with day NULL for the
+-- whole window. A store's first snapshot is its baseline, so its whole
+-- catalogue does not count as new.
+CREATE OR REPLACE FUNCTION market_new_products(p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (day DATE, stores INTEGER, new_products INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH snapshots AS (
+    SELECT st.normalized_url AS store_key, sn.id, sn.created_at,
+      MIN(sn.created_at) OVER (PARTITION BY st.normalized_url) AS baseline_at
+    FROM store_snapshots sn
+    JOIN stores st ON st.id = sn.store_id
+  ),
+  first_seen AS (
+    SELECT s.store_key, p.product_id, MIN(s.created_at) AS seen_at, MIN(s.baseline_at) AS baseline_at
+    FROM snapshots s
+    JOIN snapshot_products p ON p.snapshot_id = s.id
+    GROUP BY s.store_key, p.product_id
+  )
+  SELECT (seen_at AT TIME ZONE 'UTC')::DATE, COUNT(DISTINCT store_key)::INTEGER, COUNT(*)::INTEGER
+  FROM first_seen
+  WHERE seen_at >= p_since AND seen_at > baseline_at
+  GROUP BY GROUPING SETS (((seen_at AT TIME ZONE 'UTC')::DATE), ())
+  ORDER BY 1 NULLS FIRST;
+$$;
+
+-- Number of stores with a snapshot at or before a point in time
+CREATE OR REPLACE FUNCTION market_store_count(p_at TIMESTAMP WITH TIME ZONE)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER FROM market_snapshots(p_at);
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_store_snapshots_created_at ON store_snapshots(created_at);
+
+REVOKE EXECUTE ON FUNCTION market_snapshots(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION market_product_types(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION market_vendor_growth(TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION market_new_products(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION market_store_count(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
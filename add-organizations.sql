@@ -0,0 +1,132 @@
+-- Organizations: members share a credit wallet and see each other's scrape history
+-- A user belongs to at most one organization.
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  credits INTEGER NOT NULL DEFAULT 0 CHECK (credits >= 0),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'admin', 'member')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS organization_invites (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL, -- lowercased
+  role TEXT NOT NULL CHECK (role IN ('admin', 'member')),
+  invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_invites_email ON organization_invites(email);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_invites_pending
+  ON organization_invites(organization_id, email) WHERE accepted_at IS NULL;
+
+-- Jobs are shared with the organization the user belonged to when they ran
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_scrape_jobs_organization_id ON scrape_jobs(organization_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION set_scrape_job_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.organization_id IS NULL THEN
+    SELECT organization_id INTO NEW.organization_id
+    FROM organization_members
+    WHERE user_id = NEW.user_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS scrape_jobs_set_organization ON scrape_jobs;
+CREATE TRIGGER scrape_jobs_set_organization
+  BEFORE INSERT ON scrape_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION set_scrape_job_organization();
+
+-- Purchases can credit an organization wallet
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+
+-- Members draw from the organization wallet; everyone else from their own credits
+CREATE OR REPLACE FUNCTION deduct_credits(
+  user_id UUID,
+  amount INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  org_id UUID;
+BEGIN
+  SELECT m.organization_id INTO org_id
+  FROM organization_members m
+  WHERE m.user_id = deduct_credits.user_id;
+
+  IF org_id IS NOT NULL THEN
+    UPDATE organizations
+    SET credits = credits - amount,
+        updated_at = NOW()
+    WHERE id = org_id AND credits >= amount;
+  ELSE
+    UPDATE users
+    SET credits = credits - amount,
+        updated_at = NOW()
+    WHERE id = deduct_credits.user_id AND credits >= amount;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO transactions (user_id, organization_id, type, amount, description)
+  VALUES (deduct_credits.user_id, org_id, 'usage', -amount, 'Scrape job deduction');
+
+  RETURN TRUE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION add_organization_credits(
+  org_id UUID,
+  amount INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_balance INTEGER;
+BEGIN
+  UPDATE organizations
+  SET credits = credits + amount,
+      updated_at = NOW()
+  WHERE id = org_id
+  RETURNING credits INTO new_balance;
+
+  RETURN new_balance;
+END;
+$$;
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization"
+  ON organizations FOR SELECT
+  USING (id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can view own membership"
+  ON organization_members FOR SELECT
+  USING (auth.uid() = user_id);
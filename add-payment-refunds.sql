@@ -0,0 +1,8 @@
+-- Refunds of credit purchases (POST /admin/payments/:transactionId/refund)
+-- Run after add-credit-ledger.sql. refunded_at is set when a refund starts and
+-- cleared if it fails, so a purchase is refunded at most once; refund_id is the
+-- provider's reference for the refund, and refund_status whether the provider
+-- has completed it.
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS refund_id TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS refund_status TEXT CHECK (refund_status IN ('pending', 'succeeded'));
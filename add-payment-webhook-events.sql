@@ -0,0 +1,26 @@
+-- Audit log of incoming payment webhooks (POST /payment/webhook)
+-- Every request is kept with its raw body, including ones that fail signature
+-- verification. Verified events are unique per provider event id, so a
+-- replayed or redelivered event is recorded as 'duplicate' and not applied twice.
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider TEXT NOT NULL DEFAULT 'dodo',
+  event_id TEXT, -- webhook-id header; NULL if a rejected request had none
+  event_type TEXT,
+  body TEXT NOT NULL, -- Raw request body, exactly as signed
+  status TEXT NOT NULL CHECK (status IN ('processing', 'processed', 'failed', 'rejected', 'duplicate')),
+  error TEXT, -- Rejection or processing failure reason
+  attempts INTEGER NOT NULL DEFAULT 1,
+  claimed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- When a handler last took it; stale 'processing' claims are reclaimed
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_webhook_events_event
+  ON payment_webhook_events(provider, event_id)
+  WHERE status IN ('processing', 'processed', 'failed');
+
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_received_at ON payment_webhook_events(received_at DESC);
+
+-- Backend (service role) only
+ALTER TABLE payment_webhook_events ENABLE ROW LEVEL SECURITY;
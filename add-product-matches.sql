@@ -0,0 +1,30 @@
+-- Cross-store product matches confirmed or rejected by a user (GET/POST/DELETE /matches)
+-- Products are identified by their store's normalized URL and Shopify product id,
+-- which stay the same across scrapes. Pairs are stored in a canonical order
+-- (store_a, product_a) < (store_b, product_b), comparing URLs byte by byte, so
+-- each pair has one row.
+CREATE TABLE IF NOT EXISTS product_matches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  store_a TEXT NOT NULL,
+  product_a BIGINT NOT NULL,
+  title_a TEXT,
+  store_b TEXT NOT NULL,
+  product_b BIGINT NOT NULL,
+  title_b TEXT,
+  status TEXT NOT NULL CHECK (status IN ('confirmed', 'rejected')),
+  score NUMERIC(4, 3), -- Suggested score when the decision was made
+  signals JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, store_a, product_a, store_b, product_b),
+  CHECK ((store_a COLLATE "C", product_a) < (store_b COLLATE "C", product_b))
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_matches_user_stores ON product_matches(user_id, store_a, store_b);
+
+ALTER TABLE product_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own product matches"
+  ON product_matches FOR SELECT
+  USING (auth.uid() = user_id);
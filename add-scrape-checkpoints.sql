@@ -0,0 +1,18 @@
+-- Page checkpoints for resumable scrapes (POST /scrape/resume/:jobId)
+CREATE TABLE IF NOT EXISTS scrape_pages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES scrape_jobs(id) ON DELETE CASCADE,
+  page INTEGER NOT NULL,
+  products JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (job_id, page)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_pages_job_id ON scrape_pages(job_id);
+
+ALTER TABLE scrape_pages ENABLE ROW LEVEL SECURITY;
+
+-- Page cursor and resume state on the job
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS last_page INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS is_partial BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS credits_charged BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,27 @@
+-- Size-based scrape pricing
+-- POST /scrape/validate-store estimates the catalogue size and records a price
+-- quote; POST /scrape/start charges the quoted price until the quote expires.
+-- Each job keeps the price it was started at for reservations and resumes.
+-- Run after add-credit-reservations.sql.
+CREATE TABLE IF NOT EXISTS scrape_quotes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  store_url TEXT NOT NULL,
+  product_estimate INTEGER, -- NULL when the size could not be estimated
+  estimate_source TEXT CHECK (estimate_source IN ('sitemap', 'probe')),
+  credits INTEGER NOT NULL CHECK (credits > 0),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_quotes_user_id ON scrape_quotes(user_id, created_at DESC);
+
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS credits_price INTEGER NOT NULL DEFAULT 5;
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS estimated_products INTEGER;
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS quote_id UUID REFERENCES scrape_quotes(id) ON DELETE SET NULL;
+
+ALTER TABLE scrape_quotes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own scrape quotes"
+  ON scrape_quotes FOR SELECT
+  USING (auth.uid() = user_id);
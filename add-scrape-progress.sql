@@ -0,0 +1,6 @@
+-- Scrape progress fields (read by GET /scrape/status/:jobId/stream)
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS progress_phase TEXT DEFAULT 'queued'
+  CHECK (progress_phase IN ('queued', 'fetching', 'saving', 'done'));
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS progress_page INTEGER DEFAULT 0;
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS progress_products INTEGER DEFAULT 0;
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS progress_eta_seconds INTEGER;
@@ -0,0 +1,58 @@
+-- Stores scraped repeatedly by a user, and a snapshot of each full scrape
+-- for price history and change tracking (GET /stores/:storeId/changes)
+CREATE TABLE IF NOT EXISTS stores (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  normalized_url TEXT NOT NULL,
+  name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, normalized_url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stores_user_id ON stores(user_id);
+
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS store_id UUID REFERENCES stores(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS store_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL UNIQUE REFERENCES scrape_jobs(id) ON DELETE CASCADE,
+  products_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_snapshots_store_created ON store_snapshots(store_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS snapshot_products (
+  id BIGSERIAL PRIMARY KEY,
+  snapshot_id UUID NOT NULL REFERENCES store_snapshots(id) ON DELETE CASCADE,
+  product_id BIGINT NOT NULL,
+  handle TEXT NOT NULL,
+  title TEXT NOT NULL,
+  vendor TEXT,
+  product_type TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_snapshot_products_snapshot_id ON snapshot_products(snapshot_id);
+
+CREATE TABLE IF NOT EXISTS snapshot_variants (
+  id BIGSERIAL PRIMARY KEY,
+  snapshot_id UUID NOT NULL REFERENCES store_snapshots(id) ON DELETE CASCADE,
+  product_id BIGINT NOT NULL,
+  variant_id BIGINT NOT NULL,
+  title TEXT,
+  sku TEXT,
+  price NUMERIC(12, 2),
+  compare_at_price NUMERIC(12, 2)
+);
+
+CREATE INDEX IF NOT EXISTS idx_snapshot_variants_snapshot_id ON snapshot_variants(snapshot_id);
+
+ALTER TABLE stores ENABLE ROW LEVEL SECURITY;
+ALTER TABLE store_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE snapshot_products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE snapshot_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own stores"
+  ON stores FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,26 @@
+-- Scheduled recurring scrapes of a store (POST/GET/DELETE /monitors)
+CREATE TABLE IF NOT EXISTS store_monitors (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  store_url TEXT NOT NULL,
+  store_name TEXT,
+  interval_hours INTEGER NOT NULL CHECK (interval_hours BETWEEN 1 AND 168),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused')),
+  paused_reason TEXT CHECK (paused_reason IN ('insufficient_credits')),
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_job_id UUID REFERENCES scrape_jobs(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, store_url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_monitors_due ON store_monitors(next_run_at) WHERE status = 'active';
+
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS monitor_id UUID REFERENCES store_monitors(id) ON DELETE SET NULL;
+
+ALTER TABLE store_monitors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own store monitors"
+  ON store_monitors FOR SELECT
+  USING (auth.uid() = user_id);
@@ -1,11 +1,19 @@
 import { FastifyRequest, FastifyReply, FastifyInstance } from 'fastify';
+import { timingSafeEqual } from 'crypto';
 import { supabase } from '../utils/supabase';
+import { API_KEY_PREFIX, API_KEY_SCOPES, authenticateApiKey } from '../services/apiKeys';
+import { ApiKeyScope } from '../types';
 
 export interface AuthenticatedRequest extends FastifyRequest {
   user?: {
     id: string;
     email: string;
   };
+  auth?: {
+    method: 'session' | 'api_key';
+    scopes: readonly ApiKeyScope[];
+    apiKeyId?: string;
+  };
 }
 
 export const authMiddleware = async (
@@ -21,6 +29,26 @@ export const authMiddleware = async (
 
     const token = authHeader.split(' ')[1];
     
+    // Personal API keys (df_...) for scripts and CI
+    if (token.startsWith(API_KEY_PREFIX)) {
+      const apiKey = await authenticateApiKey(token);
+
+      if (!apiKey) {
+        return reply.status(401).send({ error: 'Invalid or revoked API key' });
+      }
+
+      request.user = {
+        id: apiKey.userId,
+        email: apiKey.email,
+      };
+      request.auth = {
+        method: 'api_key',
+        scopes: apiKey.scopes,
+        apiKeyId: apiKey.id,
+      };
+      return;
+    }
+
     const { data: { user }, error } = await supabase.auth.getUser(token);
     
     if (error || !user) {
@@ -31,7 +59,66 @@ export const authMiddleware = async (
       id: user.id,
       email: user.email || '',
     };
+    // App sessions can do everything
+    request.auth = {
+      method: 'session',
+      scopes: API_KEY_SCOPES,
+    };
   } catch (err) {
     return reply.status(401).send({ error: 'Authentication failed' });
   }
 };
+
+/**
+ * Reject API keys that lack a scope (register after authMiddleware)
+ */
+export const requireScope = (scope: ApiKeyScope) => async (
+  request: AuthenticatedRequest,
+  reply: FastifyReply
+) => {
+  if (!request.auth?.scopes.includes(scope)) {
+    return reply.status(403).send({ error: `API key is missing the "${scope}" scope` });
+  }
+};
+
+/**
+ * GET requests need the read scope; anything else needs writeScope
+ */
+export const requireScopeByMethod = (writeScope: ApiKeyScope) => async (
+  request: AuthenticatedRequest,
+  reply: FastifyReply
+) => requireScope(request.method === 'GET' ? 'read' : writeScope)(request, reply);
+
+/**
+ * Only accept app sessions, e.g. for managing the API keys themselves
+ */
+export const requireSession = async (
+  request: AuthenticatedRequest,
+  reply: FastifyReply
+) => {
+  if (request.auth?.method !== 'session') {
+    return reply.status(403).send({ error: 'This endpoint cannot be used with an API key' });
+  }
+};
+
+/**
+ * Operator endpoints: Authorization: Bearer <ADMIN_API_TOKEN>
+ * Responds 404 when no admin token is configured.
+ */
+export const adminMiddleware = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+) => {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  if (!adminToken) {
+    return reply.status(404).send({ error: 'Not found' });
+  }
+
+  const token = request.headers.authorization?.replace(/^Bearer /, '') || '';
+  const expected = Buffer.from(adminToken);
+  const given = Buffer.from(token);
+
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return reply.status(401).send({ error: 'Invalid admin token' });
+  }
+};
@@ -0,0 +1,83 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { adminMiddleware } from '../middleware/auth';
+import { findLedgerDrift, refundPurchase } from '../services/creditLedger';
+import { paymentProvider } from '../services/paymentProviders';
+
+const refundSchema = z.object({
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+const refundStatusCodes = {
+  not_found: 404,
+  not_refundable: 400,
+  already_refunded: 409,
+  insufficient_credits: 409,
+  provider_failed: 502,
+  reversal_failed: 500,
+} as const;
+
+export async function adminRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', adminMiddleware);
+
+  /**
+   * GET /credits/reconcile
+   * Wallets whose cached balance (users.credits, organizations.credits)
+   * disagrees with the sum of their ledger entries
+   */
+  app.get('/credits/reconcile', async (_request, reply) => {
+    try {
+      const drift = await findLedgerDrift();
+
+      if (drift.length > 0) {
+        console.warn(`[Reconcile] ${drift.length} wallet(s) out of sync with the credit ledger`);
+      }
+
+      return reply.send({
+        in_sync: drift.length === 0,
+        checked_at: new Date().toISOString(),
+        drift,
+      });
+    } catch (err) {
+      console.error('[Reconcile Credits Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * POST /payments/:transactionId/refund
+   * Refund a credit purchase in full through its payment provider and take
+   * the purchased credits back from the wallet
+   */
+  app.post('/payments/:transactionId/refund', async (request, reply) => {
+    try {
+      const { transactionId } = request.params as { transactionId: string };
+      const { reason } = refundSchema.parse(request.body || {});
+
+      const result = await refundPurchase(transactionId, paymentProvider, reason);
+      if (!result.ok) {
+        return reply.status(refundStatusCodes[result.reason]).send({ error: result.message });
+      }
+
+      console.log(`[Refund] Transaction ${transactionId} refund ${result.status}: ${result.credits} credits`);
+
+      // 202 while the provider is still completing the refund
+      return reply.status(result.status === 'succeeded' ? 200 : 202).send({
+        success: true,
+        status: result.status,
+        refund_id: result.refundId,
+        credits_removed: result.credits,
+        balance: result.balance,
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Refund Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
@@ -0,0 +1,212 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { supabase } from '../utils/supabase';
+import { authMiddleware, requireScopeByMethod, AuthenticatedRequest } from '../middleware/auth';
+
+const ruleParamsSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('price_drop'),
+    params: z.object({ minPercent: z.number().min(0).max(100).default(0) }),
+  }),
+  z.object({
+    type: z.literal('new_product_tag'),
+    params: z.object({ tag: z.string().trim().min(1, 'Tag is required').max(100) }),
+  }),
+  z.object({
+    type: z.literal('compare_at_set'),
+    params: z.object({}).default({}),
+  }),
+  z.object({
+    type: z.literal('vendor_new_products'),
+    params: z.object({ vendor: z.string().trim().min(1, 'Vendor is required').max(200) }),
+  }),
+]);
+
+const ruleFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  storeId: z.string().uuid().nullable().optional(),
+  enabled: z.boolean().default(true),
+});
+
+const alertRuleSchema = z.intersection(ruleFieldsSchema, ruleParamsSchema);
+
+// Any subset of the fields; changing the type needs its params too
+const alertRuleUpdateSchema = z.union([
+  z.intersection(ruleFieldsSchema.partial(), ruleParamsSchema),
+  ruleFieldsSchema.partial().strict(),
+]);
+
+/**
+ * Whether a store belongs to the user
+ */
+async function ownsStore(userId: string | undefined, storeId: string) {
+  const { data: store } = await supabase
+    .from('stores')
+    .select('id')
+    .eq('id', storeId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return !!store;
+}
+
+export async function alertRuleRoutes(app: FastifyInstance) {
+  // Apply auth middleware to all routes
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', requireScopeByMethod('scrape'));
+
+  /**
+   * GET /
+   * List the user's alert rules
+   */
+  app.get('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const userId = request.user?.id;
+
+      const { data: rules, error } = await supabase
+        .from('alert_rules')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('[List Alert Rules Error]', error);
+        return reply.status(500).send({ error: 'Failed to fetch alert rules' });
+      }
+
+      return reply.send({ rules: rules || [] });
+    } catch (err) {
+      console.error('[List Alert Rules Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * POST /
+   * Create an alert rule, optionally limited to one store
+   */
+  app.post('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { name, storeId, enabled, type, params } = alertRuleSchema.parse(request.body);
+      const userId = request.user?.id;
+
+      if (storeId && !(await ownsStore(userId, storeId))) {
+        return reply.status(404).send({ error: 'Store not found' });
+      }
+
+      const { data: rule, error } = await supabase
+        .from('alert_rules')
+        .insert({
+          user_id: userId,
+          store_id: storeId || null,
+          name,
+          type,
+          params,
+          enabled,
+        })
+        .select()
+        .single();
+
+      if (error || !rule) {
+        console.error('[Create Alert Rule Error]', error);
+        return reply.status(500).send({ error: 'Failed to create alert rule' });
+      }
+
+      return reply.status(201).send(rule);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Create Alert Rule Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * PATCH /:id
+   * Edit an alert rule, or just enable or disable it
+   */
+  app.patch('/:id', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const changes = alertRuleUpdateSchema.parse(request.body);
+      const userId = request.user?.id;
+
+      if (changes.storeId && !(await ownsStore(userId, changes.storeId))) {
+        return reply.status(404).send({ error: 'Store not found' });
+      }
+
+      const update: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (changes.name !== undefined) update.name = changes.name;
+      if (changes.storeId !== undefined) update.store_id = changes.storeId;
+      if (changes.enabled !== undefined) update.enabled = changes.enabled;
+      if ('type' in changes) {
+        update.type = changes.type;
+        update.params = changes.params;
+      }
+
+      const { data: rule, error } = await supabase
+        .from('alert_rules')
+        .update(update)
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Update Alert Rule Error]', error);
+        return reply.status(500).send({ error: 'Failed to update alert rule' });
+      }
+
+      if (!rule) {
+        return reply.status(404).send({ error: 'Alert rule not found' });
+      }
+
+      return reply.send(rule);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Update Alert Rule Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * DELETE /:id
+   * Delete an alert rule (its notifications are kept)
+   */
+  app.delete('/:id', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const userId = request.user?.id;
+
+      const { data, error } = await supabase
+        .from('alert_rules')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) {
+        console.error('[Delete Alert Rule Error]', error);
+        return reply.status(500).send({ error: 'Failed to delete alert rule' });
+      }
+
+      if (!data || data.length === 0) {
+        return reply.status(404).send({ error: 'Alert rule not found' });
+      }
+
+      return reply.send({ success: true });
+    } catch (err) {
+      console.error('[Delete Alert Rule Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
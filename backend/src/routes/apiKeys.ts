@@ -0,0 +1,135 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { supabase } from '../utils/supabase';
+import { authMiddleware, requireSession, AuthenticatedRequest } from '../middleware/auth';
+import { API_KEY_SCOPES, generateApiKey } from '../services/apiKeys';
+import { ApiKeyScope } from '../types';
+
+const MAX_ACTIVE_KEYS = 20;
+
+const createKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES as [ApiKeyScope, ...ApiKeyScope[]]))
+    .min(1, 'Select at least one scope'),
+});
+
+// Never expose key_hash
+const PUBLIC_COLUMNS = 'id, name, prefix, scopes, last_used_at, revoked_at, created_at';
+
+export async function apiKeyRoutes(app: FastifyInstance) {
+  // Keys are managed from the app only: a leaked key must not be able to mint more
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', requireSession);
+
+  /**
+   * GET /
+   * List the user's API keys, including revoked ones
+   */
+  app.get('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const userId = request.user?.id;
+
+      const { data: keys, error } = await supabase
+        .from('api_keys')
+        .select(PUBLIC_COLUMNS)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('[List API Keys Error]', error);
+        return reply.status(500).send({ error: 'Failed to fetch API keys' });
+      }
+
+      return reply.send({ keys: keys || [], scopes: API_KEY_SCOPES });
+    } catch (err) {
+      console.error('[List API Keys Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * POST /
+   * Create a key; the plaintext key is only returned in this response
+   */
+  app.post('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { name, scopes } = createKeySchema.parse(request.body);
+      const userId = request.user?.id;
+
+      const { count } = await supabase
+        .from('api_keys')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('revoked_at', null);
+
+      if ((count || 0) >= MAX_ACTIVE_KEYS) {
+        return reply.status(400).send({
+          error: `You can have at most ${MAX_ACTIVE_KEYS} active API keys. Revoke one first.`
+        });
+      }
+
+      const { key, hash, prefix } = generateApiKey();
+
+      const { data, error } = await supabase
+        .from('api_keys')
+        .insert({
+          user_id: userId,
+          name,
+          scopes: Array.from(new Set(scopes)),
+          key_hash: hash,
+          prefix,
+        })
+        .select(PUBLIC_COLUMNS)
+        .single();
+
+      if (error || !data) {
+        console.error('[Create API Key Error]', error);
+        return reply.status(500).send({ error: 'Failed to create API key' });
+      }
+
+      return reply.status(201).send({ ...data, key });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Create API Key Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * DELETE /:id
+   * Revoke a key; it stops authenticating immediately
+   */
+  app.delete('/:id', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const userId = request.user?.id;
+
+      const { data, error } = await supabase
+        .from('api_keys')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .is('revoked_at', null)
+        .select('id');
+
+      if (error) {
+        console.error('[Revoke API Key Error]', error);
+        return reply.status(500).send({ error: 'Failed to revoke API key' });
+      }
+
+      if (!data || data.length === 0) {
+        return reply.status(404).send({ error: 'API key not found' });
+      }
+
+      return reply.send({ success: true });
+    } catch (err) {
+      console.error('[Revoke API Key Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
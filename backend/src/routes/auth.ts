@@ -1,6 +1,7 @@
 import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { supabase } from '../utils/supabase';
+import { postCreditEntry } from '../services/creditLedger';
 
 const sendOtpSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -70,7 +71,16 @@ export async function authRoutes(app: FastifyInstance) {
         await supabase.from('users').insert({
           id: data.user.id,
           email: data.user.email,
-          credits: 5, // Free credits on signup
+          credits: 0,
+        });
+
+        // Same key as the signup trigger, so the free credits are granted once
+        await postCreditEntry({
+          account: { userId: data.session.user.id, organizationId: null },
+          amount: 5, // Free credits on signup
+          kind: 'signup_bonus',
+          idempotencyKey: `signup:${data.session.user.id}`,
+          description: 'Free credits on signup',
         });
       }
 
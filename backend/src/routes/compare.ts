@@ -0,0 +1,101 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { supabase } from '../utils/supabase';
+import { authMiddleware, requireScope, AuthenticatedRequest } from '../middleware/auth';
+import { visibleJobsFilter } from '../services/organizations';
+import {
+  compareCatalogues,
+  ComparedCatalogue,
+  MAX_COMPARED_JOBS,
+  MIN_COMPARED_JOBS,
+} from '../services/storeComparison';
+import { loadMatchDecisions } from '../services/productMatching';
+import { generateComparisonCSV } from '../utils/csv';
+import { ScrapeJob } from '../types';
+
+// Matched products returned as JSON; the CSV export has all of them
+const MATCHES_LIMIT = 200;
+
+// The first job is the baseline prices are compared against
+const compareSchema = z.object({
+  jobIds: z.array(z.string().uuid())
+    .min(MIN_COMPARED_JOBS)
+    .max(MAX_COMPARED_JOBS)
+    .refine(ids => new Set(ids).size === ids.length, { message: 'Job IDs must be distinct' }),
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
+export async function compareRoutes(app: FastifyInstance) {
+  // Apply auth middleware to all routes
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', requireScope('read'));
+
+  /**
+   * POST /
+   * Compare two to five completed scrapes side by side
+   */
+  app.post('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { jobIds, format } = compareSchema.parse(request.body);
+      const userId = request.user?.id;
+
+      const { data: jobs } = await supabase
+        .from('scrape_jobs')
+        .select('*')
+        .in('id', jobIds)
+        .or(await visibleJobsFilter(userId));
+
+      if (!jobs || jobs.length !== jobIds.length) {
+        return reply.status(404).send({ error: 'Job not found' });
+      }
+
+      if (jobs.some(job => job.status !== 'completed')) {
+        return reply.status(409).send({ error: 'Only completed scrapes can be compared' });
+      }
+
+      const { data: scrapeData, error } = await supabase
+        .from('scrape_data')
+        .select('job_id, products')
+        .in('job_id', jobIds);
+
+      if (error) {
+        console.error('[Compare Error]', error);
+        return reply.status(500).send({ error: 'Failed to load scraped products' });
+      }
+
+      const catalogues: ComparedCatalogue[] = jobIds.map(id => ({
+        job: jobs.find(job => job.id === id) as ScrapeJob,
+        products: scrapeData?.find(data => data.job_id === id)?.products || [],
+      }));
+
+      // Pairs the user confirmed or rejected between these stores
+      const decisions = await loadMatchDecisions(
+        userId!,
+        catalogues.map(({ job }) => job.store_url)
+      );
+
+      const comparison = compareCatalogues(catalogues, decisions);
+
+      if (format === 'csv') {
+        return reply
+          .header('Content-Type', 'text/csv')
+          .header('Content-Disposition', 'attachment; filename="comparison.csv"')
+          .send(generateComparisonCSV(comparison));
+      }
+
+      return reply.send({
+        ...comparison,
+        matches: comparison.matches.slice(0, MATCHES_LIMIT),
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({ 
+          error: 'Validation failed', 
+          details: err.errors 
+        });
+      }
+      console.error('[Compare Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
@@ -0,0 +1,243 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { supabase } from '../utils/supabase';
+import { authMiddleware, requireScopeByMethod, AuthenticatedRequest } from '../middleware/auth';
+import { visibleJobsFilter } from '../services/organizations';
+import { normalizeStoreUrl } from '../services/shopifyScraper';
+import {
+  loadMatchDecisions,
+  MatchCatalogue,
+  saveMatchDecision,
+  suggestMatches,
+} from '../services/productMatching';
+import { Product, ScrapeJob } from '../types';
+
+const suggestionsQuerySchema = z.object({
+  jobA: z.string().uuid(),
+  jobB: z.string().uuid(),
+  status: z.enum(['suggested', 'confirmed']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const decisionSchema = z.object({
+  jobA: z.string().uuid(),
+  productA: z.number().int(),
+  jobB: z.string().uuid(),
+  productB: z.number().int(),
+  status: z.enum(['confirmed', 'rejected']),
+});
+
+const listQuerySchema = z.object({
+  status: z.enum(['confirmed', 'rejected']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+type JobPair =
+  | { ok: true; catalogues: MatchCatalogue[] }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Two completed jobs of different stores the user can see, with their products
+ */
+async function loadJobPair(userId: string, jobA: string, jobB: string): Promise<JobPair> {
+  const { data: jobs } = await supabase
+    .from('scrape_jobs')
+    .select('*')
+    .in('id', [jobA, jobB])
+    .or(await visibleJobsFilter(userId));
+
+  const first = jobs?.find(job => job.id === jobA) as ScrapeJob | undefined;
+  const second = jobs?.find(job => job.id === jobB) as ScrapeJob | undefined;
+
+  if (!first || !second) {
+    return { ok: false, status: 404, error: 'Job not found' };
+  }
+  if (first.status !== 'completed' || second.status !== 'completed') {
+    return { ok: false, status: 409, error: 'Only completed scrapes can be matched' };
+  }
+  if (normalizeStoreUrl(first.store_url) === normalizeStoreUrl(second.store_url)) {
+    return { ok: false, status: 400, error: 'Both jobs are scrapes of the same store' };
+  }
+
+  const { data: scrapeData, error } = await supabase
+    .from('scrape_data')
+    .select('job_id, products')
+    .in('job_id', [jobA, jobB]);
+
+  if (error) {
+    throw new Error(`Failed to load scraped products: ${error.message}`);
+  }
+
+  const productsOf = (jobId: string): Product[] =>
+    scrapeData?.find(data => data.job_id === jobId)?.products || [];
+
+  return {
+    ok: true,
+    catalogues: [
+      { storeUrl: first.store_url, products: productsOf(jobA) },
+      { storeUrl: second.store_url, products: productsOf(jobB) },
+    ],
+  };
+}
+
+export async function matchRoutes(app: FastifyInstance) {
+  // Apply auth middleware to all routes
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', requireScopeByMethod('scrape'));
+
+  /**
+   * GET /suggestions?jobA=&jobB=
+   * Suggested and confirmed product matches between two scrapes, best first
+   */
+  app.get('/suggestions', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { jobA, jobB, status, limit, offset } = suggestionsQuerySchema.parse(request.query);
+      const userId = request.user!.id;
+
+      const pair = await loadJobPair(userId, jobA, jobB);
+      if (!pair.ok) {
+        return reply.status(pair.status).send({ error: pair.error });
+      }
+
+      const [a, b] = pair.catalogues;
+      const decisions = await loadMatchDecisions(userId, [a.storeUrl, b.storeUrl]);
+
+      const suggestions = suggestMatches(a, b, decisions)
+        .filter(suggestion => !status || suggestion.status === status)
+        .sort((x, y) => y.score - x.score);
+
+      return reply.send({
+        storeA: normalizeStoreUrl(a.storeUrl),
+        storeB: normalizeStoreUrl(b.storeUrl),
+        suggestions: suggestions.slice(offset, offset + limit),
+        total: suggestions.length,
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Match Suggestions Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * GET /
+   * List the user's confirmed and rejected matches
+   */
+  app.get('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { status, limit, offset } = listQuerySchema.parse(request.query);
+      const userId = request.user?.id;
+
+      let query = supabase
+        .from('product_matches')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data: matches, count, error } = await query;
+
+      if (error) {
+        console.error('[List Matches Error]', error);
+        return reply.status(500).send({ error: 'Failed to fetch matches' });
+      }
+
+      return reply.send({ matches: matches || [], total: count || 0 });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[List Matches Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * POST /
+   * Confirm or reject a pair of products from two scrapes
+   * Decisions are kept per store, so they apply to later scrapes too.
+   */
+  app.post('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { jobA, productA, jobB, productB, status } = decisionSchema.parse(request.body);
+      const userId = request.user!.id;
+
+      const pair = await loadJobPair(userId, jobA, jobB);
+      if (!pair.ok) {
+        return reply.status(pair.status).send({ error: pair.error });
+      }
+
+      const [a, b] = pair.catalogues;
+      const first = a.products.find(product => product.id === productA);
+      const second = b.products.find(product => product.id === productB);
+
+      if (!first || !second) {
+        return reply.status(404).send({ error: 'Product not found in these scrapes' });
+      }
+
+      const match = await saveMatchDecision(
+        userId,
+        { storeUrl: a.storeUrl, product: first },
+        { storeUrl: b.storeUrl, product: second },
+        status
+      );
+
+      return reply.send({ match });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Save Match Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * DELETE /:id
+   * Forget a decision; the pair can be suggested again
+   */
+  app.delete('/:id', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const userId = request.user?.id;
+
+      const { data, error } = await supabase
+        .from('product_matches')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) {
+        console.error('[Delete Match Error]', error);
+        return reply.status(500).send({ error: 'Failed to delete match' });
+      }
+
+      if (!data || data.length === 0) {
+        return reply.status(404).send({ error: 'Match not found' });
+      }
+
+      return reply.send({ success: true });
+    } catch (err) {
+      console.error('[Delete Match Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
@@ -0,0 +1,176 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { supabase } from '../utils/supabase';
+import { authMiddleware, requireScopeByMethod, AuthenticatedRequest } from '../middleware/auth';
+import { estimateCatalogueSize, normalizeStoreUrl, validateShopifyStore } from '../services/shopifyScraper';
+import { checkScrapeCredits, lastKnownCatalogueSize, priceForCatalogue } from '../services/scrapeBilling';
+import { nextRunAfter } from '../services/monitorScheduler';
+
+// Between hourly and weekly
+const monitorSchema = z.object({
+  url: z.string().min(1, 'URL is required'),
+  intervalHours: z.number().int().min(1).max(168),
+});
+
+export async function monitorRoutes(app: FastifyInstance) {
+  // Apply auth middleware to all routes
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', requireScopeByMethod('scrape'));
+
+  /**
+   * GET /
+   * List the user's store monitors
+   */
+  app.get('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const userId = request.user?.id;
+
+      const { data: monitors, error } = await supabase
+        .from('store_monitors')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('[List Monitors Error]', error);
+        return reply.status(500).send({ error: 'Failed to fetch monitors' });
+      }
+
+      return reply.send({ monitors: monitors || [] });
+    } catch (err) {
+      console.error('[List Monitors Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * POST /
+   * Monitor a store, or change the interval of an existing monitor
+   * Saving a paused monitor resumes it.
+   */
+  app.post('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { url, intervalHours } = monitorSchema.parse(request.body);
+      const userId = request.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: 'Unauthorized' });
+      }
+
+      // Runs are priced by catalogue size: check against the size the last
+      // scrape found, or a fresh estimate for a store never scraped
+      const storeUrl = normalizeStoreUrl(url);
+      const catalogueSize = await lastKnownCatalogueSize(storeUrl)
+        ?? (await estimateCatalogueSize(storeUrl))?.count;
+      const price = priceForCatalogue(catalogueSize);
+
+      const credits = await checkScrapeCredits(userId, price);
+      if (!credits.ok) {
+        return reply.status(403).send({
+          error: 'Insufficient credits',
+          credits_needed: price,
+          credits_available: credits.available,
+        });
+      }
+
+      const now = new Date();
+      const schedule = {
+        interval_hours: intervalHours,
+        status: 'active',
+        paused_reason: null,
+        next_run_at: nextRunAfter(now, intervalHours),
+        updated_at: now.toISOString(),
+      };
+
+      const { data: existing } = await supabase
+        .from('store_monitors')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('store_url', storeUrl)
+        .maybeSingle();
+
+      if (existing) {
+        const { data: monitor, error } = await supabase
+          .from('store_monitors')
+          .update(schedule)
+          .eq('id', existing.id)
+          .select()
+          .single();
+
+        if (error || !monitor) {
+          console.error('[Update Monitor Error]', error);
+          return reply.status(500).send({ error: 'Failed to update monitor' });
+        }
+
+        return reply.send(monitor);
+      }
+
+      const validation = await validateShopifyStore(url);
+      if (!validation.isValid) {
+        return reply.status(400).send({
+          error: 'Invalid store',
+          message: validation.message,
+        });
+      }
+
+      const { data: monitor, error } = await supabase
+        .from('store_monitors')
+        .insert({
+          ...schedule,
+          user_id: userId,
+          store_url: validation.url,
+          store_name: validation.storeName,
+        })
+        .select()
+        .single();
+
+      if (error || !monitor) {
+        console.error('[Create Monitor Error]', error);
+        return reply.status(500).send({ error: 'Failed to create monitor' });
+      }
+
+      return reply.status(201).send(monitor);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Save Monitor Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * DELETE /:id
+   * Stop monitoring a store (past scrapes are kept)
+   */
+  app.delete('/:id', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const userId = request.user?.id;
+
+      const { data, error } = await supabase
+        .from('store_monitors')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) {
+        console.error('[Delete Monitor Error]', error);
+        return reply.status(500).send({ error: 'Failed to delete monitor' });
+      }
+
+      if (!data || data.length === 0) {
+        return reply.status(404).send({ error: 'Monitor not found' });
+      }
+
+      return reply.send({ success: true });
+    } catch (err) {
+      console.error('[Delete Monitor Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
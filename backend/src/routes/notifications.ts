@@ -0,0 +1,173 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { supabase } from '../utils/supabase';
+import { authMiddleware, requireScopeByMethod, AuthenticatedRequest } from '../middleware/auth';
+
+const listQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  unread: z.enum(['true', 'false']).optional(),
+});
+
+const pushTokenSchema = z.object({
+  // ExponentPushToken[xxxx] or ExpoPushToken[xxxx]
+  token: z.string().regex(/^Expo(nent)?PushToken\[.+\]$/, 'Invalid Expo push token'),
+  platform: z.enum(['ios', 'android']).optional(),
+});
+
+export async function notificationRoutes(app: FastifyInstance) {
+  // Apply auth middleware to all routes
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', requireScopeByMethod('read'));
+
+  /**
+   * GET /
+   * List the user's notifications, newest first
+   */
+  app.get('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { limit, unread } = listQuerySchema.parse(request.query);
+      const userId = request.user?.id;
+
+      let query = supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (unread === 'true') {
+        query = query.is('read_at', null);
+      }
+
+      const { data: notifications, error } = await query;
+
+      if (error) {
+        console.error('[List Notifications Error]', error);
+        return reply.status(500).send({ error: 'Failed to fetch notifications' });
+      }
+
+      const { count } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null);
+
+      return reply.send({
+        notifications: notifications || [],
+        unread_count: count || 0,
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[List Notifications Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * POST /read
+   * Mark notifications as read (all of them when no ids are given)
+   */
+  app.post('/read', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { ids } = z.object({ ids: z.array(z.string().uuid()).max(100).optional() })
+        .parse(request.body || {});
+      const userId = request.user?.id;
+
+      let query = supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('read_at', null);
+
+      if (ids) {
+        query = query.in('id', ids);
+      }
+
+      const { error } = await query;
+
+      if (error) {
+        console.error('[Read Notifications Error]', error);
+        return reply.status(500).send({ error: 'Failed to update notifications' });
+      }
+
+      return reply.send({ success: true });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Read Notifications Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * POST /push-tokens
+   * Register a device's Expo push token
+   */
+  app.post('/push-tokens', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { token, platform } = pushTokenSchema.parse(request.body);
+      const userId = request.user?.id;
+
+      // A device that changes accounts moves its token to the new user
+      const { error } = await supabase
+        .from('push_tokens')
+        .upsert(
+          { user_id: userId, token, platform, updated_at: new Date().toISOString() },
+          { onConflict: 'token' }
+        );
+
+      if (error) {
+        console.error('[Register Push Token Error]', error);
+        return reply.status(500).send({ error: 'Failed to register push token' });
+      }
+
+      return reply.send({ success: true });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Register Push Token Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * DELETE /push-tokens
+   * Unregister a device (e.g. on sign out)
+   */
+  app.delete('/push-tokens', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { token } = pushTokenSchema.pick({ token: true }).parse(request.body);
+      const userId = request.user?.id;
+
+      await supabase
+        .from('push_tokens')
+        .delete()
+        .eq('user_id', userId)
+        .eq('token', token);
+
+      return reply.send({ success: true });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Unregister Push Token Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
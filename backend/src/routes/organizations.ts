@@ -0,0 +1,470 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { supabase } from '../utils/supabase';
+import { authMiddleware, requireSession, AuthenticatedRequest } from '../middleware/auth';
+import {
+  INVITE_TTL_DAYS,
+  canManageOrganization,
+  getMembership,
+  sendInviteEmail,
+} from '../services/organizations';
+import { OrganizationInvite } from '../types';
+
+const organizationSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+});
+
+const inviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Invalid email'),
+  role: z.enum(['admin', 'member']).default('member'),
+});
+
+const memberRoleSchema = z.object({
+  role: z.enum(['owner', 'admin', 'member']),
+});
+
+async function countOwners(organizationId: string) {
+  const { count } = await supabase
+    .from('organization_members')
+    .select('user_id', { count: 'exact', head: true })
+    .eq('organization_id', organizationId)
+    .eq('role', 'owner');
+
+  return count || 0;
+}
+
+export async function organizationRoutes(app: FastifyInstance) {
+  // Membership shares a wallet, so it is managed from the app rather than with API keys
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', requireSession);
+
+  /**
+   * GET /
+   * The user's organization with its members and pending invites,
+   * plus invitations addressed to the user
+   */
+  app.get('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const userId = request.user?.id;
+      const email = request.user?.email?.toLowerCase() || '';
+
+      const { data: invitations } = await supabase
+        .from('organization_invites')
+        .select('id, role, expires_at, created_at, organizations(id, name)')
+        .eq('email', email)
+        .is('accepted_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false });
+
+      const membership = await getMembership(userId!);
+      if (!membership) {
+        return reply.send({ organization: null, invitations: invitations || [] });
+      }
+
+      const { organization, role } = membership;
+
+      const { data: members, error } = await supabase
+        .from('organization_members')
+        .select('user_id, role, created_at, users(email)')
+        .eq('organization_id', organization.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('[Get Organization Error]', error);
+        return reply.status(500).send({ error: 'Failed to fetch organization' });
+      }
+
+      const { data: invites } = canManageOrganization(role)
+        ? await supabase
+            .from('organization_invites')
+            .select('*')
+            .eq('organization_id', organization.id)
+            .is('accepted_at', null)
+            .gt('expires_at', new Date().toISOString())
+            .order('created_at', { ascending: false })
+        : { data: [] };
+
+      return reply.send({
+        organization,
+        role,
+        members: (members || []).map(({ users, ...member }: any) => ({
+          ...member,
+          email: users?.email || null,
+        })),
+        invites: invites || [],
+        invitations: invitations || [],
+      });
+    } catch (err) {
+      console.error('[Get Organization Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * POST /
+   * Create an organization; the creator becomes its owner
+   */
+  app.post('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { name } = organizationSchema.parse(request.body);
+      const userId = request.user?.id;
+
+      if (await getMembership(userId!)) {
+        return reply.status(409).send({ error: 'You already belong to an organization' });
+      }
+
+      const { data: organization, error } = await supabase
+        .from('organizations')
+        .insert({ name, created_by: userId })
+        .select()
+        .single();
+
+      if (error || !organization) {
+        console.error('[Create Organization Error]', error);
+        return reply.status(500).send({ error: 'Failed to create organization' });
+      }
+
+      const { error: memberError } = await supabase
+        .from('organization_members')
+        .insert({ organization_id: organization.id, user_id: userId, role: 'owner' });
+
+      if (memberError) {
+        // Lost a race with another create or an invite acceptance
+        await supabase.from('organizations').delete().eq('id', organization.id);
+        console.error('[Create Organization Error]', memberError);
+        return reply.status(409).send({ error: 'You already belong to an organization' });
+      }
+
+      return reply.status(201).send({ organization, role: 'owner' });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Create Organization Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * PATCH /
+   * Rename the organization (owners and admins)
+   */
+  app.patch('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { name } = organizationSchema.parse(request.body);
+      const userId = request.user?.id;
+
+      const membership = await getMembership(userId!);
+      if (!membership) {
+        return reply.status(404).send({ error: 'Organization not found' });
+      }
+      if (!canManageOrganization(membership.role)) {
+        return reply.status(403).send({ error: 'Only owners and admins can rename the organization' });
+      }
+
+      const { data: organization, error } = await supabase
+        .from('organizations')
+        .update({ name, updated_at: new Date().toISOString() })
+        .eq('id', membership.organization.id)
+        .select()
+        .single();
+
+      if (error || !organization) {
+        console.error('[Update Organization Error]', error);
+        return reply.status(500).send({ error: 'Failed to update organization' });
+      }
+
+      return reply.send({ organization });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Update Organization Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * POST /invites
+   * Invite someone by email (owners and admins)
+   */
+  app.post('/invites', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { email, role } = inviteSchema.parse(request.body);
+      const userId = request.user?.id;
+
+      const membership = await getMembership(userId!);
+      if (!membership) {
+        return reply.status(404).send({ error: 'Organization not found' });
+      }
+      if (!canManageOrganization(membership.role)) {
+        return reply.status(403).send({ error: 'Only owners and admins can invite members' });
+      }
+
+      const { organization } = membership;
+
+      const { data: existingUser } = await supabase
+        .from('users')
+        .select('id')
+        .eq('email', email)
+        .maybeSingle();
+
+      if (existingUser && await getMembership(existingUser.id)) {
+        return reply.status(409).send({ error: 'This person already belongs to an organization' });
+      }
+
+      const { data: invite, error } = await supabase
+        .from('organization_invites')
+        .insert({
+          organization_id: organization.id,
+          email,
+          role,
+          invited_by: userId,
+          expires_at: new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error?.code === '23505') {
+        return reply.status(409).send({ error: 'This email already has a pending invitation' });
+      }
+
+      if (error || !invite) {
+        console.error('[Create Invite Error]', error);
+        return reply.status(500).send({ error: 'Failed to create invitation' });
+      }
+
+      const emailSent = await sendInviteEmail(
+        invite as OrganizationInvite,
+        organization.name,
+        request.user?.email
+      );
+
+      return reply.status(201).send({ invite, email_sent: emailSent });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Create Invite Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * DELETE /invites/:id
+   * Withdraw a pending invitation (owners and admins)
+   */
+  app.delete('/invites/:id', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const userId = request.user?.id;
+
+      const membership = await getMembership(userId!);
+      if (!membership || !canManageOrganization(membership.role)) {
+        return reply.status(404).send({ error: 'Invitation not found' });
+      }
+
+      const { data, error } = await supabase
+        .from('organization_invites')
+        .delete()
+        .eq('id', id)
+        .eq('organization_id', membership.organization.id)
+        .is('accepted_at', null)
+        .select('id');
+
+      if (error) {
+        console.error('[Delete Invite Error]', error);
+        return reply.status(500).send({ error: 'Failed to delete invitation' });
+      }
+
+      if (!data || data.length === 0) {
+        return reply.status(404).send({ error: 'Invitation not found' });
+      }
+
+      return reply.send({ success: true });
+    } catch (err) {
+      console.error('[Delete Invite Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * POST /invites/:id/accept
+   * Join the organization an invitation addressed to the user is for
+   */
+  app.post('/invites/:id/accept', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const userId = request.user?.id;
+      const email = request.user?.email?.toLowerCase() || '';
+
+      const { data: invite } = await supabase
+        .from('organization_invites')
+        .select('*')
+        .eq('id', id)
+        .eq('email', email)
+        .is('accepted_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+      if (!invite) {
+        return reply.status(404).send({ error: 'Invitation not found or expired' });
+      }
+
+      if (await getMembership(userId!)) {
+        return reply.status(409).send({ error: 'Leave your current organization before joining another' });
+      }
+
+      const { error } = await supabase
+        .from('organization_members')
+        .insert({ organization_id: invite.organization_id, user_id: userId, role: invite.role });
+
+      if (error) {
+        console.error('[Accept Invite Error]', error);
+        return reply.status(409).send({ error: 'Failed to join organization' });
+      }
+
+      await supabase
+        .from('organization_invites')
+        .update({ accepted_at: new Date().toISOString() })
+        .eq('id', invite.id);
+
+      const membership = await getMembership(userId!);
+      return reply.send({ organization: membership?.organization, role: invite.role });
+    } catch (err) {
+      console.error('[Accept Invite Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * PATCH /members/:memberId
+   * Change a member's role (owners only)
+   */
+  app.patch('/members/:memberId', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { memberId } = request.params as { memberId: string };
+      const { role } = memberRoleSchema.parse(request.body);
+      const userId = request.user?.id;
+
+      const membership = await getMembership(userId!);
+      if (!membership) {
+        return reply.status(404).send({ error: 'Organization not found' });
+      }
+      if (membership.role !== 'owner') {
+        return reply.status(403).send({ error: 'Only owners can change roles' });
+      }
+
+      const organizationId = membership.organization.id;
+
+      const { data: member } = await supabase
+        .from('organization_members')
+        .select('role')
+        .eq('organization_id', organizationId)
+        .eq('user_id', memberId)
+        .maybeSingle();
+
+      if (!member) {
+        return reply.status(404).send({ error: 'Member not found' });
+      }
+
+      if (member.role === 'owner' && role !== 'owner' && await countOwners(organizationId) <= 1) {
+        return reply.status(400).send({ error: 'An organization needs at least one owner' });
+      }
+
+      const { data: updated, error } = await supabase
+        .from('organization_members')
+        .update({ role })
+        .eq('organization_id', organizationId)
+        .eq('user_id', memberId)
+        .select()
+        .single();
+
+      if (error || !updated) {
+        console.error('[Update Member Error]', error);
+        return reply.status(500).send({ error: 'Failed to update member' });
+      }
+
+      return reply.send(updated);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Update Member Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * DELETE /members/:memberId
+   * Remove a member, or leave when memberId is the user's own id
+   * Admins can remove members; only owners can remove admins and owners.
+   */
+  app.delete('/members/:memberId', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { memberId } = request.params as { memberId: string };
+      const userId = request.user?.id;
+
+      const membership = await getMembership(userId!);
+      if (!membership) {
+        return reply.status(404).send({ error: 'Organization not found' });
+      }
+
+      const organizationId = membership.organization.id;
+
+      const { data: member } = await supabase
+        .from('organization_members')
+        .select('role')
+        .eq('organization_id', organizationId)
+        .eq('user_id', memberId)
+        .maybeSingle();
+
+      if (!member) {
+        return reply.status(404).send({ error: 'Member not found' });
+      }
+
+      const isSelf = memberId === userId;
+      const allowed = isSelf
+        || membership.role === 'owner'
+        || (membership.role === 'admin' && member.role === 'member');
+
+      if (!allowed) {
+        return reply.status(403).send({ error: 'You do not have permission to remove this member' });
+      }
+
+      if (member.role === 'owner' && await countOwners(organizationId) <= 1) {
+        return reply.status(400).send({
+          error: 'An organization needs at least one owner. Make someone else an owner first.'
+        });
+      }
+
+      const { error } = await supabase
+        .from('organization_members')
+        .delete()
+        .eq('organization_id', organizationId)
+        .eq('user_id', memberId);
+
+      if (error) {
+        console.error('[Remove Member Error]', error);
+        return reply.status(500).send({ error: 'Failed to remove member' });
+      }
+
+      return reply.send({ success: true });
+    } catch (err) {
+      console.error('[Remove Member Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
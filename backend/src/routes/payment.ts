@@ -1,19 +1,36 @@
 import { FastifyInstance } from 'fastify';
+import { randomUUID } from 'crypto';
 import { z } from 'zod';
 import { supabase } from '../utils/supabase';
-import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { authMiddleware, requireScope, AuthenticatedRequest } from '../middleware/auth';
+import { getMembership } from '../services/organizations';
+import { creditPurchase, isPosted, postCreditEntry, walletFor } from '../services/creditLedger';
+import { paymentProvider } from '../services/paymentProviders';
 
 const purchaseSchema = z.object({
   planId: z.string(),
+  // Credit the organization wallet instead of the user's own balance
+  organizationId: z.string().uuid().optional(),
 });
 
+// The app knows its transaction id (from the success redirect); older
+// clients sent the provider's payment id instead
 const verifyPaymentSchema = z.object({
-  paymentId: z.string(),
+  transactionId: z.string().uuid().optional(),
+  paymentId: z.string().optional(),
+}).refine(body => body.transactionId || body.paymentId, {
+  message: 'transactionId or paymentId is required',
 });
 
-// Dodo Payments configuration
-const DODO_API_KEY = process.env.DODO_API_KEY || '';
-const DODO_API_URL = process.env.DODO_API_URL || 'https://api.dodopayments.com/v1';
+const ledgerQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+const deductCreditsSchema = z.object({
+  amount: z.number().int().positive(),
+  // Retrying with the same key never charges twice
+  idempotencyKey: z.string().min(1).max(200).optional(),
+});
 
 // Credit amounts per plan
 const planCredits: Record<string, number> = {
@@ -32,8 +49,10 @@ const planPrices: Record<string, number> = {
 export async function paymentRoutes(app: FastifyInstance) {
   // Apply auth middleware
   app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', requireScope('billing'));
 
   // Get user credits
+  // Organization members spend from the shared wallet, so `credits` is that balance
   app.get('/credits', async (request: AuthenticatedRequest, reply) => {
     try {
       const userId = request.user?.id;
@@ -48,19 +67,69 @@ export async function paymentRoutes(app: FastifyInstance) {
         return reply.status(404).send({ error: 'User not found' });
       }
 
+      const membership = await getMembership(userId!);
+
       return reply.send({
-        credits: user.credits,
+        credits: membership ? membership.organization.credits : user.credits,
+        personal_credits: user.credits,
         email: user.email,
+        organization: membership
+          ? {
+              id: membership.organization.id,
+              name: membership.organization.name,
+              role: membership.role,
+            }
+          : null,
       });
     } catch (err) {
       return reply.status(500).send({ error: 'Internal server error' });
     }
   });
 
-  // Create Dodo Payment
+  // Credit history for the wallet the user spends from, newest first
+  app.get('/ledger', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { limit } = ledgerQuerySchema.parse(request.query);
+      const userId = request.user?.id;
+      const account = await walletFor(userId!);
+
+      let query = supabase
+        .from('credit_ledger')
+        .select('id, user_id, amount, balance_after, kind, description, job_id, created_at')
+        .order('id', { ascending: false })
+        .limit(limit);
+
+      query = account.organizationId
+        ? query.eq('organization_id', account.organizationId)
+        : query.eq('user_id', account.userId).is('organization_id', null);
+
+      const { data: entries, error } = await query;
+
+      if (error) {
+        console.error('[Get Ledger Error]', error);
+        return reply.status(500).send({ error: 'Failed to fetch credit history' });
+      }
+
+      return reply.send({
+        entries: entries || [],
+        organization_id: account.organizationId,
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({ 
+          error: 'Validation failed', 
+          details: err.errors 
+        });
+      }
+      console.error('[Get Ledger Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Create a checkout link with the configured payment provider
   app.post('/create-payment', async (request: AuthenticatedRequest, reply) => {
     try {
-      const { planId } = purchaseSchema.parse(request.body);
+      const { planId, organizationId } = purchaseSchema.parse(request.body);
       const userId = request.user?.id;
       const userEmail = request.user?.email;
 
@@ -71,11 +140,20 @@ export async function paymentRoutes(app: FastifyInstance) {
         return reply.status(400).send({ error: 'Invalid plan' });
       }
 
+      // Any member can top up the shared wallet
+      if (organizationId) {
+        const membership = await getMembership(userId!);
+        if (membership?.organization.id !== organizationId) {
+          return reply.status(404).send({ error: 'Organization not found' });
+        }
+      }
+
       // Create pending transaction record
       const { data: transaction, error: transactionError } = await supabase
         .from('transactions')
         .insert({
           user_id: userId,
+          organization_id: organizationId || null,
           type: 'purchase',
           amount: creditsToAdd,
           plan_id: planId,
@@ -90,52 +168,41 @@ export async function paymentRoutes(app: FastifyInstance) {
         return reply.status(500).send({ error: 'Failed to create transaction' });
       }
 
-      // Create Dodo Payment Link
-      const paymentData = {
-        amount: amount,
-        currency: 'INR',
-        description: `DataFlow - ${planId} Pack (${creditsToAdd} credits)`,
-        customer_email: userEmail,
-        metadata: {
-          user_id: userId,
-          plan_id: planId,
-          credits: creditsToAdd,
-          transaction_id: transaction.id,
-        },
-        success_url: `dataflow://payment/success?txn=${transaction.id}`,
-        cancel_url: `dataflow://payment/cancel?txn=${transaction.id}`,
-      };
-
-      const response = await fetch(`${DODO_API_URL}/payment-links`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${DODO_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(paymentData),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error('[Dodo API Error]', errorData);
+      let checkout;
+      try {
+        checkout = await paymentProvider.createCheckout({
+          amount,
+          currency: 'INR',
+          description: `DataFlow - ${planId} Pack (${creditsToAdd} credits)`,
+          customerEmail: userEmail,
+          metadata: {
+            user_id: userId,
+            plan_id: planId,
+            credits: creditsToAdd,
+            transaction_id: transaction.id,
+            organization_id: organizationId || null,
+          },
+          successUrl: `dataflow://payment/success?txn=${transaction.id}`,
+          cancelUrl: `dataflow://payment/cancel?txn=${transaction.id}`,
+        });
+      } catch (err) {
+        console.error('[Create Payment Error]', err);
         return reply.status(500).send({ error: 'Failed to create payment link' });
       }
 
-      const dodoResponse = await response.json();
-
       // Update transaction with payment intent ID
       await supabase
         .from('transactions')
         .update({
-          payment_intent_id: dodoResponse.id,
+          payment_intent_id: checkout.id,
           description: `Payment initiated for ${planId} plan`,
         })
         .eq('id', transaction.id);
 
       return reply.send({
         success: true,
-        paymentLink: dodoResponse.short_url || dodoResponse.url,
-        paymentId: dodoResponse.id,
+        paymentLink: checkout.url,
+        paymentId: checkout.id,
         transactionId: transaction.id,
         amount: amount,
         currency: 'INR',
@@ -155,36 +222,49 @@ export async function paymentRoutes(app: FastifyInstance) {
   // Verify payment status (called by frontend after payment)
   app.post('/verify-payment', async (request: AuthenticatedRequest, reply) => {
     try {
-      const { paymentId } = verifyPaymentSchema.parse(request.body);
+      const { transactionId, paymentId } = verifyPaymentSchema.parse(request.body);
       const userId = request.user?.id;
 
-      // Check payment status with Dodo
-      const response = await fetch(`${DODO_API_URL}/payments/${paymentId}`, {
-        headers: {
-          'Authorization': `Bearer ${DODO_API_KEY}`,
-        },
-      });
+      let query = supabase
+        .from('transactions')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('type', 'purchase');
+
+      query = transactionId
+        ? query.eq('id', transactionId)
+        : query.eq('payment_intent_id', paymentId);
+
+      const { data: transaction } = await query.maybeSingle();
+
+      if (!transaction) {
+        return reply.status(404).send({ error: 'Transaction not found' });
+      }
 
-      if (!response.ok) {
+      if (!transaction.payment_intent_id) {
         return reply.status(400).send({ error: 'Invalid payment ID' });
       }
 
-      const paymentData = await response.json();
+      // Check payment status with the provider
+      const payment = await paymentProvider.getPayment(transaction.payment_intent_id);
+
+      if (!payment) {
+        return reply.status(400).send({ error: 'Invalid payment ID' });
+      }
 
-      if (paymentData.status === 'completed' || paymentData.status === 'success') {
-        // Get transaction details
-        const { data: transaction } = await supabase
-          .from('transactions')
-          .select('*')
-          .eq('payment_intent_id', paymentId)
-          .single();
+      if (payment.status === 'succeeded') {
+        const result = await creditPurchase(
+          transaction,
+          `Payment completed for ${transaction.plan_id} plan`
+        );
 
-        if (!transaction) {
-          return reply.status(404).send({ error: 'Transaction not found' });
+        if (!isPosted(result)) {
+          console.error('[Verify Payment Error] Ledger rejected purchase', transaction.id, result.status);
+          return reply.status(500).send({ error: 'Failed to add credits' });
         }
 
-        // Check if already processed
-        if (transaction.processed) {
+        // Already granted (by an earlier call or the webhook)
+        if (result.status === 'duplicate') {
           return reply.send({
             success: true,
             alreadyProcessed: true,
@@ -192,39 +272,15 @@ export async function paymentRoutes(app: FastifyInstance) {
           });
         }
 
-        // Get current user credits
-        const { data: user } = await supabase
-          .from('users')
-          .select('credits')
-          .eq('id', userId)
-          .single();
-
-        const newCredits = (user?.credits || 0) + transaction.amount;
-
-        // Update user credits
-        await supabase
-          .from('users')
-          .update({ credits: newCredits })
-          .eq('id', userId);
-
-        // Mark transaction as processed
-        await supabase
-          .from('transactions')
-          .update({
-            processed: true,
-            description: `Payment completed for ${transaction.plan_id} plan`,
-          })
-          .eq('id', transaction.id);
-
         return reply.send({
           success: true,
           credits_added: transaction.amount,
-          total_credits: newCredits,
+          total_credits: result.balance,
         });
       } else {
         return reply.status(400).send({
           success: false,
-          status: paymentData.status,
+          status: payment.status,
           message: 'Payment not completed yet',
         });
       }
@@ -240,108 +296,44 @@ export async function paymentRoutes(app: FastifyInstance) {
     }
   });
 
-  // Dodo Payments Webhook
-  app.post('/webhook', async (request, reply) => {
-    try {
-      const signature = request.headers['x-dodo-signature'] as string;
-      const payload = JSON.stringify(request.body);
-
-      // Verify webhook signature (optional but recommended)
-      // You can implement signature verification here if Dodo provides it
-
-      const event = request.body as any;
-
-      if (event.event_type === 'payment.completed') {
-        const payment = event.data;
-        const metadata = payment.metadata || {};
-        const { user_id, plan_id, credits, transaction_id } = metadata;
-
-        if (!user_id || !transaction_id) {
-          console.error('[Webhook Error] Missing metadata');
-          return reply.send({ received: true });
-        }
-
-        // Check if already processed
-        const { data: existingTransaction } = await supabase
-          .from('transactions')
-          .select('processed')
-          .eq('id', transaction_id)
-          .single();
-
-        if (existingTransaction?.processed) {
-          return reply.send({ received: true });
-        }
-
-        // Get current user credits
-        const { data: user } = await supabase
-          .from('users')
-          .select('credits')
-          .eq('id', user_id)
-          .single();
-
-        const newCredits = (user?.credits || 0) + (credits || planCredits[plan_id] || 0);
-
-        // Update user credits
-        await supabase
-          .from('users')
-          .update({ credits: newCredits })
-          .eq('id', user_id);
-
-        // Update transaction
-        await supabase
-          .from('transactions')
-          .update({
-            payment_intent_id: payment.id,
-            processed: true,
-            description: `Payment completed via webhook for ${plan_id} plan`,
-          })
-          .eq('id', transaction_id);
-
-        console.log(`[Webhook] Credits added for user ${user_id}: ${credits}`);
-      }
-
-      return reply.send({ received: true });
-    } catch (err) {
-      console.error('[Webhook Error]', err);
-      return reply.send({ received: true });
-    }
-  });
-
   // Deduct credits for scrape
   app.post('/deduct-credits', async (request: AuthenticatedRequest, reply) => {
     try {
-      const { amount } = request.body as { amount: number };
+      const { amount, idempotencyKey } = deductCreditsSchema.parse(request.body);
       const userId = request.user?.id;
 
-      const { data: user } = await supabase
-        .from('users')
-        .select('credits')
-        .eq('id', userId)
-        .single();
+      // Draws from the organization wallet for members
+      const result = await postCreditEntry({
+        account: await walletFor(userId!),
+        amount: -amount,
+        kind: 'usage',
+        idempotencyKey: idempotencyKey
+          ? `usage:${userId}:${idempotencyKey}`
+          : `usage:${randomUUID()}`,
+        description: 'Manual deduction',
+      });
 
-      if (!user || user.credits < amount) {
+      if (result.status === 'insufficient_credits') {
         return reply.status(403).send({ error: 'Insufficient credits' });
       }
 
-      const newCredits = user.credits - amount;
-
-      await supabase
-        .from('users')
-        .update({ credits: newCredits })
-        .eq('id', userId);
-
-      // Record transaction
-      await supabase.from('transactions').insert({
-        user_id: userId,
-        type: 'usage',
-        amount: -amount,
-      });
+      if (!isPosted(result)) {
+        return reply.status(404).send({ error: 'User not found' });
+      }
 
       return reply.send({
         success: true,
-        credits_remaining: newCredits,
+        duplicate: result.status === 'duplicate',
+        credits_remaining: result.balance,
       });
     } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({ 
+          error: 'Validation failed', 
+          details: err.errors 
+        });
+      }
+      console.error('[Deduct Credits Error]', err);
       return reply.status(500).send({ error: 'Internal server error' });
     }
   });
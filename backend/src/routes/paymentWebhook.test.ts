@@ -0,0 +1,147 @@
+import { test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import fastify from 'fastify';
+import { FakeSupabase, fakePostCreditEntry } from '../test/fakeSupabase';
+import { MockPaymentProvider } from '../services/paymentProviders';
+import { paymentWebhookRoutes } from './paymentWebhook';
+
+const USER_ID = 'user-1';
+const ACTIVE_EVENT = ['processing', 'processed', 'failed'];
+
+/**
+ * A payment API with the mock provider and a pending starter-pack purchase,
+ * as POST /payment/create-payment leaves it
+ */
+async function startCheckout(t: TestContext) {
+  const db = new FakeSupabase({ users: [{ id: USER_ID, credits: 0 }] })
+    .defaults('payment_webhook_events', () => ({ attempts: 1, claimed_at: new Date().toISOString() }))
+    .unique('payment_webhook_events', (row, values) =>
+      ACTIVE_EVENT.includes(row.status)
+      && ACTIVE_EVENT.includes(values.status)
+      && row.provider === values.provider
+      && row.event_id === values.event_id
+    )
+    .defineRpc('post_credit_entry', fakePostCreditEntry)
+    .install(t);
+
+  const provider = new MockPaymentProvider('http://localhost');
+  const app = fastify();
+  await app.register(paymentWebhookRoutes, { prefix: '/payment', provider });
+  t.after(() => app.close());
+
+  const transaction = db.insertRow('transactions', {
+    user_id: USER_ID,
+    organization_id: null,
+    type: 'purchase',
+    amount: 10,
+    plan_id: 'starter',
+    processed: false,
+  });
+  const checkout = await provider.createCheckout({
+    amount: 499,
+    currency: 'INR',
+    description: 'DataFlow - starter Pack (10 credits)',
+    metadata: {
+      user_id: USER_ID,
+      plan_id: 'starter',
+      credits: 10,
+      transaction_id: transaction.id,
+      organization_id: null,
+    },
+    successUrl: `dataflow://payment/success?txn=${transaction.id}`,
+    cancelUrl: `dataflow://payment/cancel?txn=${transaction.id}`,
+  });
+  transaction.payment_intent_id = checkout.id;
+
+  return { db, app, provider, transaction, checkout };
+}
+
+const credits = (db: FakeSupabase) => db.rows('users')[0].credits;
+
+test('completing a mock checkout delivers a signed webhook that grants the credits', async t => {
+  const { db, app, transaction, checkout } = await startCheckout(t);
+  assert.equal(checkout.url, `http://localhost/payment/mock/checkout/${checkout.id}`);
+
+  const response = await app.inject({ method: 'GET', url: `/payment/mock/checkout/${checkout.id}` });
+
+  assert.equal(response.statusCode, 302);
+  assert.equal(response.headers.location, `dataflow://payment/success?txn=${transaction.id}`);
+  assert.equal(credits(db), 10);
+  assert.deepEqual(db.rows('credit_ledger').map(entry => [entry.kind, entry.amount, entry.idempotency_key]), [
+    ['purchase', 10, `purchase:${transaction.id}`],
+  ]);
+  assert.equal(db.rows('transactions')[0].processed, true);
+  assert.equal(db.rows('transactions')[0].payment_intent_id, checkout.id);
+  assert.deepEqual(db.rows('payment_webhook_events').map(event => [event.provider, event.status]), [
+    ['mock', 'processed'],
+  ]);
+});
+
+test('redelivered webhooks never grant the credits twice', async t => {
+  const { db, app, provider, checkout } = await startCheckout(t);
+  await app.inject({ method: 'GET', url: `/payment/mock/checkout/${checkout.id}` });
+
+  const { headers, body } = provider.signedWebhook(checkout.id);
+  const deliver = () => app.inject({
+    method: 'POST',
+    url: '/payment/webhook',
+    headers: { ...headers, 'content-type': 'application/json' },
+    payload: body,
+  });
+
+  // A new event for the same payment is applied, but the ledger keys on the purchase
+  const another = await deliver();
+  assert.equal(another.statusCode, 200);
+  assert.deepEqual(another.json(), { received: true });
+
+  // The same event again is recorded as a duplicate and not applied
+  const repeat = await deliver();
+  assert.equal(repeat.statusCode, 200);
+  assert.deepEqual(repeat.json(), { received: true, duplicate: true });
+
+  assert.equal(credits(db), 10);
+  assert.equal(db.rows('credit_ledger').length, 1);
+  assert.deepEqual(db.rows('payment_webhook_events').map(event => event.status), [
+    'processed',
+    'processed',
+    'duplicate',
+  ]);
+});
+
+test('a failed mock checkout sends the customer back without credits', async t => {
+  const { db, app, transaction, checkout } = await startCheckout(t);
+
+  const response = await app.inject({ method: 'GET', url: `/payment/mock/checkout/${checkout.id}?outcome=fail` });
+
+  assert.equal(response.statusCode, 302);
+  assert.equal(response.headers.location, `dataflow://payment/cancel?txn=${transaction.id}`);
+  assert.equal(credits(db), 0);
+  assert.equal(db.rows('payment_webhook_events').length, 0);
+});
+
+test('a webhook with a forged signature is rejected and kept for auditing', async t => {
+  const { db, app, provider, checkout } = await startCheckout(t);
+  provider.checkout(checkout.id);
+
+  const { headers, body } = provider.signedWebhook(checkout.id);
+  const response = await app.inject({
+    method: 'POST',
+    url: '/payment/webhook',
+    headers: { ...headers, 'content-type': 'application/json' },
+    payload: body.replace('"metadata":{', '"metadata":{"credits":1000,'),
+  });
+
+  assert.equal(response.statusCode, 401);
+  assert.equal(credits(db), 0);
+  assert.deepEqual(db.rows('payment_webhook_events').map(event => [event.status, event.error]), [
+    ['rejected', 'Signature mismatch'],
+  ]);
+});
+
+test('an unknown mock payment is not found', async t => {
+  const { app } = await startCheckout(t);
+
+  const response = await app.inject({ method: 'GET', url: '/payment/mock/checkout/mock_pay_unknown' });
+
+  assert.equal(response.statusCode, 404);
+});
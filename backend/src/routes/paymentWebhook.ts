@@ -0,0 +1,172 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { supabase } from '../utils/supabase';
+import { creditPurchase, isPosted } from '../services/creditLedger';
+import { claimWebhookEvent, finishWebhookEvent, recordRejectedWebhook } from '../services/paymentWebhooks';
+import {
+  MockPaymentProvider,
+  PaymentEvent,
+  PaymentProvider,
+  paymentProvider,
+} from '../services/paymentProviders';
+
+const mockCheckoutSchema = z.object({
+  outcome: z.enum(['succeed', 'fail', 'cancel']).default('succeed'),
+});
+
+interface RawBodyRequest extends FastifyRequest {
+  rawBody?: string;
+}
+
+/**
+ * Apply a verified payment event
+ * Throws when it should be retried; events that can never apply are just logged.
+ */
+async function handlePaymentEvent(event: PaymentEvent) {
+  if (event.type !== 'payment.completed' || !event.payment) return;
+
+  const { payment } = event;
+  const { user_id, plan_id, transaction_id } = payment.metadata;
+
+  if (!user_id || !transaction_id) {
+    console.error('[Webhook Error] Missing metadata');
+    return;
+  }
+
+  // Amount and wallet come from our own record, not the event
+  const { data: transaction } = await supabase
+    .from('transactions')
+    .select('*')
+    .eq('id', transaction_id)
+    .eq('user_id', user_id)
+    .single();
+
+  if (!transaction) {
+    console.error('[Webhook Error] Unknown transaction', transaction_id);
+    return;
+  }
+
+  const result = await creditPurchase(
+    transaction,
+    `Payment completed via webhook for ${plan_id} plan`,
+    payment.id
+  );
+
+  if (!isPosted(result)) {
+    throw new Error(`Ledger rejected purchase ${transaction.id}: ${result.status}`);
+  }
+
+  if (result.status === 'applied') {
+    console.log(`[Webhook] Credits added for transaction ${transaction.id}: ${transaction.amount}`);
+  }
+}
+
+/**
+ * Payment provider webhooks (and the mock provider's checkout page)
+ * Registered apart from paymentRoutes: the provider authenticates with a
+ * signature over the raw body, not a user session.
+ */
+export async function paymentWebhookRoutes(
+  app: FastifyInstance,
+  options: { provider?: PaymentProvider } = {}
+) {
+  const provider = options.provider || paymentProvider;
+
+  // Keep the exact bytes that were signed alongside the parsed body
+  app.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+    (request as RawBodyRequest).rawBody = body as string;
+    try {
+      done(null, body ? JSON.parse(body as string) : {});
+    } catch (err: any) {
+      err.statusCode = 400;
+      done(err, undefined);
+    }
+  });
+
+  app.post('/webhook', async (request: RawBodyRequest, reply) => {
+    const rawBody = request.rawBody || '';
+    const header = (name: string) => request.headers[name] as string | undefined;
+    const headers = {
+      id: header('webhook-id'),
+      timestamp: header('webhook-timestamp'),
+      signature: header('webhook-signature'),
+    };
+
+    try {
+      const verification = provider.verifyWebhook(headers, rawBody);
+      if (!verification.ok) {
+        console.warn('[Webhook] Rejected:', verification.reason);
+        await recordRejectedWebhook(provider.name, headers.id || null, rawBody, verification.reason);
+        if (verification.reason === 'Webhook secret not configured') {
+          return reply.status(503).send({ error: 'Webhooks are not configured' });
+        }
+        // Signed by the provider, but not an event we can read
+        if (verification.reason === 'Malformed body') {
+          return reply.status(400).send({ error: 'Malformed webhook body' });
+        }
+        return reply.status(401).send({ error: 'Invalid webhook signature' });
+      }
+
+      const { eventId, event } = verification;
+      const claimed = await claimWebhookEvent(provider.name, eventId, event.type || null, rawBody);
+      if (!claimed) {
+        return reply.send({ received: true, duplicate: true });
+      }
+
+      try {
+        await handlePaymentEvent(event);
+        await finishWebhookEvent(provider.name, eventId);
+      } catch (err: any) {
+        console.error('[Webhook Error]', err);
+        await finishWebhookEvent(provider.name, eventId, err.message || 'Processing failed');
+        // A non-2xx response makes the provider redeliver; the retry reclaims the failed event
+        return reply.status(500).send({ error: 'Failed to process webhook' });
+      }
+
+      return reply.send({ received: true });
+    } catch (err) {
+      console.error('[Webhook Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Stands in for the hosted checkout page in development (PAYMENT_PROVIDER=mock):
+  // settles the payment, sends its webhook, and redirects back to the app
+  if (provider instanceof MockPaymentProvider) {
+    app.get('/mock/checkout/:paymentId', async (request, reply) => {
+      try {
+        const { paymentId } = request.params as { paymentId: string };
+        const { outcome } = mockCheckoutSchema.parse(request.query);
+
+        const redirectUrl = provider.checkout(paymentId, outcome);
+        if (!redirectUrl) {
+          return reply.status(404).send({ error: 'Payment not found' });
+        }
+
+        if (outcome === 'succeed') {
+          const { headers, body } = provider.signedWebhook(paymentId);
+          const delivery = await app.inject({
+            method: 'POST',
+            url: `${app.prefix}/webhook`,
+            headers: { ...headers, 'content-type': 'application/json' },
+            payload: body,
+          });
+          if (delivery.statusCode >= 400) {
+            console.error('[Mock Checkout] Webhook delivery failed:', delivery.body);
+          }
+        }
+
+        return reply.redirect(redirectUrl);
+      } catch (err) {
+        if (err instanceof z.ZodError) {
+          return reply.status(400).send({ 
+            error: 'Validation failed', 
+            details: err.errors 
+          });
+        }
+        console.error('[Mock Checkout Error]', err);
+        return reply.status(500).send({ error: 'Internal server error' });
+      }
+    });
+  }
+}
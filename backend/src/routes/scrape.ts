@@ -1,13 +1,45 @@
 import { FastifyInstance } from 'fastify';
+import { randomUUID } from 'crypto';
 import { z } from 'zod';
 import { supabase } from '../utils/supabase';
-import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
-import { generateCSVFromProducts } from '../utils/csv';
+import { authMiddleware, requireScopeByMethod, AuthenticatedRequest } from '../middleware/auth';
+import {
+  generateCSVFromProducts,
+  generateCSVWithTemplate,
+  generateShopifyCSVFromProducts,
+} from '../utils/csv';
+import { generateXLSXFromProducts } from '../utils/xlsx';
+import { streamProductsJSON, streamProductsNDJSON } from '../utils/jsonExport';
+import { jobQueue } from '../services/jobQueue';
+import {
+  CREDITS_PER_SCRAPE,
+  QUOTE_TTL_MINUTES,
+  cancelReservation,
+  createQuote,
+  findQuote,
+  isQuoteExpired,
+  priceForCatalogue,
+  pricingTiers,
+  remainingJobCost,
+  reservationColumns,
+  reserveScrapeCredits,
+} from '../services/scrapeBilling';
+import { visibleJobsFilter } from '../services/organizations';
+import { analyzeCatalogue } from '../services/catalogueAnalytics';
+import {
+  decodeCursor,
+  effectiveOrder,
+  effectiveSort,
+  PRODUCT_SORTS,
+  productFacets,
+  searchProducts,
+} from '../services/productSearch';
+import { ScrapeJob } from '../types';
 import { 
   validateShopifyStore, 
-  scrapeShopifyProducts, 
   generateScrapeSummary,
   normalizeStoreUrl,
+  fetchCollections,
 } from '../services/shopifyScraper';
 
 // Validation schemas
@@ -15,13 +47,79 @@ const validateStoreSchema = z.object({
   url: z.string().min(1, 'URL is required'),
 });
 
+const downloadQuerySchema = z.object({
+  format: z.enum(['csv', 'shopify', 'xlsx', 'json', 'ndjson']).default('csv'),
+  template: z.string().uuid().optional(),
+});
+
+const productsQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  vendor: z.string().optional(),
+  product_type: z.string().optional(),
+  tag: z.string().optional(),
+  min_price: z.coerce.number().min(0).optional(),
+  max_price: z.coerce.number().min(0).optional(),
+  on_sale: z.enum(['true', 'false']).transform(value => value === 'true').optional(), // Query strings carry text
+  sort: z.enum(PRODUCT_SORTS).optional(),
+  order: z.enum(['asc', 'desc']).default('asc'),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+}).refine(
+  query => query.min_price === undefined || query.max_price === undefined || query.min_price <= query.max_price,
+  { message: 'min_price must not be greater than max_price', path: ['min_price'] }
+);
+
 const startScrapeSchema = z.object({
   url: z.string().min(1, 'URL is required'),
+  collections: z.array(z.string().min(1)).max(50).optional(),
+  // Price quoted by /validate-store; without one the store is priced now
+  quoteId: z.string().uuid().optional(),
 });
 
+const SSE_POLL_INTERVAL_MS = 1000;
+const SSE_KEEPALIVE_MS = 15000;
+const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled'];
+const CANCELLABLE_STATUSES = ['pending', 'running'];
+const RETRYABLE_STATUSES = ['failed', 'cancelled'];
+
+/**
+ * A job can be resumed when it stopped early with at least one page checkpointed
+ */
+function isResumable(job: ScrapeJob) {
+  if (job.status === 'completed') return !!job.is_partial;
+  return RETRYABLE_STATUSES.includes(job.status) && (job.last_page || 0) > 0;
+}
+
+/**
+ * Shape of a progress event, shared by /status and the SSE stream
+ */
+function toProgressEvent(job: ScrapeJob) {
+  return {
+    status: job.status,
+    phase: job.progress_phase || 'queued',
+    page: job.progress_page || 0,
+    products: job.progress_products || 0,
+    eta_seconds: job.progress_eta_seconds ?? null,
+  };
+}
+
+/**
+ * What a job has cost so far and why, shared by /status and the SSE stream
+ */
+function toBillingSummary(job: ScrapeJob) {
+  return {
+    price: job.credits_price ?? CREDITS_PER_SCRAPE,
+    reserved: job.credits_reserved || 0,
+    charged: job.credits_spent || 0,
+    refunded: job.credits_refunded || 0,
+    note: job.billing_note || null,
+  };
+}
+
 export async function scrapeRoutes(app: FastifyInstance) {
   // Apply auth middleware to all routes
   app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', requireScopeByMethod('scrape'));
 
   /**
    * POST /validate-store
@@ -30,9 +128,32 @@ export async function scrapeRoutes(app: FastifyInstance) {
   app.post('/validate-store', async (request: AuthenticatedRequest, reply) => {
     try {
       const { url } = validateStoreSchema.parse(request.body);
-      const validation = await validateShopifyStore(url);
+      const userId = request.user?.id;
+      const validation = await validateShopifyStore(url, { estimateSize: true });
 
-      return reply.send(validation);
+      if (!validation.isValid) {
+        return reply.send(validation);
+      }
+
+      // Quote the scrape by catalogue size; /start honours it until it expires
+      const quote = await createQuote(
+        userId!,
+        validation.url,
+        validation.productCount !== undefined && validation.estimateSource
+          ? { count: validation.productCount, source: validation.estimateSource }
+          : null
+      );
+
+      return reply.send({
+        ...validation,
+        quote: {
+          id: quote.id,
+          credits: quote.credits,
+          product_estimate: quote.product_estimate,
+          estimate_source: quote.estimate_source,
+          expires_at: quote.expires_at,
+        },
+      });
     } catch (err) {
       if (err instanceof z.ZodError) {
         return reply.status(400).send({ 
@@ -45,13 +166,47 @@ export async function scrapeRoutes(app: FastifyInstance) {
     }
   });
 
+  /**
+   * GET /pricing
+   * Credits per scrape by catalogue size
+   */
+  app.get('/pricing', async (request: AuthenticatedRequest, reply) => {
+    return reply.send({
+      tiers: pricingTiers,
+      unknown_size_credits: CREDITS_PER_SCRAPE,
+      quote_ttl_minutes: QUOTE_TTL_MINUTES,
+    });
+  });
+
+  /**
+   * POST /collections
+   * List a store's collections so the user can pick which to scrape
+   */
+  app.post('/collections', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { url } = validateStoreSchema.parse(request.body);
+      const collections = await fetchCollections(normalizeStoreUrl(url), { maxPages: 4 });
+
+      return reply.send({ collections });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({ 
+          error: 'Validation failed', 
+          details: err.errors 
+        });
+      }
+      console.error('[List Collections Error]', err);
+      return reply.status(502).send({ error: 'Unable to fetch collections from store' });
+    }
+  });
+
   /**
    * POST /start
    * Start a new scraping job
    */
   app.post('/start', async (request: AuthenticatedRequest, reply) => {
     try {
-      const { url } = startScrapeSchema.parse(request.body);
+      const { url, collections, quoteId } = startScrapeSchema.parse(request.body);
       const userId = request.user?.id;
 
       if (!userId) {
@@ -61,23 +216,8 @@ export async function scrapeRoutes(app: FastifyInstance) {
       // Normalize URL first
       const normalizedUrl = normalizeStoreUrl(url);
 
-      // Check user credits
-      const { data: userData } = await supabase
-        .from('users')
-        .select('credits')
-        .eq('id', userId)
-        .single();
-
-      if (!userData || userData.credits < 5) {
-        return reply.status(403).send({ 
-          error: 'Insufficient credits',
-          credits_needed: 5,
-          credits_available: userData?.credits || 0,
-        });
-      }
-
-      // Validate store before creating job
-      const validation = await validateShopifyStore(normalizedUrl);
+      // Validate store before creating job (sizing it too when there is no quote)
+      const validation = await validateShopifyStore(normalizedUrl, { estimateSize: !quoteId });
       if (!validation.isValid) {
         return reply.status(400).send({
           error: 'Invalid store',
@@ -85,31 +225,77 @@ export async function scrapeRoutes(app: FastifyInstance) {
         });
       }
 
+      let price = priceForCatalogue(validation.productCount);
+      let estimatedProducts = validation.productCount ?? null;
+
+      if (quoteId) {
+        const quote = await findQuote(quoteId, userId, validation.url);
+        if (!quote) {
+          return reply.status(404).send({ error: 'Quote not found' });
+        }
+        if (isQuoteExpired(quote)) {
+          return reply.status(409).send({
+            error: 'Quote expired',
+            expired_at: quote.expires_at,
+          });
+        }
+        price = quote.credits;
+        estimatedProducts = quote.product_estimate ?? null;
+      }
+
+      // Reserve the credits up front; they are refunded if the job fails
+      const jobId = randomUUID();
+      const credits = await reserveScrapeCredits(
+        userId,
+        jobId,
+        price,
+        `Scrape of ${validation.storeName}`
+      );
+      if (!credits.ok) {
+        return reply.status(403).send({ 
+          error: 'Insufficient credits',
+          credits_needed: price,
+          credits_available: credits.available,
+        });
+      }
+
       // Create scrape job
       const { data: job, error } = await supabase
         .from('scrape_jobs')
         .insert({
+          id: jobId,
           user_id: userId,
           store_url: validation.url,
           store_name: validation.storeName,
           status: 'pending',
+          collections_filter: collections?.length ? collections : null,
+          credits_price: price,
+          estimated_products: estimatedProducts,
+          quote_id: quoteId || null,
+          ...reservationColumns(credits.reservation),
         })
         .select()
         .single();
 
       if (error || !job) {
         console.error('[Create Job Error]', error);
+        await cancelReservation(credits.reservation, 'Scrape job could not be created');
         return reply.status(500).send({ error: 'Failed to create scrape job' });
       }
 
-      // Start scraping in background
-      processScrapeJob(job.id, validation.url, userId);
+      // Hand the job to the queue; a worker picks it up
+      await jobQueue.enqueue({
+        id: job.id,
+        userId,
+        storeUrl: validation.url,
+      });
 
       return reply.send({
         success: true,
         jobId: job.id,
         status: 'pending',
         storeName: validation.storeName,
+        credits_reserved: price,
       });
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -123,6 +309,244 @@ export async function scrapeRoutes(app: FastifyInstance) {
     }
   });
 
+  /**
+   * POST /cancel/:jobId
+   * Cancel a pending or running job
+   * A running scrape notices the status change and stops before its next page.
+   */
+  app.post('/cancel/:jobId', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { jobId } = request.params as { jobId: string };
+      const userId = request.user?.id;
+
+      const { data: job } = await supabase
+        .from('scrape_jobs')
+        .update({
+          status: 'cancelled',
+          error_message: 'Cancelled by user',
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', jobId)
+        .eq('user_id', userId)
+        .in('status', CANCELLABLE_STATUSES)
+        .select()
+        .maybeSingle();
+
+      if (!job) {
+        const { data: existing } = await supabase
+          .from('scrape_jobs')
+          .select('status')
+          .eq('id', jobId)
+          .eq('user_id', userId)
+          .single();
+
+        if (!existing) {
+          return reply.status(404).send({ error: 'Job not found' });
+        }
+        return reply.status(409).send({
+          error: `Cannot cancel a ${existing.status} job`,
+          status: existing.status,
+        });
+      }
+
+      return reply.send({
+        success: true,
+        jobId: job.id,
+        status: job.status,
+      });
+    } catch (err) {
+      console.error('[Cancel Job Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * POST /retry/:jobId
+   * Re-run a failed or cancelled job as a new job for the same store
+   */
+  app.post('/retry/:jobId', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { jobId } = request.params as { jobId: string };
+      const userId = request.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: 'Unauthorized' });
+      }
+
+      const { data: original } = await supabase
+        .from('scrape_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .eq('user_id', userId)
+        .single();
+
+      if (!original) {
+        return reply.status(404).send({ error: 'Job not found' });
+      }
+
+      if (!RETRYABLE_STATUSES.includes(original.status)) {
+        return reply.status(409).send({
+          error: `Cannot retry a ${original.status} job`,
+          status: original.status,
+        });
+      }
+
+      // Same credit rules as /start: reserved now, refunded if it fails again
+      // A retry keeps the original's price
+      const price = original.credits_price ?? CREDITS_PER_SCRAPE;
+      const newJobId = randomUUID();
+      const credits = await reserveScrapeCredits(
+        userId,
+        newJobId,
+        price,
+        `Retry of ${original.store_name || original.store_url}`
+      );
+      if (!credits.ok) {
+        return reply.status(403).send({ 
+          error: 'Insufficient credits',
+          credits_needed: price,
+          credits_available: credits.available,
+        });
+      }
+
+      const { data: job, error } = await supabase
+        .from('scrape_jobs')
+        .insert({
+          id: newJobId,
+          user_id: userId,
+          store_url: original.store_url,
+          store_name: original.store_name,
+          status: 'pending',
+          retry_of: original.id,
+          collections_filter: original.collections_filter,
+          credits_price: price,
+          estimated_products: original.estimated_products,
+          ...reservationColumns(credits.reservation),
+        })
+        .select()
+        .single();
+
+      if (error || !job) {
+        console.error('[Retry Job Error]', error);
+        await cancelReservation(credits.reservation, 'Scrape job could not be created');
+        return reply.status(500).send({ error: 'Failed to create scrape job' });
+      }
+
+      await jobQueue.enqueue({
+        id: job.id,
+        userId,
+        storeUrl: original.store_url,
+      });
+
+      return reply.send({
+        success: true,
+        jobId: job.id,
+        retryOf: original.id,
+        status: 'pending',
+        storeName: original.store_name,
+      });
+    } catch (err) {
+      console.error('[Retry Job Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * POST /resume/:jobId
+   * Continue a partial, failed or cancelled scrape from its last checkpointed page
+   * New products are merged into the job's existing scrape_data row.
+   */
+  app.post('/resume/:jobId', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { jobId } = request.params as { jobId: string };
+      const userId = request.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({ error: 'Unauthorized' });
+      }
+
+      const { data: job } = await supabase
+        .from('scrape_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .eq('user_id', userId)
+        .single();
+
+      if (!job) {
+        return reply.status(404).send({ error: 'Job not found' });
+      }
+
+      if (!isResumable(job)) {
+        return reply.status(409).send({
+          error: 'Job has nothing to resume',
+          status: job.status,
+          last_page: job.last_page || 0,
+        });
+      }
+
+      // A job never costs more than its price: resuming reserves only what
+      // is still owed, which is nothing once the job has been charged in full
+      const cost = remainingJobCost(job);
+      const credits = await reserveScrapeCredits(
+        userId,
+        job.id,
+        cost,
+        `Resume of ${job.store_name || job.store_url}`
+      );
+      if (!credits.ok) {
+        return reply.status(403).send({ 
+          error: 'Insufficient credits',
+          credits_needed: cost,
+          credits_available: credits.available,
+        });
+      }
+
+      // Compare-and-set on the status, so a double tap cannot queue it twice
+      const { data: resumed, error } = await supabase
+        .from('scrape_jobs')
+        .update({
+          status: 'pending',
+          error_message: null,
+          attempts: 0,
+          progress_phase: 'queued',
+          progress_page: job.last_page || 0,
+          progress_eta_seconds: null,
+          ...reservationColumns(credits.reservation),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', jobId)
+        .eq('status', job.status)
+        .is('reservation_key', null)
+        .select('id');
+
+      if (error || !resumed?.length) {
+        await cancelReservation(credits.reservation, 'Scrape job could not be resumed');
+        if (error) {
+          console.error('[Resume Job Error]', error);
+          return reply.status(500).send({ error: 'Failed to resume scrape job' });
+        }
+        return reply.status(409).send({ error: 'Job is already being resumed' });
+      }
+
+      await jobQueue.enqueue({
+        id: job.id,
+        userId,
+        storeUrl: job.store_url,
+      });
+
+      return reply.send({
+        success: true,
+        jobId: job.id,
+        status: 'pending',
+        resumeFromPage: (job.last_page || 0) + 1,
+        credits_reserved: cost,
+      });
+    } catch (err) {
+      console.error('[Resume Job Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
   /**
    * GET /status/:jobId
    * Get the status of a scraping job
@@ -136,7 +560,7 @@ export async function scrapeRoutes(app: FastifyInstance) {
         .from('scrape_jobs')
         .select('*')
         .eq('id', jobId)
-        .eq('user_id', userId)
+        .or(await visibleJobsFilter(userId))
         .single();
 
       if (!job) {
@@ -150,6 +574,12 @@ export async function scrapeRoutes(app: FastifyInstance) {
         store_name: job.store_name,
         products_count: job.products_count,
         error_message: job.error_message,
+        progress: toProgressEvent(job),
+        is_partial: job.is_partial || false,
+        last_page: job.last_page || 0,
+        resumable: isResumable(job),
+        resume_cost: remainingJobCost(job),
+        billing: toBillingSummary(job),
         created_at: job.created_at,
         updated_at: job.updated_at,
       });
@@ -159,9 +589,99 @@ export async function scrapeRoutes(app: FastifyInstance) {
     }
   });
 
+  /**
+   * GET /status/:jobId/stream
+   * Stream job progress as Server-Sent Events until the job finishes
+   * Progress lives on the job row, so this works with a separate worker
+   * process and a reconnecting client simply receives the latest snapshot.
+   */
+  app.get('/status/:jobId/stream', async (request: AuthenticatedRequest, reply) => {
+    const { jobId } = request.params as { jobId: string };
+    const userId = request.user?.id;
+
+    const { data: job } = await supabase
+      .from('scrape_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .or(await visibleJobsFilter(userId))
+      .single();
+
+    if (!job) {
+      return reply.status(404).send({ error: 'Job not found' });
+    }
+
+    reply.hijack();
+    const res = reply.raw;
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+    });
+
+    let closed = false;
+    let eventId = 0;
+    let lastPayload = '';
+    let lastSentAt = Date.now();
+
+    const send = (event: string, data: unknown) => {
+      res.write(`id: ${++eventId}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      lastSentAt = Date.now();
+    };
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(timer);
+      res.end();
+    };
+
+    const push = (row: any) => {
+      const payload = JSON.stringify(toProgressEvent(row));
+      if (payload !== lastPayload) {
+        lastPayload = payload;
+        send('progress', toProgressEvent(row));
+      } else if (Date.now() - lastSentAt > SSE_KEEPALIVE_MS) {
+        res.write(': keep-alive\n\n');
+        lastSentAt = Date.now();
+      }
+
+      if (TERMINAL_STATUSES.includes(row.status)) {
+        send('done', {
+          status: row.status,
+          products_count: row.products_count,
+          error_message: row.error_message,
+          billing: toBillingSummary(row),
+        });
+        close();
+      }
+    };
+
+    const timer = setInterval(async () => {
+      if (closed) return;
+      const { data: row, error } = await supabase
+        .from('scrape_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .single();
+
+      if (closed) return;
+      if (error || !row) {
+        send('error', { error: 'Job not found' });
+        close();
+        return;
+      }
+      push(row);
+    }, SSE_POLL_INTERVAL_MS);
+
+    request.raw.on('close', close);
+    push(job);
+  });
+
   /**
    * GET /history
-   * Get user's scrape history
+   * Get user's scrape history, including their organization's jobs
+   * Jobs run by teammates are flagged with shared: true.
    */
   app.get('/history', async (request: AuthenticatedRequest, reply) => {
     try {
@@ -171,7 +691,7 @@ export async function scrapeRoutes(app: FastifyInstance) {
       const { data: jobs, error } = await supabase
         .from('scrape_jobs')
         .select('*')
-        .eq('user_id', userId)
+        .or(await visibleJobsFilter(userId))
         .order('created_at', { ascending: false })
         .limit(limit);
 
@@ -180,7 +700,9 @@ export async function scrapeRoutes(app: FastifyInstance) {
         return reply.status(500).send({ error: 'Failed to fetch history' });
       }
 
-      return reply.send({ jobs: jobs || [] });
+      return reply.send({
+        jobs: (jobs || []).map(job => ({ ...job, shared: job.user_id !== userId })),
+      });
     } catch (err) {
       console.error('[Get History Error]', err);
       return reply.status(500).send({ error: 'Internal server error' });
@@ -201,7 +723,7 @@ export async function scrapeRoutes(app: FastifyInstance) {
         .from('scrape_jobs')
         .select('*')
         .eq('id', jobId)
-        .eq('user_id', userId)
+        .or(await visibleJobsFilter(userId))
         .single();
 
       if (!job) {
@@ -230,13 +752,91 @@ export async function scrapeRoutes(app: FastifyInstance) {
     }
   });
 
+  /**
+   * GET /products/:jobId
+   * Search, filter and sort a job's products, a page at a time
+   * Pass the returned nextCursor as ?cursor= for the next page. The first
+   * page also lists the vendors, product types and tags to filter by.
+   */
+  app.get('/products/:jobId', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { jobId } = request.params as { jobId: string };
+      const query = productsQuerySchema.parse(request.query);
+      const userId = request.user?.id;
+
+      const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+      if (cursor === null || (cursor && (
+        cursor.sort !== effectiveSort(query) || cursor.order !== effectiveOrder(query)
+      ))) {
+        return reply.status(400).send({ error: 'Invalid cursor' });
+      }
+
+      // Verify job ownership
+      const { data: job } = await supabase
+        .from('scrape_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .or(await visibleJobsFilter(userId))
+        .single();
+
+      if (!job) {
+        return reply.status(404).send({ error: 'Job not found' });
+      }
+
+      // Get scraped products
+      const { data: scrapeData } = await supabase
+        .from('scrape_data')
+        .select('products')
+        .eq('job_id', jobId)
+        .single();
+
+      const products = scrapeData?.products || [];
+
+      const result = searchProducts(products, {
+        q: query.q,
+        vendor: query.vendor,
+        productType: query.product_type,
+        tag: query.tag,
+        minPrice: query.min_price,
+        maxPrice: query.max_price,
+        onSale: query.on_sale,
+        sort: query.sort,
+        order: query.order,
+        cursor,
+        limit: query.limit,
+      });
+
+      return reply.send({
+        jobId,
+        status: job.status,
+        totalProducts: products.length,
+        ...result,
+        facets: cursor ? undefined : productFacets(products),
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({ 
+          error: 'Validation failed', 
+          details: err.errors 
+        });
+      }
+      console.error('[Search Products Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
   /**
    * GET /download/:jobId
-   * Download scraped products as CSV
+   * Download scraped products
+   * ?format=csv (default) is our flat layout, ?format=shopify follows
+   * Shopify's product import template, ?format=xlsx is a multi-sheet workbook
+   * and ?format=json / ?format=ndjson stream the raw Product structure.
+   * ?template=<id> applies a saved export template to the csv format.
    */
   app.get('/download/:jobId', async (request: AuthenticatedRequest, reply) => {
     try {
       const { jobId } = request.params as { jobId: string };
+      const { format, template: templateId } = downloadQuerySchema.parse(request.query);
       const userId = request.user?.id;
 
       // Verify job ownership
@@ -244,7 +844,7 @@ export async function scrapeRoutes(app: FastifyInstance) {
         .from('scrape_jobs')
         .select('*')
         .eq('id', jobId)
-        .eq('user_id', userId)
+        .or(await visibleJobsFilter(userId))
         .single();
 
       if (!job) {
@@ -268,26 +868,87 @@ export async function scrapeRoutes(app: FastifyInstance) {
         return reply.status(404).send({ error: 'No products found' });
       }
 
+      const baseName = job.store_name || job.store_url.replace(/https?:\/\//, '').replace(/\//g, '_');
+
+      // A saved template shapes the standard CSV export
+      if (templateId) {
+        if (format !== 'csv') {
+          return reply.status(400).send({ error: 'Templates only apply to the csv format' });
+        }
+
+        const { data: template } = await supabase
+          .from('export_templates')
+          .select('*')
+          .eq('id', templateId)
+          .eq('user_id', userId)
+          .single();
+
+        if (!template) {
+          return reply.status(404).send({ error: 'Template not found' });
+        }
+
+        reply.header('Content-Type', 'text/csv');
+        reply.header('Content-Disposition', `attachment; filename="${baseName}_products.csv"`);
+        return reply.send(generateCSVWithTemplate(products, template));
+      }
+
+      // Raw exports keep the full nested product structure
+      if (format === 'json' || format === 'ndjson') {
+        const meta = {
+          jobId,
+          storeUrl: job.store_url,
+          storeName: job.store_name,
+          scrapedAt: job.updated_at,
+        };
+
+        reply.header('Content-Type', format === 'json' ? 'application/json' : 'application/x-ndjson');
+        reply.header('Content-Disposition', `attachment; filename="${baseName}_products.${format}"`);
+        return reply.send(format === 'json'
+          ? streamProductsJSON(products, meta)
+          : streamProductsNDJSON(products, meta));
+      }
+
+      if (format === 'xlsx') {
+        const workbook = await generateXLSXFromProducts(products, {
+          storeUrl: job.store_url,
+          storeName: job.store_name,
+          scrapedAt: job.updated_at,
+        });
+
+        reply.header('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        reply.header('Content-Disposition', `attachment; filename="${baseName}_products.xlsx"`);
+        return reply.send(workbook);
+      }
+
       // Generate CSV
-      const csv = generateCSVFromProducts(products);
+      const csv = format === 'shopify'
+        ? generateShopifyCSVFromProducts(products)
+        : generateCSVFromProducts(products);
 
       // Set headers for file download
-      const filename = `${job.store_name || job.store_url.replace(/https?:\/\//, '').replace(/\//g, '_')}_products.csv`;
+      const filename = `${baseName}_${format === 'shopify' ? 'shopify_import' : 'products'}.csv`;
       reply.header('Content-Type', 'text/csv');
       reply.header('Content-Disposition', `attachment; filename="${filename}"`);
       
       return reply.send(csv);
     } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({ 
+          error: 'Validation failed', 
+          details: err.errors 
+        });
+      }
       console.error('[Download Error]', err);
       return reply.status(500).send({ error: 'Internal server error' });
     }
   });
 
   /**
-   * GET /summary/:jobId
-   * Get summary statistics for a scrape job
+   * GET /analytics/:jobId
+   * Price distributions, sale depth, tags, options, variant counts and
+   * catalogue age for a job's products
    */
-  app.get('/summary/:jobId', async (request: AuthenticatedRequest, reply) => {
+  app.get('/analytics/:jobId', async (request: AuthenticatedRequest, reply) => {
     try {
       const { jobId } = request.params as { jobId: string };
       const userId = request.user?.id;
@@ -297,7 +958,7 @@ export async function scrapeRoutes(app: FastifyInstance) {
         .from('scrape_jobs')
         .select('*')
         .eq('id', jobId)
-        .eq('user_id', userId)
+        .or(await visibleJobsFilter(userId))
         .single();
 
       if (!job) {
@@ -312,117 +973,60 @@ export async function scrapeRoutes(app: FastifyInstance) {
         .single();
 
       const products = scrapeData?.products || [];
-      const summary = generateScrapeSummary(products);
 
       return reply.send({
         jobId,
         status: job.status,
-        storeUrl: job.store_url,
-        storeName: job.store_name,
-        ...summary,
+        isPartial: !!job.is_partial,
+        ...analyzeCatalogue(products),
       });
     } catch (err) {
-      console.error('[Get Summary Error]', err);
+      console.error('[Get Analytics Error]', err);
       return reply.status(500).send({ error: 'Internal server error' });
     }
   });
-}
-
-/**
- * Background job processor
- * Uses the enhanced shopifyScraper service
- */
-async function processScrapeJob(jobId: string, storeUrl: string, userId: string) {
-  console.log(`[Job ${jobId}] Starting processing for ${storeUrl}`);
 
-  try {
-    // Update status to running
-    await supabase
-      .from('scrape_jobs')
-      .update({ 
-        status: 'running', 
-        updated_at: new Date().toISOString() 
-      })
-      .eq('id', jobId);
-
-    // Progress callback for real-time updates (optional enhancement)
-    const onProgress = (page: number, totalProducts: number) => {
-      console.log(`[Job ${jobId}] Page ${page}: ${totalProducts} products`);
-    };
-
-    // Scrape products using the enhanced service
-    const result = await scrapeShopifyProducts(storeUrl, {
-      delay: 1000, // 1 second between requests
-      maxPages: 50,
-      onProgress,
-    });
+  /**
+   * GET /summary/:jobId
+   * Get summary statistics for a scrape job
+   */
+  app.get('/summary/:jobId', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { jobId } = request.params as { jobId: string };
+      const userId = request.user?.id;
 
-    if (!result.success && result.totalCount === 0) {
-      // Complete failure - no products scraped
-      await supabase
+      // Verify job ownership
+      const { data: job } = await supabase
         .from('scrape_jobs')
-        .update({
-          status: 'failed',
-          error_message: result.error || 'Scraping failed',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', jobId);
-      
-      console.error(`[Job ${jobId}] Failed: ${result.error}`);
-      return;
-    }
-
-    // Deduct credits (only if we got products)
-    const { error: creditError } = await supabase.rpc('deduct_credits', {
-      user_id: userId,
-      amount: 5,
-    });
+        .select('*')
+        .eq('id', jobId)
+        .or(await visibleJobsFilter(userId))
+        .single();
 
-    if (creditError) {
-      console.error(`[Job ${jobId}] Failed to deduct credits:`, creditError);
-      // Continue anyway - user should still get their data
-    }
+      if (!job) {
+        return reply.status(404).send({ error: 'Job not found' });
+      }
 
-    // Store products
-    const { error: storeError } = await supabase
-      .from('scrape_data')
-      .insert({
-        job_id: jobId,
-        user_id: userId,
-        products: result.products,
-      });
+      // Get scraped products
+      const { data: scrapeData } = await supabase
+        .from('scrape_data')
+        .select('products')
+        .eq('job_id', jobId)
+        .single();
 
-    if (storeError) {
-      console.error(`[Job ${jobId}] Failed to store products:`, storeError);
-    }
+      const products = scrapeData?.products || [];
+      const summary = generateScrapeSummary(products);
 
-    // Update job status to completed
-    await supabase
-      .from('scrape_jobs')
-      .update({
-        status: 'completed',
-        products_count: result.totalCount,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', jobId);
-
-    console.log(`[Job ${jobId}] Completed: ${result.totalCount} products`);
-
-    // If there was a partial error, log it but job is still marked completed
-    if (result.error) {
-      console.warn(`[Job ${jobId}] Partial success with warning: ${result.error}`);
+      return reply.send({
+        jobId,
+        status: job.status,
+        storeUrl: job.store_url,
+        storeName: job.store_name,
+        ...summary,
+      });
+    } catch (err) {
+      console.error('[Get Summary Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
     }
-
-  } catch (error: any) {
-    console.error(`[Job ${jobId}] Unexpected error:`, error);
-    
-    await supabase
-      .from('scrape_jobs')
-      .update({
-        status: 'failed',
-        error_message: error.message || 'Processing failed',
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', jobId);
-  }
+  });
 }
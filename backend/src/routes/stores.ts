@@ -0,0 +1,157 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { supabase } from '../utils/supabase';
+import { authMiddleware, requireScope, AuthenticatedRequest } from '../middleware/auth';
+import { diffSnapshots, findSnapshotAt, findVisibleStore, loadSnapshot } from '../services/storeHistory';
+
+const changesQuerySchema = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+}).refine(
+  query => !query.from || !query.to || Date.parse(query.from) <= Date.parse(query.to),
+  { message: 'from must not be later than to', path: ['from'] }
+);
+
+export async function storeRoutes(app: FastifyInstance) {
+  // Apply auth middleware to all routes
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', requireScope('read'));
+
+  /**
+   * GET /
+   * List the user's stores with their latest snapshot
+   */
+  app.get('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const userId = request.user?.id;
+
+      const { data: stores, error } = await supabase
+        .from('stores')
+        .select('*, store_snapshots(id, job_id, products_count, created_at)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('[List Stores Error]', error);
+        return reply.status(500).send({ error: 'Failed to fetch stores' });
+      }
+
+      return reply.send({
+        stores: (stores || []).map(({ store_snapshots, ...store }) => {
+          const snapshots = [...(store_snapshots || [])]
+            .sort((a, b) => b.created_at.localeCompare(a.created_at));
+          return {
+            ...store,
+            snapshots_count: snapshots.length,
+            latest_snapshot: snapshots[0] || null,
+          };
+        }),
+      });
+    } catch (err) {
+      console.error('[List Stores Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * GET /:storeId/snapshots
+   * List a store's snapshots, newest first
+   */
+  app.get('/:storeId/snapshots', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { storeId } = request.params as { storeId: string };
+      const userId = request.user!.id;
+
+      // Teammates can open stores behind the organization's shared jobs
+      const store = await findVisibleStore(userId, storeId);
+
+      if (!store) {
+        return reply.status(404).send({ error: 'Store not found' });
+      }
+
+      const { data: snapshots, error } = await supabase
+        .from('store_snapshots')
+        .select('id, job_id, products_count, created_at')
+        .eq('store_id', storeId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('[List Snapshots Error]', error);
+        return reply.status(500).send({ error: 'Failed to fetch snapshots' });
+      }
+
+      return reply.send({ store, snapshots: snapshots || [] });
+    } catch (err) {
+      console.error('[List Snapshots Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * GET /:storeId/changes?from=&to=
+   * Diff the snapshots in effect at two points in time
+   * "to" defaults to the latest snapshot and "from" to the one before it.
+   */
+  app.get('/:storeId/changes', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { storeId } = request.params as { storeId: string };
+      const { from, to } = changesQuerySchema.parse(request.query);
+      const userId = request.user!.id;
+
+      const store = await findVisibleStore(userId, storeId);
+
+      if (!store) {
+        return reply.status(404).send({ error: 'Store not found' });
+      }
+
+      const toSnapshot = await findSnapshotAt(storeId, to || new Date().toISOString());
+      if (!toSnapshot) {
+        return reply.status(404).send({ error: 'No snapshot found for this period' });
+      }
+
+      const fromSnapshot = from
+        ? await findSnapshotAt(storeId, from)
+        : await findSnapshotAt(storeId, toSnapshot.created_at, toSnapshot.created_at);
+
+      if (!fromSnapshot || fromSnapshot.id === toSnapshot.id) {
+        return reply.status(400).send({
+          error: 'At least two snapshots are needed to compare. Scrape this store again to track changes.'
+        });
+      }
+
+      const [fromData, toData] = await Promise.all([
+        loadSnapshot(fromSnapshot.id),
+        loadSnapshot(toSnapshot.id),
+      ]);
+
+      const changes = diffSnapshots(fromData, toData);
+
+      return reply.send({
+        store,
+        from: fromSnapshot,
+        to: toSnapshot,
+        summary: {
+          productsAdded: changes.productsAdded.length,
+          productsRemoved: changes.productsRemoved.length,
+          titleChanges: changes.titleChanges.length,
+          priceChanges: changes.priceChanges.length,
+          priceIncreases: changes.priceChanges.filter(c => (c.to ?? 0) > (c.from ?? 0)).length,
+          priceDecreases: changes.priceChanges.filter(c => (c.to ?? 0) < (c.from ?? 0)).length,
+          compareAtPriceChanges: changes.compareAtPriceChanges.length,
+          variantsAdded: changes.variantsAdded.length,
+          variantsRemoved: changes.variantsRemoved.length,
+        },
+        changes,
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Store Changes Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
@@ -0,0 +1,192 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { supabase } from '../utils/supabase';
+import { authMiddleware, requireScopeByMethod, AuthenticatedRequest } from '../middleware/auth';
+import { CSV_COLUMNS, CsvColumnKey } from '../utils/csv';
+
+const columnKeys = CSV_COLUMNS.map(c => c.key) as [CsvColumnKey, ...CsvColumnKey[]];
+
+const templateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  columns: z.array(z.object({
+    key: z.enum(columnKeys),
+    header: z.string().trim().min(1).max(100).optional(),
+  })).min(1, 'Select at least one column').max(CSV_COLUMNS.length),
+  granularity: z.enum(['variant', 'product']).default('variant'),
+}).refine(
+  template => template.granularity === 'variant' ||
+    template.columns.every(column => CSV_COLUMNS.find(c => c.key === column.key)?.level === 'product'),
+  { message: 'Variant columns cannot be used with one row per product', path: ['columns'] }
+);
+
+export async function templateRoutes(app: FastifyInstance) {
+  // Apply auth middleware to all routes
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', requireScopeByMethod('scrape'));
+
+  /**
+   * GET /columns
+   * List the columns a template can use
+   */
+  app.get('/columns', async (_request, reply) => {
+    return reply.send({ columns: CSV_COLUMNS });
+  });
+
+  /**
+   * GET /
+   * List the user's export templates
+   */
+  app.get('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const userId = request.user?.id;
+
+      const { data: templates, error } = await supabase
+        .from('export_templates')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('[List Templates Error]', error);
+        return reply.status(500).send({ error: 'Failed to fetch templates' });
+      }
+
+      return reply.send({ templates: templates || [] });
+    } catch (err) {
+      console.error('[List Templates Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * GET /:id
+   * Get a single export template
+   */
+  app.get('/:id', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const userId = request.user?.id;
+
+      const { data: template } = await supabase
+        .from('export_templates')
+        .select('*')
+        .eq('id', id)
+        .eq('user_id', userId)
+        .single();
+
+      if (!template) {
+        return reply.status(404).send({ error: 'Template not found' });
+      }
+
+      return reply.send(template);
+    } catch (err) {
+      console.error('[Get Template Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * POST /
+   * Create an export template
+   */
+  app.post('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const template = templateSchema.parse(request.body);
+      const userId = request.user?.id;
+
+      const { data, error } = await supabase
+        .from('export_templates')
+        .insert({ ...template, user_id: userId })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('[Create Template Error]', error);
+        return reply.status(500).send({ error: 'Failed to create template' });
+      }
+
+      return reply.status(201).send(data);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Create Template Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * PUT /:id
+   * Replace an export template's name, columns and granularity
+   */
+  app.put('/:id', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const template = templateSchema.parse(request.body);
+      const userId = request.user?.id;
+
+      const { data, error } = await supabase
+        .from('export_templates')
+        .update({ ...template, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Update Template Error]', error);
+        return reply.status(500).send({ error: 'Failed to update template' });
+      }
+
+      if (!data) {
+        return reply.status(404).send({ error: 'Template not found' });
+      }
+
+      return reply.send(data);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Update Template Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * DELETE /:id
+   * Delete an export template
+   */
+  app.delete('/:id', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const userId = request.user?.id;
+
+      const { data, error } = await supabase
+        .from('export_templates')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) {
+        console.error('[Delete Template Error]', error);
+        return reply.status(500).send({ error: 'Failed to delete template' });
+      }
+
+      if (!data || data.length === 0) {
+        return reply.status(404).send({ error: 'Template not found' });
+      }
+
+      return reply.send({ success: true });
+    } catch (err) {
+      console.error('[Delete Template Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
@@ -0,0 +1,40 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { authMiddleware, requireScope, AuthenticatedRequest } from '../middleware/auth';
+import { getMarketTrends, TREND_WINDOWS, TrendWindow } from '../services/marketTrends';
+
+const trendsQuerySchema = z.object({
+  days: z.coerce
+    .number()
+    .refine((days): days is TrendWindow => (TREND_WINDOWS as readonly number[]).includes(days), {
+      message: `days must be one of ${TREND_WINDOWS.join(', ')}`,
+    })
+    .default(30),
+});
+
+export async function trendRoutes(app: FastifyInstance) {
+  // Apply auth middleware to all routes
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', requireScope('read'));
+
+  /**
+   * GET /
+   * Anonymised market trends across every store scraped on the platform
+   */
+  app.get('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { days } = trendsQuerySchema.parse(request.query);
+
+      return reply.send(await getMarketTrends(days as TrendWindow));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({ 
+          error: 'Validation failed', 
+          details: err.errors 
+        });
+      }
+      console.error('[Get Trends Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
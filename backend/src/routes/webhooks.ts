@@ -0,0 +1,311 @@
+import { FastifyInstance } from 'fastify';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { supabase } from '../utils/supabase';
+import { authMiddleware, requireScopeByMethod, AuthenticatedRequest } from '../middleware/auth';
+import {
+  WEBHOOK_EVENTS,
+  attemptDelivery,
+  generateWebhookSecret,
+} from '../services/webhooks';
+import { WebhookDelivery, WebhookEndpoint } from '../types';
+
+const endpointSchema = z.object({
+  url: z.string().url().refine(url => url.startsWith('https://'), 'Webhook URLs must use https'),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Subscribe to at least one event'),
+  enabled: z.boolean().default(true),
+});
+
+const deliveriesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+// The secret is only returned when an endpoint is created or its secret rotated
+const withoutSecret = ({ secret, ...endpoint }: WebhookEndpoint) => ({
+  ...endpoint,
+  secret_hint: `${secret.slice(0, 10)}…`,
+});
+
+export async function webhookRoutes(app: FastifyInstance) {
+  // Apply auth middleware to all routes
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', requireScopeByMethod('scrape'));
+
+  /**
+   * GET /
+   * List the user's webhook endpoints
+   */
+  app.get('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const userId = request.user?.id;
+
+      const { data: endpoints, error } = await supabase
+        .from('webhook_endpoints')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('[List Webhooks Error]', error);
+        return reply.status(500).send({ error: 'Failed to fetch webhooks' });
+      }
+
+      return reply.send({
+        endpoints: (endpoints || []).map(withoutSecret),
+        events: WEBHOOK_EVENTS,
+      });
+    } catch (err) {
+      console.error('[List Webhooks Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * POST /
+   * Register an endpoint; the response includes its signing secret
+   */
+  app.post('/', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const endpoint = endpointSchema.parse(request.body);
+      const userId = request.user?.id;
+
+      const { data, error } = await supabase
+        .from('webhook_endpoints')
+        .insert({ ...endpoint, user_id: userId, secret: generateWebhookSecret() })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('[Create Webhook Error]', error);
+        return reply.status(500).send({ error: 'Failed to create webhook' });
+      }
+
+      return reply.status(201).send(data);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Create Webhook Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * PUT /:id
+   * Replace an endpoint's URL, events and enabled flag
+   */
+  app.put('/:id', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const endpoint = endpointSchema.parse(request.body);
+      const userId = request.user?.id;
+
+      const { data, error } = await supabase
+        .from('webhook_endpoints')
+        .update({ ...endpoint, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Update Webhook Error]', error);
+        return reply.status(500).send({ error: 'Failed to update webhook' });
+      }
+
+      if (!data) {
+        return reply.status(404).send({ error: 'Webhook not found' });
+      }
+
+      return reply.send(withoutSecret(data));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[Update Webhook Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * POST /:id/rotate-secret
+   * Replace the signing secret; the old one stops working immediately
+   */
+  app.post('/:id/rotate-secret', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const userId = request.user?.id;
+
+      const { data, error } = await supabase
+        .from('webhook_endpoints')
+        .update({ secret: generateWebhookSecret(), updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Rotate Webhook Secret Error]', error);
+        return reply.status(500).send({ error: 'Failed to rotate secret' });
+      }
+
+      if (!data) {
+        return reply.status(404).send({ error: 'Webhook not found' });
+      }
+
+      return reply.send(data);
+    } catch (err) {
+      console.error('[Rotate Webhook Secret Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * DELETE /:id
+   * Delete an endpoint and its delivery log
+   */
+  app.delete('/:id', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const userId = request.user?.id;
+
+      const { data, error } = await supabase
+        .from('webhook_endpoints')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) {
+        console.error('[Delete Webhook Error]', error);
+        return reply.status(500).send({ error: 'Failed to delete webhook' });
+      }
+
+      if (!data || data.length === 0) {
+        return reply.status(404).send({ error: 'Webhook not found' });
+      }
+
+      return reply.send({ success: true });
+    } catch (err) {
+      console.error('[Delete Webhook Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * GET /:id/deliveries
+   * Delivery log for an endpoint, newest first
+   */
+  app.get('/:id/deliveries', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { limit } = deliveriesQuerySchema.parse(request.query);
+      const userId = request.user?.id;
+
+      const { data: endpoint } = await supabase
+        .from('webhook_endpoints')
+        .select('id')
+        .eq('id', id)
+        .eq('user_id', userId)
+        .single();
+
+      if (!endpoint) {
+        return reply.status(404).send({ error: 'Webhook not found' });
+      }
+
+      const { data: deliveries, error } = await supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .eq('endpoint_id', id)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('[List Deliveries Error]', error);
+        return reply.status(500).send({ error: 'Failed to fetch deliveries' });
+      }
+
+      return reply.send({ deliveries: deliveries || [] });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: err.errors
+        });
+      }
+      console.error('[List Deliveries Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  /**
+   * POST /:id/test
+   * Send a signed webhook.test event now and return the attempt's result
+   * Test deliveries are logged but never retried.
+   */
+  app.post('/:id/test', async (request: AuthenticatedRequest, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const userId = request.user?.id;
+
+      const { data: endpoint } = await supabase
+        .from('webhook_endpoints')
+        .select('*')
+        .eq('id', id)
+        .eq('user_id', userId)
+        .single();
+
+      if (!endpoint) {
+        return reply.status(404).send({ error: 'Webhook not found' });
+      }
+
+      const { data: delivery, error } = await supabase
+        .from('webhook_deliveries')
+        .insert({
+          endpoint_id: endpoint.id,
+          event: 'webhook.test',
+          payload: {
+            id: `evt_${randomUUID()}`,
+            type: 'webhook.test',
+            created_at: new Date().toISOString(),
+            data: { endpoint_id: endpoint.id, events: endpoint.events },
+          },
+          status: 'pending',
+          attempts: 0,
+        })
+        .select()
+        .single();
+
+      if (error || !delivery) {
+        console.error('[Test Webhook Error]', error);
+        return reply.status(500).send({ error: 'Failed to create test delivery' });
+      }
+
+      const result = await attemptDelivery(delivery as WebhookDelivery, endpoint as WebhookEndpoint);
+
+      // Leave nothing for the dispatcher to retry
+      if (result.status === 'pending') {
+        await supabase
+          .from('webhook_deliveries')
+          .update({ status: 'failed', next_attempt_at: null })
+          .eq('id', delivery.id);
+      }
+
+      return reply.send({
+        success: result.status === 'succeeded',
+        delivery_id: delivery.id,
+        status_code: result.last_status_code ?? null,
+        error: result.last_error ?? null,
+      });
+    } catch (err) {
+      console.error('[Test Webhook Error]', err);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
@@ -5,6 +5,23 @@ import rateLimit from '@fastify/rate-limit';
 import { authRoutes } from './routes/auth';
 import { scrapeRoutes } from './routes/scrape';
 import { paymentRoutes } from './routes/payment';
+import { paymentWebhookRoutes } from './routes/paymentWebhook';
+import { templateRoutes } from './routes/templates';
+import { storeRoutes } from './routes/stores';
+import { monitorRoutes } from './routes/monitors';
+import { alertRuleRoutes } from './routes/alertRules';
+import { notificationRoutes } from './routes/notifications';
+import { webhookRoutes } from './routes/webhooks';
+import { apiKeyRoutes } from './routes/apiKeys';
+import { organizationRoutes } from './routes/organizations';
+import { trendRoutes } from './routes/trends';
+import { compareRoutes } from './routes/compare';
+import { matchRoutes } from './routes/matches';
+import { adminRoutes } from './routes/admin';
+import { jobQueue } from './services/jobQueue';
+import { startScrapeWorker } from './services/scrapeWorker';
+import { startMonitorScheduler } from './services/monitorScheduler';
+import { startWebhookDispatcher } from './services/webhooks';
 
 const app = fastify({
   logger: true,
@@ -30,6 +47,19 @@ app.get('/health', async () => {
 app.register(authRoutes, { prefix: '/auth' });
 app.register(scrapeRoutes, { prefix: '/scrape' });
 app.register(paymentRoutes, { prefix: '/payment' });
+app.register(paymentWebhookRoutes, { prefix: '/payment' });
+app.register(templateRoutes, { prefix: '/templates' });
+app.register(storeRoutes, { prefix: '/stores' });
+app.register(monitorRoutes, { prefix: '/monitors' });
+app.register(alertRuleRoutes, { prefix: '/alert-rules' });
+app.register(notificationRoutes, { prefix: '/notifications' });
+app.register(webhookRoutes, { prefix: '/webhooks' });
+app.register(apiKeyRoutes, { prefix: '/api-keys' });
+app.register(organizationRoutes, { prefix: '/organizations' });
+app.register(trendRoutes, { prefix: '/trends' });
+app.register(compareRoutes, { prefix: '/compare' });
+app.register(matchRoutes, { prefix: '/matches' });
+app.register(adminRoutes, { prefix: '/admin' });
 
 // Start server
 const start = async () => {
@@ -37,6 +67,17 @@ const start = async () => {
     const port = parseInt(process.env.PORT || '3000');
     await app.listen({ port, host: '0.0.0.0' });
     console.log(`Server running on port ${port}`);
+
+    // Process scrape jobs in this process unless a separate worker is deployed
+    if (process.env.RUN_WORKER_IN_API !== 'false') {
+      startScrapeWorker({ queue: jobQueue });
+    }
+
+    // Enqueue scheduled scrapes and retry webhooks; safe to run in several processes at once
+    if (process.env.RUN_SCHEDULER_IN_API !== 'false') {
+      startMonitorScheduler({ queue: jobQueue });
+      startWebhookDispatcher();
+    }
   } catch (err) {
     app.log.error(err);
     process.exit(1);
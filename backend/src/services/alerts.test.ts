@@ -0,0 +1,224 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeSupabase } from '../test/fakeSupabase';
+import { evaluateAlertRules, matchAlertRules } from './alerts';
+import { PushMessage, PushResult, PushSender } from './pushNotifications';
+import { AlertRule, Product, StoreChanges, StoreSnapshot } from '../types';
+
+class RecordingPushSender implements PushSender {
+  sent: PushMessage[] = [];
+
+  constructor(private unregistered: string[] = []) {}
+
+  async send(messages: PushMessage[]): Promise<PushResult[]> {
+    this.sent.push(...messages);
+    return messages.map(message => ({
+      token: message.to,
+      ok: !this.unregistered.includes(message.to),
+      unregistered: this.unregistered.includes(message.to),
+    }));
+  }
+}
+
+const rule = (overrides: Partial<AlertRule>): AlertRule => ({
+  id: 'rule-1',
+  user_id: 'user-1',
+  store_id: null,
+  name: 'Rule',
+  type: 'price_drop',
+  params: {},
+  enabled: true,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const product = (id: number, overrides: Partial<Product> = {}): Product => ({
+  id,
+  title: `Product ${id}`,
+  handle: `product-${id}`,
+  variants: [],
+  ...overrides,
+});
+
+const priceChange = (productId: number, variantId: number, from: number | null, to: number | null) => ({
+  product_id: productId,
+  variant_id: variantId,
+  product_title: `Product ${productId}`,
+  variant_title: 'Default',
+  from,
+  to,
+  change_pct: null,
+});
+
+const noChanges = (): StoreChanges => ({
+  productsAdded: [],
+  productsRemoved: [],
+  titleChanges: [],
+  priceChanges: [],
+  compareAtPriceChanges: [],
+  variantsAdded: [],
+  variantsRemoved: [],
+});
+
+test('price drop rules match drops at or over the threshold, largest first', () => {
+  const changes = {
+    ...noChanges(),
+    priceChanges: [
+      priceChange(1, 11, 100, 95), // -5%
+      priceChange(2, 21, 100, 50), // -50%
+      priceChange(3, 31, 100, 80), // -20%
+      priceChange(4, 41, 100, 120), // a rise
+      priceChange(5, 51, null, 10), // newly priced
+    ],
+  };
+
+  const [match, ...rest] = matchAlertRules([rule({ params: { minPercent: 10 } })], changes, [], 'Acme');
+
+  assert.equal(rest.length, 0);
+  assert.equal(match.title, 'Price drops over 10% at Acme');
+  assert.deepEqual(match.items.map(item => item.product_id), [2, 3]);
+  assert.equal(match.items[0].detail, '100.00 → 50.00, -50%');
+  assert.equal(match.body, '2 products: Product 2 (100.00 → 50.00, -50%), Product 3 (100.00 → 80.00, -20%)');
+});
+
+test('a product matching through several variants is listed once', () => {
+  const changes = {
+    ...noChanges(),
+    priceChanges: [priceChange(1, 11, 100, 50), priceChange(1, 12, 100, 60)],
+  };
+
+  const [match] = matchAlertRules([rule({})], changes, [], 'Acme');
+
+  assert.equal(match.items.length, 1);
+  assert.equal(match.body.startsWith('1 product: '), true);
+});
+
+test('new product rules match tags and vendors case-insensitively', () => {
+  const changes = {
+    ...noChanges(),
+    productsAdded: [
+      { product_id: 1, title: 'Product 1', handle: 'product-1' },
+      { product_id: 2, title: 'Product 2', handle: 'product-2' },
+    ],
+  };
+  const products = [
+    product(1, { tags: ['New-Arrival'], vendor: 'Other' }),
+    product(2, { tags: ['basics'], vendor: 'ACME' }),
+  ];
+
+  const matches = matchAlertRules([
+    rule({ id: 'tag', type: 'new_product_tag', params: { tag: 'new-arrival' } }),
+    rule({ id: 'vendor', type: 'vendor_new_products', params: { vendor: 'Acme' } }),
+  ], changes, products, 'Store');
+
+  assert.deepEqual(matches.map(match => [match.rule.id, match.items.map(item => item.product_id)]), [
+    ['tag', [1]],
+    ['vendor', [2]],
+  ]);
+});
+
+test('compare-at rules only match prices that were newly set', () => {
+  const changes = {
+    ...noChanges(),
+    compareAtPriceChanges: [priceChange(1, 11, null, 40), priceChange(2, 21, 30, 40)],
+  };
+
+  const [match] = matchAlertRules([rule({ type: 'compare_at_set' })], changes, [], 'Acme');
+
+  assert.deepEqual(match.items, [{ product_id: 1, title: 'Product 1', detail: 'was 40.00' }]);
+});
+
+test('rules without matching changes produce nothing', () => {
+  assert.deepEqual(matchAlertRules([
+    rule({}),
+    rule({ type: 'new_product_tag', params: { tag: 'sale' } }),
+    rule({ type: 'compare_at_set' }),
+  ], noChanges(), [], 'Acme'), []);
+});
+
+test('evaluating rules records notifications and pushes them to every device', async t => {
+  const db = new FakeSupabase({
+    alert_rules: [
+      rule({ id: 'all-stores', params: { minPercent: 10 } }),
+      rule({ id: 'this-store', store_id: 'store-1', type: 'compare_at_set' }),
+      rule({ id: 'other-store', store_id: 'store-2' }),
+      rule({ id: 'disabled', enabled: false }),
+      rule({ id: 'other-user', user_id: 'user-2' }),
+    ],
+    push_tokens: [
+      { user_id: 'user-1', token: 'ExponentPushToken[phone]' },
+      { user_id: 'user-1', token: 'ExponentPushToken[uninstalled]' },
+      { user_id: 'user-2', token: 'ExponentPushToken[someone-else]' },
+    ],
+  }).install(t);
+  const sender = new RecordingPushSender(['ExponentPushToken[uninstalled]']);
+
+  const snapshot: StoreSnapshot = {
+    id: 'snapshot-2',
+    store_id: 'store-1',
+    job_id: 'job-2',
+    products_count: 2,
+    created_at: '2026-01-02T00:00:00Z',
+  };
+  const changes = {
+    ...noChanges(),
+    priceChanges: [priceChange(1, 11, 100, 50)],
+    compareAtPriceChanges: [priceChange(2, 21, null, 40)],
+  };
+
+  const notifications = await evaluateAlertRules({
+    jobId: 'job-2',
+    userId: 'user-1',
+    storeName: 'Acme',
+    snapshot,
+    changes,
+    products: [product(1), product(2)],
+  }, sender);
+
+  assert.deepEqual(notifications.map(notification => notification.rule_id), ['all-stores', 'this-store']);
+  assert.equal(db.rows('notifications').length, 2);
+  assert.deepEqual(db.rows('notifications')[0].data, {
+    rule_type: 'price_drop',
+    count: 1,
+    items: [{ product_id: 1, title: 'Product 1', detail: '100.00 → 50.00, -50%' }],
+  });
+
+  assert.deepEqual(sender.sent.map(message => [message.to, message.title]), [
+    ['ExponentPushToken[phone]', 'Price drops over 10% at Acme'],
+    ['ExponentPushToken[uninstalled]', 'Price drops over 10% at Acme'],
+    ['ExponentPushToken[phone]', 'New sale prices at Acme'],
+  ]);
+  assert.deepEqual(sender.sent[0].data, {
+    notificationId: notifications[0].id,
+    jobId: 'job-2',
+    storeId: 'store-1',
+  });
+
+  // Expo reported the uninstalled device, so only the first send reached it
+  assert.deepEqual(db.rows('push_tokens').map(row => row.token), [
+    'ExponentPushToken[phone]',
+    'ExponentPushToken[someone-else]',
+  ]);
+});
+
+test('evaluating rules without matches sends nothing', async t => {
+  const db = new FakeSupabase({
+    alert_rules: [rule({ type: 'compare_at_set' })],
+    push_tokens: [{ user_id: 'user-1', token: 'ExponentPushToken[phone]' }],
+  }).install(t);
+  const sender = new RecordingPushSender();
+
+  const notifications = await evaluateAlertRules({
+    jobId: 'job-2',
+    userId: 'user-1',
+    storeName: 'Acme',
+    snapshot: { id: 'snapshot-2', store_id: 'store-1', job_id: 'job-2', products_count: 0, created_at: '' },
+    changes: { ...noChanges(), priceChanges: [priceChange(1, 11, 100, 50)] },
+    products: [],
+  }, sender);
+
+  assert.deepEqual(notifications, []);
+  assert.deepEqual(sender.sent, []);
+  assert.equal(db.rows('notifications').length, 0);
+});
@@ -0,0 +1,166 @@
+import { supabase } from '../utils/supabase';
+import { PushSender, pushSender, sendPushToUser } from './pushNotifications';
+import { AlertRule, Product, StoreChanges, StoreSnapshot } from '../types';
+
+const MAX_ITEMS_PER_NOTIFICATION = 20;
+
+export interface AlertMatch {
+  rule: AlertRule;
+  title: string;
+  body: string;
+  items: { product_id: number; title: string; detail?: string }[];
+}
+
+interface EvaluateContext {
+  jobId: string;
+  userId: string;
+  storeName: string;
+  snapshot: StoreSnapshot;
+  changes: StoreChanges;
+  products: Product[];
+}
+
+// products.json carries no currency, so prices are shown without a symbol
+const formatPrice = (value: number | null) => (value === null ? '' : value.toFixed(2));
+
+const summarize = (items: AlertMatch['items']) => {
+  const names = items.slice(0, 3).map(item => item.detail ? `${item.title} (${item.detail})` : item.title);
+  const more = items.length > 3 ? ` and ${items.length - 3} more` : '';
+  return `${names.join(', ')}${more}`;
+};
+
+/**
+ * Match a user's rules against the changes between two snapshots
+ * Rules aggregate: each rule yields at most one match per scrape.
+ */
+export function matchAlertRules(
+  rules: AlertRule[],
+  changes: StoreChanges,
+  products: Product[],
+  storeName: string
+): AlertMatch[] {
+  const productsById = new Map(products.map(product => [product.id, product]));
+  const matches: AlertMatch[] = [];
+
+  for (const rule of rules) {
+    let items: AlertMatch['items'] = [];
+    let title = '';
+
+    switch (rule.type) {
+      case 'price_drop': {
+        const minPercent = rule.params.minPercent ?? 0;
+        items = changes.priceChanges
+          .filter(change => change.from !== null && change.to !== null && change.to < change.from)
+          .map(change => ({ change, drop: ((change.from! - change.to!) / change.from!) * 100 }))
+          .filter(({ drop }) => drop >= minPercent)
+          .sort((a, b) => b.drop - a.drop)
+          .map(({ change, drop }) => ({
+            product_id: change.product_id,
+            title: change.product_title,
+            detail: `${formatPrice(change.from)} → ${formatPrice(change.to)}, -${Math.round(drop)}%`,
+          }));
+        title = minPercent > 0
+          ? `Price drops over ${minPercent}% at ${storeName}`
+          : `Price drops at ${storeName}`;
+        break;
+      }
+
+      case 'new_product_tag': {
+        const tag = (rule.params.tag || '').toLowerCase();
+        items = changes.productsAdded
+          .filter(added => (productsById.get(added.product_id)?.tags || [])
+            .some(productTag => productTag.toLowerCase() === tag))
+          .map(added => ({ product_id: added.product_id, title: added.title }));
+        title = `New "${rule.params.tag}" products at ${storeName}`;
+        break;
+      }
+
+      case 'compare_at_set': {
+        items = changes.compareAtPriceChanges
+          .filter(change => change.from === null && change.to !== null)
+          .map(change => ({
+            product_id: change.product_id,
+            title: change.product_title,
+            detail: `was ${formatPrice(change.to)}`,
+          }));
+        title = `New sale prices at ${storeName}`;
+        break;
+      }
+
+      case 'vendor_new_products': {
+        const vendor = (rule.params.vendor || '').toLowerCase();
+        items = changes.productsAdded
+          .filter(added => (productsById.get(added.product_id)?.vendor || '').toLowerCase() === vendor)
+          .map(added => ({ product_id: added.product_id, title: added.title }));
+        title = `${rule.params.vendor} added products at ${storeName}`;
+        break;
+      }
+    }
+
+    // A product can match through several of its variants
+    const seen = new Set<number>();
+    items = items.filter(item => !seen.has(item.product_id) && seen.add(item.product_id));
+
+    if (items.length > 0) {
+      matches.push({
+        rule,
+        title,
+        body: `${items.length} ${items.length === 1 ? 'product' : 'products'}: ${summarize(items)}`,
+        items,
+      });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Evaluate the user's alert rules for a freshly recorded snapshot
+ * Runs after each completed full scrape that has a previous snapshot to compare with.
+ */
+export async function evaluateAlertRules(context: EvaluateContext, sender: PushSender = pushSender) {
+  const { jobId, userId, storeName, snapshot, changes, products } = context;
+
+  const { data: rules } = await supabase
+    .from('alert_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('enabled', true)
+    .or(`store_id.is.null,store_id.eq.${snapshot.store_id}`);
+
+  if (!rules || rules.length === 0) return [];
+
+  const matches = matchAlertRules(rules as AlertRule[], changes, products, storeName);
+  if (matches.length === 0) return [];
+
+  const { data: notifications, error } = await supabase
+    .from('notifications')
+    .insert(matches.map(match => ({
+      user_id: userId,
+      rule_id: match.rule.id,
+      job_id: jobId,
+      store_id: snapshot.store_id,
+      title: match.title,
+      body: match.body,
+      data: {
+        rule_type: match.rule.type,
+        count: match.items.length,
+        items: match.items.slice(0, MAX_ITEMS_PER_NOTIFICATION),
+      },
+    })))
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to record notifications: ${error.message}`);
+  }
+
+  for (const notification of notifications || []) {
+    await sendPushToUser(userId, {
+      title: notification.title,
+      body: notification.body,
+      data: { notificationId: notification.id, jobId, storeId: snapshot.store_id },
+    }, sender);
+  }
+
+  return notifications || [];
+}
@@ -0,0 +1,63 @@
+import { createHash, randomBytes } from 'crypto';
+import { supabase } from '../utils/supabase';
+import { ApiKeyScope } from '../types';
+
+export const API_KEY_PREFIX = 'df_';
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = ['read', 'scrape', 'billing'];
+
+// last_used_at is refreshed at most this often to avoid a write per request
+const LAST_USED_RESOLUTION_MS = 60000;
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Create a new random key
+ * Only the hash is stored; the plaintext is shown to the user once.
+ */
+export function generateApiKey() {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  return {
+    key,
+    hash: hashApiKey(key),
+    // Enough to recognise the key in a list
+    prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+  };
+}
+
+/**
+ * Resolve an API key to its owner and scopes
+ * Returns null for unknown or revoked keys.
+ */
+export async function authenticateApiKey(key: string) {
+  const { data: apiKey } = await supabase
+    .from('api_keys')
+    .select('id, user_id, scopes, last_used_at, users(email)')
+    .eq('key_hash', hashApiKey(key))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (!apiKey) return null;
+
+  const lastUsed = apiKey.last_used_at ? new Date(apiKey.last_used_at).getTime() : 0;
+  if (Date.now() - lastUsed > LAST_USED_RESOLUTION_MS) {
+    // Not awaited: usage tracking must not slow down or fail the request
+    supabase
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', apiKey.id)
+      .then(({ error }) => {
+        if (error) console.error(`[API Keys] Failed to update last_used_at for ${apiKey.id}:`, error);
+      });
+  }
+
+  const owner = Array.isArray(apiKey.users) ? apiKey.users[0] : apiKey.users;
+
+  return {
+    id: apiKey.id as string,
+    userId: apiKey.user_id as string,
+    email: (owner as { email?: string } | null)?.email || '',
+    scopes: (apiKey.scopes || []) as ApiKeyScope[],
+  };
+}
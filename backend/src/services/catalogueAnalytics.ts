@@ -0,0 +1,285 @@
+import {
+  CatalogueAnalytics,
+  CountBucket,
+  PriceDistribution,
+  Product,
+} from '../types';
+
+const HISTOGRAM_BINS = 10;
+const TOP_PRODUCT_TYPES = 12;
+const TOP_TAGS = 50;
+const TOP_OPTION_NAMES = 20;
+const UNTYPED = '(no type)';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bounds (inclusive) of each bucket; the last bucket is open-ended
+const DISCOUNT_BUCKETS: [string, number][] = [
+  ['< 10%', 10],
+  ['10–20%', 20],
+  ['20–30%', 30],
+  ['30–50%', 50],
+  ['50%+', Infinity],
+];
+
+const VARIANT_BUCKETS: [string, number][] = [
+  ['1', 1],
+  ['2–5', 5],
+  ['6–10', 10],
+  ['11–25', 25],
+  ['26+', Infinity],
+];
+
+const AGE_BUCKETS: [string, number][] = [
+  ['< 30 days', 30],
+  ['1–3 months', 90],
+  ['3–6 months', 180],
+  ['6–12 months', 365],
+  ['1–2 years', 730],
+  ['2+ years', Infinity],
+];
+
+const round = (value: number, places = 2) => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+const toNumber = (value: string | undefined | null) => {
+  if (value === undefined || value === null || value === '') return null;
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Value at a percentile of sorted numbers, interpolating between ranks
+ */
+export function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * A round bin width (1, 2 or 5 times a power of ten) covering a range in about `bins` steps
+ */
+function niceStep(range: number, bins: number) {
+  if (range <= 0) return 1;
+  const raw = range / bins;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].find(m => m * magnitude >= raw)!;
+  return step * magnitude;
+}
+
+function bucketCounts(values: number[], buckets: [string, number][]): CountBucket[] {
+  const counts = buckets.map(([label]) => ({ label, count: 0 }));
+  for (const value of values) {
+    const index = buckets.findIndex(([, upTo]) => value <= upTo);
+    counts[index === -1 ? counts.length - 1 : index].count++;
+  }
+  return counts;
+}
+
+/**
+ * Percentiles and a histogram of prices
+ * Bins run between round numbers up to the 99th percentile so a handful of
+ * outliers do not squash the chart; prices above it land in the last bin.
+ */
+export function priceDistribution(prices: number[]): Omit<PriceDistribution, 'product_type' | 'products'> {
+  const sorted = [...prices].sort((a, b) => a - b);
+
+  if (sorted.length === 0) {
+    return {
+      variants: 0,
+      min: 0,
+      max: 0,
+      mean: 0,
+      percentiles: { p10: 0, p25: 0, p50: 0, p75: 0, p90: 0 },
+      histogram: [],
+    };
+  }
+
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const ceiling = percentile(sorted, 99);
+  const step = niceStep(ceiling - min, HISTOGRAM_BINS);
+  const start = Math.floor(min / step) * step;
+  const binCount = Math.max(Math.ceil((ceiling - start) / step), 1);
+
+  const histogram = Array.from({ length: binCount }, (_, i) => ({
+    from: round(start + i * step),
+    to: round(start + (i + 1) * step),
+    count: 0,
+  }));
+
+  for (const price of sorted) {
+    const index = Math.min(Math.floor((price - start) / step), binCount - 1);
+    histogram[index].count++;
+  }
+
+  return {
+    variants: sorted.length,
+    min,
+    max,
+    mean: round(sorted.reduce((sum, price) => sum + price, 0) / sorted.length),
+    percentiles: {
+      p10: round(percentile(sorted, 10)),
+      p25: round(percentile(sorted, 25)),
+      p50: round(percentile(sorted, 50)),
+      p75: round(percentile(sorted, 75)),
+      p90: round(percentile(sorted, 90)),
+    },
+    histogram,
+  };
+}
+
+/**
+ * Count labels case-insensitively, keeping the first spelling seen
+ */
+function countLabels(labels: Iterable<string>) {
+  const counts = new Map<string, { label: string; count: number }>();
+  for (const raw of labels) {
+    const label = raw.trim();
+    if (!label) continue;
+    const key = label.toLowerCase();
+    const entry = counts.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(key, { label, count: 1 });
+    }
+  }
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Catalogue analytics for a scrape's products
+ */
+export function analyzeCatalogue(products: Product[], now = new Date()): CatalogueAnalytics {
+  // Prices by product type
+  const pricesByType = new Map<string, { label: string; products: number; prices: number[] }>();
+  const allPrices: number[] = [];
+
+  // Sale depth
+  let pricedVariants = 0;
+  const discounts: number[] = [];
+
+  const variantCounts: number[] = [];
+  const agesInDays: number[] = [];
+  let undated = 0;
+  let oldest: string | null = null;
+  let newest: string | null = null;
+
+  for (const product of products) {
+    const label = product.product_type?.trim() || UNTYPED;
+    const key = label.toLowerCase();
+    const group = pricesByType.get(key) || { label, products: 0, prices: [] };
+    group.products++;
+    pricesByType.set(key, group);
+
+    const variants = product.variants || [];
+    variantCounts.push(variants.length);
+
+    for (const variant of variants) {
+      const price = toNumber(variant.price);
+      if (price === null) continue;
+
+      group.prices.push(price);
+      allPrices.push(price);
+      pricedVariants++;
+
+      const compareAt = toNumber(variant.compare_at_price);
+      if (compareAt !== null && compareAt > price && compareAt > 0) {
+        discounts.push(((compareAt - price) / compareAt) * 100);
+      }
+    }
+
+    const publishedAt = product.published_at ? new Date(product.published_at) : null;
+    if (!publishedAt || Number.isNaN(publishedAt.getTime())) {
+      undated++;
+    } else {
+      agesInDays.push(Math.max((now.getTime() - publishedAt.getTime()) / DAY_MS, 0));
+      const iso = publishedAt.toISOString();
+      if (!oldest || iso < oldest) oldest = iso;
+      if (!newest || iso > newest) newest = iso;
+    }
+  }
+
+  const byType = Array.from(pricesByType.values())
+    .filter(group => group.prices.length > 0)
+    .sort((a, b) => b.products - a.products)
+    .slice(0, TOP_PRODUCT_TYPES)
+    .map(group => ({
+      product_type: group.label,
+      products: group.products,
+      ...priceDistribution(group.prices),
+    }));
+
+  // Tags and option names count once per product
+  const tags = countLabels(products.flatMap(product => Array.from(new Set(product.tags || []))));
+
+  const optionValues = new Map<string, Set<string>>();
+  const optionNames = countLabels(products.flatMap(product =>
+    (product.options || [])
+      // Shopify gives single-variant products a placeholder "Title" option
+      .filter(option => !(option.name === 'Title' && option.values?.length === 1 && option.values[0] === 'Default Title'))
+      .map(option => {
+        const key = option.name.trim().toLowerCase();
+        const values = optionValues.get(key) || new Set<string>();
+        (option.values || []).forEach(value => values.add(value.toLowerCase()));
+        optionValues.set(key, values);
+        return option.name;
+      })
+  ));
+
+  const sortedVariantCounts = [...variantCounts].sort((a, b) => a - b);
+  const sortedAges = [...agesInDays].sort((a, b) => a - b);
+
+  return {
+    totals: {
+      products: products.length,
+      variants: variantCounts.reduce((sum, count) => sum + count, 0),
+      priced_variants: pricedVariants,
+    },
+    prices: {
+      overall: { product_type: 'All products', products: products.length, ...priceDistribution(allPrices) },
+      by_type: byType,
+    },
+    sale: {
+      variants_on_sale: discounts.length,
+      share_percent: pricedVariants ? round((discounts.length / pricedVariants) * 100, 1) : 0,
+      average_discount_percent: discounts.length
+        ? round(discounts.reduce((sum, d) => sum + d, 0) / discounts.length, 1)
+        : 0,
+      max_discount_percent: discounts.length ? round(Math.max(...discounts), 1) : 0,
+      discount_depth: bucketCounts(discounts, DISCOUNT_BUCKETS),
+    },
+    tags: {
+      unique: tags.length,
+      top: tags.slice(0, TOP_TAGS).map(({ label, count }) => ({ tag: label, products: count })),
+    },
+    options: optionNames.slice(0, TOP_OPTION_NAMES).map(({ label, count }) => ({
+      name: label,
+      products: count,
+      share_percent: products.length ? round((count / products.length) * 100, 1) : 0,
+      unique_values: optionValues.get(label.toLowerCase())?.size || 0,
+    })),
+    variants_per_product: {
+      min: sortedVariantCounts[0] || 0,
+      max: sortedVariantCounts[sortedVariantCounts.length - 1] || 0,
+      mean: sortedVariantCounts.length
+        ? round(sortedVariantCounts.reduce((sum, count) => sum + count, 0) / sortedVariantCounts.length, 1)
+        : 0,
+      median: round(percentile(sortedVariantCounts, 50), 1),
+      distribution: bucketCounts(variantCounts, VARIANT_BUCKETS),
+    },
+    catalogue_age: {
+      oldest_published_at: oldest,
+      newest_published_at: newest,
+      median_age_days: sortedAges.length ? Math.round(percentile(sortedAges, 50)) : null,
+      undated, // Products without a published_at
+      distribution: bucketCounts(agesInDays, AGE_BUCKETS),
+    },
+  };
+}
@@ -0,0 +1,178 @@
+import { test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeSupabase, fakePostCreditEntry } from '../test/fakeSupabase';
+import { MockPaymentProvider } from './paymentProviders';
+import { creditPurchase, refundPurchase } from './creditLedger';
+import { Transaction } from '../types';
+
+/**
+ * A starter pack bought with the mock provider and credited to the wallet
+ */
+async function completedPurchase(t: TestContext, outcome: 'succeed' | 'fail' = 'succeed') {
+  const db = new FakeSupabase({ users: [{ id: 'user-1', credits: 0 }] })
+    .defineRpc('post_credit_entry', fakePostCreditEntry)
+    .install(t);
+  const provider = new MockPaymentProvider('http://localhost');
+
+  const checkout = await provider.createCheckout({
+    amount: 499,
+    currency: 'INR',
+    description: 'DataFlow - starter Pack (10 credits)',
+    metadata: {},
+    successUrl: 'dataflow://payment/success',
+    cancelUrl: 'dataflow://payment/cancel',
+  });
+  provider.checkout(checkout.id, outcome);
+
+  const transaction = db.insertRow('transactions', {
+    user_id: 'user-1',
+    organization_id: null,
+    type: 'purchase',
+    amount: 10,
+    plan_id: 'starter',
+    payment_intent_id: checkout.id,
+    processed: false,
+    refunded_at: null,
+  });
+  await creditPurchase(transaction as Transaction, 'Payment completed for starter plan');
+
+  return { db, provider, transactionId: transaction.id as string };
+}
+
+const credits = (db: FakeSupabase) => db.rows('users')[0].credits;
+
+test('refunding a purchase takes its credits back once', async t => {
+  const { db, provider, transactionId } = await completedPurchase(t);
+  assert.equal(credits(db), 10);
+
+  const result = await refundPurchase(transactionId, provider, 'Requested by customer');
+
+  assert.equal(result.ok && result.status, 'succeeded');
+  assert.equal(credits(db), 0);
+  const [transaction] = db.rows('transactions');
+  assert.notEqual(transaction.refunded_at, null);
+  assert.equal(transaction.refund_id, result.ok ? result.refundId : undefined);
+  assert.equal(transaction.refund_status, 'succeeded');
+
+  assert.deepEqual(await refundPurchase(transactionId, provider), {
+    ok: false,
+    reason: 'already_refunded',
+    message: 'Purchase was already refunded',
+  });
+  assert.equal(credits(db), 0);
+});
+
+test('a purchase whose credits were spent is not refunded', async t => {
+  const { db, provider, transactionId } = await completedPurchase(t);
+  await db.rpc('post_credit_entry', {
+    p_user_id: 'user-1',
+    p_organization_id: null,
+    p_amount: -4,
+    p_kind: 'usage',
+    p_idempotency_key: 'usage:job-1',
+  });
+
+  const result = await refundPurchase(transactionId, provider);
+
+  assert.deepEqual(result, {
+    ok: false,
+    reason: 'insufficient_credits',
+    message: 'The wallet holds 6 of the 10 purchased credits',
+  });
+  assert.equal(credits(db), 6);
+  assert.equal(db.rows('transactions')[0].refunded_at, null);
+});
+
+test('credits are returned when the provider refuses the refund', async t => {
+  // The mock only refunds payments that succeeded
+  const { db, provider, transactionId } = await completedPurchase(t, 'fail');
+
+  const result = await refundPurchase(transactionId, provider);
+
+  assert.equal(result.ok, false);
+  assert.equal(!result.ok && result.reason, 'provider_failed');
+  assert.equal(credits(db), 10);
+  assert.deepEqual(db.rows('credit_ledger').map(entry => entry.amount), [10, -10, 10]);
+
+  // The claim is released, so the refund can be tried again
+  assert.equal(db.rows('transactions')[0].refunded_at, null);
+});
+
+test('a refund the provider has not completed is kept as pending', async t => {
+  const { db, provider, transactionId } = await completedPurchase(t);
+  t.mock.method(provider, 'refund', async () => ({ id: 'refund-1', status: 'pending' }));
+
+  const result = await refundPurchase(transactionId, provider);
+
+  assert.deepEqual(result, { ok: true, status: 'pending', refundId: 'refund-1', credits: 10, balance: 0 });
+  assert.equal(credits(db), 0);
+  const [transaction] = db.rows('transactions');
+  assert.equal(transaction.refund_status, 'pending');
+  assert.notEqual(transaction.refunded_at, null);
+});
+
+test('a refund the provider declines is reversed, not recorded', async t => {
+  const { db, provider, transactionId } = await completedPurchase(t);
+  t.mock.method(provider, 'refund', async () => ({ id: 'refund-1', status: 'failed' }));
+
+  const result = await refundPurchase(transactionId, provider);
+
+  assert.deepEqual(result, {
+    ok: false,
+    reason: 'provider_failed',
+    message: 'Refund refund-1 was declined by the provider',
+  });
+  assert.equal(credits(db), 10);
+  const [transaction] = db.rows('transactions');
+  assert.equal(transaction.refund_id, undefined);
+  assert.equal(transaction.refunded_at, null);
+});
+
+test('the claim is released when the ledger fails during the debit', async t => {
+  const { db, provider, transactionId } = await completedPurchase(t);
+  db.defineRpc('post_credit_entry', () => {
+    throw new Error('connection reset');
+  });
+
+  await assert.rejects(refundPurchase(transactionId, provider), /connection reset/);
+  assert.equal(db.rows('transactions')[0].refunded_at, null);
+});
+
+test('a reversal that fails is reported and the claim is released', async t => {
+  const { db, provider, transactionId } = await completedPurchase(t);
+  t.mock.method(provider, 'refund', async () => {
+    // The debit went through; the ledger goes down before the reversal
+    db.defineRpc('post_credit_entry', () => {
+      throw new Error('connection reset');
+    });
+    throw new Error('Provider unavailable');
+  });
+
+  const result = await refundPurchase(transactionId, provider);
+
+  assert.deepEqual(result, {
+    ok: false,
+    reason: 'reversal_failed',
+    message: 'Provider unavailable, and the 10 debited credits could not be returned',
+  });
+  assert.equal(credits(db), 0);
+  assert.equal(db.rows('transactions')[0].refunded_at, null);
+});
+
+test('only completed purchases can be refunded', async t => {
+  const { db, provider } = await completedPurchase(t);
+  const pending = db.insertRow('transactions', {
+    user_id: 'user-1',
+    type: 'purchase',
+    amount: 10,
+    payment_intent_id: null,
+    processed: false,
+  });
+
+  assert.equal((await refundPurchase(pending.id, provider)).ok, false);
+  assert.deepEqual(await refundPurchase('missing', provider), {
+    ok: false,
+    reason: 'not_found',
+    message: 'Transaction not found',
+  });
+});
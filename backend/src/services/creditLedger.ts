@@ -0,0 +1,256 @@
+import { supabase } from '../utils/supabase';
+import { getMembership } from './organizations';
+import type { PaymentProvider } from './paymentProviders';
+import { CreditLedgerKind, Transaction } from '../types';
+
+export type PostEntryStatus = 'applied' | 'duplicate' | 'insufficient_credits' | 'account_not_found';
+
+/**
+ * A wallet: an organization's shared balance, or a user's own
+ */
+export interface CreditAccount {
+  userId: string | null;
+  organizationId: string | null;
+}
+
+export interface PostEntryInput {
+  account: CreditAccount;
+  amount: number; // Positive credits, negative debits
+  kind: CreditLedgerKind;
+  // Posting the same key twice is a no-op that returns status 'duplicate'
+  idempotencyKey: string;
+  description?: string;
+  transactionId?: string | null;
+  jobId?: string | null;
+}
+
+export interface PostEntryResult {
+  status: PostEntryStatus;
+  entryId: number | null;
+  balance: number | null;
+}
+
+/**
+ * The wallet a user spends from: their organization's for members
+ */
+export async function walletFor(userId: string): Promise<CreditAccount> {
+  const membership = await getMembership(userId);
+  return { userId, organizationId: membership?.organization.id ?? null };
+}
+
+/**
+ * Append an entry to the credit ledger and update the cached balance atomically
+ * Debits that would take the balance below zero are rejected.
+ */
+export async function postCreditEntry(input: PostEntryInput): Promise<PostEntryResult> {
+  const { data, error } = await supabase.rpc('post_credit_entry', {
+    p_user_id: input.account.userId,
+    p_organization_id: input.account.organizationId,
+    p_amount: input.amount,
+    p_kind: input.kind,
+    p_idempotency_key: input.idempotencyKey,
+    p_description: input.description ?? null,
+    p_transaction_id: input.transactionId ?? null,
+    p_job_id: input.jobId ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to post credit entry: ${error.message}`);
+  }
+
+  const row = Array.isArray(data) ? data[0] : data;
+  return {
+    status: row?.status,
+    entryId: row?.entry_id ?? null,
+    balance: row?.balance ?? null,
+  };
+}
+
+export const isPosted = (result: PostEntryResult) =>
+  result.status === 'applied' || result.status === 'duplicate';
+
+/**
+ * Grant a purchase's credits through the ledger
+ * Keyed by the transaction, so verify-payment and the webhook can both
+ * call this and the credits are still granted exactly once.
+ */
+export async function creditPurchase(
+  transaction: Pick<Transaction, 'id' | 'user_id' | 'organization_id' | 'amount' | 'plan_id' | 'processed'>,
+  description: string,
+  paymentId?: string
+) {
+  const result = await postCreditEntry({
+    account: { userId: transaction.user_id, organizationId: transaction.organization_id || null },
+    amount: transaction.amount,
+    kind: 'purchase',
+    idempotencyKey: `purchase:${transaction.id}`,
+    description: `${transaction.plan_id} plan`,
+    transactionId: transaction.id,
+  });
+
+  if (isPosted(result) && !transaction.processed) {
+    await supabase
+      .from('transactions')
+      .update({
+        processed: true,
+        description,
+        ...(paymentId ? { payment_intent_id: paymentId } : {}),
+      })
+      .eq('id', transaction.id);
+  }
+
+  return result;
+}
+
+export type PurchaseRefundResult =
+  | { ok: true; status: 'succeeded' | 'pending'; refundId: string; credits: number; balance: number | null }
+  | {
+      ok: false;
+      reason:
+        | 'not_found'
+        | 'not_refundable'
+        | 'already_refunded'
+        | 'insufficient_credits'
+        | 'provider_failed'
+        | 'reversal_failed';
+      message: string;
+    };
+
+/**
+ * Refund a completed purchase in full and take its credits back
+ * The credits are debited before the provider is asked, so a wallet never keeps
+ * credits that were paid back; they are returned if the provider refuses. A
+ * refund the provider accepted but has not completed is recorded as pending.
+ */
+export async function refundPurchase(
+  transactionId: string,
+  provider: PaymentProvider,
+  reason?: string
+): Promise<PurchaseRefundResult> {
+  const { data: transaction } = await supabase
+    .from('transactions')
+    .select('*')
+    .eq('id', transactionId)
+    .maybeSingle();
+
+  if (!transaction) {
+    return { ok: false, reason: 'not_found', message: 'Transaction not found' };
+  }
+
+  if (transaction.type !== 'purchase' || !transaction.processed || !transaction.payment_intent_id) {
+    return { ok: false, reason: 'not_refundable', message: 'Only completed purchases can be refunded' };
+  }
+
+  // Compare-and-set, so concurrent requests cannot both refund it
+  const startedAt = new Date().toISOString();
+  const { data: claimed } = await supabase
+    .from('transactions')
+    .update({ refunded_at: startedAt })
+    .eq('id', transactionId)
+    .is('refunded_at', null)
+    .select('id');
+
+  if (!claimed?.length) {
+    return { ok: false, reason: 'already_refunded', message: 'Purchase was already refunded' };
+  }
+
+  // Released on every path the provider did not accept, including thrown errors,
+  // so a failed attempt can be retried
+  let accepted = false;
+  try {
+    // Keyed by this attempt, so a purchase whose refund failed can be tried again
+    const account = { userId: transaction.user_id, organizationId: transaction.organization_id || null };
+    const debit = await postCreditEntry({
+      account,
+      amount: -transaction.amount,
+      kind: 'adjustment',
+      idempotencyKey: `purchase_refund:${transactionId}:${startedAt}`,
+      description: `Refund of ${transaction.plan_id} plan`,
+      transactionId,
+    });
+
+    if (!isPosted(debit)) {
+      return debit.status === 'insufficient_credits'
+        ? {
+            ok: false,
+            reason: 'insufficient_credits',
+            message: `The wallet holds ${debit.balance ?? 0} of the ${transaction.amount} purchased credits`,
+          }
+        : { ok: false, reason: 'not_refundable', message: 'The purchase has no wallet to debit' };
+    }
+
+    let failure = 'Refund failed';
+    try {
+      const refund = await provider.refund(transaction.payment_intent_id, undefined, reason);
+
+      if (refund.status !== 'failed') {
+        accepted = true;
+        await supabase
+          .from('transactions')
+          .update({ refund_id: refund.id, refund_status: refund.status })
+          .eq('id', transactionId);
+
+        return {
+          ok: true,
+          status: refund.status,
+          refundId: refund.id,
+          credits: transaction.amount,
+          balance: debit.balance,
+        };
+      }
+
+      failure = `Refund ${refund.id} was declined by the provider`;
+    } catch (err: any) {
+      console.error('[Refund Error]', err);
+      failure = err.message || failure;
+    }
+
+    // The provider refused, so the wallet keeps its credits
+    const reversalKey = `purchase_refund_reversal:${transactionId}:${startedAt}`;
+    try {
+      await postCreditEntry({
+        account,
+        amount: transaction.amount,
+        kind: 'adjustment',
+        idempotencyKey: reversalKey,
+        description: `Refund of ${transaction.plan_id} plan failed`,
+        transactionId,
+      });
+    } catch (err) {
+      console.error(`[Refund Error] Credits of ${transactionId} were not returned; post ${reversalKey} again`, err);
+      return {
+        ok: false,
+        reason: 'reversal_failed',
+        message: `${failure}, and the ${transaction.amount} debited credits could not be returned`,
+      };
+    }
+
+    return { ok: false, reason: 'provider_failed', message: failure };
+  } finally {
+    if (!accepted) {
+      await supabase
+        .from('transactions')
+        .update({ refunded_at: null })
+        .eq('id', transactionId)
+        .eq('refunded_at', startedAt);
+    }
+  }
+}
+
+/**
+ * Wallets whose cached balance disagrees with their ledger entries
+ */
+export async function findLedgerDrift() {
+  const { data, error } = await supabase.rpc('credit_ledger_drift');
+
+  if (error) {
+    throw new Error(`Failed to reconcile credits: ${error.message}`);
+  }
+
+  return ((data || []) as {
+    account_type: 'user' | 'organization';
+    account_id: string;
+    cached_balance: number;
+    ledger_balance: number;
+  }[]).map(row => ({ ...row, drift: row.cached_balance - row.ledger_balance }));
+}
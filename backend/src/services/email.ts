@@ -0,0 +1,66 @@
+import axios from 'axios';
+
+const RESEND_API_URL = 'https://api.resend.com/emails';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivery backend for transactional email
+ * Swap in a recording implementation to assert on sends without a provider.
+ */
+export interface EmailSender {
+  send(message: EmailMessage): Promise<boolean>;
+}
+
+/**
+ * Sends through Resend (RESEND_API_KEY, EMAIL_FROM)
+ */
+export class ResendEmailSender implements EmailSender {
+  async send(message: EmailMessage): Promise<boolean> {
+    try {
+      await axios.post(
+        RESEND_API_URL,
+        {
+          from: process.env.EMAIL_FROM || 'DataFlow <noreply@dataflow.app>',
+          to: [message.to],
+          subject: message.subject,
+          text: message.text,
+        },
+        {
+          timeout: 10000,
+          headers: {
+            Authorization: `Bearer ${process.env.RESEND_API_KEY}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+      return true;
+    } catch (error: any) {
+      console.error('[Email] Send failed:', error.response?.data || error.message);
+      return false;
+    }
+  }
+}
+
+/**
+ * Logs messages instead of sending them (local development)
+ */
+export class ConsoleEmailSender implements EmailSender {
+  async send(message: EmailMessage): Promise<boolean> {
+    console.log(`[Email] ${message.to}: ${message.subject}\n${message.text}`);
+    return true;
+  }
+}
+
+export function createEmailSender(backend = process.env.EMAIL_SENDER_BACKEND || 'console'): EmailSender {
+  if (backend === 'resend') {
+    return new ResendEmailSender();
+  }
+  return new ConsoleEmailSender();
+}
+
+export const emailSender = createEmailSender();
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InMemoryJobQueue } from './jobQueue';
+
+const LEASE_MS = 1000;
+
+function setup() {
+  let now = 0;
+  const queue = new InMemoryJobQueue(() => now);
+  return {
+    queue,
+    advance: (ms: number) => { now += ms; },
+  };
+}
+
+test('a leased job cannot be claimed by another worker', async () => {
+  const { queue } = setup();
+  await queue.enqueue({ id: 'job-1', userId: 'user-1', storeUrl: 'https://a.example' });
+
+  const claimed = await queue.claim('worker-a', LEASE_MS);
+  assert.deepEqual(claimed, { id: 'job-1', userId: 'user-1', storeUrl: 'https://a.example', attempts: 1 });
+  assert.equal(await queue.claim('worker-b', LEASE_MS), null);
+});
+
+test('a job whose lease expires is reclaimed by another worker', async () => {
+  const { queue, advance } = setup();
+  await queue.enqueue({ id: 'job-1', userId: 'user-1', storeUrl: 'https://a.example' });
+  await queue.claim('worker-a', LEASE_MS);
+
+  advance(LEASE_MS + 1);
+  const reclaimed = await queue.claim('worker-b', LEASE_MS);
+
+  assert.equal(reclaimed?.id, 'job-1');
+  assert.equal(reclaimed?.attempts, 2);
+  // The first worker finds out on its next heartbeat
+  assert.equal(await queue.heartbeat('job-1', 'worker-a', LEASE_MS), false);
+  assert.equal(await queue.heartbeat('job-1', 'worker-b', LEASE_MS), true);
+});
+
+test('heartbeats keep the lease', async () => {
+  const { queue, advance } = setup();
+  await queue.enqueue({ id: 'job-1', userId: 'user-1', storeUrl: 'https://a.example' });
+  await queue.claim('worker-a', LEASE_MS);
+
+  advance(LEASE_MS - 1);
+  assert.equal(await queue.heartbeat('job-1', 'worker-a', LEASE_MS), true);
+  advance(LEASE_MS - 1);
+
+  assert.equal(await queue.claim('worker-b', LEASE_MS), null);
+});
+
+test('only the lease holder can release a job', async () => {
+  const { queue, advance } = setup();
+  await queue.enqueue({ id: 'job-1', userId: 'user-1', storeUrl: 'https://a.example' });
+  await queue.claim('worker-a', LEASE_MS);
+  advance(LEASE_MS + 1);
+  await queue.claim('worker-b', LEASE_MS);
+
+  await queue.release('job-1', 'worker-a');
+  assert.equal(queue.size(), 1);
+
+  await queue.release('job-1', 'worker-b');
+  assert.equal(queue.size(), 0);
+  assert.equal(await queue.claim('worker-c', LEASE_MS), null);
+});
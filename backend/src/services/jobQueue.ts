@@ -0,0 +1,173 @@
+import { supabase } from '../utils/supabase';
+
+export interface QueuedJob {
+  id: string;
+  userId: string;
+  storeUrl: string;
+  attempts: number;
+}
+
+/**
+ * Queue backend used by the scrape worker
+ * Claims are leased: a job whose lease expires without a heartbeat
+ * becomes claimable again by another worker.
+ */
+export interface JobQueue {
+  enqueue(job: Omit<QueuedJob, 'attempts'>): Promise<void>;
+  claim(workerId: string, leaseMs: number): Promise<QueuedJob | null>;
+  heartbeat(jobId: string, workerId: string, leaseMs: number): Promise<boolean>;
+  release(jobId: string, workerId: string): Promise<void>;
+}
+
+/**
+ * Postgres-backed queue
+ * The scrape_jobs table is the queue, so a pending row inserted by the API
+ * is already enqueued. Claiming uses FOR UPDATE SKIP LOCKED (see add-job-queue.sql).
+ */
+export class PostgresJobQueue implements JobQueue {
+  async enqueue(job: Omit<QueuedJob, 'attempts'>): Promise<void> {
+    const { error } = await supabase
+      .from('scrape_jobs')
+      .update({
+        status: 'pending',
+        locked_by: null,
+        locked_until: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', job.id);
+
+    if (error) {
+      throw new Error(`Failed to enqueue job ${job.id}: ${error.message}`);
+    }
+  }
+
+  async claim(workerId: string, leaseMs: number): Promise<QueuedJob | null> {
+    const { data, error } = await supabase.rpc('claim_scrape_job', {
+      worker_id: workerId,
+      lease_seconds: Math.ceil(leaseMs / 1000),
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim job: ${error.message}`);
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      storeUrl: row.store_url,
+      attempts: row.attempts,
+    };
+  }
+
+  async heartbeat(jobId: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const { data, error } = await supabase.rpc('extend_scrape_job_lease', {
+      job_id: jobId,
+      worker_id: workerId,
+      lease_seconds: Math.ceil(leaseMs / 1000),
+    });
+
+    if (error) {
+      console.error(`[Queue] Heartbeat failed for job ${jobId}:`, error);
+      return false;
+    }
+
+    return data === true;
+  }
+
+  async release(jobId: string, workerId: string): Promise<void> {
+    await supabase
+      .from('scrape_jobs')
+      .update({ locked_by: null, locked_until: null })
+      .eq('id', jobId)
+      .eq('locked_by', workerId);
+  }
+}
+
+interface InMemoryEntry {
+  job: Omit<QueuedJob, 'attempts'>;
+  attempts: number;
+  lockedBy: string | null;
+  lockedUntil: number;
+  done: boolean;
+}
+
+/**
+ * In-memory queue for tests and single-process development
+ * Jobs are lost on restart, so never use it in production.
+ */
+export class InMemoryJobQueue implements JobQueue {
+  private entries = new Map<string, InMemoryEntry>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  async enqueue(job: Omit<QueuedJob, 'attempts'>): Promise<void> {
+    const existing = this.entries.get(job.id);
+    this.entries.set(job.id, {
+      job,
+      attempts: existing?.attempts || 0,
+      lockedBy: null,
+      lockedUntil: 0,
+      done: false,
+    });
+  }
+
+  async claim(workerId: string, leaseMs: number): Promise<QueuedJob | null> {
+    const now = this.now();
+
+    for (const entry of this.entries.values()) {
+      if (entry.done) continue;
+      if (entry.lockedBy && entry.lockedUntil > now) continue;
+
+      entry.lockedBy = workerId;
+      entry.lockedUntil = now + leaseMs;
+      entry.attempts++;
+
+      return { ...entry.job, attempts: entry.attempts };
+    }
+
+    return null;
+  }
+
+  async heartbeat(jobId: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const entry = this.entries.get(jobId);
+    if (!entry || entry.done || entry.lockedBy !== workerId) {
+      return false;
+    }
+    entry.lockedUntil = this.now() + leaseMs;
+    return true;
+  }
+
+  async release(jobId: string, workerId: string): Promise<void> {
+    const entry = this.entries.get(jobId);
+    if (entry && entry.lockedBy === workerId) {
+      entry.done = true;
+      entry.lockedBy = null;
+    }
+  }
+
+  /**
+   * Number of jobs not yet released (useful for test assertions)
+   */
+  size(): number {
+    let count = 0;
+    for (const entry of this.entries.values()) {
+      if (!entry.done) count++;
+    }
+    return count;
+  }
+}
+
+/**
+ * Create the queue backend selected by JOB_QUEUE_BACKEND (postgres | memory)
+ */
+export function createJobQueue(backend = process.env.JOB_QUEUE_BACKEND || 'postgres'): JobQueue {
+  if (backend === 'memory') {
+    return new InMemoryJobQueue();
+  }
+  return new PostgresJobQueue();
+}
+
+export const jobQueue = createJobQueue();
@@ -0,0 +1,127 @@
+import { supabase } from '../utils/supabase';
+import { MarketTrends, NewProductsDay, VendorTrend } from '../types';
+
+export const TREND_WINDOWS = [7, 30, 90] as const;
+export type TrendWindow = typeof TREND_WINDOWS[number];
+
+// A product type, vendor or day must cover at least this many stores to be shown
+export const TRENDS_MIN_STORES = Math.max(Number(process.env.TRENDS_MIN_STORES) || 5, 2);
+
+// Vendors need this many products at the start of the window to rank by growth
+const MIN_VENDOR_BASELINE = 10;
+
+const TOP_PRODUCT_TYPES = 10;
+const TOP_VENDORS = 10;
+
+// Trends cover the whole platform, so every user shares one cached result per window
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const cache = new Map<TrendWindow, { expiresAt: number; trends: Promise<MarketTrends> }>();
+
+async function rpc<T>(name: string, params: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.rpc(name, params);
+
+  if (error) {
+    throw new Error(`Failed to load ${name}: ${error.message}`);
+  }
+
+  return data as T;
+}
+
+const percentChange = (current: number, previous: number) =>
+  Math.round(((current - previous) / previous) * 1000) / 10;
+
+/**
+ * Aggregate market trends over the last `days` days
+ */
+async function computeTrends(days: TrendWindow): Promise<MarketTrends> {
+  const now = new Date();
+  const since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const storesTracked = await rpc<number>('market_store_count', { p_at: now.toISOString() });
+
+  const trends: MarketTrends = {
+    window_days: days,
+    generated_at: now.toISOString(),
+    min_stores: TRENDS_MIN_STORES,
+    stores_tracked: storesTracked,
+    insufficient_data: storesTracked < TRENDS_MIN_STORES,
+    product_types: [],
+    vendors: [],
+    new_products: { total: null, per_day: null, days: [] },
+  };
+
+  // Too few stores to aggregate without pointing at individual ones
+  if (trends.insufficient_data) return trends;
+
+  const [productTypes, vendors, newProducts] = await Promise.all([
+    rpc<{ product_type: string; stores: number; products: number; median_price: number | string | null }[]>(
+      'market_product_types',
+      { p_min_stores: TRENDS_MIN_STORES, p_limit: TOP_PRODUCT_TYPES }
+    ),
+    rpc<Omit<VendorTrend, 'growth_percent'>[]>(
+      'market_vendor_growth',
+      { p_since: since, p_min_stores: TRENDS_MIN_STORES }
+    ),
+    rpc<{ day: string | null; stores: number; new_products: number }[]>(
+      'market_new_products',
+      { p_since: since }
+    ),
+  ]);
+
+  trends.product_types = (productTypes || []).map(type => ({
+    ...type,
+    median_price: type.median_price === null ? null : Number(type.median_price),
+  }));
+
+  trends.vendors = (vendors || [])
+    .filter(vendor => vendor.previous_products >= MIN_VENDOR_BASELINE)
+    .map(vendor => ({
+      ...vendor,
+      growth_percent: percentChange(vendor.products, vendor.previous_products),
+    }))
+    .filter(vendor => vendor.growth_percent > 0)
+    .sort((a, b) => b.growth_percent - a.growth_percent)
+    .slice(0, TOP_VENDORS);
+
+  // The row without a day is the whole window
+  const rows = newProducts || [];
+  const total = rows.find(row => row.day === null);
+  if (total && total.stores >= TRENDS_MIN_STORES) {
+    trends.new_products.total = total.new_products;
+    trends.new_products.per_day = Math.round((total.new_products / days) * 10) / 10;
+  }
+
+  const byDay = new Map(rows.filter(row => row.day !== null).map(row => [row.day!, row]));
+  const series: NewProductsDay[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const day = new Date(now.getTime() - i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const row = byDay.get(day);
+    series.push({
+      day,
+      new_products: !row ? 0 : row.stores >= TRENDS_MIN_STORES ? row.new_products : null,
+    });
+  }
+  trends.new_products.days = series;
+
+  return trends;
+}
+
+/**
+ * Market trends for a window, recomputed at most every CACHE_TTL_MS
+ */
+export function getMarketTrends(days: TrendWindow): Promise<MarketTrends> {
+  const cached = cache.get(days);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.trends;
+  }
+
+  const trends = computeTrends(days);
+  cache.set(days, { expiresAt: Date.now() + CACHE_TTL_MS, trends });
+
+  // Never keep a failure around
+  trends.catch(() => {
+    if (cache.get(days)?.trends === trends) cache.delete(days);
+  });
+
+  return trends;
+}
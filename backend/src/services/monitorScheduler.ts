@@ -0,0 +1,199 @@
+import { randomUUID } from 'crypto';
+import { supabase } from '../utils/supabase';
+import { JobQueue } from './jobQueue';
+import { estimateCatalogueSize } from './shopifyScraper';
+import {
+  cancelReservation,
+  lastKnownCatalogueSize,
+  priceForCatalogue,
+  reservationColumns,
+  reserveScrapeCredits,
+} from './scrapeBilling';
+import { StoreMonitor } from '../types';
+
+const DEFAULT_POLL_INTERVAL = 60000;
+const DUE_BATCH_SIZE = 50;
+
+interface SchedulerOptions {
+  queue: JobQueue;
+  pollInterval?: number;
+}
+
+export interface MonitorScheduler {
+  stop(): Promise<void>;
+}
+
+export function nextRunAfter(from: Date, intervalHours: number): string {
+  return new Date(from.getTime() + intervalHours * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Enqueue a scrape for one due monitor
+ * The monitor is claimed by advancing next_run_at with a compare-and-set,
+ * so several API/worker processes can run the scheduler without double-enqueueing.
+ */
+export async function runMonitor(queue: JobQueue, monitor: StoreMonitor, now = new Date()) {
+  const { data: claimed } = await supabase
+    .from('store_monitors')
+    .update({
+      next_run_at: nextRunAfter(now, monitor.interval_hours),
+      updated_at: now.toISOString(),
+    })
+    .eq('id', monitor.id)
+    .eq('status', 'active')
+    .eq('next_run_at', monitor.next_run_at)
+    .select('id');
+
+  if (!claimed || claimed.length === 0) return;
+
+  // Skip this run if the previous one is still in flight
+  if (monitor.last_job_id) {
+    const { data: lastJob } = await supabase
+      .from('scrape_jobs')
+      .select('status')
+      .eq('id', monitor.last_job_id)
+      .single();
+
+    if (lastJob && ['pending', 'running'].includes(lastJob.status)) {
+      console.log(`[Monitor ${monitor.id}] Previous run still in progress, skipping`);
+      return;
+    }
+  }
+
+  // Each run is priced and charged like a manual scrape; stop scheduling once credits run out.
+  // The size the last scrape found prices the run, as it did when the monitor was created.
+  const catalogueSize = await lastKnownCatalogueSize(monitor.store_url)
+    ?? (await estimateCatalogueSize(monitor.store_url))?.count;
+  const price = priceForCatalogue(catalogueSize);
+  const jobId = randomUUID();
+  const credits = await reserveScrapeCredits(
+    monitor.user_id,
+    jobId,
+    price,
+    `Scheduled scrape of ${monitor.store_name || monitor.store_url}`
+  );
+  if (!credits.ok) {
+    await supabase
+      .from('store_monitors')
+      .update({
+        status: 'paused',
+        paused_reason: 'insufficient_credits',
+        updated_at: now.toISOString(),
+      })
+      .eq('id', monitor.id);
+
+    console.warn(`[Monitor ${monitor.id}] Paused: insufficient credits`);
+    return;
+  }
+
+  const { data: job, error } = await supabase
+    .from('scrape_jobs')
+    .insert({
+      id: jobId,
+      user_id: monitor.user_id,
+      store_url: monitor.store_url,
+      store_name: monitor.store_name,
+      status: 'pending',
+      monitor_id: monitor.id,
+      credits_price: price,
+      estimated_products: catalogueSize ?? null,
+      ...reservationColumns(credits.reservation),
+    })
+    .select()
+    .single();
+
+  if (error || !job) {
+    console.error(`[Monitor ${monitor.id}] Failed to create job:`, error);
+    await cancelReservation(credits.reservation, 'Scheduled scrape could not be created');
+    return;
+  }
+
+  await queue.enqueue({
+    id: job.id,
+    userId: monitor.user_id,
+    storeUrl: monitor.store_url,
+  });
+
+  await supabase
+    .from('store_monitors')
+    .update({ last_run_at: now.toISOString(), last_job_id: job.id })
+    .eq('id', monitor.id);
+
+  console.log(`[Monitor ${monitor.id}] Enqueued job ${job.id} for ${monitor.store_url}`);
+}
+
+/**
+ * Start a loop that enqueues scrapes for monitors whose next run is due
+ */
+export function startMonitorScheduler(options: SchedulerOptions): MonitorScheduler {
+  const pollInterval = options.pollInterval || DEFAULT_POLL_INTERVAL;
+
+  let stopped = false;
+  let wake: (() => void) | null = null;
+
+  const sleep = (ms: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    wake = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+
+  const tick = async () => {
+    const now = new Date();
+    const { data: due, error } = await supabase
+      .from('store_monitors')
+      .select('*')
+      .eq('status', 'active')
+      .lte('next_run_at', now.toISOString())
+      .order('next_run_at', { ascending: true })
+      .limit(DUE_BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to load due monitors: ${error.message}`);
+    }
+
+    for (const monitor of (due || []) as StoreMonitor[]) {
+      if (stopped) break;
+      try {
+        await runMonitor(options.queue, monitor, now);
+      } catch (error) {
+        console.error(`[Monitor ${monitor.id}] Run failed:`, error);
+
+        // Skip to the next interval so a failing monitor is not retried every tick
+        await supabase
+          .from('store_monitors')
+          .update({
+            next_run_at: nextRunAfter(now, monitor.interval_hours),
+            updated_at: now.toISOString(),
+          })
+          .eq('id', monitor.id)
+          .eq('status', 'active');
+      }
+    }
+  };
+
+  const loop = (async () => {
+    console.log('[Monitor Scheduler] Started');
+
+    while (!stopped) {
+      try {
+        await tick();
+      } catch (error) {
+        console.error('[Monitor Scheduler] Tick error:', error);
+      }
+
+      await sleep(pollInterval);
+    }
+
+    console.log('[Monitor Scheduler] Stopped');
+  })();
+
+  return {
+    async stop() {
+      stopped = true;
+      wake?.();
+      await loop;
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import { supabase } from '../utils/supabase';
+import { emailSender, EmailSender } from './email';
+import { Organization, OrganizationInvite, OrganizationRole } from '../types';
+
+export const INVITE_TTL_DAYS = 7;
+
+export interface Membership {
+  role: OrganizationRole;
+  organization: Organization;
+}
+
+/**
+ * Owners and admins manage members, invites and the wallet
+ */
+export function canManageOrganization(role: OrganizationRole) {
+  return role === 'owner' || role === 'admin';
+}
+
+/**
+ * The user's organization and role, or null when they are not in one
+ */
+export async function getMembership(userId: string): Promise<Membership | null> {
+  const { data } = await supabase
+    .from('organization_members')
+    .select('role, organizations(*)')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!data?.organizations) return null;
+
+  return {
+    role: data.role,
+    organization: data.organizations as unknown as Organization,
+  };
+}
+
+/**
+ * Credits available to the user: the organization wallet for members,
+ * their own balance otherwise (same rule as deduct_credits)
+ */
+export async function getWalletBalance(userId: string) {
+  const membership = await getMembership(userId);
+  if (membership) {
+    return { credits: membership.organization.credits, membership };
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('credits')
+    .eq('id', userId)
+    .single();
+
+  return { credits: user ? user.credits || 0 : null, membership: null };
+}
+
+/**
+ * PostgREST .or() filter for the jobs a user can see:
+ * their own plus every job run under their organization
+ */
+export async function visibleJobsFilter(userId: string | undefined) {
+  const membership = userId ? await getMembership(userId) : null;
+  return membership
+    ? `user_id.eq.${userId},organization_id.eq.${membership.organization.id}`
+    : `user_id.eq.${userId}`;
+}
+
+export async function sendInviteEmail(
+  invite: OrganizationInvite,
+  organizationName: string,
+  inviterEmail: string | undefined,
+  sender: EmailSender = emailSender
+) {
+  return sender.send({
+    to: invite.email,
+    subject: `You've been invited to join ${organizationName} on DataFlow`,
+    text: [
+      `${inviterEmail || 'A teammate'} invited you to join ${organizationName} as ${invite.role === 'admin' ? 'an admin' : 'a member'}.`,
+      '',
+      `Sign in to the DataFlow app with ${invite.email} and accept the invitation from Settings → Team.`,
+      `Members share the organization's credits and scrape history.`,
+      '',
+      `This invitation expires on ${new Date(invite.expires_at).toDateString()}.`,
+    ].join('\n'),
+  });
+}
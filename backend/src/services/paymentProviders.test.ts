@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DodoPaymentProvider,
+  MOCK_WEBHOOK_SECRET,
+  MockPaymentProvider,
+  createPaymentProvider,
+} from './paymentProviders';
+import { signPaymentWebhook } from './paymentWebhooks';
+
+test('PAYMENT_PROVIDER selects the provider', () => {
+  assert.ok(createPaymentProvider('mock') instanceof MockPaymentProvider);
+  assert.ok(createPaymentProvider('dodo') instanceof DodoPaymentProvider);
+});
+
+test('the mock provider is refused in production', t => {
+  const nodeEnv = process.env.NODE_ENV;
+  t.after(() => {
+    process.env.NODE_ENV = nodeEnv;
+  });
+
+  process.env.NODE_ENV = 'production';
+
+  assert.throws(() => createPaymentProvider('mock'), /cannot be used with NODE_ENV=production/);
+  assert.ok(createPaymentProvider('dodo') instanceof DodoPaymentProvider);
+});
+
+test('a signed mock webhook that is not a readable event fails verification', () => {
+  const provider = new MockPaymentProvider('http://localhost');
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signed = (body: string) => ({
+    id: 'mock_evt_1',
+    timestamp,
+    signature: signPaymentWebhook(MOCK_WEBHOOK_SECRET, 'mock_evt_1', timestamp, body),
+  });
+
+  assert.deepEqual(provider.verifyWebhook(signed('{"event_type":'), '{"event_type":'), {
+    ok: false,
+    reason: 'Malformed body',
+  });
+  assert.deepEqual(provider.verifyWebhook(signed('{}'), '{}'), {
+    ok: true,
+    eventId: 'mock_evt_1',
+    event: { type: '', payment: null },
+  });
+});
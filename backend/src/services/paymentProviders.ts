@@ -0,0 +1,300 @@
+import { randomUUID } from 'crypto';
+import { signPaymentWebhook, verifyPaymentWebhook, WebhookSignatureHeaders } from './paymentWebhooks';
+
+export type PaymentStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface CheckoutRequest {
+  amount: number; // Minor units (paise)
+  currency: string;
+  description: string;
+  customerEmail?: string;
+  metadata: Record<string, unknown>;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutLink {
+  id: string; // Stored as transactions.payment_intent_id
+  url: string;
+}
+
+export interface ProviderPayment {
+  id: string;
+  status: PaymentStatus;
+  metadata: Record<string, any>;
+}
+
+export interface PaymentEvent {
+  type: string; // e.g. 'payment.completed'
+  payment: ProviderPayment | null;
+}
+
+export type WebhookResult =
+  | { ok: true; eventId: string; event: PaymentEvent }
+  | { ok: false; reason: string };
+
+export interface RefundResult {
+  id: string;
+  status: PaymentStatus;
+}
+
+/**
+ * Payment backend used by /payment
+ * Implementations talk to one provider; routes only see these operations.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutLink>;
+  // Null when the provider does not know the payment
+  getPayment(paymentId: string): Promise<ProviderPayment | null>;
+  // Checks the signature over the raw body before parsing the event
+  verifyWebhook(headers: WebhookSignatureHeaders, rawBody: string): WebhookResult;
+  // Refunds the whole payment unless an amount (minor units) is given
+  refund(paymentId: string, amount?: number, reason?: string): Promise<RefundResult>;
+}
+
+const toPayment = (data: any, status: PaymentStatus): ProviderPayment => ({
+  id: data.payment_id || data.id,
+  status,
+  metadata: data.metadata || {},
+});
+
+/**
+ * Dodo Payments
+ * Needs DODO_API_KEY, and DODO_WEBHOOK_SECRET for webhooks.
+ */
+export class DodoPaymentProvider implements PaymentProvider {
+  readonly name = 'dodo';
+
+  constructor(
+    private apiKey = process.env.DODO_API_KEY || '',
+    private apiUrl = process.env.DODO_API_URL || 'https://api.dodopayments.com/v1',
+    private webhookSecret = process.env.DODO_WEBHOOK_SECRET || ''
+  ) {}
+
+  private async request(path: string, init: { method?: string; body?: unknown } = {}) {
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      method: init.method || 'GET',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: init.body ? JSON.stringify(init.body) : undefined,
+    });
+
+    return { response, data: (await response.json().catch(() => null)) as any };
+  }
+
+  private static toStatus(status: string | undefined): PaymentStatus {
+    if (status === 'completed' || status === 'success' || status === 'succeeded') return 'succeeded';
+    if (status === 'failed' || status === 'cancelled') return 'failed';
+    return 'pending';
+  }
+
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutLink> {
+    const { response, data } = await this.request('/payment-links', {
+      method: 'POST',
+      body: {
+        amount: request.amount,
+        currency: request.currency,
+        description: request.description,
+        customer_email: request.customerEmail,
+        metadata: request.metadata,
+        success_url: request.successUrl,
+        cancel_url: request.cancelUrl,
+      },
+    });
+
+    if (!response.ok) {
+      console.error('[Dodo API Error]', data);
+      throw new Error(`Dodo payment link failed with status ${response.status}`);
+    }
+
+    return { id: data.id, url: data.short_url || data.url };
+  }
+
+  async getPayment(paymentId: string): Promise<ProviderPayment | null> {
+    const { response, data } = await this.request(`/payments/${encodeURIComponent(paymentId)}`);
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Dodo payment lookup failed with status ${response.status}`);
+    }
+
+    return toPayment(data, DodoPaymentProvider.toStatus(data.status));
+  }
+
+  verifyWebhook(headers: WebhookSignatureHeaders, rawBody: string): WebhookResult {
+    if (!this.webhookSecret) {
+      console.error('[Webhook Error] DODO_WEBHOOK_SECRET is not set');
+      return { ok: false, reason: 'Webhook secret not configured' };
+    }
+
+    const verification = verifyPaymentWebhook(this.webhookSecret, headers, rawBody);
+    if (!verification.ok) return verification;
+
+    let event: any;
+    try {
+      event = JSON.parse(rawBody);
+    } catch {
+      return { ok: false, reason: 'Malformed body' };
+    }
+
+    const type = event?.event_type || event?.type || '';
+    return {
+      ok: true,
+      eventId: headers.id!,
+      event: {
+        type,
+        payment: event?.data
+          ? toPayment(event.data, type === 'payment.completed' ? 'succeeded' : DodoPaymentProvider.toStatus(event.data.status))
+          : null,
+      },
+    };
+  }
+
+  async refund(paymentId: string, amount?: number, reason?: string): Promise<RefundResult> {
+    const { response, data } = await this.request('/refunds', {
+      method: 'POST',
+      body: { payment_id: paymentId, amount, reason },
+    });
+
+    if (!response.ok) {
+      console.error('[Dodo API Error]', data);
+      throw new Error(`Dodo refund failed with status ${response.status}`);
+    }
+
+    return {
+      id: data.refund_id || data.id,
+      status: DodoPaymentProvider.toStatus(data.status),
+    };
+  }
+}
+
+interface MockPayment extends ProviderPayment {
+  amount: number;
+  refunded: number;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+// Fixed secret: mock webhooks are for local development and tests only
+export const MOCK_WEBHOOK_SECRET = `whsec_${Buffer.from('dataflow-mock-payments').toString('base64')}`;
+
+/**
+ * Completes payments locally without a provider account
+ * Checkout links point at GET /payment/mock/checkout/:id on this API, which
+ * completes (or, with ?outcome=cancel|fail, abandons) the payment and
+ * redirects back to the app. Payments live in memory, so never use it in production.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock';
+  private payments = new Map<string, MockPayment>();
+
+  constructor(
+    private baseUrl = process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || '3000'}`
+  ) {}
+
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutLink> {
+    const id = `mock_pay_${randomUUID()}`;
+    this.payments.set(id, {
+      id,
+      status: 'pending',
+      metadata: request.metadata,
+      amount: request.amount,
+      refunded: 0,
+      successUrl: request.successUrl,
+      cancelUrl: request.cancelUrl,
+    });
+
+    return { id, url: `${this.baseUrl}/payment/mock/checkout/${id}` };
+  }
+
+  async getPayment(paymentId: string): Promise<ProviderPayment | null> {
+    const payment = this.payments.get(paymentId);
+    return payment ? { id: payment.id, status: payment.status, metadata: payment.metadata } : null;
+  }
+
+  /**
+   * Settle a pending payment the way the hosted checkout would
+   * Returns the URL to send the customer back to, or null for an unknown payment.
+   */
+  checkout(paymentId: string, outcome: 'succeed' | 'fail' | 'cancel' = 'succeed'): string | null {
+    const payment = this.payments.get(paymentId);
+    if (!payment) return null;
+
+    if (payment.status === 'pending' && outcome !== 'cancel') {
+      payment.status = outcome === 'succeed' ? 'succeeded' : 'failed';
+    }
+
+    return payment.status === 'succeeded' ? payment.successUrl : payment.cancelUrl;
+  }
+
+  /**
+   * A signed payment.completed webhook for a payment, as the provider would send it
+   */
+  signedWebhook(paymentId: string, timestamp = Math.floor(Date.now() / 1000)) {
+    const payment = this.payments.get(paymentId);
+    const id = `mock_evt_${randomUUID()}`;
+    const body = JSON.stringify({
+      event_type: 'payment.completed',
+      data: { id: paymentId, status: payment?.status, metadata: payment?.metadata || {} },
+    });
+
+    return {
+      headers: {
+        'webhook-id': id,
+        'webhook-timestamp': String(timestamp),
+        'webhook-signature': signPaymentWebhook(MOCK_WEBHOOK_SECRET, id, timestamp, body),
+      },
+      body,
+    };
+  }
+
+  verifyWebhook(headers: WebhookSignatureHeaders, rawBody: string): WebhookResult {
+    const verification = verifyPaymentWebhook(MOCK_WEBHOOK_SECRET, headers, rawBody);
+    if (!verification.ok) return verification;
+
+    let event: any;
+    try {
+      event = JSON.parse(rawBody);
+    } catch {
+      return { ok: false, reason: 'Malformed body' };
+    }
+
+    return {
+      ok: true,
+      eventId: headers.id!,
+      event: {
+        type: event?.event_type || '',
+        payment: event?.data ? toPayment(event.data, event.data.status || 'succeeded') : null,
+      },
+    };
+  }
+
+  async refund(paymentId: string, amount?: number): Promise<RefundResult> {
+    const payment = this.payments.get(paymentId);
+    if (!payment || payment.status !== 'succeeded') {
+      throw new Error(`Mock payment ${paymentId} cannot be refunded`);
+    }
+
+    payment.refunded = Math.min(payment.amount, payment.refunded + (amount ?? payment.amount));
+    return { id: `mock_refund_${randomUUID()}`, status: 'succeeded' };
+  }
+}
+
+/**
+ * Create the provider selected by PAYMENT_PROVIDER (dodo | mock)
+ * Refuses the mock in production, where it would hand out credits for free.
+ */
+export function createPaymentProvider(backend = process.env.PAYMENT_PROVIDER || 'dodo'): PaymentProvider {
+  if (backend === 'mock') {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('PAYMENT_PROVIDER=mock cannot be used with NODE_ENV=production');
+    }
+    return new MockPaymentProvider();
+  }
+  return new DodoPaymentProvider();
+}
+
+export const paymentProvider = createPaymentProvider();
@@ -0,0 +1,157 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeSupabase } from '../test/fakeSupabase';
+import {
+  WEBHOOK_CLAIM_TTL_MS,
+  WEBHOOK_TOLERANCE_SECONDS,
+  claimWebhookEvent,
+  finishWebhookEvent,
+  signPaymentWebhook,
+  verifyPaymentWebhook,
+} from './paymentWebhooks';
+
+const SECRET = `whsec_${Buffer.from('test-signing-secret').toString('base64')}`;
+const ROTATED_SECRET = `whsec_${Buffer.from('next-signing-secret').toString('base64')}`;
+const NOW = Date.UTC(2026, 0, 1);
+const TIMESTAMP = String(NOW / 1000);
+const BODY = JSON.stringify({ type: 'payment.succeeded', data: { payment_id: 'pay_1' } });
+
+const signedHeaders = (body = BODY, timestamp = TIMESTAMP, secret = SECRET) => ({
+  id: 'msg_1',
+  timestamp,
+  signature: signPaymentWebhook(secret, 'msg_1', timestamp, body),
+});
+
+test('a correctly signed webhook verifies', () => {
+  assert.deepEqual(verifyPaymentWebhook(SECRET, signedHeaders(), BODY, NOW), { ok: true });
+});
+
+test('a webhook whose body was changed after signing is rejected', () => {
+  const tampered = BODY.replace('pay_1', 'pay_2');
+
+  assert.deepEqual(verifyPaymentWebhook(SECRET, signedHeaders(), tampered, NOW), {
+    ok: false,
+    reason: 'Signature mismatch',
+  });
+});
+
+test('a webhook signed with another secret is rejected', () => {
+  assert.deepEqual(
+    verifyPaymentWebhook(SECRET, signedHeaders(BODY, TIMESTAMP, ROTATED_SECRET), BODY, NOW),
+    { ok: false, reason: 'Signature mismatch' }
+  );
+});
+
+test('a webhook outside the timestamp tolerance is rejected, even if correctly signed', () => {
+  const stale = String(NOW / 1000 - WEBHOOK_TOLERANCE_SECONDS - 1);
+  const early = String(NOW / 1000 + WEBHOOK_TOLERANCE_SECONDS + 1);
+
+  for (const timestamp of [stale, early]) {
+    assert.deepEqual(verifyPaymentWebhook(SECRET, signedHeaders(BODY, timestamp), BODY, NOW), {
+      ok: false,
+      reason: 'Timestamp outside tolerance',
+    });
+  }
+
+  const edge = String(NOW / 1000 - WEBHOOK_TOLERANCE_SECONDS);
+  assert.deepEqual(verifyPaymentWebhook(SECRET, signedHeaders(BODY, edge), BODY, NOW), { ok: true });
+});
+
+test('a webhook missing any signature header is rejected', () => {
+  for (const missing of ['id', 'timestamp', 'signature'] as const) {
+    const headers = { ...signedHeaders(), [missing]: undefined };
+
+    assert.deepEqual(verifyPaymentWebhook(SECRET, headers, BODY, NOW), {
+      ok: false,
+      reason: 'Missing signature headers',
+    });
+  }
+});
+
+test('a non-numeric timestamp is rejected', () => {
+  assert.deepEqual(verifyPaymentWebhook(SECRET, signedHeaders(BODY, 'yesterday'), BODY, NOW), {
+    ok: false,
+    reason: 'Invalid timestamp',
+  });
+});
+
+test('any of several signatures is accepted while a secret is rotated', () => {
+  const current = signPaymentWebhook(SECRET, 'msg_1', TIMESTAMP, BODY);
+  const next = signPaymentWebhook(ROTATED_SECRET, 'msg_1', TIMESTAMP, BODY);
+  const headers = { id: 'msg_1', timestamp: TIMESTAMP, signature: `${next} ${current}` };
+
+  assert.deepEqual(verifyPaymentWebhook(SECRET, headers, BODY, NOW), { ok: true });
+  assert.deepEqual(verifyPaymentWebhook(ROTATED_SECRET, headers, BODY, NOW), { ok: true });
+  assert.equal(verifyPaymentWebhook(SECRET, { ...headers, signature: `${next} v1,bm9wZQ==` }, BODY, NOW).ok, false);
+});
+
+/**
+ * Fake table with the migration's defaults and partial unique index on (provider, event_id)
+ */
+const webhookEvents = () => new FakeSupabase()
+  .defaults('payment_webhook_events', () => ({ attempts: 1, claimed_at: new Date().toISOString() }))
+  .unique('payment_webhook_events', (row, values) =>
+    ['processing', 'processed', 'failed'].includes(row.status)
+    && ['processing', 'processed', 'failed'].includes(values.status)
+    && row.provider === values.provider
+    && row.event_id === values.event_id
+  );
+
+const statuses = (db: FakeSupabase) => db.rows('payment_webhook_events').map(row => row.status);
+
+test('an event id is claimed once; a redelivery is logged as a duplicate', async t => {
+  const db = webhookEvents().install(t);
+
+  assert.equal(await claimWebhookEvent('dodo', 'msg_1', 'payment.succeeded', BODY, NOW), true);
+  await finishWebhookEvent('dodo', 'msg_1');
+
+  assert.equal(await claimWebhookEvent('dodo', 'msg_1', 'payment.succeeded', BODY, NOW + 1000), false);
+  assert.deepEqual(statuses(db), ['processed', 'duplicate']);
+
+  // Event ids are unique per provider
+  assert.equal(await claimWebhookEvent('mock', 'msg_1', 'payment.succeeded', BODY, NOW), true);
+});
+
+test('an event still being processed is a duplicate', async t => {
+  const db = webhookEvents().install(t);
+
+  assert.equal(await claimWebhookEvent('dodo', 'msg_1', null, BODY, NOW), true);
+  assert.equal(await claimWebhookEvent('dodo', 'msg_1', null, BODY, NOW + WEBHOOK_CLAIM_TTL_MS - 1), false);
+  assert.deepEqual(statuses(db), ['processing', 'duplicate']);
+});
+
+test('a failed event is claimed again by the next delivery', async t => {
+  const db = webhookEvents().install(t);
+
+  assert.equal(await claimWebhookEvent('dodo', 'msg_1', null, BODY, NOW), true);
+  await finishWebhookEvent('dodo', 'msg_1', 'Ledger unavailable');
+
+  assert.equal(await claimWebhookEvent('dodo', 'msg_1', null, BODY, NOW + 1000), true);
+  const [event] = db.rows('payment_webhook_events');
+  assert.equal(event.status, 'processing');
+  assert.equal(event.attempts, 2);
+  assert.equal(event.error, null);
+
+  // The reclaim is a compare-and-set: a concurrent redelivery loses
+  assert.equal(await claimWebhookEvent('dodo', 'msg_1', null, BODY, NOW + 1000), false);
+});
+
+test('a claim abandoned mid-processing is reclaimed once it expires', async t => {
+  const db = webhookEvents().install(t);
+
+  // The first handler crashed before finishing the event
+  assert.equal(await claimWebhookEvent('dodo', 'msg_1', null, BODY, NOW), true);
+
+  const expired = NOW + WEBHOOK_CLAIM_TTL_MS;
+  assert.equal(await claimWebhookEvent('dodo', 'msg_1', null, BODY, expired), true);
+  const [event] = db.rows('payment_webhook_events');
+  assert.equal(event.status, 'processing');
+  assert.equal(event.attempts, 2);
+  assert.equal(event.claimed_at, new Date(expired).toISOString());
+
+  // The new claim is fresh, so further redeliveries are duplicates again
+  assert.equal(await claimWebhookEvent('dodo', 'msg_1', null, BODY, expired + 1000), false);
+
+  await finishWebhookEvent('dodo', 'msg_1');
+  assert.deepEqual(statuses(db), ['processed', 'duplicate']);
+});
@@ -0,0 +1,181 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { supabase } from '../utils/supabase';
+
+// Dodo signs webhooks per the Standard Webhooks spec; older timestamps are replays
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+// A 'processing' claim older than this belongs to a handler that died mid-event
+export const WEBHOOK_CLAIM_TTL_MS = 5 * 60 * 1000;
+
+export interface WebhookSignatureHeaders {
+  id?: string; // webhook-id
+  timestamp?: string; // webhook-timestamp (unix seconds)
+  signature?: string; // webhook-signature
+}
+
+export type WebhookVerification = { ok: true } | { ok: false; reason: string };
+
+/**
+ * HMAC key from a webhook secret ("whsec_" followed by base64)
+ */
+function secretKey(secret: string): Buffer {
+  return Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+}
+
+/**
+ * webhook-signature value for a body: base64 HMAC-SHA256 over `${id}.${timestamp}.${body}`
+ */
+export function signPaymentWebhook(secret: string, id: string, timestamp: string | number, body: string) {
+  const digest = createHmac('sha256', secretKey(secret))
+    .update(`${id}.${timestamp}.${body}`)
+    .digest('base64');
+  return `v1,${digest}`;
+}
+
+/**
+ * Check a webhook against the raw body it was signed over
+ * The signature header may hold several space-separated signatures (while a
+ * secret is being rotated); any match is accepted.
+ */
+export function verifyPaymentWebhook(
+  secret: string,
+  headers: WebhookSignatureHeaders,
+  rawBody: string,
+  now = Date.now()
+): WebhookVerification {
+  if (!headers.id || !headers.timestamp || !headers.signature) {
+    return { ok: false, reason: 'Missing signature headers' };
+  }
+
+  const timestamp = Number(headers.timestamp);
+  if (!Number.isInteger(timestamp)) {
+    return { ok: false, reason: 'Invalid timestamp' };
+  }
+
+  if (Math.abs(now / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    return { ok: false, reason: 'Timestamp outside tolerance' };
+  }
+
+  const expected = Buffer.from(signPaymentWebhook(secret, headers.id, headers.timestamp, rawBody));
+  const matches = headers.signature.split(' ').some(candidate => {
+    const given = Buffer.from(candidate);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  });
+
+  return matches ? { ok: true } : { ok: false, reason: 'Signature mismatch' };
+}
+
+/**
+ * Keep a request that failed verification, for auditing
+ */
+export async function recordRejectedWebhook(
+  provider: string,
+  eventId: string | null,
+  body: string,
+  reason: string
+) {
+  const { error } = await supabase
+    .from('payment_webhook_events')
+    .insert({
+      provider,
+      event_id: eventId,
+      body,
+      status: 'rejected',
+      error: reason,
+    });
+
+  if (error) {
+    console.error('[Webhook Error] Failed to record rejected event:', error);
+  }
+}
+
+/**
+ * Record a verified event and claim it for processing
+ * Returns false for an event id that was already processed (or is in progress);
+ * the repeat is logged as 'duplicate'. An event that failed earlier, or whose
+ * claim outlived WEBHOOK_CLAIM_TTL_MS, is claimed again, so the provider's
+ * retries can still apply it.
+ */
+export async function claimWebhookEvent(
+  provider: string,
+  eventId: string,
+  eventType: string | null,
+  body: string,
+  now = Date.now()
+): Promise<boolean> {
+  const claimedAt = new Date(now).toISOString();
+
+  const { error } = await supabase
+    .from('payment_webhook_events')
+    .insert({
+      provider,
+      event_id: eventId,
+      event_type: eventType,
+      body,
+      status: 'processing',
+      claimed_at: claimedAt,
+    });
+
+  if (!error) return true;
+
+  if (error.code !== '23505') {
+    throw new Error(`Failed to record webhook event: ${error.message}`);
+  }
+
+  const { data: previous } = await supabase
+    .from('payment_webhook_events')
+    .select('id, status, attempts, claimed_at')
+    .eq('provider', provider)
+    .eq('event_id', eventId)
+    .in('status', ['processing', 'processed', 'failed'])
+    .maybeSingle();
+
+  const abandoned = previous?.status === 'processing'
+    && now - new Date(previous.claimed_at).getTime() >= WEBHOOK_CLAIM_TTL_MS;
+
+  if (previous?.status === 'failed' || abandoned) {
+    // Compare-and-set, so concurrent redeliveries cannot both reclaim it
+    const { data: reclaimed } = await supabase
+      .from('payment_webhook_events')
+      .update({
+        status: 'processing',
+        error: null,
+        attempts: previous.attempts + 1,
+        claimed_at: claimedAt,
+      })
+      .eq('id', previous.id)
+      .eq('status', previous.status)
+      .eq('claimed_at', previous.claimed_at)
+      .select('id');
+
+    if (reclaimed?.length) return true;
+  }
+
+  await supabase
+    .from('payment_webhook_events')
+    .insert({
+      provider,
+      event_id: eventId,
+      event_type: eventType,
+      body,
+      status: 'duplicate',
+    });
+
+  return false;
+}
+
+/**
+ * Mark a claimed event processed, or failed with the reason
+ */
+export async function finishWebhookEvent(provider: string, eventId: string, failure?: string) {
+  await supabase
+    .from('payment_webhook_events')
+    .update({
+      status: failure ? 'failed' : 'processed',
+      error: failure || null,
+      processed_at: new Date().toISOString(),
+    })
+    .eq('provider', provider)
+    .eq('event_id', eventId)
+    .eq('status', 'processing');
+}
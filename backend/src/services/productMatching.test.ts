@@ -0,0 +1,105 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { imageKey, scoreProductPair, suggestMatches } from './productMatching';
+import { MatchDecision, Product, ProductVariant } from '../types';
+
+const ALPHA = 'https://alpha.example';
+const BETA = 'https://beta.example';
+
+const variant = (overrides: Partial<ProductVariant> = {}): ProductVariant => ({
+  id: 1,
+  title: 'Default',
+  price: '10.00',
+  ...overrides,
+});
+
+const product = (id: number, title: string, overrides: Partial<Product> = {}): Product => ({
+  id,
+  title,
+  handle: `product-${id}`,
+  variants: [variant()],
+  ...overrides,
+});
+
+const decision = (productA: number, productB: number, status: MatchDecision['status']): MatchDecision => ({
+  id: `match-${productA}-${productB}`,
+  user_id: 'user-1',
+  store_a: ALPHA,
+  product_a: productA,
+  title_a: null,
+  store_b: BETA,
+  product_b: productB,
+  title_b: null,
+  status,
+  score: null,
+  signals: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+});
+
+const pairs = (suggestions: ReturnType<typeof suggestMatches>) =>
+  suggestions.map(suggestion => [suggestion.product_a.id, suggestion.product_b.id, suggestion.status]);
+
+test('image keys drop the CDN size suffix, upload id and query', () => {
+  const upload = 'https://cdn.shopify.com/s/files/1/0001/files/Blue-Hat_1a2b3c4d-1111-2222-3333-444455556666_800x.jpg?v=17';
+
+  assert.equal(imageKey(upload), 'blue-hat');
+  assert.equal(imageKey('https://cdn.example.com/products/blue-hat_grande.png'), 'blue-hat');
+  assert.equal(imageKey('https://cdn.example.com/products/blue-hat.webp'), 'blue-hat');
+  assert.equal(imageKey('https://cdn.example.com/products/a1.jpg'), null);
+  assert.equal(imageKey(undefined), null);
+});
+
+test('a shared barcode or SKU scores as a match despite different titles', () => {
+  const socks = product(1, 'Merino Crew Socks', { variants: [variant({ barcode: '0 12345 67890 5', sku: 'MCS-01' })] });
+  const byBarcode = product(2, 'Wool Sock Three Pack', { variants: [variant({ barcode: '012345678905' })] });
+  const bySku = product(3, 'Wool Sock Three Pack', { variants: [variant({ sku: 'mcs-01' })] });
+  const neither = product(4, 'Wool Sock Three Pack', { variants: [variant({ barcode: '098765432109', sku: 'WSP-3' })] });
+
+  assert.deepEqual(scoreProductPair(socks, byBarcode), { score: 0.9, signals: { title: 0, barcode: 1 } });
+  assert.deepEqual(scoreProductPair(socks, bySku), { score: 0.9, signals: { title: 0, sku: 1 } });
+  assert.equal(scoreProductPair(socks, neither).score, 0);
+});
+
+test('the same photo counts towards a match across stores', () => {
+  const a = product(1, 'Blue Hat', { images: [{ id: 1, src: 'https://cdn.a.example/files/blue-hat_800x.jpg?v=1' }] });
+  const b = product(2, 'Blue Hat', { images: [{ id: 2, src: 'https://cdn.b.example/files/blue-hat_small.jpg' }] });
+
+  assert.deepEqual(scoreProductPair(a, b), { score: 1, signals: { title: 1, image: 1 } });
+});
+
+test('each product is suggested at most once, best pair first', () => {
+  const suggestions = suggestMatches(
+    { storeUrl: 'alpha.example', products: [product(1, 'Blue Linen Shirt'), product(2, 'Blue Linen Shirt Slim')] },
+    { storeUrl: 'beta.example', products: [product(10, 'Blue Linen Shirt')] }
+  );
+
+  assert.deepEqual(pairs(suggestions), [[1, 10, 'suggested']]);
+  assert.equal(suggestions[0].score, 1);
+});
+
+test('rejected pairs are not suggested again and confirmed pairs are kept', () => {
+  const alpha = {
+    storeUrl: ALPHA,
+    products: [product(1, 'Blue Linen Shirt'), product(2, 'Blue Linen Shirt Slim'), product(3, 'Green Cap')],
+  };
+  const beta = {
+    storeUrl: BETA,
+    products: [product(10, 'Blue Linen Shirt'), product(11, 'Blue Linen Shirt Slim'), product(12, 'Red Scarf')],
+  };
+
+  // The confirmed pair stands even though nothing in the titles matches
+  const decisions = [decision(1, 11, 'rejected'), decision(2, 11, 'rejected'), decision(3, 12, 'confirmed')];
+
+  assert.deepEqual(pairs(suggestMatches(alpha, beta, decisions)), [
+    [3, 12, 'confirmed'],
+    [1, 10, 'suggested'],
+  ]);
+
+  // Rejecting the best pair frees product 10 for the next best candidate;
+  // product 1 has none left
+  assert.deepEqual(pairs(suggestMatches(alpha, beta, [...decisions, decision(1, 10, 'rejected')])), [
+    [3, 12, 'confirmed'],
+    [2, 10, 'suggested'],
+  ]);
+});
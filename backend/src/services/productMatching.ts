@@ -0,0 +1,353 @@
+import { supabase } from '../utils/supabase';
+import { normalizeStoreUrl } from './shopifyScraper';
+import { normalizeSku, productPrice, titleTokens } from './storeComparison';
+import {
+  MatchDecision,
+  MatchDecisionStatus,
+  MatchSignal,
+  MatchSignals,
+  MatchSuggestion,
+  Product,
+} from '../types';
+
+// How much each signal counts towards a pair's score when both products have it
+const SIGNAL_WEIGHTS: Record<MatchSignal, number> = {
+  title: 0.35,
+  vendor: 0.1,
+  sku: 0.2,
+  barcode: 0.25,
+  grams: 0.05,
+  image: 0.15,
+};
+
+// A shared barcode or SKU is near-certain even when titles are worded differently
+const IDENTIFIER_MATCH_SCORE = 0.9;
+
+export const MIN_SUGGESTION_SCORE = 0.6;
+
+// Title words in more products than this are too common to find candidates by
+const MAX_TOKEN_PRODUCTS = 25;
+const MAX_TOKEN_SHARE = 0.02;
+
+const MIN_BARCODE_LENGTH = 8;
+const SELECT_PAGE_SIZE = 1000; // PostgREST returns at most 1000 rows per request
+
+export interface MatchCatalogue {
+  storeUrl: string;
+  products: Product[];
+}
+
+interface ProductFeatures {
+  product: Product;
+  tokens: Set<string>;
+  vendor: string | null;
+  skus: Set<string>;
+  barcodes: Set<string>;
+  grams: number[];
+  images: Set<string>;
+}
+
+/**
+ * Image file name without the CDN's size suffix, upload id or extension, so the
+ * same photo uploaded to two stores compares equal
+ * e.g. ".../files/blue-hat_1a2b3c4d-...-9f_800x.jpg?v=1" -> "blue-hat"
+ */
+export function imageKey(src: string | undefined) {
+  const file = (src || '').split('?')[0].split('/').pop() || '';
+  const key = file
+    .toLowerCase()
+    .replace(/\.[a-z0-9]+$/, '')
+    .replace(/_(\d+x\d*|\d*x\d+|pico|icon|thumb|small|compact|medium|large|grande|original|master)$/, '')
+    .replace(/_[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/, '');
+  return key.length >= 3 ? key : null;
+}
+
+function normalizeBarcode(barcode: string | undefined) {
+  const digits = (barcode || '').replace(/\D/g, '');
+  return digits.length >= MIN_BARCODE_LENGTH ? digits : null;
+}
+
+function toSet(values: (string | null)[]) {
+  return new Set(values.filter((value): value is string => !!value));
+}
+
+function features(product: Product): ProductFeatures {
+  const variants = product.variants || [];
+  return {
+    product,
+    tokens: new Set(titleTokens(product.title)),
+    vendor: product.vendor?.trim().toLowerCase() || null,
+    skus: toSet(variants.map(variant => normalizeSku(variant.sku))),
+    barcodes: toSet(variants.map(variant => normalizeBarcode(variant.barcode))),
+    grams: Array.from(new Set(variants.map(variant => variant.grams || 0).filter(grams => grams > 0))),
+    images: toSet((product.images || []).map(image => imageKey(image.src))),
+  };
+}
+
+const overlaps = (a: Set<string>, b: Set<string>) => {
+  for (const value of a) {
+    if (b.has(value)) return true;
+  }
+  return false;
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+function scoreFeatures(a: ProductFeatures, b: ProductFeatures) {
+  const signals: MatchSignals = {};
+
+  if (a.tokens.size && b.tokens.size) {
+    let shared = 0;
+    a.tokens.forEach(token => b.tokens.has(token) && shared++);
+    // Dice coefficient of the title words
+    signals.title = round((2 * shared) / (a.tokens.size + b.tokens.size));
+  }
+  if (a.vendor && b.vendor) {
+    signals.vendor = a.vendor === b.vendor ? 1 : 0;
+  }
+  if (a.skus.size && b.skus.size) {
+    signals.sku = overlaps(a.skus, b.skus) ? 1 : 0;
+  }
+  if (a.barcodes.size && b.barcodes.size) {
+    signals.barcode = overlaps(a.barcodes, b.barcodes) ? 1 : 0;
+  }
+  if (a.grams.length && b.grams.length) {
+    // Closest pair of variant weights
+    signals.grams = round(Math.max(...a.grams.flatMap(x => b.grams.map(y => Math.min(x, y) / Math.max(x, y)))));
+  }
+  if (a.images.size && b.images.size) {
+    signals.image = overlaps(a.images, b.images) ? 1 : 0;
+  }
+
+  let weighted = 0;
+  let weights = 0;
+  for (const [signal, value] of Object.entries(signals) as [MatchSignal, number][]) {
+    weighted += SIGNAL_WEIGHTS[signal] * value;
+    weights += SIGNAL_WEIGHTS[signal];
+  }
+
+  let score = weights ? weighted / weights : 0;
+  if (signals.barcode === 1 || signals.sku === 1) {
+    score = Math.max(score, IDENTIFIER_MATCH_SCORE);
+  }
+
+  return { score: round(score), signals };
+}
+
+/**
+ * Score how likely two products from different stores are the same product
+ * The score is the weighted average of the signals both products have.
+ */
+export function scoreProductPair(a: Product, b: Product) {
+  return scoreFeatures(features(a), features(b));
+}
+
+/**
+ * Keys a product can be found by: rare title words and exact identifiers
+ */
+function blockingKeys(product: ProductFeatures, commonTokens: Set<string>) {
+  const keys: string[] = [];
+  product.tokens.forEach(token => {
+    if (token.length >= 3 && !commonTokens.has(token)) keys.push(`t:${token}`);
+  });
+  product.skus.forEach(sku => keys.push(`s:${sku}`));
+  product.barcodes.forEach(barcode => keys.push(`b:${barcode}`));
+  product.images.forEach(image => keys.push(`i:${image}`));
+  return keys;
+}
+
+/**
+ * Canonical order of a pair, as stored in product_matches
+ */
+export function canonicalPair(storeA: string, productA: number, storeB: string, productB: number) {
+  const swapped = storeA > storeB || (storeA === storeB && productA > productB);
+  return swapped
+    ? { store_a: storeB, product_a: productB, store_b: storeA, product_b: productA, swapped }
+    : { store_a: storeA, product_a: productA, store_b: storeB, product_b: productB, swapped };
+}
+
+const pairKey = (storeA: string, productA: number, storeB: string, productB: number) => {
+  const pair = canonicalPair(storeA, productA, storeB, productB);
+  return `${pair.store_a}:${pair.product_a}|${pair.store_b}:${pair.product_b}`;
+};
+
+const summary = (product: Product) => ({
+  id: product.id,
+  title: product.title,
+  handle: product.handle,
+  price: productPrice(product),
+});
+
+/**
+ * Suggest one-to-one matches between two stores' products
+ * Confirmed decisions are kept as they are, rejected pairs are never suggested
+ * again, and every other product is paired with its best-scoring candidate.
+ */
+export function suggestMatches(
+  a: MatchCatalogue,
+  b: MatchCatalogue,
+  decisions: MatchDecision[] = []
+): MatchSuggestion[] {
+  const storeA = normalizeStoreUrl(a.storeUrl);
+  const storeB = normalizeStoreUrl(b.storeUrl);
+  const featuresA = a.products.map(features);
+  const featuresB = b.products.map(features);
+  const byIdA = new Map(featuresA.map(f => [f.product.id, f]));
+  const byIdB = new Map(featuresB.map(f => [f.product.id, f]));
+
+  const decided = new Map(decisions.map(d => [pairKey(d.store_a, d.product_a, d.store_b, d.product_b), d]));
+  const usedA = new Set<number>();
+  const usedB = new Set<number>();
+  const suggestions: MatchSuggestion[] = [];
+
+  for (const decision of decisions) {
+    if (decision.status !== 'confirmed') continue;
+
+    const forward = decision.store_a === storeA && decision.store_b === storeB;
+    const backward = decision.store_a === storeB && decision.store_b === storeA;
+    if (!forward && !backward) continue;
+
+    const productA = byIdA.get(forward ? decision.product_a : decision.product_b);
+    const productB = byIdB.get(forward ? decision.product_b : decision.product_a);
+    if (!productA || !productB || usedA.has(productA.product.id) || usedB.has(productB.product.id)) continue;
+
+    usedA.add(productA.product.id);
+    usedB.add(productB.product.id);
+    suggestions.push({
+      product_a: summary(productA.product),
+      product_b: summary(productB.product),
+      ...scoreFeatures(productA, productB),
+      status: 'confirmed',
+      decision_id: decision.id,
+    });
+  }
+
+  // Index store B by blocking key instead of scoring every pair
+  const tokenCounts = new Map<string, number>();
+  featuresB.forEach(f => f.tokens.forEach(token => tokenCounts.set(token, (tokenCounts.get(token) || 0) + 1)));
+  const tokenLimit = Math.max(MAX_TOKEN_PRODUCTS, featuresB.length * MAX_TOKEN_SHARE);
+  const commonTokens = new Set(
+    Array.from(tokenCounts).filter(([, count]) => count > tokenLimit).map(([token]) => token)
+  );
+
+  const index = new Map<string, ProductFeatures[]>();
+  for (const f of featuresB) {
+    if (usedB.has(f.product.id)) continue;
+    for (const key of blockingKeys(f, commonTokens)) {
+      const list = index.get(key) || [];
+      list.push(f);
+      index.set(key, list);
+    }
+  }
+
+  const candidates: { a: ProductFeatures; b: ProductFeatures; score: number; signals: MatchSignals }[] = [];
+  for (const f of featuresA) {
+    if (usedA.has(f.product.id)) continue;
+
+    const seen = new Set<number>();
+    for (const key of blockingKeys(f, commonTokens)) {
+      for (const other of index.get(key) || []) {
+        if (seen.has(other.product.id)) continue;
+        seen.add(other.product.id);
+
+        const decision = decided.get(pairKey(storeA, f.product.id, storeB, other.product.id));
+        if (decision?.status === 'rejected') continue;
+
+        const { score, signals } = scoreFeatures(f, other);
+        if (score >= MIN_SUGGESTION_SCORE) {
+          candidates.push({ a: f, b: other, score, signals });
+        }
+      }
+    }
+  }
+
+  // Best pairs first, each product at most once
+  candidates.sort((x, y) => y.score - x.score);
+  for (const candidate of candidates) {
+    if (usedA.has(candidate.a.product.id) || usedB.has(candidate.b.product.id)) continue;
+    usedA.add(candidate.a.product.id);
+    usedB.add(candidate.b.product.id);
+    suggestions.push({
+      product_a: summary(candidate.a.product),
+      product_b: summary(candidate.b.product),
+      score: candidate.score,
+      signals: candidate.signals,
+      status: 'suggested',
+      decision_id: null,
+    });
+  }
+
+  return suggestions;
+}
+
+/**
+ * The user's decisions about pairs of products between the given stores
+ */
+export async function loadMatchDecisions(userId: string, storeUrls: string[]): Promise<MatchDecision[]> {
+  const stores = Array.from(new Set(storeUrls.map(normalizeStoreUrl)));
+  const decisions: MatchDecision[] = [];
+
+  for (let offset = 0; ; offset += SELECT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('product_matches')
+      .select('*')
+      .eq('user_id', userId)
+      .in('store_a', stores)
+      .in('store_b', stores)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + SELECT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load product matches: ${error.message}`);
+    }
+
+    decisions.push(...((data || []) as MatchDecision[]));
+    if (!data || data.length < SELECT_PAGE_SIZE) break;
+  }
+
+  return decisions;
+}
+
+/**
+ * Confirm or reject a pair of products, replacing any earlier decision about it
+ */
+export async function saveMatchDecision(
+  userId: string,
+  a: { storeUrl: string; product: Product },
+  b: { storeUrl: string; product: Product },
+  status: MatchDecisionStatus
+): Promise<MatchDecision> {
+  const pair = canonicalPair(
+    normalizeStoreUrl(a.storeUrl), a.product.id,
+    normalizeStoreUrl(b.storeUrl), b.product.id
+  );
+  const [first, second] = pair.swapped ? [b.product, a.product] : [a.product, b.product];
+  const { score, signals } = scoreProductPair(first, second);
+
+  const { data, error } = await supabase
+    .from('product_matches')
+    .upsert(
+      {
+        user_id: userId,
+        store_a: pair.store_a,
+        product_a: pair.product_a,
+        title_a: first.title,
+        store_b: pair.store_b,
+        product_b: pair.product_b,
+        title_b: second.title,
+        status,
+        score,
+        signals,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,store_a,product_a,store_b,product_b' }
+    )
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save product match: ${error?.message}`);
+  }
+
+  return data as MatchDecision;
+}
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeCursor, effectiveOrder, encodeCursor, searchProducts } from './productSearch';
+import { Product } from '../types';
+
+const product = (id: number, title: string): Product => ({ id, title, handle: `product-${id}`, variants: [] });
+
+const catalogue = [product(1, 'Cedar'), product(2, 'Alder'), product(3, 'Birch'), product(4, 'Douglas')];
+
+test('cursors page through every product once, in either order', () => {
+  for (const order of ['asc', 'desc'] as const) {
+    const titles: string[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const page = searchProducts(catalogue, {
+        sort: 'title',
+        order,
+        limit: 3,
+        cursor: cursor ? decodeCursor(cursor)! : undefined,
+      });
+      titles.push(...page.products.map(item => item.title));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    const expected = ['Alder', 'Birch', 'Cedar', 'Douglas'];
+    assert.deepEqual(titles, order === 'asc' ? expected : expected.reverse());
+  }
+});
+
+test('a cursor records the sort and order of the page it came from', () => {
+  const { nextCursor } = searchProducts(catalogue, { sort: 'title', order: 'desc', limit: 1 });
+
+  assert.deepEqual(decodeCursor(nextCursor!), { sort: 'title', order: 'desc', key: 'douglas', id: 4 });
+  assert.deepEqual(decodeCursor(encodeCursor({ sort: 'price', order: 'asc', key: null, id: 7 })), {
+    sort: 'price',
+    order: 'asc',
+    key: null,
+    id: 7,
+  });
+});
+
+test('malformed cursors and cursors without an order are rejected', () => {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  assert.equal(decodeCursor('not a cursor'), null);
+  assert.equal(decodeCursor(encode(['title', 'douglas', 4])), null);
+  assert.equal(decodeCursor(encode(['title', 'sideways', 'douglas', 4])), null);
+});
+
+test('searches always rank best matches first', () => {
+  assert.equal(effectiveOrder({ q: 'cedar', order: 'asc' }), 'desc');
+  assert.equal(effectiveOrder({ q: 'cedar', sort: 'title', order: 'asc' }), 'asc');
+  assert.equal(effectiveOrder({ order: 'asc' }), 'asc');
+});
@@ -0,0 +1,244 @@
+import { productPrice, titleTokens } from './storeComparison';
+import { Product } from '../types';
+
+export const PRODUCT_SORTS = ['relevance', 'price', 'created_at', 'title'] as const;
+export type ProductSort = typeof PRODUCT_SORTS[number];
+
+export interface ProductSearchQuery {
+  q?: string;
+  vendor?: string;
+  productType?: string;
+  tag?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  onSale?: boolean;
+  sort?: ProductSort;
+  order: 'asc' | 'desc';
+  cursor?: ProductCursor; // Last product of the previous page
+  limit: number;
+}
+
+export interface ProductFacet {
+  value: string;
+  products: number;
+}
+
+const TOP_FACET_VALUES = 50;
+
+// Where a search term is found, for ranking
+const FIELD_WEIGHTS = { title: 3, tags: 2, description: 1 };
+
+type SortKey = number | string | null;
+
+interface SearchEntry {
+  product: Product;
+  key: SortKey;
+}
+
+export interface ProductCursor {
+  sort: ProductSort | 'scraped';
+  order: 'asc' | 'desc';
+  key: SortKey;
+  id: number;
+}
+
+/**
+ * Lowercase words of product HTML with the tags and entities removed
+ */
+function descriptionTokens(html: string | undefined) {
+  return titleTokens(
+    (html || '')
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/&[a-z]+;|&#\d+;/gi, ' ')
+  );
+}
+
+/**
+ * Relevance of a product to every search term, or 0 if any term is missing
+ * Terms match whole words or the start of one, so "sneak" finds "sneakers".
+ */
+function relevance(product: Product, terms: string[]) {
+  const fields = {
+    title: titleTokens(product.title),
+    tags: (product.tags || []).flatMap(tag => titleTokens(tag)),
+    description: descriptionTokens(product.body_html),
+  };
+
+  let score = 0;
+  for (const term of terms) {
+    let termScore = 0;
+    for (const [field, tokens] of Object.entries(fields) as [keyof typeof fields, string[]][]) {
+      if (tokens.some(token => token.startsWith(term))) {
+        termScore = Math.max(termScore, FIELD_WEIGHTS[field] * (tokens.includes(term) ? 2 : 1));
+      }
+    }
+    if (!termScore) return 0;
+    score += termScore;
+  }
+  return score;
+}
+
+const sameLabel = (value: string | undefined, filter: string) =>
+  (value || '').trim().toLowerCase() === filter.trim().toLowerCase();
+
+const isOnSale = (product: Product) =>
+  (product.variants || []).some(variant => {
+    const price = parseFloat(variant.price);
+    const compareAt = parseFloat(variant.compare_at_price || '');
+    return Number.isFinite(price) && Number.isFinite(compareAt) && compareAt > price;
+  });
+
+const inPriceRange = (product: Product, min?: number, max?: number) =>
+  (product.variants || []).some(variant => {
+    const price = parseFloat(variant.price);
+    return Number.isFinite(price) && (min === undefined || price >= min) && (max === undefined || price <= max);
+  });
+
+/**
+ * Order two entries by key then product id; missing keys always sort last
+ */
+function compareEntries(
+  a: { key: SortKey; id: number },
+  b: { key: SortKey; id: number },
+  order: 'asc' | 'desc'
+) {
+  if (a.key !== b.key) {
+    if (a.key === null) return 1;
+    if (b.key === null) return -1;
+    const diff = typeof a.key === 'string'
+      ? a.key.localeCompare(String(b.key))
+      : a.key - Number(b.key);
+    if (diff !== 0) return order === 'asc' ? diff : -diff;
+  }
+  return a.id - b.id;
+}
+
+export function encodeCursor(cursor: ProductCursor) {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.order, cursor.key, cursor.id])).toString('base64url');
+}
+
+/**
+ * Decode a cursor from a previous page, or null if it is malformed
+ */
+export function decodeCursor(value: string): ProductCursor | null {
+  try {
+    const [sort, order, key, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      ![...PRODUCT_SORTS, 'scraped'].includes(sort) ||
+      !['asc', 'desc'].includes(order) ||
+      typeof id !== 'number' ||
+      !(key === null || typeof key === 'number' || typeof key === 'string')
+    ) {
+      return null;
+    }
+    return { sort, order, key, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Most common values of a label across products
+ */
+function facet(products: Product[], labels: (product: Product) => (string | undefined)[]): ProductFacet[] {
+  const counts = new Map<string, ProductFacet>();
+  for (const product of products) {
+    const seen = new Set<string>();
+    for (const raw of labels(product)) {
+      const value = raw?.trim();
+      if (!value || seen.has(value.toLowerCase())) continue;
+      seen.add(value.toLowerCase());
+
+      const entry = counts.get(value.toLowerCase()) || { value, products: 0 };
+      entry.products++;
+      counts.set(value.toLowerCase(), entry);
+    }
+  }
+  return Array.from(counts.values())
+    .sort((a, b) => b.products - a.products || a.value.localeCompare(b.value))
+    .slice(0, TOP_FACET_VALUES);
+}
+
+/**
+ * Values to filter a catalogue by, with how many products have each
+ */
+export function productFacets(products: Product[]) {
+  return {
+    vendors: facet(products, product => [product.vendor]),
+    product_types: facet(products, product => [product.product_type]),
+    tags: facet(products, product => product.tags || []),
+  };
+}
+
+/**
+ * The sort a query uses: relevance when searching, otherwise the scraped order
+ */
+export function effectiveSort(query: Pick<ProductSearchQuery, 'q' | 'sort'>): ProductCursor['sort'] {
+  return query.sort || (titleTokens(query.q).length ? 'relevance' : 'scraped');
+}
+
+/**
+ * The direction a query sorts in: relevance always puts the best matches first
+ */
+export function effectiveOrder(query: Pick<ProductSearchQuery, 'q' | 'sort' | 'order'>): ProductCursor['order'] {
+  return effectiveSort(query) === 'relevance' ? 'desc' : query.order;
+}
+
+/**
+ * Filter, sort and page through a job's products
+ * The cursor must come from a page with the same sort and order.
+ */
+export function searchProducts(products: Product[], query: ProductSearchQuery) {
+  const terms = Array.from(new Set(titleTokens(query.q)));
+  const sort = effectiveSort(query);
+  const order = effectiveOrder(query);
+
+  const entries: SearchEntry[] = [];
+  products.forEach((product, index) => {
+    if (query.vendor && !sameLabel(product.vendor, query.vendor)) return;
+    if (query.productType && !sameLabel(product.product_type, query.productType)) return;
+    if (query.tag && !(product.tags || []).some(tag => sameLabel(tag, query.tag!))) return;
+    if (query.onSale !== undefined && isOnSale(product) !== query.onSale) return;
+    if ((query.minPrice !== undefined || query.maxPrice !== undefined) &&
+      !inPriceRange(product, query.minPrice, query.maxPrice)) return;
+
+    const score = terms.length ? relevance(product, terms) : 0;
+    if (terms.length && !score) return;
+
+    let key: SortKey;
+    switch (sort) {
+      case 'relevance': key = score; break;
+      case 'price': key = productPrice(product); break;
+      case 'created_at': key = product.created_at || null; break;
+      case 'title': key = (product.title || '').toLowerCase(); break;
+      default: key = index;
+    }
+    entries.push({ product, key });
+  });
+
+  entries.sort((a, b) => compareEntries(
+    { key: a.key, id: a.product.id },
+    { key: b.key, id: b.product.id },
+    order
+  ));
+
+  let start = 0;
+  if (query.cursor) {
+    const cursor = query.cursor;
+    start = entries.findIndex(entry =>
+      compareEntries({ key: entry.key, id: entry.product.id }, cursor, order) > 0
+    );
+    if (start === -1) start = entries.length;
+  }
+
+  const page = entries.slice(start, start + query.limit);
+  const last = page[page.length - 1];
+  const hasMore = start + page.length < entries.length;
+
+  return {
+    total: entries.length,
+    sort,
+    products: page.map(entry => entry.product),
+    nextCursor: hasMore && last ? encodeCursor({ sort, order, key: last.key, id: last.product.id }) : null,
+  };
+}
@@ -0,0 +1,119 @@
+import axios from 'axios';
+import { supabase } from '../utils/supabase';
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+const EXPO_BATCH_SIZE = 100; // Expo accepts at most 100 messages per request
+
+export interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+export interface PushResult {
+  token: string;
+  ok: boolean;
+  // Set when the token should no longer be used (app uninstalled, etc.)
+  unregistered?: boolean;
+}
+
+/**
+ * Delivery backend for push notifications
+ * Swap in a recording implementation to assert on sends without hitting Expo.
+ */
+export interface PushSender {
+  send(messages: PushMessage[]): Promise<PushResult[]>;
+}
+
+/**
+ * Sends through the Expo push service
+ * Set EXPO_ACCESS_TOKEN when push security is enabled for the project.
+ */
+export class ExpoPushSender implements PushSender {
+  async send(messages: PushMessage[]): Promise<PushResult[]> {
+    const results: PushResult[] = [];
+
+    for (let i = 0; i < messages.length; i += EXPO_BATCH_SIZE) {
+      const batch = messages.slice(i, i + EXPO_BATCH_SIZE);
+
+      try {
+        const response = await axios.post(
+          EXPO_PUSH_URL,
+          batch.map(message => ({ ...message, sound: 'default' })),
+          {
+            timeout: 10000,
+            headers: {
+              'Content-Type': 'application/json',
+              Accept: 'application/json',
+              ...(process.env.EXPO_ACCESS_TOKEN
+                ? { Authorization: `Bearer ${process.env.EXPO_ACCESS_TOKEN}` }
+                : {}),
+            },
+          }
+        );
+
+        // One ticket per message, in order
+        const tickets: any[] = response.data?.data || [];
+        batch.forEach((message, index) => {
+          const ticket = tickets[index];
+          results.push({
+            token: message.to,
+            ok: ticket?.status === 'ok',
+            unregistered: ticket?.details?.error === 'DeviceNotRegistered',
+          });
+        });
+      } catch (error: any) {
+        console.error('[Push] Expo request failed:', error.message);
+        results.push(...batch.map(message => ({ token: message.to, ok: false })));
+      }
+    }
+
+    return results;
+  }
+}
+
+/**
+ * Logs messages instead of sending them (local development)
+ */
+export class ConsolePushSender implements PushSender {
+  async send(messages: PushMessage[]): Promise<PushResult[]> {
+    for (const message of messages) {
+      console.log(`[Push] ${message.to}: ${message.title} - ${message.body}`);
+    }
+    return messages.map(message => ({ token: message.to, ok: true }));
+  }
+}
+
+export function createPushSender(backend = process.env.PUSH_SENDER_BACKEND || 'expo'): PushSender {
+  if (backend === 'console') {
+    return new ConsolePushSender();
+  }
+  return new ExpoPushSender();
+}
+
+export const pushSender = createPushSender();
+
+/**
+ * Push a notification to every device the user registered
+ * Tokens Expo reports as unregistered are removed.
+ */
+export async function sendPushToUser(
+  userId: string,
+  notification: Omit<PushMessage, 'to'>,
+  sender: PushSender = pushSender
+) {
+  const { data: tokens } = await supabase
+    .from('push_tokens')
+    .select('token')
+    .eq('user_id', userId);
+
+  if (!tokens || tokens.length === 0) return;
+
+  const results = await sender.send(tokens.map(({ token }) => ({ ...notification, to: token })));
+
+  const stale = results.filter(result => result.unregistered).map(result => result.token);
+  if (stale.length > 0) {
+    await supabase.from('push_tokens').delete().in('token', stale);
+  }
+}
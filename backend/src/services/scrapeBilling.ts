@@ -0,0 +1,268 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { supabase } from '../utils/supabase';
+import { getWalletBalance } from './organizations';
+import { isPosted, postCreditEntry, walletFor } from './creditLedger';
+import { emitWebhookEvent } from './webhooks';
+import { CatalogueEstimate } from './shopifyScraper';
+import { ScrapeJob, ScrapeQuote } from '../types';
+
+// Price of a scrape whose catalogue size is unknown
+export const CREDITS_PER_SCRAPE = 5;
+
+// Balance below which a credits.low webhook fires (enough for two more scrapes)
+export const LOW_CREDITS_THRESHOLD = CREDITS_PER_SCRAPE * 2;
+
+// How long a price quoted at validation is honoured by /scrape/start
+export const QUOTE_TTL_MINUTES = 15;
+
+export interface PricingTier {
+  upTo: number | null; // Largest catalogue (in products) in this tier; null for no limit
+  credits: number;
+}
+
+const DEFAULT_PRICING_TIERS: PricingTier[] = [
+  { upTo: 250, credits: 2 },
+  { upTo: 2500, credits: 5 },
+  { upTo: 10000, credits: 10 },
+  { upTo: null, credits: 20 },
+];
+
+const pricingTiersSchema = z.array(z.object({
+  upTo: z.number().int().positive().nullable(),
+  credits: z.number().int().positive(),
+})).min(1);
+
+/**
+ * Pricing tiers from SCRAPE_PRICING_TIERS, smallest catalogues first
+ * e.g. [{"upTo":500,"credits":3},{"upTo":null,"credits":8}]
+ */
+export function loadPricingTiers(raw = process.env.SCRAPE_PRICING_TIERS): PricingTier[] {
+  if (!raw) return DEFAULT_PRICING_TIERS;
+
+  return pricingTiersSchema
+    .parse(JSON.parse(raw))
+    .sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+}
+
+export const pricingTiers = loadPricingTiers();
+
+/**
+ * Credits to scrape a catalogue of the given size (null if unknown)
+ */
+export function priceForCatalogue(productCount: number | null | undefined, tiers = pricingTiers) {
+  if (productCount === null || productCount === undefined) return CREDITS_PER_SCRAPE;
+
+  const tier = tiers.find(t => t.upTo === null || productCount <= t.upTo);
+  return (tier || tiers[tiers.length - 1]).credits;
+}
+
+/**
+ * Product count from the last completed scrape of a store, or null if it was never scraped
+ */
+export async function lastKnownCatalogueSize(storeUrl: string): Promise<number | null> {
+  const { data } = await supabase
+    .from('scrape_jobs')
+    .select('products_count')
+    .eq('store_url', storeUrl)
+    .eq('status', 'completed')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data?.products_count || null;
+}
+
+/**
+ * Record the price of scraping a store, honoured until it expires
+ */
+export async function createQuote(
+  userId: string,
+  storeUrl: string,
+  estimate: CatalogueEstimate | null
+): Promise<ScrapeQuote> {
+  const { data: quote, error } = await supabase
+    .from('scrape_quotes')
+    .insert({
+      user_id: userId,
+      store_url: storeUrl,
+      product_estimate: estimate?.count ?? null,
+      estimate_source: estimate?.source ?? null,
+      credits: priceForCatalogue(estimate?.count),
+      expires_at: new Date(Date.now() + QUOTE_TTL_MINUTES * 60 * 1000).toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error || !quote) {
+    throw new Error(`Failed to create quote: ${error?.message}`);
+  }
+
+  return quote;
+}
+
+/**
+ * One of the user's quotes for a store, or null
+ */
+export async function findQuote(quoteId: string, userId: string, storeUrl: string) {
+  const { data: quote } = await supabase
+    .from('scrape_quotes')
+    .select('*')
+    .eq('id', quoteId)
+    .eq('user_id', userId)
+    .eq('store_url', storeUrl)
+    .maybeSingle();
+
+  return quote as ScrapeQuote | null;
+}
+
+export const isQuoteExpired = (quote: ScrapeQuote) => new Date(quote.expires_at).getTime() <= Date.now();
+
+/**
+ * Look up the user's balance (their organization's wallet for members)
+ * against the cost of a scrape
+ */
+export async function checkScrapeCredits(userId: string, price = CREDITS_PER_SCRAPE) {
+  const { credits } = await getWalletBalance(userId);
+
+  const available = credits || 0;
+  return {
+    ok: credits !== null && available >= price,
+    available,
+  };
+}
+
+/**
+ * Credits held for one run of a job
+ */
+export interface CreditReservation {
+  key: string;
+  amount: number;
+}
+
+/**
+ * What is still owed for a job: a job never costs more than its price,
+ * however many times it is resumed
+ */
+export function remainingJobCost(job: Pick<ScrapeJob, 'credits_spent' | 'credits_price'>) {
+  return Math.max((job.credits_price ?? CREDITS_PER_SCRAPE) - (job.credits_spent || 0), 0);
+}
+
+/**
+ * Hold credits for a job run before it is queued
+ * Store the reservation on the job (see reservationColumns); the job is
+ * settled when it completes and refunded in the database when it fails or
+ * is cancelled. Nothing is reserved for a zero amount (a resume already paid for).
+ */
+export async function reserveScrapeCredits(
+  userId: string,
+  jobId: string,
+  amount: number,
+  description: string
+): Promise<{ ok: boolean; reservation: CreditReservation | null; available: number }> {
+  if (amount <= 0) {
+    const { credits } = await getWalletBalance(userId);
+    return { ok: true, reservation: null, available: credits || 0 };
+  }
+
+  const key = randomUUID();
+  const result = await postCreditEntry({
+    account: await walletFor(userId),
+    amount: -amount,
+    kind: 'usage',
+    idempotencyKey: `reserve:${key}`,
+    description,
+    jobId,
+  });
+
+  if (!isPosted(result)) {
+    return { ok: false, reservation: null, available: result.balance || 0 };
+  }
+
+  // Fire once, when this reservation takes the balance under the threshold
+  const balance = result.balance || 0;
+  if (balance < LOW_CREDITS_THRESHOLD && balance + amount >= LOW_CREDITS_THRESHOLD) {
+    await emitWebhookEvent(userId, 'credits.low', {
+      credits: balance,
+      threshold: LOW_CREDITS_THRESHOLD,
+      credits_per_scrape: CREDITS_PER_SCRAPE,
+    });
+  }
+
+  return { ok: true, reservation: { key, amount }, available: balance };
+}
+
+/**
+ * Job columns that record a reservation
+ */
+export function reservationColumns(reservation: CreditReservation | null) {
+  return {
+    credits_reserved: reservation?.amount || 0,
+    reservation_key: reservation?.key || null,
+  };
+}
+
+/**
+ * Give back a reservation that never made it onto a job (e.g. the insert failed)
+ */
+export async function cancelReservation(reservation: CreditReservation | null, description: string) {
+  if (!reservation) return;
+
+  const { error } = await supabase.rpc('refund_credit_reservation', {
+    p_reservation_key: reservation.key,
+    p_amount: reservation.amount,
+    p_description: description,
+  });
+
+  if (error) {
+    console.error(`[Billing] Failed to refund reservation ${reservation.key}:`, error);
+  }
+}
+
+/**
+ * How much of a finished run's reservation to keep, and why
+ * A partial scrape is charged for the share of the catalogue it fetched when
+ * the catalogue size is known (resuming it costs the rest). Otherwise the
+ * charge stands and resuming is free.
+ */
+export function settlementFor(options: {
+  price: number;
+  held: number;
+  spent: number;
+  productsCount: number;
+  isPartial: boolean;
+  expectedProducts: number | null;
+}): { keep: number; note: string } {
+  const { price, held, spent, productsCount, isPartial, expectedProducts } = options;
+
+  if (!isPartial) {
+    return { keep: held, note: 'Scrape completed' };
+  }
+
+  if (!expectedProducts || expectedProducts <= productsCount) {
+    return { keep: held, note: 'Partial scrape: resume it for free to fetch the rest' };
+  }
+
+  const share = productsCount / expectedProducts;
+  const owed = Math.min(Math.max(Math.ceil(price * share), 1), price);
+
+  return {
+    keep: Math.min(Math.max(owed - spent, 0), held),
+    note: `Partial scrape: charged for about ${Math.round(share * 100)}% of the catalogue; resuming costs the rest`,
+  };
+}
+
+/**
+ * Keep part of a job's held reservation and refund the rest
+ */
+export async function settleScrapeCredits(jobId: string, keep: number, note: string) {
+  const { error } = await supabase.rpc('settle_scrape_credits', {
+    p_job_id: jobId,
+    p_keep: keep,
+    p_note: note,
+  });
+
+  if (error) {
+    throw new Error(`Failed to settle credits: ${error.message}`);
+  }
+}
@@ -0,0 +1,431 @@
+import { supabase } from '../utils/supabase';
+import {
+  scrapeShopifyProducts,
+  scrapeShopifyCollections,
+  fetchCollectionIndex,
+  assignCollections,
+  mergeProducts,
+  extractStoreName,
+  MAX_PAGE_LIMIT,
+} from './shopifyScraper';
+import { recordSnapshot, diffWithPreviousSnapshot, countChanges } from './storeHistory';
+import { evaluateAlertRules } from './alerts';
+import { emitWebhookEvent } from './webhooks';
+import { lastKnownCatalogueSize, settleScrapeCredits, settlementFor } from './scrapeBilling';
+import { Product, ScrapePhase } from '../types';
+
+interface ProgressUpdate {
+  phase: ScrapePhase;
+  page?: number;
+  products?: number;
+  etaSeconds?: number | null;
+}
+
+/**
+ * Persist progress on the job row so SSE clients (and reconnects) can read it
+ */
+async function saveProgress(jobId: string, progress: ProgressUpdate) {
+  const update: Record<string, unknown> = {
+    progress_phase: progress.phase,
+    updated_at: new Date().toISOString(),
+  };
+  if (progress.page !== undefined) update.progress_page = progress.page;
+  if (progress.products !== undefined) update.progress_products = progress.products;
+  if (progress.etaSeconds !== undefined) update.progress_eta_seconds = progress.etaSeconds;
+
+  const { error } = await supabase
+    .from('scrape_jobs')
+    .update(update)
+    .eq('id', jobId);
+
+  if (error) {
+    console.error(`[Job ${jobId}] Failed to save progress:`, error);
+  }
+}
+
+/**
+ * Estimate seconds remaining from the average page time
+ * products.json has no total count, so without a previous scrape to go on
+ * we assume one more page whenever the last page came back full.
+ * Collection scrapes know how many collections remain.
+ */
+function estimateEtaSeconds(
+  elapsedMs: number,
+  page: number,
+  totalProducts: number,
+  pageProducts: number,
+  expectedProducts: number | null,
+  knownRemainingPages?: number
+): number {
+  if (knownRemainingPages !== undefined) {
+    return Math.round((elapsedMs / page) * knownRemainingPages / 1000);
+  }
+  if (pageProducts < MAX_PAGE_LIMIT) return 0;
+
+  const remainingPages = expectedProducts && expectedProducts > totalProducts
+    ? Math.ceil((expectedProducts - totalProducts) / MAX_PAGE_LIMIT)
+    : 1;
+
+  return Math.round((elapsedMs / page) * remainingPages / 1000);
+}
+
+/**
+ * Persist one fetched page and advance the job's page cursor
+ */
+async function saveCheckpoint(jobId: string, page: number, products: Product[]) {
+  const { error } = await supabase
+    .from('scrape_pages')
+    .upsert({ job_id: jobId, page, products }, { onConflict: 'job_id,page' });
+
+  if (error) {
+    console.error(`[Job ${jobId}] Failed to checkpoint page ${page}:`, error);
+    return;
+  }
+
+  await supabase
+    .from('scrape_jobs')
+    .update({ last_page: page })
+    .eq('id', jobId);
+}
+
+/**
+ * Products from every checkpointed page of a job, in page order
+ */
+async function loadCheckpointedProducts(jobId: string): Promise<Product[]> {
+  const { data } = await supabase
+    .from('scrape_pages')
+    .select('products')
+    .eq('job_id', jobId)
+    .order('page', { ascending: true });
+
+  return (data || []).flatMap(row => row.products as Product[]);
+}
+
+/**
+ * Whether the user cancelled the job (POST /scrape/cancel/:jobId)
+ */
+async function isJobCancelled(jobId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('scrape_jobs')
+    .select('status')
+    .eq('id', jobId)
+    .single();
+
+  return data?.status === 'cancelled';
+}
+
+/**
+ * Wind down a job that was aborted before it was settled
+ * Checkpoints are kept, so a cancelled job can still be resumed.
+ */
+async function stopAbortedJob(jobId: string) {
+  // A lost lease also aborts the scrape; the job then belongs to another worker
+  if (!(await isJobCancelled(jobId))) {
+    console.warn(`[Job ${jobId}] Stopped after losing its lease`);
+    return;
+  }
+
+  // Nothing is stored for a cancelled scrape; cancelling refunded its reservation
+  await supabase
+    .from('scrape_jobs')
+    .update({
+      progress_phase: 'done',
+      progress_eta_seconds: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', jobId);
+
+  console.log(`[Job ${jobId}] Cancelled`);
+}
+
+/**
+ * Background job processor
+ * Uses the enhanced shopifyScraper service. Invoked by the scrape worker,
+ * which may re-run a job whose previous worker died mid-scrape.
+ */
+export async function processScrapeJob(
+  jobId: string,
+  storeUrl: string,
+  userId: string,
+  signal?: AbortSignal,
+  workerId?: string
+) {
+  console.log(`[Job ${jobId}] Starting processing for ${storeUrl}`);
+
+  // Aborted when the user cancels or the worker loses its lease
+  const controller = new AbortController();
+  signal?.addEventListener('abort', () => controller.abort());
+
+  try {
+    // Update status to running (skipped if the job was cancelled while queued)
+    const { data: started } = await supabase
+      .from('scrape_jobs')
+      .update({ 
+        status: 'running', 
+        progress_phase: 'fetching',
+        progress_page: 0,
+        progress_products: 0,
+        progress_eta_seconds: null,
+        updated_at: new Date().toISOString() 
+      })
+      .eq('id', jobId)
+      .in('status', ['pending', 'running'])
+      .select('id');
+
+    if (!started || started.length === 0) {
+      console.log(`[Job ${jobId}] No longer runnable, skipping`);
+      return;
+    }
+
+    // Continue after the last checkpointed page (resume, or a reclaimed job)
+    const { data: jobState } = await supabase
+      .from('scrape_jobs')
+      .select('last_page, credits_price, credits_reserved, credits_spent, estimated_products, collections_filter, store_name')
+      .eq('id', jobId)
+      .single();
+
+    const startPage = (jobState?.last_page || 0) + 1;
+
+    // The last scrape of the same store sizes the ETA
+    const expectedProducts = await lastKnownCatalogueSize(storeUrl);
+    const startedAt = Date.now();
+
+    // Progress callback: persisted for the SSE stream
+    const onProgress = (page: number, totalProducts: number, pageProducts: number, remainingPages?: number) => {
+      console.log(`[Job ${jobId}] Page ${page}: ${totalProducts} products`);
+      saveProgress(jobId, {
+        phase: 'fetching',
+        page,
+        products: totalProducts,
+        etaSeconds: estimateEtaSeconds(
+          Date.now() - startedAt, page, totalProducts, pageProducts, expectedProducts, remainingPages
+        ),
+      });
+
+      isJobCancelled(jobId).then(cancelled => {
+        if (cancelled) controller.abort();
+      });
+    };
+
+    const scrapeOptions = {
+      delay: 1000, // 1 second between requests
+      maxPages: 50,
+      onProgress,
+      signal: controller.signal,
+      startPage,
+      onPage: (page: number, products: Product[]) => saveCheckpoint(jobId, page, products),
+    };
+
+    // Scrape products using the enhanced service, limited to chosen collections if any
+    const collectionsFilter: string[] = jobState?.collections_filter || [];
+    const storeName: string = jobState?.store_name || extractStoreName(storeUrl);
+    const result = collectionsFilter.length > 0
+      ? await scrapeShopifyCollections(storeUrl, collectionsFilter, scrapeOptions)
+      : await scrapeShopifyProducts(storeUrl, scrapeOptions);
+
+    if (result.cancelled) {
+      await stopAbortedJob(jobId);
+      return;
+    }
+
+    // Everything fetched so far for this job, plus rows from an earlier run
+    const { data: existingData } = await supabase
+      .from('scrape_data')
+      .select('id, products, collections')
+      .eq('job_id', jobId)
+      .maybeSingle();
+
+    let products = mergeProducts(
+      existingData?.products || [],
+      await loadCheckpointedProducts(jobId)
+    );
+    let collections = result.collections || existingData?.collections || [];
+
+    if (!result.success && products.length === 0) {
+      // Complete failure - no products scraped
+      const { data: failed } = await supabase
+        .from('scrape_jobs')
+        .update({
+          status: 'failed',
+          error_message: result.error || 'Scraping failed',
+          progress_phase: 'done',
+          progress_eta_seconds: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', jobId)
+        .neq('status', 'cancelled')
+        .select('id');
+
+      if (failed?.length) {
+        await emitWebhookEvent(userId, 'job.failed', {
+          job_id: jobId,
+          store_url: storeUrl,
+          error: result.error || 'Scraping failed',
+        });
+      }
+      
+      console.error(`[Job ${jobId}] Failed: ${result.error}`);
+      return;
+    }
+
+    // A full-catalogue scrape learns collection membership in a second pass
+    if (collectionsFilter.length === 0 && products.length > 0) {
+      await saveProgress(jobId, { phase: 'collections', etaSeconds: null });
+      const index = await fetchCollectionIndex(storeUrl, { delay: 1000, signal: controller.signal });
+      products = assignCollections(products, index.membership);
+      collections = index.collections;
+    }
+
+    // Past this point every step writes; a lost lease means another worker owns the job
+    if (controller.signal.aborted) {
+      await stopAbortedJob(jobId);
+      return;
+    }
+
+    await saveProgress(jobId, { phase: 'saving', etaSeconds: 0 });
+
+    // Store products, merging into the existing row on resume
+    const { error: storeError } = existingData
+      ? await supabase
+          .from('scrape_data')
+          .update({ products, collections })
+          .eq('id', existingData.id)
+      : await supabase
+          .from('scrape_data')
+          .insert({
+            job_id: jobId,
+            user_id: userId,
+            products,
+            collections,
+          });
+
+    if (storeError) {
+      console.error(`[Job ${jobId}] Failed to store products:`, storeError);
+    }
+
+    // A scrape that stopped early stays resumable from its last page
+    const isPartial = !!result.error;
+
+    if (controller.signal.aborted) {
+      await stopAbortedJob(jobId);
+      return;
+    }
+
+    // Only a job this worker still runs can complete: a cancel or a reclaim may
+    // have landed since the check above. The in-memory queue keeps no lease in
+    // the table, so locked_by is then empty.
+    let completion = supabase
+      .from('scrape_jobs')
+      .update({
+        status: 'completed',
+        products_count: products.length,
+        is_partial: isPartial,
+        error_message: isPartial ? result.error : null,
+        progress_phase: 'done',
+        progress_products: products.length,
+        progress_eta_seconds: 0,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', jobId)
+      .eq('status', 'running');
+    if (workerId) {
+      completion = completion.or(`locked_by.is.null,locked_by.eq.${workerId}`);
+    }
+    const { data: completed } = await completion.select('id');
+
+    if (!completed?.length) {
+      await stopAbortedJob(jobId);
+      return;
+    }
+
+    const settlement = settlementFor({
+      price: jobState?.credits_price ?? 0,
+      held: jobState?.credits_reserved || 0,
+      spent: jobState?.credits_spent || 0,
+      productsCount: products.length,
+      isPartial,
+      // The quoted estimate or a previous full scrape sizes the catalogue;
+      // neither says anything about a few collections
+      expectedProducts: collectionsFilter.length === 0
+        ? jobState?.estimated_products ?? expectedProducts
+        : null,
+    });
+    try {
+      await settleScrapeCredits(jobId, settlement.keep, settlement.note);
+    } catch (settleError) {
+      // The reservation stays held, i.e. the job is charged in full
+      console.error(`[Job ${jobId}] Failed to settle credits:`, settleError);
+    }
+
+    console.log(`[Job ${jobId}] Completed: ${products.length} products`);
+
+    await emitWebhookEvent(userId, 'job.completed', {
+      job_id: jobId,
+      store_url: storeUrl,
+      store_name: storeName,
+      products_count: products.length,
+      is_partial: isPartial,
+      collections_filter: collectionsFilter.length ? collectionsFilter : null,
+    });
+
+    if (isPartial) {
+      // If there was a partial error, log it but job is still marked completed
+      console.warn(`[Job ${jobId}] Partial success with warning: ${result.error}`);
+    } else if (!storeError) {
+      // Checkpoints are only needed while the scrape can still be resumed
+      await supabase
+        .from('scrape_pages')
+        .delete()
+        .eq('job_id', jobId);
+
+      // Only full-catalogue scrapes are comparable across runs
+      if (collectionsFilter.length === 0) {
+        try {
+          const snapshot = await recordSnapshot(jobId, userId, storeUrl, products);
+          const diff = await diffWithPreviousSnapshot(snapshot);
+
+          if (diff && countChanges(diff.changes) > 0) {
+            await evaluateAlertRules({ jobId, userId, storeName, snapshot, changes: diff.changes, products });
+            await emitWebhookEvent(userId, 'store.changed', {
+              job_id: jobId,
+              store_id: snapshot.store_id,
+              store_url: storeUrl,
+              store_name: storeName,
+              from_snapshot: diff.previous.created_at,
+              to_snapshot: snapshot.created_at,
+              summary: Object.fromEntries(
+                Object.entries(diff.changes).map(([kind, list]) => [kind, list.length])
+              ),
+            });
+          }
+        } catch (snapshotError) {
+          console.error(`[Job ${jobId}] Failed to record snapshot or evaluate alerts:`, snapshotError);
+        }
+      }
+    }
+
+  } catch (error: any) {
+    console.error(`[Job ${jobId}] Unexpected error:`, error);
+    
+    const { data: failed } = await supabase
+      .from('scrape_jobs')
+      .update({
+        status: 'failed',
+        error_message: error.message || 'Processing failed',
+        progress_phase: 'done',
+        progress_eta_seconds: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', jobId)
+      .neq('status', 'cancelled')
+      .select('id');
+
+    if (failed?.length) {
+      await emitWebhookEvent(userId, 'job.failed', {
+        job_id: jobId,
+        store_url: storeUrl,
+        error: error.message || 'Processing failed',
+      });
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InMemoryJobQueue, QueuedJob } from './jobQueue';
+import { startScrapeWorker } from './scrapeWorker';
+
+const LEASE_MS = 30;
+
+test('the worker runs a claimed job and releases it', async () => {
+  const queue = new InMemoryJobQueue();
+  await queue.enqueue({ id: 'job-1', userId: 'user-1', storeUrl: 'https://a.example' });
+
+  let done!: (job: QueuedJob) => void;
+  const processed = new Promise<QueuedJob>(resolve => { done = resolve; });
+
+  const worker = startScrapeWorker({
+    queue,
+    workerId: 'worker-a',
+    pollInterval: 5,
+    leaseMs: LEASE_MS,
+    process: async job => done(job),
+  });
+
+  assert.equal((await processed).id, 'job-1');
+  await worker.stop();
+  assert.equal(queue.size(), 0);
+});
+
+test('the worker aborts a job whose lease was reclaimed by another worker', async () => {
+  let now = 0;
+  const queue = new InMemoryJobQueue(() => now);
+  await queue.enqueue({ id: 'job-1', userId: 'user-1', storeUrl: 'https://a.example' });
+
+  let started!: () => void;
+  const running = new Promise<void>(resolve => { started = resolve; });
+  let aborted!: () => void;
+  const stopped = new Promise<void>(resolve => { aborted = resolve; });
+
+  const worker = startScrapeWorker({
+    queue,
+    workerId: 'worker-a',
+    pollInterval: 5,
+    leaseMs: LEASE_MS,
+    // Runs until aborted, like a scrape that is still fetching pages
+    process: (_job, signal) => new Promise<void>(resolve => {
+      signal.addEventListener('abort', () => {
+        aborted();
+        resolve();
+      });
+      started();
+    }),
+  });
+
+  await running;
+  now += LEASE_MS * 10;
+  const reclaimed = await queue.claim('worker-b', LEASE_MS);
+  assert.equal(reclaimed?.attempts, 2);
+
+  await stopped;
+  await worker.stop();
+
+  // The job still belongs to the worker that reclaimed it
+  assert.equal(queue.size(), 1);
+  assert.equal(await queue.heartbeat('job-1', 'worker-b', LEASE_MS), true);
+});
@@ -0,0 +1,98 @@
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { JobQueue, QueuedJob } from './jobQueue';
+import { processScrapeJob } from './scrapeJobProcessor';
+
+const DEFAULT_POLL_INTERVAL = 2000;
+const DEFAULT_LEASE_MS = 60000;
+
+interface WorkerOptions {
+  queue: JobQueue;
+  workerId?: string;
+  pollInterval?: number;
+  leaseMs?: number;
+  process?: (job: QueuedJob, signal: AbortSignal) => Promise<void>;
+}
+
+export interface ScrapeWorker {
+  workerId: string;
+  stop(): Promise<void>;
+}
+
+/**
+ * Start a worker loop that claims jobs from the queue one at a time
+ * The lease is renewed every third of its length while a job runs,
+ * so a crashed worker's job is reclaimed once the lease lapses.
+ */
+export function startScrapeWorker(options: WorkerOptions): ScrapeWorker {
+  const queue = options.queue;
+  const workerId = options.workerId || `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+  const pollInterval = options.pollInterval || DEFAULT_POLL_INTERVAL;
+  const leaseMs = options.leaseMs || DEFAULT_LEASE_MS;
+  const run = options.process ||
+    ((job: QueuedJob, signal: AbortSignal) => processScrapeJob(job.id, job.storeUrl, job.userId, signal, workerId));
+
+  let stopped = false;
+  let wake: (() => void) | null = null;
+
+  const sleep = (ms: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    wake = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+
+  const runJob = async (job: QueuedJob) => {
+    console.log(`[Worker ${workerId}] Claimed job ${job.id} (attempt ${job.attempts})`);
+
+    // Losing the lease (job cancelled or reclaimed) stops the scrape between pages
+    const controller = new AbortController();
+    const heartbeat = setInterval(async () => {
+      const held = await queue.heartbeat(job.id, workerId, leaseMs);
+      if (!held && !controller.signal.aborted) {
+        console.warn(`[Worker ${workerId}] Lost lease on job ${job.id}`);
+        controller.abort();
+      }
+    }, Math.floor(leaseMs / 3));
+
+    try {
+      await run(job, controller.signal);
+    } catch (error) {
+      console.error(`[Worker ${workerId}] Job ${job.id} threw:`, error);
+    } finally {
+      clearInterval(heartbeat);
+      await queue.release(job.id, workerId);
+    }
+  };
+
+  const loop = (async () => {
+    console.log(`[Worker ${workerId}] Started`);
+
+    while (!stopped) {
+      try {
+        const job = await queue.claim(workerId, leaseMs);
+        if (job) {
+          await runJob(job);
+          continue;
+        }
+      } catch (error) {
+        console.error(`[Worker ${workerId}] Poll error:`, error);
+      }
+
+      await sleep(pollInterval);
+    }
+
+    console.log(`[Worker ${workerId}] Stopped`);
+  })();
+
+  return {
+    workerId,
+    // Resolves after the in-flight job (if any) finishes
+    async stop() {
+      stopped = true;
+      wake?.();
+      await loop;
+    },
+  };
+}
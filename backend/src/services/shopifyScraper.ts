@@ -1,8 +1,8 @@
 import axios, { AxiosError } from 'axios';
-import { Product, ProductVariant, ProductImage } from '../types';
+import { Product, ProductVariant, ProductImage, ProductOption, Collection } from '../types';
 
 // Constants from Python implementation
-const MAX_PAGE_LIMIT = 250; // Shopify max per page
+export const MAX_PAGE_LIMIT = 250; // Shopify max per page
 const DEFAULT_DELAY = 1000; // 1 second between requests
 const MAX_PAGES = 50; // Safety limit (12500 products max)
 const REQUEST_TIMEOUT = 30000;
@@ -10,7 +10,10 @@ const REQUEST_TIMEOUT = 30000;
 interface ScrapeOptions {
   delay?: number;
   maxPages?: number;
-  onProgress?: (page: number, totalProducts: number) => void;
+  onProgress?: (page: number, totalProducts: number, pageProducts: number, remainingPages?: number) => void;
+  signal?: AbortSignal; // Checked between pages for cooperative cancellation
+  startPage?: number; // Resume from this page (1-based)
+  onPage?: (page: number, products: Product[]) => Promise<void>; // Checkpoint hook, awaited per page
 }
 
 interface ScrapeResult {
@@ -18,7 +21,10 @@ interface ScrapeResult {
   products: Product[];
   totalCount: number;
   pagesFetched: number;
+  lastPage: number; // Last page fetched successfully (startPage - 1 if none)
+  collections?: Collection[];
   error?: string;
+  cancelled?: boolean;
 }
 
 /**
@@ -49,13 +55,18 @@ export function extractStoreName(url: string): string {
 
 /**
  * Validate if a URL is a valid Shopify store
- * Mirrors the Python implementation's validation logic
+ * Mirrors the Python implementation's validation logic. With estimateSize
+ * the catalogue size is estimated too (a few extra requests).
  */
-export async function validateShopifyStore(url: string): Promise<{
+export async function validateShopifyStore(
+  url: string,
+  options: { estimateSize?: boolean } = {}
+): Promise<{
   isValid: boolean;
   url: string;
   storeName: string;
   productCount?: number;
+  estimateSource?: CatalogueEstimate['source'];
   message?: string;
 }> {
   const normalizedUrl = normalizeStoreUrl(url);
@@ -76,12 +87,17 @@ export async function validateShopifyStore(url: string): Promise<{
 
     if (response.data && Array.isArray(response.data.products)) {
       const firstProduct = response.data.products[0];
+      const estimate = options.estimateSize && firstProduct
+        ? await estimateCatalogueSize(normalizedUrl)
+        : null;
       
       return {
         isValid: true,
         url: normalizedUrl,
         storeName: firstProduct?.vendor || storeName,
-        productCount: undefined, // Will be determined during full scrape
+        // An estimate only; the full scrape determines the real count
+        productCount: firstProduct ? estimate?.count : 0,
+        estimateSource: estimate?.source,
       };
     }
 
@@ -143,14 +159,29 @@ export async function scrapeShopifyProducts(
   const maxPages = options.maxPages || MAX_PAGES;
   
   const allProducts: any[] = [];
-  let page = 1;
+  const startPage = options.startPage || 1;
+  let page = startPage;
+  let lastPage = startPage - 1;
   let hasMore = true;
   let rateLimitRetries = 0;
   const maxRateLimitRetries = 3;
 
-  console.log(`[Scraper] Starting scrape for: ${normalizedUrl}`);
+  console.log(`[Scraper] Starting scrape for: ${normalizedUrl}${startPage > 1 ? ` from page ${startPage}` : ''}`);
 
   while (hasMore && page <= maxPages) {
+    if (options.signal?.aborted) {
+      console.log(`[Scraper] Cancelled before page ${page}`);
+      return {
+        success: false,
+        products: allProducts.map(extractProductInfo),
+        totalCount: allProducts.length,
+        pagesFetched: page - 1,
+        lastPage,
+        error: 'Scrape cancelled',
+        cancelled: true,
+      };
+    }
+
     const url = `${normalizedUrl}/products.json?limit=${MAX_PAGE_LIMIT}&page=${page}`;
     console.log(`[Scraper] Fetching page ${page}...`);
 
@@ -175,9 +206,15 @@ export async function scrapeShopifyProducts(
       allProducts.push(...products);
       console.log(`[Scraper] Found ${products.length} products (Total: ${allProducts.length})`);
 
+      // Checkpoint the page before moving on
+      if (options.onPage) {
+        await options.onPage(page, products.map(extractProductInfo));
+      }
+      lastPage = page;
+
       // Report progress
       if (options.onProgress) {
-        options.onProgress(page, allProducts.length);
+        options.onProgress(page, allProducts.length, products.length);
       }
 
       // Check if we've reached the end
@@ -210,6 +247,7 @@ export async function scrapeShopifyProducts(
             products: allProducts.map(extractProductInfo),
             totalCount: allProducts.length,
             pagesFetched: page - 1,
+            lastPage,
             error: 'Rate limited by Shopify. Please try again later.',
           };
         }
@@ -223,6 +261,7 @@ export async function scrapeShopifyProducts(
           products: allProducts.map(extractProductInfo),
           totalCount: allProducts.length,
           pagesFetched: page - 1,
+          lastPage,
           error: 'Store not found or products.json not accessible',
         };
       }
@@ -235,6 +274,7 @@ export async function scrapeShopifyProducts(
           products: allProducts.map(extractProductInfo),
           totalCount: allProducts.length,
           pagesFetched: page - 1,
+          lastPage,
           error: 'Request timeout. The store may be too large or unresponsive.',
         };
       }
@@ -249,6 +289,7 @@ export async function scrapeShopifyProducts(
           products: allProducts.map(extractProductInfo),
           totalCount: allProducts.length,
           pagesFetched: page - 1,
+          lastPage,
           error: `Partial scrape completed. Error on page ${page}: ${axiosError.message}`,
         };
       }
@@ -258,6 +299,7 @@ export async function scrapeShopifyProducts(
         products: [],
         totalCount: 0,
         pagesFetched: 0,
+        lastPage,
         error: `Failed to fetch products: ${axiosError.message}`,
       };
     }
@@ -273,6 +315,349 @@ export async function scrapeShopifyProducts(
     products: cleanedProducts,
     totalCount: cleanedProducts.length,
     pagesFetched: page,
+    lastPage,
+  };
+}
+
+const REQUEST_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept': 'application/json',
+};
+const MAX_RATE_LIMIT_RETRIES = 3;
+const MAX_MAPPED_COLLECTIONS = 100; // Cap for the membership pass after a full scrape
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * GET a Shopify JSON endpoint, backing off on 429 like the product scraper
+ */
+async function getJsonWithRetry(url: string): Promise<any> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await axios.get(url, {
+        timeout: REQUEST_TIMEOUT,
+        headers: REQUEST_HEADERS,
+      });
+      return response.data;
+    } catch (error: any) {
+      const axiosError = error as AxiosError;
+      if (axiosError.response?.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+        const waitTime = 10000 * (attempt + 1);
+        console.log(`[Scraper] Rate limited. Waiting ${waitTime / 1000}s before retry ${attempt + 1}/${MAX_RATE_LIMIT_RETRIES}...`);
+        await sleep(waitTime);
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+export interface CatalogueEstimate {
+  count: number;
+  source: 'sitemap' | 'probe';
+}
+
+const MAX_PRODUCT_SITEMAPS = 10; // Shopify lists up to 5,000 products per sitemap
+const PROBE_DELAY = 500;
+
+/**
+ * Count product URLs in the store's sitemaps
+ * Returns null when the store has no usable products sitemap.
+ */
+async function countSitemapProducts(normalizedUrl: string): Promise<number | null> {
+  const getXml = async (url: string): Promise<string> => {
+    const response = await axios.get(url, {
+      timeout: REQUEST_TIMEOUT,
+      headers: { ...REQUEST_HEADERS, 'Accept': 'application/xml' },
+      responseType: 'text',
+    });
+    return String(response.data);
+  };
+
+  const index = await getXml(`${normalizedUrl}/sitemap.xml`);
+  const productSitemaps = Array.from(index.matchAll(/<loc>([^<]*sitemap_products_[^<]*)<\/loc>/g))
+    .map(match => match[1].replace(/&amp;/g, '&'))
+    .slice(0, MAX_PRODUCT_SITEMAPS);
+
+  if (productSitemaps.length === 0) return null;
+
+  let count = 0;
+  for (const sitemapUrl of productSitemaps) {
+    const sitemap = await getXml(sitemapUrl);
+    count += (sitemap.match(/<loc>[^<]*\/products\/[^<]*<\/loc>/g) || []).length;
+  }
+
+  return count;
+}
+
+/**
+ * Find the last non-empty products.json page by doubling, then bisecting
+ * Exact for catalogues up to MAX_PAGES pages; larger ones report that cap.
+ */
+async function probeProductCount(normalizedUrl: string): Promise<number> {
+  const pageSize = async (page: number): Promise<number> => {
+    const data = await getJsonWithRetry(
+      `${normalizedUrl}/products.json?limit=${MAX_PAGE_LIMIT}&page=${page}`
+    );
+    return (data?.products || []).length;
+  };
+
+  const first = await pageSize(1);
+  if (first < MAX_PAGE_LIMIT) return first;
+
+  // lastFull is a full page; short (if found) is the first page known not to be
+  let lastFull = 1;
+  let short: { page: number; size: number } | null = null;
+
+  while (!short && lastFull < MAX_PAGES) {
+    const page = Math.min(lastFull * 2, MAX_PAGES);
+    await sleep(PROBE_DELAY);
+    const size = await pageSize(page);
+    if (size === MAX_PAGE_LIMIT) {
+      lastFull = page;
+    } else {
+      short = { page, size };
+    }
+  }
+
+  if (!short) return lastFull * MAX_PAGE_LIMIT;
+
+  while (short.page - lastFull > 1) {
+    const page = Math.floor((lastFull + short.page) / 2);
+    await sleep(PROBE_DELAY);
+    const size = await pageSize(page);
+    if (size === MAX_PAGE_LIMIT) {
+      lastFull = page;
+    } else {
+      short = { page, size };
+    }
+  }
+
+  return lastFull * MAX_PAGE_LIMIT + short.size;
+}
+
+/**
+ * Estimate how many products a store lists without scraping it
+ * The sitemap is cheapest; stores without one are probed page by page.
+ * Returns null when neither works.
+ */
+export async function estimateCatalogueSize(storeUrl: string): Promise<CatalogueEstimate | null> {
+  const normalizedUrl = normalizeStoreUrl(storeUrl);
+
+  try {
+    const count = await countSitemapProducts(normalizedUrl);
+    if (count !== null && count > 0) {
+      return { count, source: 'sitemap' };
+    }
+  } catch (error: any) {
+    console.log(`[Scraper] No usable sitemap for ${normalizedUrl}: ${error.message}`);
+  }
+
+  try {
+    return { count: await probeProductCount(normalizedUrl), source: 'probe' };
+  } catch (error: any) {
+    console.warn(`[Scraper] Could not estimate catalogue size for ${normalizedUrl}: ${error.message}`);
+    return null;
+  }
+}
+
+/**
+ * Enumerate a store's collections via /collections.json
+ */
+export async function fetchCollections(
+  storeUrl: string,
+  options: Pick<ScrapeOptions, 'delay' | 'maxPages'> = {}
+): Promise<Collection[]> {
+  const normalizedUrl = normalizeStoreUrl(storeUrl);
+  const delay = options.delay || DEFAULT_DELAY;
+  const maxPages = options.maxPages || MAX_PAGES;
+  const collections: Collection[] = [];
+
+  for (let page = 1; page <= maxPages; page++) {
+    const data = await getJsonWithRetry(
+      `${normalizedUrl}/collections.json?limit=${MAX_PAGE_LIMIT}&page=${page}`
+    );
+    const batch = data?.collections || [];
+    collections.push(...batch.map(extractCollectionInfo));
+
+    if (batch.length < MAX_PAGE_LIMIT) break;
+    await sleep(delay);
+  }
+
+  return collections;
+}
+
+/**
+ * Fetch every product in one collection via /collections/{handle}/products.json
+ */
+export async function fetchCollectionProducts(
+  storeUrl: string,
+  handle: string,
+  options: Pick<ScrapeOptions, 'delay' | 'maxPages' | 'signal'> = {}
+): Promise<Product[]> {
+  const normalizedUrl = normalizeStoreUrl(storeUrl);
+  const delay = options.delay || DEFAULT_DELAY;
+  const maxPages = options.maxPages || MAX_PAGES;
+  const products: Product[] = [];
+
+  for (let page = 1; page <= maxPages && !options.signal?.aborted; page++) {
+    const data = await getJsonWithRetry(
+      `${normalizedUrl}/collections/${encodeURIComponent(handle)}/products.json?limit=${MAX_PAGE_LIMIT}&page=${page}`
+    );
+    const batch = data?.products || [];
+    products.push(...batch.map(extractProductInfo));
+
+    if (batch.length < MAX_PAGE_LIMIT) break;
+    await sleep(delay);
+  }
+
+  return products;
+}
+
+/**
+ * Scrape only the products in the given collections
+ * Each collection counts as one "page" for progress, checkpoints and resume,
+ * so startPage skips collections that were already fetched.
+ */
+export async function scrapeShopifyCollections(
+  storeUrl: string,
+  handles: string[],
+  options: ScrapeOptions = {}
+): Promise<ScrapeResult> {
+  const normalizedUrl = normalizeStoreUrl(storeUrl);
+  const delay = options.delay || DEFAULT_DELAY;
+  const startPage = options.startPage || 1;
+  let lastPage = startPage - 1;
+  let found = new Map<number, Product>();
+  let collections: Collection[] = [];
+
+  const result = (success: boolean, error?: string, cancelled?: boolean): ScrapeResult => {
+    const products = Array.from(found.values());
+    return {
+      success,
+      products,
+      totalCount: products.length,
+      pagesFetched: lastPage - startPage + 1,
+      lastPage,
+      collections,
+      error,
+      cancelled,
+    };
+  };
+
+  console.log(`[Scraper] Starting collection scrape for: ${normalizedUrl} (${handles.length} collections)`);
+
+  try {
+    const available = await fetchCollections(normalizedUrl, { delay });
+    collections = handles
+      .map(handle => available.find(c => c.handle === handle))
+      .filter((c): c is Collection => !!c);
+
+    const missing = handles.filter(handle => !collections.some(c => c.handle === handle));
+    if (missing.length > 0) {
+      console.warn(`[Scraper] Unknown collections skipped: ${missing.join(', ')}`);
+    }
+  } catch (error: any) {
+    return result(false, `Failed to fetch collections: ${error.message}`);
+  }
+
+  for (let i = startPage - 1; i < collections.length; i++) {
+    if (options.signal?.aborted) {
+      console.log(`[Scraper] Cancelled before collection ${i + 1}`);
+      return result(false, 'Scrape cancelled', true);
+    }
+
+    const collection = collections[i];
+    const page = i + 1;
+    console.log(`[Scraper] Fetching collection ${collection.handle} (${page}/${collections.length})...`);
+
+    try {
+      const products = (await fetchCollectionProducts(normalizedUrl, collection.handle, options))
+        .map(product => ({ ...product, collections: [collection.handle] }));
+
+      found = new Map(mergeProducts(Array.from(found.values()), products).map(p => [p.id, p]));
+
+      if (options.onPage) {
+        await options.onPage(page, products);
+      }
+      lastPage = page;
+
+      if (options.onProgress) {
+        options.onProgress(page, found.size, products.length, collections.length - page);
+      }
+
+      if (page < collections.length) {
+        await sleep(delay);
+      }
+    } catch (error: any) {
+      console.error(`[Scraper] Error fetching collection ${collection.handle}:`, error.message);
+      return result(
+        found.size > 0,
+        `Partial scrape completed. Error on collection ${collection.handle}: ${error.message}`
+      );
+    }
+  }
+
+  console.log(`[Scraper] Completed. Total products: ${found.size}, Collections: ${collections.length}`);
+  return result(true);
+}
+
+/**
+ * Map product ids to the collections that contain them
+ * Best effort: a failure part way through returns what was mapped so far.
+ */
+export async function fetchCollectionIndex(
+  storeUrl: string,
+  options: Pick<ScrapeOptions, 'delay' | 'signal'> = {}
+): Promise<{ collections: Collection[]; membership: Map<number, string[]> }> {
+  const delay = options.delay || DEFAULT_DELAY;
+  const membership = new Map<number, string[]>();
+  let collections: Collection[] = [];
+
+  try {
+    collections = (await fetchCollections(storeUrl, { delay })).slice(0, MAX_MAPPED_COLLECTIONS);
+
+    for (const collection of collections) {
+      if (options.signal?.aborted) break;
+      await sleep(delay);
+
+      const products = await fetchCollectionProducts(storeUrl, collection.handle, options);
+      for (const product of products) {
+        membership.set(product.id, [...(membership.get(product.id) || []), collection.handle]);
+      }
+    }
+  } catch (error: any) {
+    console.warn(`[Scraper] Collection mapping incomplete: ${error.message}`);
+  }
+
+  return { collections, membership };
+}
+
+/**
+ * Attach collection handles from fetchCollectionIndex to products
+ */
+export function assignCollections(products: Product[], membership: Map<number, string[]>): Product[] {
+  return products.map(product => ({
+    ...product,
+    collections: Array.from(new Set([
+      ...(product.collections || []),
+      ...(membership.get(product.id) || []),
+    ])),
+  }));
+}
+
+/**
+ * Extract key information from a collection
+ */
+export function extractCollectionInfo(collection: any): Collection {
+  return {
+    id: collection.id,
+    title: collection.title,
+    handle: collection.handle,
+    description: collection.description,
+    products_count: collection.products_count,
+    published_at: collection.published_at,
+    updated_at: collection.updated_at,
   };
 }
 
@@ -286,6 +671,7 @@ export function extractProductInfo(product: any): Product {
     title: v.title,
     price: v.price,
     sku: v.sku,
+    barcode: v.barcode,
     inventory_quantity: v.inventory_quantity,
     grams: v.grams,
     compare_at_price: v.compare_at_price,
@@ -294,6 +680,12 @@ export function extractProductInfo(product: any): Product {
     option3: v.option3,
   }));
 
+  const options: ProductOption[] = (product.options || []).map((opt: any) => ({
+    name: opt.name,
+    position: opt.position,
+    values: opt.values || [],
+  }));
+
   const images: ProductImage[] = (product.images || []).map((img: any) => ({
     id: img.id,
     src: img.src,
@@ -309,14 +701,38 @@ export function extractProductInfo(product: any): Product {
     tags: product.tags ? 
       (typeof product.tags === 'string' ? product.tags.split(', ') : product.tags) 
       : [],
+    options,
     variants,
     images,
+    collections: product.collections,
     created_at: product.created_at,
     updated_at: product.updated_at,
     published_at: product.published_at,
   };
 }
 
+/**
+ * Merge product lists, de-duplicating by product id
+ * Later lists win, except collection memberships which are combined.
+ */
+export function mergeProducts(...lists: Product[][]): Product[] {
+  const byId = new Map<number, Product>();
+  for (const list of lists) {
+    for (const product of list) {
+      const existing = byId.get(product.id);
+      if (existing?.collections?.length) {
+        byId.set(product.id, {
+          ...product,
+          collections: Array.from(new Set([...existing.collections, ...(product.collections || [])])),
+        });
+      } else {
+        byId.set(product.id, product);
+      }
+    }
+  }
+  return Array.from(byId.values());
+}
+
 /**
  * Generate summary statistics from scraped products
  */
@@ -0,0 +1,309 @@
+import { percentile } from './catalogueAnalytics';
+import { normalizeStoreUrl } from './shopifyScraper';
+import {
+  ComparedStore,
+  MatchDecision,
+  Product,
+  ProductMatch,
+  ProductMatchSide,
+  ScrapeJob,
+  StoreComparison,
+  TypePricePosition,
+} from '../types';
+
+export const MIN_COMPARED_JOBS = 2;
+export const MAX_COMPARED_JOBS = 5;
+
+const TOP_SHARED_VENDORS = 50;
+const TOP_PRODUCT_TYPES = 30;
+
+// Titles shorter than this match too loosely ("T-Shirt", "Gift Card")
+const MIN_TITLE_TOKENS = 2;
+const MIN_SKU_LENGTH = 3;
+
+export interface ComparedCatalogue {
+  job: ScrapeJob;
+  products: Product[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toPrice = (value: string | undefined | null) => {
+  const price = value ? parseFloat(value) : NaN;
+  return Number.isFinite(price) ? price : null;
+};
+
+const median = (values: number[]) =>
+  values.length ? round(percentile([...values].sort((a, b) => a - b), 50)) : null;
+
+/**
+ * Lowest variant price of a product
+ */
+export function productPrice(product: Product) {
+  const prices = (product.variants || [])
+    .map(variant => toPrice(variant.price))
+    .filter((price): price is number => price !== null);
+  return prices.length ? Math.min(...prices) : null;
+}
+
+/**
+ * Lowercase words of a title without accents or punctuation
+ */
+export function titleTokens(title: string | undefined) {
+  return (title || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Normalized title, or null if it is too short to match on
+ */
+export function normalizeTitle(title: string | undefined) {
+  const tokens = titleTokens(title);
+  return tokens.length >= MIN_TITLE_TOKENS ? tokens.join(' ') : null;
+}
+
+export function normalizeSku(sku: string | undefined | null) {
+  const normalized = (sku || '').replace(/\s+/g, '').toUpperCase();
+  return normalized.length >= MIN_SKU_LENGTH ? normalized : null;
+}
+
+/**
+ * Group labels case-insensitively across stores, counting per store
+ */
+function countByStore(catalogues: ComparedCatalogue[], label: (product: Product) => string | undefined) {
+  const groups = new Map<string, { name: string; counts: number[]; products: Product[][] }>();
+
+  catalogues.forEach(({ products }, store) => {
+    for (const product of products) {
+      const name = label(product)?.trim();
+      if (!name) continue;
+
+      const key = name.toLowerCase();
+      const group = groups.get(key) || {
+        name,
+        counts: catalogues.map(() => 0),
+        products: catalogues.map(() => []),
+      };
+      group.counts[store]++;
+      group.products[store].push(product);
+      groups.set(key, group);
+    }
+  });
+
+  return Array.from(groups.values());
+}
+
+const storesCarrying = (counts: number[]) => counts.filter(count => count > 0).length;
+
+interface Candidate {
+  store: number;
+  product: Product;
+  price: number | null;
+  sku: string | null;
+}
+
+/**
+ * Match products across stores: pairs the user confirmed first, then by SKU
+ * and then by normalized title, never putting a rejected pair together
+ * Each product is matched at most once; a store contributes one product per match.
+ */
+export function matchProducts(catalogues: ComparedCatalogue[], decisions: MatchDecision[] = []): ProductMatch[] {
+  const bySku = new Map<string, Candidate[]>();
+  const byTitle = new Map<string, Candidate[]>();
+  const byId = new Map<string, Candidate>();
+  const productKey = (store: number, productId: number) => `${store}:${productId}`;
+
+  // Decisions refer to stores by URL; the first job of a store stands for it
+  const storeIndex = new Map<string, number>();
+  catalogues.forEach(({ job }, store) => {
+    const url = normalizeStoreUrl(job.store_url);
+    if (!storeIndex.has(url)) storeIndex.set(url, store);
+  });
+
+  catalogues.forEach(({ products }, store) => {
+    for (const product of products) {
+      byId.set(productKey(store, product.id), { store, product, price: productPrice(product), sku: null });
+
+      for (const variant of product.variants || []) {
+        const sku = normalizeSku(variant.sku);
+        if (!sku) continue;
+        const candidates = bySku.get(sku) || [];
+        candidates.push({ store, product, price: toPrice(variant.price), sku: variant.sku || null });
+        bySku.set(sku, candidates);
+      }
+
+      const title = normalizeTitle(product.title);
+      if (title) {
+        const candidates = byTitle.get(title) || [];
+        candidates.push({ store, product, price: productPrice(product), sku: null });
+        byTitle.set(title, candidates);
+      }
+    }
+  });
+
+  const decisionKey = (store: string, productId: number) => {
+    const index = storeIndex.get(store);
+    return index === undefined ? null : productKey(index, productId);
+  };
+
+  // Confirmed pairs join into groups, so A = B and B = C match A, B and C together
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    const next = parent.get(key);
+    if (!next || next === key) return key;
+    const root = find(next);
+    parent.set(key, root);
+    return root;
+  };
+
+  const rejected = new Set<string>();
+  for (const decision of decisions) {
+    const a = decisionKey(decision.store_a, decision.product_a);
+    const b = decisionKey(decision.store_b, decision.product_b);
+    if (!a || !b || !byId.has(a) || !byId.has(b)) continue;
+
+    if (decision.status === 'rejected') {
+      rejected.add(`${a}|${b}`).add(`${b}|${a}`);
+    } else {
+      if (!parent.has(a)) parent.set(a, a);
+      if (!parent.has(b)) parent.set(b, b);
+      parent.set(find(a), find(b));
+    }
+  }
+
+  const confirmedGroups = new Map<string, Candidate[]>();
+  for (const key of parent.keys()) {
+    const root = find(key);
+    confirmedGroups.set(root, [...(confirmedGroups.get(root) || []), byId.get(key)!]);
+  }
+
+  const matched = new Set<string>();
+  const matches: ProductMatch[] = [];
+
+  const collect = (index: Map<string, Candidate[]>, matchedBy: ProductMatch['matched_by']) => {
+    for (const [key, candidates] of index) {
+      const sides: (Candidate | null)[] = catalogues.map(() => null);
+      for (const candidate of candidates) {
+        const candidateKey = productKey(candidate.store, candidate.product.id);
+        if (sides[candidate.store] || matched.has(candidateKey)) continue;
+        if (sides.some(side => side && rejected.has(`${productKey(side.store, side.product.id)}|${candidateKey}`))) continue;
+        sides[candidate.store] = candidate;
+      }
+
+      if (sides.filter(Boolean).length < 2) continue;
+
+      sides.forEach(side => side && matched.add(productKey(side.store, side.product.id)));
+      matches.push({ key: `${matchedBy}:${key}`, matched_by: matchedBy, products: toMatchSides(sides) });
+    }
+  };
+
+  collect(confirmedGroups, 'confirmed');
+  collect(bySku, 'sku');
+  collect(byTitle, 'title');
+
+  // Matches with the baseline store first, largest price gaps first
+  return matches.sort((a, b) => {
+    const baseline = Number(!!b.products[0]) - Number(!!a.products[0]);
+    return baseline || largestGap(b) - largestGap(a);
+  });
+}
+
+function toMatchSides(sides: (Candidate | null)[]): (ProductMatchSide | null)[] {
+  const baseline = sides[0]?.price ?? null;
+
+  return sides.map(side => {
+    if (!side) return null;
+
+    const diff = baseline !== null && side.price !== null ? round(side.price - baseline) : null;
+    return {
+      product_id: side.product.id,
+      title: side.product.title,
+      handle: side.product.handle,
+      sku: side.sku,
+      price: side.price,
+      diff,
+      diff_percent: diff !== null && baseline ? round((diff / baseline) * 100) : null,
+    };
+  });
+}
+
+const largestGap = (match: ProductMatch) =>
+  Math.max(0, ...match.products.map(side => Math.abs(side?.diff_percent ?? 0)));
+
+/**
+ * Compare two to five scraped catalogues; the first is the baseline that
+ * prices are compared against (typically the user's own store)
+ */
+export function compareCatalogues(
+  catalogues: ComparedCatalogue[],
+  decisions: MatchDecision[] = []
+): StoreComparison {
+  const stores: ComparedStore[] = catalogues.map(({ job, products }) => {
+    const prices = products.map(productPrice).filter((price): price is number => price !== null);
+    return {
+      job_id: job.id,
+      store_url: job.store_url,
+      store_name: job.store_name || null,
+      scraped_at: job.updated_at,
+      products: products.length,
+      variants: products.reduce((sum, product) => sum + (product.variants?.length || 0), 0),
+      vendors: new Set(products.map(p => p.vendor?.trim().toLowerCase()).filter(Boolean)).size,
+      product_types: new Set(products.map(p => p.product_type?.trim().toLowerCase()).filter(Boolean)).size,
+      median_price: median(prices),
+    };
+  });
+
+  const vendorGroups = countByStore(catalogues, product => product.vendor);
+  const shared = vendorGroups
+    .filter(group => storesCarrying(group.counts) >= 2)
+    .sort((a, b) =>
+      storesCarrying(b.counts) - storesCarrying(a.counts) ||
+      b.counts.reduce((x, y) => x + y, 0) - a.counts.reduce((x, y) => x + y, 0)
+    )
+    .slice(0, TOP_SHARED_VENDORS)
+    .map(group => ({ name: group.name, products: group.counts }));
+
+  const unique = catalogues.map((_, store) =>
+    vendorGroups.filter(group => group.counts[store] > 0 && storesCarrying(group.counts) === 1).length
+  );
+
+  const productTypes = countByStore(catalogues, product => product.product_type)
+    .filter(group => storesCarrying(group.counts) >= 2)
+    .sort((a, b) => b.counts.reduce((x, y) => x + y, 0) - a.counts.reduce((x, y) => x + y, 0))
+    .slice(0, TOP_PRODUCT_TYPES)
+    .map(group => {
+      const pricesByStore = group.products.map(products =>
+        products.map(productPrice).filter((price): price is number => price !== null)
+      );
+      const typeMedian = median(pricesByStore.flat());
+
+      return {
+        name: group.name,
+        stores: pricesByStore.map((prices, store): TypePricePosition | null => {
+          const storeMedian = median(prices);
+          if (storeMedian === null) return null;
+          return {
+            products: group.counts[store],
+            min_price: Math.min(...prices),
+            median_price: storeMedian,
+            max_price: Math.max(...prices),
+            price_index: typeMedian ? Math.round((storeMedian / typeMedian) * 100) : 100,
+          };
+        }),
+      };
+    });
+
+  const matches = matchProducts(catalogues, decisions);
+
+  return {
+    stores,
+    vendors: { shared, unique },
+    product_types: productTypes,
+    matches,
+    matches_total: matches.length,
+  };
+}
@@ -0,0 +1,310 @@
+import { supabase } from '../utils/supabase';
+import { normalizeStoreUrl, extractStoreName } from './shopifyScraper';
+import { visibleJobsFilter } from './organizations';
+import { Product, SnapshotProduct, SnapshotVariant, StoreChanges, StoreSnapshot } from '../types';
+
+const INSERT_BATCH_SIZE = 500;
+const SELECT_PAGE_SIZE = 1000; // PostgREST returns at most 1000 rows per request
+
+/**
+ * Find or create the user's store entity for a URL
+ */
+export async function getOrCreateStore(userId: string, storeUrl: string) {
+  const normalizedUrl = normalizeStoreUrl(storeUrl);
+
+  const { data: store, error } = await supabase
+    .from('stores')
+    .upsert(
+      { user_id: userId, normalized_url: normalizedUrl, name: extractStoreName(storeUrl) },
+      { onConflict: 'user_id,normalized_url' }
+    )
+    .select()
+    .single();
+
+  if (error || !store) {
+    throw new Error(`Failed to save store ${normalizedUrl}: ${error?.message}`);
+  }
+
+  return store;
+}
+
+/**
+ * A store the user can see: their own, or one that a job visible to them
+ * was recorded under (an organization teammate's store)
+ */
+export async function findVisibleStore(userId: string, storeId: string) {
+  const { data: store } = await supabase
+    .from('stores')
+    .select('*')
+    .eq('id', storeId)
+    .maybeSingle();
+
+  if (!store || store.user_id === userId) return store;
+
+  const { data: jobs } = await supabase
+    .from('scrape_jobs')
+    .select('id')
+    .eq('store_id', storeId)
+    .or(await visibleJobsFilter(userId))
+    .limit(1);
+
+  return jobs?.length ? store : null;
+}
+
+/**
+ * Store a snapshot of a completed scrape's products and variants
+ * Only full-catalogue scrapes should be recorded: a partial snapshot
+ * would report every product it missed as removed.
+ */
+export async function recordSnapshot(
+  jobId: string,
+  userId: string,
+  storeUrl: string,
+  products: Product[]
+) {
+  const store = await getOrCreateStore(userId, storeUrl);
+
+  const { data: snapshot, error } = await supabase
+    .from('store_snapshots')
+    .upsert(
+      { store_id: store.id, job_id: jobId, products_count: products.length },
+      { onConflict: 'job_id' }
+    )
+    .select()
+    .single();
+
+  if (error || !snapshot) {
+    throw new Error(`Failed to create snapshot for job ${jobId}: ${error?.message}`);
+  }
+
+  // A re-run of the same job replaces its rows
+  await supabase.from('snapshot_products').delete().eq('snapshot_id', snapshot.id);
+  await supabase.from('snapshot_variants').delete().eq('snapshot_id', snapshot.id);
+
+  const productRows = products.map(product => ({
+    snapshot_id: snapshot.id,
+    product_id: product.id,
+    handle: product.handle,
+    title: product.title,
+    vendor: product.vendor || null,
+    product_type: product.product_type || null,
+  }));
+
+  const variantRows = products.flatMap(product => (product.variants || []).map(variant => ({
+    snapshot_id: snapshot.id,
+    product_id: product.id,
+    variant_id: variant.id,
+    title: variant.title,
+    sku: variant.sku || null,
+    price: toPrice(variant.price),
+    compare_at_price: toPrice(variant.compare_at_price),
+  })));
+
+  await insertInBatches('snapshot_products', productRows);
+  await insertInBatches('snapshot_variants', variantRows);
+
+  await supabase
+    .from('scrape_jobs')
+    .update({ store_id: store.id })
+    .eq('id', jobId);
+
+  return snapshot;
+}
+
+/**
+ * Resolve the snapshot taken at or before a point in time
+ */
+export async function findSnapshotAt(storeId: string, at: string, before?: string) {
+  let query = supabase
+    .from('store_snapshots')
+    .select('*')
+    .eq('store_id', storeId)
+    .lte('created_at', at)
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  // Strictly earlier than another snapshot (the default "from")
+  if (before) {
+    query = query.lt('created_at', before);
+  }
+
+  const { data } = await query.maybeSingle();
+  return data;
+}
+
+/**
+ * Load a snapshot's products and variants
+ */
+export async function loadSnapshot(snapshotId: string) {
+  const [products, variants] = await Promise.all([
+    selectAll<SnapshotProduct>('snapshot_products', snapshotId),
+    selectAll<SnapshotVariant>('snapshot_variants', snapshotId),
+  ]);
+  return { products, variants };
+}
+
+/**
+ * Diff a snapshot against the store's previous one
+ * Returns null for a store's first snapshot.
+ */
+export async function diffWithPreviousSnapshot(snapshot: StoreSnapshot) {
+  const { data: previous } = await supabase
+    .from('store_snapshots')
+    .select('*')
+    .eq('store_id', snapshot.store_id)
+    .lt('created_at', snapshot.created_at)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!previous) return null;
+
+  const [fromData, toData] = await Promise.all([
+    loadSnapshot(previous.id),
+    loadSnapshot(snapshot.id),
+  ]);
+
+  return {
+    previous: previous as StoreSnapshot,
+    changes: diffSnapshots(fromData, toData),
+  };
+}
+
+export function countChanges(changes: StoreChanges): number {
+  return Object.values(changes).reduce((total, list) => total + list.length, 0);
+}
+
+/**
+ * Compare two snapshots of the same store
+ */
+export function diffSnapshots(
+  from: { products: SnapshotProduct[]; variants: SnapshotVariant[] },
+  to: { products: SnapshotProduct[]; variants: SnapshotVariant[] }
+): StoreChanges {
+  const fromProducts = new Map(from.products.map(p => [p.product_id, p]));
+  const toProducts = new Map(to.products.map(p => [p.product_id, p]));
+  const fromVariants = new Map(from.variants.map(v => [v.variant_id, v]));
+  const toVariants = new Map(to.variants.map(v => [v.variant_id, v]));
+
+  const changes: StoreChanges = {
+    productsAdded: [],
+    productsRemoved: [],
+    titleChanges: [],
+    priceChanges: [],
+    compareAtPriceChanges: [],
+    variantsAdded: [],
+    variantsRemoved: [],
+  };
+
+  for (const [id, product] of toProducts) {
+    const previous = fromProducts.get(id);
+    if (!previous) {
+      changes.productsAdded.push({ product_id: id, title: product.title, handle: product.handle });
+    } else if (previous.title !== product.title) {
+      changes.titleChanges.push({ product_id: id, from: previous.title, to: product.title });
+    }
+  }
+
+  for (const [id, product] of fromProducts) {
+    if (!toProducts.has(id)) {
+      changes.productsRemoved.push({ product_id: id, title: product.title, handle: product.handle });
+    }
+  }
+
+  for (const [id, variant] of toVariants) {
+    const previous = fromVariants.get(id);
+    const productTitle = toProducts.get(variant.product_id)?.title || '';
+
+    if (!previous) {
+      // Variants of brand-new products are reported with the product itself
+      if (fromProducts.has(variant.product_id)) {
+        changes.variantsAdded.push({
+          product_id: variant.product_id,
+          variant_id: id,
+          product_title: productTitle,
+          variant_title: variant.title,
+        });
+      }
+      continue;
+    }
+
+    if (previous.price !== variant.price) {
+      changes.priceChanges.push({
+        product_id: variant.product_id,
+        variant_id: id,
+        product_title: productTitle,
+        variant_title: variant.title,
+        from: previous.price,
+        to: variant.price,
+        change_pct: percentChange(previous.price, variant.price),
+      });
+    }
+
+    if (previous.compare_at_price !== variant.compare_at_price) {
+      changes.compareAtPriceChanges.push({
+        product_id: variant.product_id,
+        variant_id: id,
+        product_title: productTitle,
+        variant_title: variant.title,
+        from: previous.compare_at_price,
+        to: variant.compare_at_price,
+        change_pct: percentChange(previous.compare_at_price, variant.compare_at_price),
+      });
+    }
+  }
+
+  for (const [id, variant] of fromVariants) {
+    if (!toVariants.has(id) && toProducts.has(variant.product_id)) {
+      changes.variantsRemoved.push({
+        product_id: variant.product_id,
+        variant_id: id,
+        product_title: toProducts.get(variant.product_id)?.title || '',
+        variant_title: variant.title,
+      });
+    }
+  }
+
+  return changes;
+}
+
+function percentChange(from: number | null, to: number | null): number | null {
+  if (from === null || to === null || from === 0) return null;
+  return Math.round(((to - from) / from) * 10000) / 100;
+}
+
+function toPrice(value?: string): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+async function insertInBatches(table: string, rows: Record<string, unknown>[]) {
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase.from(table).insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+    if (error) {
+      throw new Error(`Failed to insert into ${table}: ${error.message}`);
+    }
+  }
+}
+
+async function selectAll<T>(table: string, snapshotId: string): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let offset = 0; ; offset += SELECT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .eq('snapshot_id', snapshotId)
+      .order('id', { ascending: true })
+      .range(offset, offset + SELECT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load ${table}: ${error.message}`);
+    }
+
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < SELECT_PAGE_SIZE) break;
+  }
+
+  return rows;
+}
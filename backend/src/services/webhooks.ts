@@ -0,0 +1,239 @@
+import axios from 'axios';
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { supabase } from '../utils/supabase';
+import { WebhookDelivery, WebhookEndpoint, WebhookEvent } from '../types';
+
+export const WEBHOOK_EVENTS = ['job.completed', 'job.failed', 'store.changed', 'credits.low'] as const;
+
+export const MAX_DELIVERY_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 30000; // 30s, 1m, 2m, 4m, 8m between attempts
+const DELIVERY_TIMEOUT_MS = 10000;
+const DELIVERY_LEASE_MS = 60000;
+const DEFAULT_POLL_INTERVAL = 15000;
+const DUE_BATCH_SIZE = 50;
+const MAX_LOGGED_RESPONSE_LENGTH = 1000;
+
+// Dispatchers running in this process, woken when an event is queued
+const localDispatchers = new Set<() => void>();
+
+export interface WebhookDispatcher {
+  stop(): Promise<void>;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signature header value for a payload
+ * Receivers recompute HMAC-SHA256(secret, `${t}.${body}`) and compare it to v1,
+ * rejecting stale timestamps to prevent replays.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+export function retryDelayMs(attempts: number): number {
+  return BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+}
+
+/**
+ * POST one delivery and record the outcome
+ * Failed attempts are rescheduled with exponential backoff until
+ * MAX_DELIVERY_ATTEMPTS is reached.
+ */
+export async function attemptDelivery(delivery: WebhookDelivery, endpoint: WebhookEndpoint) {
+  const body = JSON.stringify(delivery.payload);
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+
+  let statusCode: number | null = null;
+  let responseBody = '';
+  let error: string | null = null;
+
+  try {
+    const response = await axios.post(endpoint.url, body, {
+      timeout: DELIVERY_TIMEOUT_MS,
+      maxRedirects: 0,
+      // Record every status instead of throwing on non-2xx
+      validateStatus: () => true,
+      transformResponse: data => data,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'DataFlow-Webhooks/1.0',
+        'X-DataFlow-Event': delivery.event,
+        'X-DataFlow-Delivery': delivery.id,
+        'X-DataFlow-Signature': signWebhookPayload(endpoint.secret, body),
+      },
+    });
+
+    statusCode = response.status;
+    responseBody = typeof response.data === 'string' ? response.data : '';
+    if (statusCode < 200 || statusCode >= 300) {
+      error = `HTTP ${statusCode}`;
+    }
+  } catch (err: any) {
+    error = err.code || err.message || 'Request failed';
+  }
+
+  const succeeded = error === null;
+  const exhausted = !succeeded && attempts >= MAX_DELIVERY_ATTEMPTS;
+
+  const update = {
+    status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+    attempts,
+    last_status_code: statusCode,
+    last_error: error,
+    last_response: responseBody.slice(0, MAX_LOGGED_RESPONSE_LENGTH) || null,
+    next_attempt_at: succeeded || exhausted
+      ? null
+      : new Date(now.getTime() + retryDelayMs(attempts)).toISOString(),
+    delivered_at: succeeded ? now.toISOString() : null,
+    updated_at: now.toISOString(),
+  };
+
+  await supabase
+    .from('webhook_deliveries')
+    .update(update)
+    .eq('id', delivery.id);
+
+  return { ...delivery, ...update } as WebhookDelivery;
+}
+
+/**
+ * Queue an event for every enabled endpoint of the user subscribed to it
+ * Deliveries are due immediately and sent by the dispatcher, so callers
+ * never wait on a receiver's response.
+ */
+export async function emitWebhookEvent(userId: string, event: WebhookEvent, data: Record<string, unknown>) {
+  const { data: endpoints, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('enabled', true)
+    .contains('events', [event]);
+
+  if (error) {
+    console.error(`[Webhooks] Failed to load endpoints for ${event}:`, error);
+    return;
+  }
+
+  if (!endpoints || endpoints.length === 0) return;
+
+  const payload = {
+    id: `evt_${randomUUID()}`,
+    type: event,
+    created_at: new Date().toISOString(),
+    data,
+  };
+
+  const { error: insertError } = await supabase
+    .from('webhook_deliveries')
+    .insert(endpoints.map(endpoint => ({
+      endpoint_id: endpoint.id,
+      event,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+    })));
+
+  if (insertError) {
+    console.error(`[Webhooks] Failed to queue ${event}:`, insertError);
+    return;
+  }
+
+  localDispatchers.forEach(wake => wake());
+}
+
+/**
+ * Start a loop that sends queued deliveries and retries them once their backoff elapses
+ */
+export function startWebhookDispatcher(options: { pollInterval?: number } = {}): WebhookDispatcher {
+  const pollInterval = options.pollInterval || DEFAULT_POLL_INTERVAL;
+
+  let stopped = false;
+  let wake: (() => void) | null = null;
+
+  const sleep = (ms: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    wake = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+
+  const tick = async () => {
+    const now = new Date();
+    const { data: due, error } = await supabase
+      .from('webhook_deliveries')
+      .select('*, webhook_endpoints(*)')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', now.toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(DUE_BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to load due deliveries: ${error.message}`);
+    }
+
+    for (const { webhook_endpoints: endpoint, ...delivery } of due || []) {
+      if (stopped) break;
+
+      // Lease the delivery so another dispatcher doesn't send it concurrently
+      const { data: claimed } = await supabase
+        .from('webhook_deliveries')
+        .update({ next_attempt_at: new Date(now.getTime() + DELIVERY_LEASE_MS).toISOString() })
+        .eq('id', delivery.id)
+        .eq('next_attempt_at', delivery.next_attempt_at)
+        .select('id');
+
+      if (!claimed || claimed.length === 0) continue;
+
+      if (!endpoint || !endpoint.enabled) {
+        await supabase
+          .from('webhook_deliveries')
+          .update({ status: 'failed', last_error: 'Endpoint disabled', next_attempt_at: null })
+          .eq('id', delivery.id);
+        continue;
+      }
+
+      await attemptDelivery(delivery as WebhookDelivery, endpoint as WebhookEndpoint);
+    }
+  };
+
+  // An event queued mid-tick skips the next sleep
+  let queued = false;
+  const nudge = () => {
+    queued = true;
+    wake?.();
+  };
+  localDispatchers.add(nudge);
+
+  const loop = (async () => {
+    console.log('[Webhook Dispatcher] Started');
+
+    while (!stopped) {
+      queued = false;
+      try {
+        await tick();
+      } catch (error) {
+        console.error('[Webhook Dispatcher] Tick error:', error);
+      }
+
+      if (!queued) await sleep(pollInterval);
+    }
+
+    console.log('[Webhook Dispatcher] Stopped');
+  })();
+
+  return {
+    async stop() {
+      stopped = true;
+      localDispatchers.delete(nudge);
+      wake?.();
+      await loop;
+    },
+  };
+}
@@ -0,0 +1,365 @@
+import type { TestContext } from 'node:test';
+import { supabase } from '../utils/supabase';
+
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+type Rpc = (args: Row, db: FakeSupabase) => unknown;
+
+interface Result {
+  data: any;
+  error: { code?: string; message: string } | null;
+  count?: number | null;
+}
+
+// PostgREST filter values arrive as strings ("null", "true", "(a,b)")
+const parseValue = (value: string): unknown => {
+  if (value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return value;
+};
+
+const compare = (a: unknown, b: unknown) => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  return (a as any) < (b as any) ? -1 : 1;
+};
+
+const matchOp = (op: string, actual: unknown, expected: unknown): boolean => {
+  switch (op) {
+    case 'eq': return actual == expected;
+    case 'neq': return actual != expected;
+    case 'is': return expected === null ? actual === null || actual === undefined : actual === expected;
+    case 'in': return (expected as unknown[]).some(value => value == actual);
+    case 'lt': return actual !== null && actual !== undefined && compare(actual, expected) < 0;
+    case 'lte': return actual !== null && actual !== undefined && compare(actual, expected) <= 0;
+    case 'gt': return actual !== null && actual !== undefined && compare(actual, expected) > 0;
+    case 'gte': return actual !== null && actual !== undefined && compare(actual, expected) >= 0;
+    default: throw new Error(`Fake Supabase does not support the "${op}" filter`);
+  }
+};
+
+// Split on commas that are not inside parentheses
+const splitTopLevel = (input: string) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of input) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+};
+
+// One condition of an .or() string: "col.op.value", "and(...)" or "or(...)"
+const parseCondition = (condition: string): Filter => {
+  const group = condition.match(/^(and|or)\((.*)\)$/);
+  if (group) {
+    const filters = splitTopLevel(group[2]).map(parseCondition);
+    return group[1] === 'and'
+      ? row => filters.every(filter => filter(row))
+      : row => filters.some(filter => filter(row));
+  }
+
+  const [column, op, ...rest] = condition.split('.');
+  const raw = rest.join('.');
+  const expected = op === 'in'
+    ? splitTopLevel(raw.replace(/^\(|\)$/g, '')).map(parseValue)
+    : parseValue(raw);
+  return row => matchOp(op, row[column], expected);
+};
+
+class FakeQuery implements PromiseLike<Result> {
+  private action: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select';
+  private payload: Row[] = [];
+  private patch: Row = {};
+  private onConflict: string[] = [];
+  private filters: Filter[] = [];
+  private orders: { column: string; ascending: boolean }[] = [];
+  private window: { from: number; to: number } | null = null;
+  private returning = false;
+  private countRows = false;
+  private head = false;
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private db: FakeSupabase, private table: string) {}
+
+  select(_columns = '*', options: { count?: string; head?: boolean } = {}) {
+    if (this.action === 'select') {
+      this.countRows = !!options.count;
+      this.head = !!options.head;
+    } else {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.action = 'insert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}) {
+    this.action = 'upsert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    this.onConflict = (options.onConflict || 'id').split(',').map(column => column.trim());
+    return this;
+  }
+
+  update(patch: Row) {
+    this.action = 'update';
+    this.patch = patch;
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) { return this.where('eq', column, value); }
+  neq(column: string, value: unknown) { return this.where('neq', column, value); }
+  is(column: string, value: unknown) { return this.where('is', column, value); }
+  in(column: string, values: unknown[]) { return this.where('in', column, values); }
+  lt(column: string, value: unknown) { return this.where('lt', column, value); }
+  lte(column: string, value: unknown) { return this.where('lte', column, value); }
+  gt(column: string, value: unknown) { return this.where('gt', column, value); }
+  gte(column: string, value: unknown) { return this.where('gte', column, value); }
+
+  or(conditions: string) {
+    const filters = splitTopLevel(conditions).map(parseCondition);
+    this.filters.push(row => filters.some(filter => filter(row)));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orders.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number) {
+    this.window = { from: 0, to: count - 1 };
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.window = { from, to };
+    return this;
+  }
+
+  single() {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<T1 = Result, T2 = never>(
+    onfulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: any) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private where(op: string, column: string, value: unknown) {
+    this.filters.push(row => matchOp(op, row[column], value));
+    return this;
+  }
+
+  private matching() {
+    return this.db.rows(this.table).filter(row => this.filters.every(filter => filter(row)));
+  }
+
+  private execute(): Result {
+    let rows: Row[];
+
+    switch (this.action) {
+      case 'select':
+        rows = this.matching();
+        break;
+
+      case 'insert': {
+        const inserted: Row[] = [];
+        for (const values of this.payload) {
+          const conflict = this.db.conflict(this.table, values);
+          if (conflict) return conflict;
+          inserted.push(this.db.insertRow(this.table, values));
+        }
+        rows = inserted;
+        break;
+      }
+
+      case 'upsert':
+        rows = this.payload.map(values => {
+          const existing = this.db.rows(this.table)
+            .find(row => this.onConflict.every(column => row[column] == values[column]));
+          return existing ? Object.assign(existing, values) : this.db.insertRow(this.table, values);
+        });
+        break;
+
+      case 'update':
+        rows = this.matching().map(row => Object.assign(row, structuredClone(this.patch)));
+        break;
+
+      case 'delete': {
+        rows = this.matching();
+        const removed = new Set(rows);
+        this.db.tables[this.table] = this.db.rows(this.table).filter(row => !removed.has(row));
+        break;
+      }
+    }
+
+    for (const { column, ascending } of [...this.orders].reverse()) {
+      rows = [...rows].sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1));
+    }
+
+    const count = rows.length;
+    if (this.window) {
+      rows = rows.slice(this.window.from, this.window.to + 1);
+    }
+
+    if (this.action !== 'select' && !this.returning) {
+      return { data: null, error: null };
+    }
+
+    const data = rows.map(row => structuredClone(row));
+
+    if (this.cardinality !== 'many') {
+      if (data.length > 1 || (data.length === 0 && this.cardinality === 'single')) {
+        return { data: null, error: { code: 'PGRST116', message: `Expected one row, found ${data.length}` } };
+      }
+      return { data: data[0] ?? null, error: null };
+    }
+
+    return { data: this.head ? null : data, error: null, count: this.countRows ? count : null };
+  }
+}
+
+/**
+ * post_credit_entry from add-credit-ledger.sql
+ * Idempotent by key, rejects overdrafts and keeps the wallet's cached credits in step.
+ */
+export const fakePostCreditEntry: Rpc = (args, db) => {
+  const wallet = args.p_organization_id
+    ? db.rows('organizations').find(row => row.id === args.p_organization_id)
+    : db.rows('users').find(row => row.id === args.p_user_id);
+  if (!wallet) return [{ status: 'account_not_found', entry_id: null, balance: null }];
+
+  const ledger = db.rows('credit_ledger');
+  const existing = ledger.find(entry => entry.idempotency_key === args.p_idempotency_key);
+  if (existing) return [{ status: 'duplicate', entry_id: existing.id, balance: existing.balance_after }];
+
+  const balance = ledger
+    .filter(entry => (args.p_organization_id
+      ? entry.organization_id === args.p_organization_id
+      : !entry.organization_id && entry.user_id === args.p_user_id))
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  if (balance + args.p_amount < 0) return [{ status: 'insufficient_credits', entry_id: null, balance }];
+
+  const entry = db.insertRow('credit_ledger', {
+    user_id: args.p_user_id,
+    organization_id: args.p_organization_id,
+    amount: args.p_amount,
+    balance_after: balance + args.p_amount,
+    kind: args.p_kind,
+    idempotency_key: args.p_idempotency_key,
+    transaction_id: args.p_transaction_id,
+    job_id: args.p_job_id,
+    description: args.p_description,
+  });
+  wallet.credits = entry.balance_after;
+
+  return [{ status: 'applied', entry_id: entry.id, balance: entry.balance_after }];
+};
+
+/**
+ * In-memory stand-in for the Supabase client, for services that query tables directly
+ * Rows are plain objects; defaults, unique indexes and RPCs are declared by the test that needs them.
+ */
+export class FakeSupabase {
+  tables: Record<string, Row[]> = {};
+  private uniques: Record<string, ((a: Row, b: Row) => boolean)[]> = {};
+  private columnDefaults: Record<string, () => Row> = {};
+  private rpcs: Record<string, Rpc> = {};
+  private nextId = 1;
+
+  constructor(seed: Record<string, Row[]> = {}) {
+    for (const [table, rows] of Object.entries(seed)) {
+      this.tables[table] = rows.map(row => ({ ...row }));
+    }
+  }
+
+  /**
+   * Reject inserts that collide with an existing row, like a (partial) unique index
+   */
+  unique(table: string, conflicts: (a: Row, b: Row) => boolean) {
+    (this.uniques[table] ||= []).push(conflicts);
+    return this;
+  }
+
+  /**
+   * Column defaults applied to inserted rows, like DEFAULT in the migration
+   */
+  defaults(table: string, values: () => Row) {
+    this.columnDefaults[table] = values;
+    return this;
+  }
+
+  defineRpc(name: string, fn: Rpc) {
+    this.rpcs[name] = fn;
+    return this;
+  }
+
+  rows(table: string) {
+    return (this.tables[table] ||= []);
+  }
+
+  from(table: string) {
+    return new FakeQuery(this, table);
+  }
+
+  async rpc(name: string, args: Row = {}): Promise<Result> {
+    const fn = this.rpcs[name];
+    if (!fn) return { data: null, error: { message: `Fake Supabase has no "${name}" function` } };
+    return { data: structuredClone(fn(args, this)), error: null };
+  }
+
+  /**
+   * Route the shared client's from() and rpc() to this fake for the rest of the test
+   */
+  install(t: TestContext) {
+    t.mock.method(supabase, 'from', ((table: string) => this.from(table)) as any);
+    t.mock.method(supabase, 'rpc', ((name: string, args?: Row) => this.rpc(name, args)) as any);
+    return this;
+  }
+
+  insertRow(table: string, values: Row): Row {
+    const row = {
+      id: `${table}-${this.nextId++}`,
+      ...this.columnDefaults[table]?.(),
+      ...structuredClone(values),
+    };
+    this.rows(table).push(row);
+    return row;
+  }
+
+  conflict(table: string, values: Row): Result | null {
+    const collides = (this.uniques[table] || [])
+      .some(conflicts => this.rows(table).some(row => conflicts(row, values)));
+    return collides
+      ? { data: null, error: { code: '23505', message: `duplicate key value violates unique constraint on ${table}` } }
+      : null;
+  }
+}
@@ -0,0 +1,4 @@
+// Loaded before every test file (see the test script in package.json)
+// Tests never reach Supabase, but importing the client needs a configuration.
+process.env.SUPABASE_URL ||= 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test-service-role-key';
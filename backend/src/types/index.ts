@@ -5,15 +5,41 @@ export interface User {
   created_at: string;
 }
 
+export type ScrapePhase = 'queued' | 'fetching' | 'collections' | 'saving' | 'done';
+
 export interface ScrapeJob {
   id: string;
   user_id: string;
   store_url: string;
   store_name?: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  retry_of?: string | null;
+  store_id?: string | null;
+  monitor_id?: string | null;
+  organization_id?: string | null; // Set when the job runs under an organization
+  collections_filter?: string[] | null;
   csv_path?: string;
   products_count?: number;
   error_message?: string;
+  last_page?: number;
+  is_partial?: boolean;
+  credits_charged?: boolean;
+  credits_reserved?: number; // Held for the current run until it is settled
+  credits_spent?: number; // Settled charges across all runs of the job
+  credits_refunded?: number;
+  reservation_key?: string | null;
+  billing_note?: string | null;
+  credits_price?: number; // Full price of the job, from its quote
+  estimated_products?: number | null;
+  quote_id?: string | null;
+  progress_phase?: ScrapePhase;
+  progress_page?: number;
+  progress_products?: number;
+  progress_eta_seconds?: number | null;
+  locked_by?: string | null;
+  locked_until?: string | null;
+  attempts?: number;
+  max_attempts?: number;
   created_at: string;
   updated_at: string;
 }
@@ -34,8 +60,10 @@ export interface Product {
   vendor?: string;
   product_type?: string;
   tags?: string[];
+  options?: ProductOption[];
   variants: ProductVariant[];
   images?: ProductImage[];
+  collections?: string[]; // Handles of collections containing the product
   created_at?: string;
   updated_at?: string;
   published_at?: string;
@@ -46,6 +74,7 @@ export interface ProductVariant {
   title: string;
   price: string;
   sku?: string;
+  barcode?: string;
   inventory_quantity?: number;
   grams?: number;
   compare_at_price?: string;
@@ -54,7 +83,449 @@ export interface ProductVariant {
   option3?: string;
 }
 
+export interface ProductOption {
+  name: string;
+  position: number;
+  values: string[];
+}
+
 export interface ProductImage {
   id: number;
   src: string;
 }
+
+export interface Collection {
+  id: number;
+  title: string;
+  handle: string;
+  description?: string;
+  products_count?: number;
+  published_at?: string;
+  updated_at?: string;
+}
+
+export type ExportGranularity = 'variant' | 'product';
+
+export interface ExportTemplateColumn {
+  key: string;
+  header?: string; // Overrides the column's default header
+}
+
+export interface ExportTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  columns: ExportTemplateColumn[];
+  granularity: ExportGranularity;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Store {
+  id: string;
+  user_id: string;
+  normalized_url: string;
+  name?: string;
+  created_at: string;
+}
+
+export interface StoreSnapshot {
+  id: string;
+  store_id: string;
+  job_id: string;
+  products_count: number;
+  created_at: string;
+}
+
+export interface SnapshotProduct {
+  snapshot_id: string;
+  product_id: number;
+  handle: string;
+  title: string;
+  vendor?: string | null;
+  product_type?: string | null;
+}
+
+export interface SnapshotVariant {
+  snapshot_id: string;
+  product_id: number;
+  variant_id: number;
+  title: string;
+  sku?: string | null;
+  price: number | null;
+  compare_at_price: number | null;
+}
+
+export interface ProductChange {
+  product_id: number;
+  title: string;
+  handle: string;
+}
+
+export interface VariantChange {
+  product_id: number;
+  variant_id: number;
+  product_title: string;
+  variant_title: string;
+}
+
+export interface PriceChange extends VariantChange {
+  from: number | null;
+  to: number | null;
+  change_pct: number | null;
+}
+
+export interface StoreChanges {
+  productsAdded: ProductChange[];
+  productsRemoved: ProductChange[];
+  titleChanges: { product_id: number; from: string; to: string }[];
+  priceChanges: PriceChange[];
+  compareAtPriceChanges: PriceChange[];
+  variantsAdded: VariantChange[];
+  variantsRemoved: VariantChange[];
+}
+
+export interface StoreMonitor {
+  id: string;
+  user_id: string;
+  store_url: string;
+  store_name?: string;
+  interval_hours: number;
+  status: 'active' | 'paused';
+  paused_reason?: 'insufficient_credits' | null;
+  next_run_at: string;
+  last_run_at?: string | null;
+  last_job_id?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AlertRuleType = 'price_drop' | 'new_product_tag' | 'compare_at_set' | 'vendor_new_products';
+
+export interface AlertRuleParams {
+  minPercent?: number; // price_drop
+  tag?: string; // new_product_tag
+  vendor?: string; // vendor_new_products
+}
+
+export interface AlertRule {
+  id: string;
+  user_id: string;
+  store_id?: string | null; // null applies to every store
+  name: string;
+  type: AlertRuleType;
+  params: AlertRuleParams;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UserNotification {
+  id: string;
+  user_id: string;
+  rule_id?: string | null;
+  job_id?: string | null;
+  store_id?: string | null;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  read_at?: string | null;
+  created_at: string;
+}
+
+export type WebhookEvent = 'job.completed' | 'job.failed' | 'store.changed' | 'credits.low';
+
+export interface WebhookEndpoint {
+  id: string;
+  user_id: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event: WebhookEvent | 'webhook.test';
+  payload: Record<string, unknown>;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  next_attempt_at?: string | null;
+  last_status_code?: number | null;
+  last_error?: string | null;
+  last_response?: string | null;
+  delivered_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ApiKeyScope = 'read' | 'scrape' | 'billing';
+
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  name: string;
+  prefix: string; // First characters of the key, for display
+  scopes: ApiKeyScope[];
+  last_used_at?: string | null;
+  revoked_at?: string | null;
+  created_at: string;
+}
+
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+export interface Organization {
+  id: string;
+  name: string;
+  credits: number; // Shared wallet
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OrganizationMember {
+  organization_id: string;
+  user_id: string;
+  role: OrganizationRole;
+  created_at: string;
+}
+
+export interface OrganizationInvite {
+  id: string;
+  organization_id: string;
+  email: string;
+  role: Exclude<OrganizationRole, 'owner'>;
+  invited_by?: string | null;
+  accepted_at?: string | null;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface Transaction {
+  id: string;
+  user_id: string;
+  organization_id?: string | null; // Set when bought for an organization wallet
+  type: 'purchase' | 'usage' | 'refund';
+  amount: number; // Positive for purchase, negative for usage
+  plan_id?: string | null;
+  payment_intent_id?: string | null;
+  description?: string | null;
+  processed?: boolean;
+  job_id?: string | null;
+  refunded_at?: string | null; // Set while a purchase refund is in progress or done
+  refund_id?: string | null; // Provider refund reference
+  refund_status?: 'pending' | 'succeeded' | null;
+  created_at: string;
+}
+
+export type CreditLedgerKind =
+  | 'opening_balance'
+  | 'signup_bonus'
+  | 'purchase'
+  | 'usage'
+  | 'refund'
+  | 'adjustment';
+
+export interface CreditLedgerEntry {
+  id: number;
+  user_id?: string | null;
+  organization_id?: string | null; // Set for organization wallet entries
+  amount: number; // Positive credits, negative debits
+  balance_after: number;
+  kind: CreditLedgerKind;
+  idempotency_key: string;
+  transaction_id?: string | null;
+  job_id?: string | null;
+  description?: string | null;
+  created_at: string;
+}
+
+export interface ScrapeQuote {
+  id: string;
+  user_id: string;
+  store_url: string;
+  product_estimate?: number | null; // Null when the size could not be estimated
+  estimate_source?: 'sitemap' | 'probe' | null;
+  credits: number;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface ProductTypeTrend {
+  product_type: string;
+  stores: number;
+  products: number;
+  median_price: number | null; // In the stores' own currencies
+}
+
+export interface VendorTrend {
+  vendor: string;
+  stores: number;
+  products: number;
+  previous_products: number;
+  growth_percent: number;
+}
+
+export interface NewProductsDay {
+  day: string; // YYYY-MM-DD (UTC)
+  new_products: number | null; // Null when too few stores added products that day
+}
+
+export interface MarketTrends {
+  window_days: number;
+  generated_at: string;
+  min_stores: number; // Groups seen in fewer stores are left out
+  stores_tracked: number;
+  insufficient_data: boolean;
+  product_types: ProductTypeTrend[];
+  vendors: VendorTrend[];
+  new_products: {
+    total: number | null; // Null when too few stores added products in the window
+    per_day: number | null;
+    days: NewProductsDay[];
+  };
+}
+
+export interface CountBucket {
+  label: string;
+  count: number;
+}
+
+export interface PriceDistribution {
+  product_type: string;
+  products: number;
+  variants: number; // Priced variants
+  min: number;
+  max: number;
+  mean: number;
+  percentiles: { p10: number; p25: number; p50: number; p75: number; p90: number };
+  histogram: { from: number; to: number; count: number }[]; // The last bin also holds outliers
+}
+
+export interface CatalogueAnalytics {
+  totals: {
+    products: number;
+    variants: number;
+    priced_variants: number;
+  };
+  prices: {
+    overall: PriceDistribution;
+    by_type: PriceDistribution[]; // Largest product types first
+  };
+  sale: {
+    variants_on_sale: number; // compare_at_price above price
+    share_percent: number;
+    average_discount_percent: number;
+    max_discount_percent: number;
+    discount_depth: CountBucket[];
+  };
+  tags: {
+    unique: number;
+    top: { tag: string; products: number }[];
+  };
+  options: {
+    name: string;
+    products: number;
+    share_percent: number;
+    unique_values: number;
+  }[];
+  variants_per_product: {
+    min: number;
+    max: number;
+    mean: number;
+    median: number;
+    distribution: CountBucket[];
+  };
+  catalogue_age: {
+    oldest_published_at: string | null;
+    newest_published_at: string | null;
+    median_age_days: number | null;
+    undated: number; // Products without a published_at
+    distribution: CountBucket[];
+  };
+}
+
+export interface ComparedStore {
+  job_id: string;
+  store_url: string;
+  store_name?: string | null;
+  scraped_at: string;
+  products: number;
+  variants: number;
+  vendors: number;
+  product_types: number;
+  median_price: number | null;
+}
+
+export interface TypePricePosition {
+  products: number;
+  min_price: number;
+  median_price: number;
+  max_price: number;
+  price_index: number; // Median as a percentage of the median across the compared stores
+}
+
+export interface ProductMatchSide {
+  product_id: number;
+  title: string;
+  handle: string;
+  sku?: string | null;
+  price: number | null;
+  diff: number | null; // Price minus the first store's price
+  diff_percent: number | null;
+}
+
+export interface ProductMatch {
+  key: string;
+  matched_by: 'confirmed' | 'sku' | 'title'; // 'confirmed' comes from the user's product_matches
+  products: (ProductMatchSide | null)[]; // Aligned with StoreComparison.stores
+}
+
+export interface StoreComparison {
+  stores: ComparedStore[]; // In the requested order; the first is the baseline
+  vendors: {
+    shared: { name: string; products: number[] }[]; // Carried by two or more stores
+    unique: number[]; // Vendors only one store carries
+  };
+  product_types: {
+    name: string;
+    stores: (TypePricePosition | null)[];
+  }[];
+  matches: ProductMatch[];
+  matches_total: number;
+}
+
+export type MatchSignal = 'title' | 'vendor' | 'sku' | 'barcode' | 'grams' | 'image';
+
+// Similarity per signal from 0 to 1; signals missing on either side are left out
+export type MatchSignals = Partial<Record<MatchSignal, number>>;
+
+export type MatchDecisionStatus = 'confirmed' | 'rejected';
+
+export interface MatchDecision {
+  id: string;
+  user_id: string;
+  store_a: string; // Normalized store URL
+  product_a: number;
+  title_a: string | null;
+  store_b: string;
+  product_b: number;
+  title_b: string | null;
+  status: MatchDecisionStatus;
+  score: number | null;
+  signals: MatchSignals | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MatchSuggestion {
+  product_a: { id: number; title: string; handle: string; price: number | null };
+  product_b: { id: number; title: string; handle: string; price: number | null };
+  score: number;
+  signals: MatchSignals;
+  status: 'suggested' | 'confirmed';
+  decision_id: string | null;
+}
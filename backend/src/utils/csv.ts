@@ -1,4 +1,4 @@
-import { Product } from '../types';
+import { Product, ExportTemplate, StoreComparison } from '../types';
 
 interface FlattenedProduct {
   id: number;
@@ -19,97 +19,203 @@ interface FlattenedProduct {
   image_src: string;
   created_at: string;
   updated_at: string;
+  collections: string;
+  min_price: string;
+  max_price: string;
+  variant_count: string;
 }
 
-const CSV_HEADERS = [
-  'Product ID',
-  'Title',
-  'Handle',
-  'Description',
-  'Vendor',
-  'Product Type',
-  'Tags',
-  'Variant Title',
-  'Price',
-  'Compare At Price',
-  'SKU',
-  'Inventory Quantity',
-  'Option 1',
-  'Option 2',
-  'Option 3',
-  'Image URL',
-  'Created At',
-  'Updated At',
+export type CsvColumnKey = keyof FlattenedProduct;
+
+interface CsvColumn {
+  key: CsvColumnKey;
+  header: string;
+  // Variant-level columns only make sense with one row per variant
+  level: 'product' | 'variant';
+}
+
+/**
+ * Every column a CSV export (or template) can use, with its default header
+ */
+export const CSV_COLUMNS: CsvColumn[] = [
+  { key: 'id', header: 'Product ID', level: 'product' },
+  { key: 'title', header: 'Title', level: 'product' },
+  { key: 'handle', header: 'Handle', level: 'product' },
+  { key: 'description', header: 'Description', level: 'product' },
+  { key: 'vendor', header: 'Vendor', level: 'product' },
+  { key: 'product_type', header: 'Product Type', level: 'product' },
+  { key: 'tags', header: 'Tags', level: 'product' },
+  { key: 'variant_title', header: 'Variant Title', level: 'variant' },
+  { key: 'price', header: 'Price', level: 'variant' },
+  { key: 'compare_at_price', header: 'Compare At Price', level: 'variant' },
+  { key: 'sku', header: 'SKU', level: 'variant' },
+  { key: 'inventory_quantity', header: 'Inventory Quantity', level: 'variant' },
+  { key: 'option1', header: 'Option 1', level: 'variant' },
+  { key: 'option2', header: 'Option 2', level: 'variant' },
+  { key: 'option3', header: 'Option 3', level: 'variant' },
+  { key: 'image_src', header: 'Image URL', level: 'product' },
+  { key: 'created_at', header: 'Created At', level: 'product' },
+  { key: 'updated_at', header: 'Updated At', level: 'product' },
+  { key: 'collections', header: 'Collections', level: 'product' },
+  { key: 'min_price', header: 'Min Price', level: 'product' },
+  { key: 'max_price', header: 'Max Price', level: 'product' },
+  { key: 'variant_count', header: 'Variant Count', level: 'product' },
 ];
 
+// The standard export: every column except the per-product aggregates
+const DEFAULT_COLUMNS = CSV_COLUMNS
+  .filter(c => !['min_price', 'max_price', 'variant_count'].includes(c.key))
+  .map(c => ({ key: c.key }));
+
 export function generateCSVFromProducts(products: Product[]): string {
-  const flattenedProducts = flattenProducts(products);
-  
+  return generateCSVWithTemplate(products, {
+    columns: DEFAULT_COLUMNS,
+    granularity: 'variant',
+  });
+}
+
+/**
+ * Generate a CSV from a column selection (order and optional header renames)
+ * 'product' granularity writes one row per product; use it with the
+ * min/max price aggregates rather than variant-level columns.
+ */
+export function generateCSVWithTemplate(
+  products: Product[],
+  template: Pick<ExportTemplate, 'columns' | 'granularity'>
+): string {
+  const columns = template.columns.map(column => {
+    const definition = CSV_COLUMNS.find(c => c.key === column.key);
+    if (!definition) {
+      throw new Error(`Unknown CSV column: ${column.key}`);
+    }
+    return { key: definition.key, header: column.header || definition.header };
+  });
+
+  const flattenedProducts = template.granularity === 'product'
+    ? products.map(product => flattenProductRow(product))
+    : flattenProducts(products);
+
   // Generate CSV rows
-  const rows: string[] = [CSV_HEADERS.join(',')];
-  
+  const rows: string[] = [columns.map(c => escapeCSV(c.header)).join(',')];
+
   for (const product of flattenedProducts) {
-    const row = [
-      product.id,
-      escapeCSV(product.title),
-      escapeCSV(product.handle),
-      escapeCSV(product.description),
-      escapeCSV(product.vendor),
-      escapeCSV(product.product_type),
-      escapeCSV(product.tags),
-      escapeCSV(product.variant_title),
-      product.price,
-      product.compare_at_price,
-      escapeCSV(product.sku),
-      product.inventory_quantity,
-      escapeCSV(product.option1),
-      escapeCSV(product.option2),
-      escapeCSV(product.option3),
-      escapeCSV(product.image_src),
-      product.created_at,
-      product.updated_at,
-    ];
-    rows.push(row.join(','));
+    rows.push(columns.map(c => escapeCSV(String(product[c.key]))).join(','));
   }
   
   return rows.join('\n');
 }
 
+// Column order of Shopify's product import template
+const SHOPIFY_CSV_HEADERS = [
+  'Handle',
+  'Title',
+  'Body (HTML)',
+  'Vendor',
+  'Type',
+  'Tags',
+  'Published',
+  'Option1 Name',
+  'Option1 Value',
+  'Option2 Name',
+  'Option2 Value',
+  'Option3 Name',
+  'Option3 Value',
+  'Variant SKU',
+  'Variant Grams',
+  'Variant Price',
+  'Variant Compare At Price',
+  'Image Src',
+  'Image Position',
+] as const;
+
+type ShopifyRow = Partial<Record<(typeof SHOPIFY_CSV_HEADERS)[number], string>>;
+
+/**
+ * Generate a CSV that Shopify admin can import (Products > Import)
+ * The first row of a product carries the product fields, each further
+ * variant gets a row with only Handle, options and variant fields, and
+ * images beyond the variant count get image-only rows (Handle + Image).
+ */
+export function generateShopifyCSVFromProducts(products: Product[]): string {
+  const rows: string[] = [SHOPIFY_CSV_HEADERS.map(escapeCSV).join(',')];
+
+  for (const product of products) {
+    for (const row of shopifyRowsForProduct(product)) {
+      rows.push(SHOPIFY_CSV_HEADERS.map(header => escapeCSV(row[header] || '')).join(','));
+    }
+  }
+
+  return rows.join('\n');
+}
+
+function shopifyRowsForProduct(product: Product): ShopifyRow[] {
+  const rows: ShopifyRow[] = [];
+  const images = product.images || [];
+  // Products without options still have one "Default Title" variant in Shopify
+  const optionNames = product.options?.length
+    ? product.options.map(o => o.name)
+    : ['Title'];
+  const variants = product.variants?.length
+    ? product.variants
+    : [{ id: 0, title: 'Default Title', price: '', option1: 'Default Title' }];
+
+  variants.forEach((variant, index) => {
+    const row: ShopifyRow = {
+      'Handle': product.handle,
+      'Option1 Value': variant.option1 || '',
+      'Option2 Value': variant.option2 || '',
+      'Option3 Value': variant.option3 || '',
+      'Variant SKU': variant.sku || '',
+      'Variant Grams': variant.grams?.toString() || '',
+      'Variant Price': variant.price || '',
+      'Variant Compare At Price': variant.compare_at_price || '',
+    };
+
+    if (index === 0) {
+      Object.assign(row, {
+        'Title': product.title,
+        'Body (HTML)': product.body_html || '',
+        'Vendor': product.vendor || '',
+        'Type': product.product_type || '',
+        'Tags': (product.tags || []).join(', '),
+        'Published': product.published_at ? 'TRUE' : 'FALSE',
+        'Option1 Name': optionNames[0] || '',
+        'Option2 Name': optionNames[1] || '',
+        'Option3 Name': optionNames[2] || '',
+      });
+    }
+
+    if (images[index]) {
+      row['Image Src'] = images[index].src;
+      row['Image Position'] = String(index + 1);
+    }
+
+    rows.push(row);
+  });
+
+  for (let index = variants.length; index < images.length; index++) {
+    rows.push({
+      'Handle': product.handle,
+      'Image Src': images[index].src,
+      'Image Position': String(index + 1),
+    });
+  }
+
+  return rows;
+}
+
 function flattenProducts(products: Product[]): FlattenedProduct[] {
   const result: FlattenedProduct[] = [];
   
   for (const product of products) {
-    const baseProduct = {
-      id: product.id,
-      title: product.title,
-      handle: product.handle,
-      description: stripHtml(product.body_html || ''),
-      vendor: product.vendor || '',
-      product_type: product.product_type || '',
-      tags: (product.tags || []).join(', '),
-      image_src: product.images?.[0]?.src || '',
-      created_at: product.created_at || '',
-      updated_at: product.updated_at || '',
-    };
-    
     if (!product.variants || product.variants.length === 0) {
       // Product with no variants
-      result.push({
-        ...baseProduct,
-        variant_title: '',
-        price: '',
-        compare_at_price: '',
-        sku: '',
-        inventory_quantity: '',
-        option1: '',
-        option2: '',
-        option3: '',
-      });
+      result.push(flattenProductRow(product));
     } else {
       // Product with variants - create a row for each variant
       for (const variant of product.variants) {
         result.push({
-          ...baseProduct,
+          ...flattenProductRow(product),
           variant_title: variant.title,
           price: variant.price || '',
           compare_at_price: variant.compare_at_price || '',
@@ -126,6 +232,90 @@ function flattenProducts(products: Product[]): FlattenedProduct[] {
   return result;
 }
 
+/**
+ * Product-level fields, with variant fields left blank
+ */
+function flattenProductRow(product: Product): FlattenedProduct {
+  const prices = (product.variants || [])
+    .map(v => parseFloat(v.price))
+    .filter(p => Number.isFinite(p));
+
+  return {
+    id: product.id,
+    title: product.title,
+    handle: product.handle,
+    description: stripHtml(product.body_html || ''),
+    vendor: product.vendor || '',
+    product_type: product.product_type || '',
+    tags: (product.tags || []).join(', '),
+    image_src: product.images?.[0]?.src || '',
+    created_at: product.created_at || '',
+    updated_at: product.updated_at || '',
+    collections: (product.collections || []).join(', '),
+    min_price: prices.length ? Math.min(...prices).toFixed(2) : '',
+    max_price: prices.length ? Math.max(...prices).toFixed(2) : '',
+    variant_count: String(product.variants?.length || 0),
+    variant_title: '',
+    price: '',
+    compare_at_price: '',
+    sku: '',
+    inventory_quantity: '',
+    option1: '',
+    option2: '',
+    option3: '',
+  };
+}
+
+/**
+ * Generate a CSV of a store comparison: price positioning per product type,
+ * then every matched product, separated by a blank line
+ * Price differences are against the first store.
+ */
+export function generateComparisonCSV(comparison: StoreComparison): string {
+  const storeNames = comparison.stores.map(store => store.store_name || store.store_url);
+  const formatNumber = (value: number | null | undefined) => (value === null || value === undefined ? '' : String(value));
+  const row = (values: string[]) => values.map(escapeCSV).join(',');
+
+  const rows: string[] = [
+    row([
+      'Product Type',
+      ...storeNames.flatMap(name => [`${name} Products`, `${name} Median Price`, `${name} Price Index`]),
+    ]),
+  ];
+
+  for (const type of comparison.product_types) {
+    rows.push(row([
+      type.name,
+      ...type.stores.flatMap(position => [
+        formatNumber(position?.products),
+        formatNumber(position?.median_price),
+        formatNumber(position?.price_index),
+      ]),
+    ]));
+  }
+
+  rows.push('');
+  rows.push(row([
+    'Matched By',
+    ...storeNames.flatMap(name => [`${name} Title`, `${name} SKU`, `${name} Price`, `${name} Diff`, `${name} Diff %`]),
+  ]));
+
+  for (const match of comparison.matches) {
+    rows.push(row([
+      match.matched_by,
+      ...match.products.flatMap(side => [
+        side?.title || '',
+        side?.sku || '',
+        formatNumber(side?.price),
+        formatNumber(side?.diff),
+        formatNumber(side?.diff_percent),
+      ]),
+    ]));
+  }
+
+  return rows.join('\n');
+}
+
 function escapeCSV(value: string): string {
   if (value === null || value === undefined) {
     return '';
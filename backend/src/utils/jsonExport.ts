@@ -0,0 +1,47 @@
+import { Readable } from 'stream';
+import { Product } from '../types';
+
+interface ExportMeta {
+  jobId: string;
+  storeUrl: string;
+  storeName?: string;
+  scrapedAt?: string;
+}
+
+function buildMetadata(products: Product[], meta: ExportMeta) {
+  return {
+    job_id: meta.jobId,
+    store_url: meta.storeUrl,
+    store_name: meta.storeName || null,
+    scraped_at: meta.scrapedAt || null,
+    product_count: products.length,
+    exported_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Stream products as a single JSON document: { metadata, products: [...] }
+ * Each product is serialized as it is written, so the full payload is never
+ * held in memory as one string.
+ */
+export function streamProductsJSON(products: Product[], meta: ExportMeta): Readable {
+  return Readable.from((function* () {
+    yield `{"metadata":${JSON.stringify(buildMetadata(products, meta))},"products":[`;
+    for (let i = 0; i < products.length; i++) {
+      yield (i > 0 ? ',' : '') + JSON.stringify(products[i]);
+    }
+    yield ']}\n';
+  })());
+}
+
+/**
+ * Stream products as NDJSON: a {"metadata": ...} line, then one product per line
+ */
+export function streamProductsNDJSON(products: Product[], meta: ExportMeta): Readable {
+  return Readable.from((function* () {
+    yield JSON.stringify({ metadata: buildMetadata(products, meta) }) + '\n';
+    for (const product of products) {
+      yield JSON.stringify(product) + '\n';
+    }
+  })());
+}
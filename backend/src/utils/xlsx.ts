@@ -0,0 +1,177 @@
+import ExcelJS from 'exceljs';
+import { Product } from '../types';
+import { generateScrapeSummary } from '../services/shopifyScraper';
+
+interface WorkbookMeta {
+  storeUrl: string;
+  storeName?: string;
+  scrapedAt?: string;
+}
+
+const PRICE_FORMAT = '#,##0.00';
+
+/**
+ * Generate an XLSX workbook with Products, Variants, Images and Summary sheets
+ * Prices are written as numeric cells so they can be pivoted directly.
+ */
+export async function generateXLSXFromProducts(
+  products: Product[],
+  meta: WorkbookMeta
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'DataFlow';
+  workbook.created = new Date();
+
+  addProductsSheet(workbook, products);
+  addVariantsSheet(workbook, products);
+  addImagesSheet(workbook, products);
+  addSummarySheet(workbook, products, meta);
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+}
+
+function addProductsSheet(workbook: ExcelJS.Workbook, products: Product[]) {
+  const sheet = workbook.addWorksheet('Products');
+  sheet.columns = [
+    { header: 'Product ID', key: 'id', width: 16 },
+    { header: 'Title', key: 'title', width: 40 },
+    { header: 'Handle', key: 'handle', width: 30 },
+    { header: 'Vendor', key: 'vendor', width: 20 },
+    { header: 'Product Type', key: 'product_type', width: 20 },
+    { header: 'Tags', key: 'tags', width: 30 },
+    { header: 'Collections', key: 'collections', width: 30 },
+    { header: 'Variants', key: 'variants', width: 10 },
+    { header: 'Min Price', key: 'min_price', width: 12, style: { numFmt: PRICE_FORMAT } },
+    { header: 'Max Price', key: 'max_price', width: 12, style: { numFmt: PRICE_FORMAT } },
+    { header: 'Images', key: 'images', width: 10 },
+    { header: 'Published At', key: 'published_at', width: 22 },
+    { header: 'Created At', key: 'created_at', width: 22 },
+    { header: 'Updated At', key: 'updated_at', width: 22 },
+  ];
+
+  for (const product of products) {
+    const prices = (product.variants || [])
+      .map(v => toNumber(v.price))
+      .filter((p): p is number => p !== null);
+
+    sheet.addRow({
+      id: product.id,
+      title: product.title,
+      handle: product.handle,
+      vendor: product.vendor || '',
+      product_type: product.product_type || '',
+      tags: (product.tags || []).join(', '),
+      collections: (product.collections || []).join(', '),
+      variants: product.variants?.length || 0,
+      min_price: prices.length ? Math.min(...prices) : null,
+      max_price: prices.length ? Math.max(...prices) : null,
+      images: product.images?.length || 0,
+      published_at: product.published_at || '',
+      created_at: product.created_at || '',
+      updated_at: product.updated_at || '',
+    });
+  }
+
+  styleHeader(sheet);
+}
+
+function addVariantsSheet(workbook: ExcelJS.Workbook, products: Product[]) {
+  const sheet = workbook.addWorksheet('Variants');
+  sheet.columns = [
+    { header: 'Product ID', key: 'product_id', width: 16 },
+    { header: 'Product Title', key: 'product_title', width: 40 },
+    { header: 'Variant ID', key: 'id', width: 16 },
+    { header: 'Variant Title', key: 'title', width: 24 },
+    { header: 'SKU', key: 'sku', width: 18 },
+    { header: 'Price', key: 'price', width: 12, style: { numFmt: PRICE_FORMAT } },
+    { header: 'Compare At Price', key: 'compare_at_price', width: 16, style: { numFmt: PRICE_FORMAT } },
+    { header: 'Grams', key: 'grams', width: 10 },
+    { header: 'Inventory Quantity', key: 'inventory_quantity', width: 18 },
+    { header: 'Option 1', key: 'option1', width: 16 },
+    { header: 'Option 2', key: 'option2', width: 16 },
+    { header: 'Option 3', key: 'option3', width: 16 },
+  ];
+
+  for (const product of products) {
+    for (const variant of product.variants || []) {
+      sheet.addRow({
+        product_id: product.id,
+        product_title: product.title,
+        id: variant.id,
+        title: variant.title,
+        sku: variant.sku || '',
+        price: toNumber(variant.price),
+        compare_at_price: toNumber(variant.compare_at_price),
+        grams: variant.grams ?? null,
+        inventory_quantity: variant.inventory_quantity ?? null,
+        option1: variant.option1 || '',
+        option2: variant.option2 || '',
+        option3: variant.option3 || '',
+      });
+    }
+  }
+
+  styleHeader(sheet);
+}
+
+function addImagesSheet(workbook: ExcelJS.Workbook, products: Product[]) {
+  const sheet = workbook.addWorksheet('Images');
+  sheet.columns = [
+    { header: 'Product ID', key: 'product_id', width: 16 },
+    { header: 'Product Title', key: 'product_title', width: 40 },
+    { header: 'Image ID', key: 'id', width: 16 },
+    { header: 'Position', key: 'position', width: 10 },
+    { header: 'Image URL', key: 'src', width: 60 },
+  ];
+
+  for (const product of products) {
+    (product.images || []).forEach((image, index) => {
+      sheet.addRow({
+        product_id: product.id,
+        product_title: product.title,
+        id: image.id,
+        position: index + 1,
+        src: image.src,
+      });
+    });
+  }
+
+  styleHeader(sheet);
+}
+
+function addSummarySheet(workbook: ExcelJS.Workbook, products: Product[], meta: WorkbookMeta) {
+  const summary = generateScrapeSummary(products);
+  const sheet = workbook.addWorksheet('Summary');
+  sheet.columns = [
+    { header: 'Metric', key: 'metric', width: 24 },
+    { header: 'Value', key: 'value', width: 60 },
+  ];
+
+  sheet.addRows([
+    { metric: 'Store', value: meta.storeName || meta.storeUrl },
+    { metric: 'Store URL', value: meta.storeUrl },
+    { metric: 'Scraped At', value: meta.scrapedAt || '' },
+    { metric: 'Total Products', value: summary.totalProducts },
+    { metric: 'Total Variants', value: summary.totalVariants },
+    { metric: 'Total Images', value: summary.totalImages },
+    { metric: 'Unique Vendors', value: summary.uniqueVendors },
+    { metric: 'Unique Product Types', value: summary.uniqueProductTypes },
+    { metric: 'Vendors', value: summary.vendors.join(', ') },
+    { metric: 'Product Types', value: summary.productTypes.join(', ') },
+  ]);
+
+  styleHeader(sheet);
+}
+
+function styleHeader(sheet: ExcelJS.Worksheet) {
+  const header = sheet.getRow(1);
+  header.font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+}
+
+function toNumber(value?: string): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
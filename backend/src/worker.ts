@@ -0,0 +1,20 @@
+import 'dotenv/config';
+import { jobQueue } from './services/jobQueue';
+import { startScrapeWorker } from './services/scrapeWorker';
+import { startMonitorScheduler } from './services/monitorScheduler';
+import { startWebhookDispatcher } from './services/webhooks';
+
+// Standalone worker process: run it alongside the API with RUN_WORKER_IN_API=false
+const worker = startScrapeWorker({ queue: jobQueue });
+const runSchedulers = process.env.RUN_SCHEDULER_IN_WORKER !== 'false';
+const scheduler = runSchedulers ? startMonitorScheduler({ queue: jobQueue }) : null;
+const dispatcher = runSchedulers ? startWebhookDispatcher() : null;
+
+const shutdown = async (signal: string) => {
+  console.log(`Received ${signal}, finishing current job...`);
+  await Promise.all([worker.stop(), scheduler?.stop(), dispatcher?.stop()]);
+  process.exit(0);
+};
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
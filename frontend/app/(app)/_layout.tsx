@@ -1,6 +1,13 @@
+import { useEffect } from 'react';
 import { Stack } from 'expo-router';
+import { registerPushToken } from '../../lib/pushNotifications';
 
 export default function AppLayout() {
+  // Signed in from here on: let alert notifications reach this device
+  useEffect(() => {
+    registerPushToken();
+  }, []);
+
   return (
     <Stack
       screenOptions={{
@@ -14,7 +21,13 @@ export default function AppLayout() {
       <Stack.Screen name="billing/index" options={{ animation: 'slide_from_bottom' }} />
       <Stack.Screen name="download/index" options={{ animation: 'slide_from_right' }} />
       <Stack.Screen name="history/index" options={{ animation: 'slide_from_right' }} />
+      <Stack.Screen name="changes/index" options={{ animation: 'slide_from_right' }} />
+      <Stack.Screen name="notifications/index" options={{ animation: 'slide_from_right' }} />
+      <Stack.Screen name="alerts/index" options={{ animation: 'slide_from_right' }} />
       <Stack.Screen name="settings/index" options={{ animation: 'slide_from_right' }} />
+      <Stack.Screen name="team/index" options={{ animation: 'slide_from_right' }} />
+      <Stack.Screen name="trends/index" options={{ animation: 'slide_from_right' }} />
+      <Stack.Screen name="compare/index" options={{ animation: 'slide_from_right' }} />
     </Stack>
   );
 }
@@ -0,0 +1,803 @@
+import { useState, useEffect, useCallback, memo } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  RefreshControl,
+  ActivityIndicator,
+  StyleSheet,
+  StatusBar,
+  Switch,
+  TextInput,
+  Modal,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { FlashList } from '@shopify/flash-list';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { API_BASE_URL } from '../../../lib/constants';
+import { getSession } from '../../../lib/auth';
+
+const colors = {
+  primary: '#38BDF8',
+  background: '#0F172A',
+  card: '#1E293B',
+  border: '#334155',
+  textPrimary: '#FFFFFF',
+  textSecondary: '#94A3B8',
+  textMuted: '#64748B',
+  success: '#22C55E',
+  error: '#EF4444',
+  purple: '#A855F7',
+  orange: '#F97316',
+};
+
+type AlertRuleType = 'price_drop' | 'new_product_tag' | 'compare_at_set' | 'vendor_new_products';
+
+interface AlertRule {
+  id: string;
+  store_id?: string | null;
+  name: string;
+  type: AlertRuleType;
+  params: { minPercent?: number; tag?: string; vendor?: string };
+  enabled: boolean;
+}
+
+interface Store {
+  id: string;
+  name?: string | null;
+  normalized_url: string;
+}
+
+// Form state for creating or editing a rule
+interface RuleDraft {
+  id: string | null;
+  name: string;
+  type: AlertRuleType;
+  minPercent: string;
+  tag: string;
+  vendor: string;
+  storeId: string | null;
+}
+
+const ruleTypes: { id: AlertRuleType; label: string; icon: string; color: string }[] = [
+  { id: 'price_drop', label: 'Price drop', icon: 'trending-down-outline', color: colors.success },
+  { id: 'new_product_tag', label: 'New product with tag', icon: 'pricetag-outline', color: colors.primary },
+  { id: 'compare_at_set', label: 'Sale price set', icon: 'flash-outline', color: colors.orange },
+  { id: 'vendor_new_products', label: 'Vendor adds products', icon: 'storefront-outline', color: colors.purple },
+];
+
+const emptyDraft: RuleDraft = {
+  id: null,
+  name: '',
+  type: 'price_drop',
+  minPercent: '10',
+  tag: '',
+  vendor: '',
+  storeId: null,
+};
+
+const describeRule = (type: AlertRuleType, params: AlertRule['params']) => {
+  switch (type) {
+    case 'price_drop':
+      return params.minPercent ? `Any price drop over ${params.minPercent}%` : 'Any price drop';
+    case 'new_product_tag':
+      return `New products tagged "${params.tag}"`;
+    case 'compare_at_set':
+      return 'A compare-at price is newly set';
+    case 'vendor_new_products':
+      return `${params.vendor} adds products`;
+  }
+};
+
+const storeLabel = (store: Store) => store.name || store.normalized_url.replace(/^https?:\/\//, '');
+
+// Memoized RuleItem component with primitives
+const RuleItem = memo(function RuleItem({
+  id,
+  name,
+  description,
+  scope,
+  type,
+  enabled,
+  onEdit,
+  onToggle,
+  onDelete,
+}: {
+  id: string;
+  name: string;
+  description: string;
+  scope: string;
+  type: AlertRuleType;
+  enabled: boolean;
+  onEdit: (id: string) => void;
+  onToggle: (id: string, enabled: boolean) => void;
+  onDelete: (id: string) => void;
+}) {
+  const { icon, color } = ruleTypes.find(ruleType => ruleType.id === type) || ruleTypes[0];
+  const handleEdit = useCallback(() => onEdit(id), [onEdit, id]);
+  const handleToggle = useCallback((value: boolean) => onToggle(id, value), [onToggle, id]);
+  const handleDelete = useCallback(() => onDelete(id), [onDelete, id]);
+
+  return (
+    <Pressable
+      onPress={handleEdit}
+      style={({ pressed }) => [
+        styles.ruleItem,
+        !enabled ? { opacity: 0.6 } : null,
+        pressed ? { opacity: 0.7 } : null
+      ]}
+    >
+      <View style={[styles.iconWrap, { backgroundColor: `${color}1A` }]}>
+        <Ionicons name={icon as any} size={20} color={color} />
+      </View>
+      <View style={styles.itemInfo}>
+        <Text style={styles.itemTitle} numberOfLines={1}>{name}</Text>
+        <Text style={styles.itemBody} numberOfLines={2}>{description}</Text>
+        <Text style={styles.itemScope} numberOfLines={1}>{scope}</Text>
+      </View>
+      <View style={styles.itemActions}>
+        <Switch
+          value={enabled}
+          onValueChange={handleToggle}
+          trackColor={{ false: colors.border, true: colors.primary }}
+          thumbColor={colors.textPrimary}
+        />
+        <Pressable
+          onPress={handleDelete}
+          hitSlop={8}
+          style={({ pressed }) => (pressed ? { opacity: 0.7 } : null)}
+        >
+          <Ionicons name="trash-outline" size={18} color={colors.textMuted} />
+        </Pressable>
+      </View>
+    </Pressable>
+  );
+});
+
+// Memoized selectable chip with primitives
+const OptionChip = memo(function OptionChip({
+  label,
+  value,
+  active,
+  onSelect,
+}: {
+  label: string;
+  value: string;
+  active: boolean;
+  onSelect: (value: string) => void;
+}) {
+  const handlePress = useCallback(() => onSelect(value), [onSelect, value]);
+
+  return (
+    <Pressable
+      onPress={handlePress}
+      style={({ pressed }) => [
+        styles.optionChip,
+        active ? styles.optionChipActive : null,
+        pressed ? { opacity: 0.8 } : null,
+      ]}
+    >
+      <Text style={[styles.optionChipText, active ? styles.optionChipTextActive : null]} numberOfLines={1}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+});
+
+// Bottom sheet editing a copy of a rule until it is saved
+function RuleSheet({
+  visible,
+  initial,
+  stores,
+  saving,
+  onSave,
+  onClose,
+}: {
+  visible: boolean;
+  initial: RuleDraft;
+  stores: Store[];
+  saving: boolean;
+  onSave: (draft: RuleDraft) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<RuleDraft>(initial);
+
+  useEffect(() => {
+    if (visible) setDraft(initial);
+  }, [visible]);
+
+  const setName = useCallback((value: string) => setDraft(prev => ({ ...prev, name: value })), []);
+  const setMinPercent = useCallback((value: string) => setDraft(prev => ({ ...prev, minPercent: value })), []);
+  const setTag = useCallback((value: string) => setDraft(prev => ({ ...prev, tag: value })), []);
+  const setVendor = useCallback((value: string) => setDraft(prev => ({ ...prev, vendor: value })), []);
+  const selectType = useCallback((value: string) => {
+    setDraft(prev => ({ ...prev, type: value as AlertRuleType }));
+  }, []);
+  const selectStore = useCallback((value: string) => {
+    setDraft(prev => ({ ...prev, storeId: value || null }));
+  }, []);
+
+  const handleSave = useCallback(() => onSave(draft), [onSave, draft]);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.sheetOverlay}>
+        <Pressable style={styles.sheetBackdrop} onPress={onClose} />
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <Text style={styles.sheetTitle}>{draft.id ? 'Edit Alert' : 'New Alert'}</Text>
+            <Pressable onPress={onClose} style={({ pressed }) => (pressed ? { opacity: 0.7 } : null)}>
+              <Ionicons name="close" size={22} color={colors.textSecondary} />
+            </Pressable>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.sheetContent} keyboardShouldPersistTaps="handled">
+            <View style={styles.formSection}>
+              <Text style={styles.formLabel}>Name</Text>
+              <TextInput
+                value={draft.name}
+                onChangeText={setName}
+                placeholder="e.g. Big discounts"
+                placeholderTextColor={colors.textMuted}
+                maxLength={100}
+                style={styles.input}
+              />
+            </View>
+
+            <View style={styles.formSection}>
+              <Text style={styles.formLabel}>Notify Me When</Text>
+              <View style={styles.optionChips}>
+                {ruleTypes.map(ruleType => (
+                  <OptionChip
+                    key={ruleType.id}
+                    label={ruleType.label}
+                    value={ruleType.id}
+                    active={draft.type === ruleType.id}
+                    onSelect={selectType}
+                  />
+                ))}
+              </View>
+            </View>
+
+            {draft.type === 'price_drop' ? (
+              <View style={styles.formSection}>
+                <Text style={styles.formLabel}>Minimum Drop (%)</Text>
+                <TextInput
+                  value={draft.minPercent}
+                  onChangeText={setMinPercent}
+                  placeholder="0"
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="decimal-pad"
+                  style={styles.input}
+                />
+              </View>
+            ) : draft.type === 'new_product_tag' ? (
+              <View style={styles.formSection}>
+                <Text style={styles.formLabel}>Tag</Text>
+                <TextInput
+                  value={draft.tag}
+                  onChangeText={setTag}
+                  placeholder="e.g. new-arrival"
+                  placeholderTextColor={colors.textMuted}
+                  autoCapitalize="none"
+                  style={styles.input}
+                />
+              </View>
+            ) : draft.type === 'vendor_new_products' ? (
+              <View style={styles.formSection}>
+                <Text style={styles.formLabel}>Vendor</Text>
+                <TextInput
+                  value={draft.vendor}
+                  onChangeText={setVendor}
+                  placeholder="e.g. Acme"
+                  placeholderTextColor={colors.textMuted}
+                  style={styles.input}
+                />
+              </View>
+            ) : null}
+
+            <View style={styles.formSection}>
+              <Text style={styles.formLabel}>Stores</Text>
+              <View style={styles.optionChips}>
+                <OptionChip label="All stores" value="" active={!draft.storeId} onSelect={selectStore} />
+                {stores.map(store => (
+                  <OptionChip
+                    key={store.id}
+                    label={storeLabel(store)}
+                    value={store.id}
+                    active={draft.storeId === store.id}
+                    onSelect={selectStore}
+                  />
+                ))}
+              </View>
+            </View>
+          </ScrollView>
+
+          <Pressable
+            onPress={handleSave}
+            disabled={saving}
+            style={({ pressed }) => [
+              styles.sheetSave,
+              pressed || saving ? { opacity: 0.8 } : null
+            ]}
+          >
+            {saving ? (
+              <ActivityIndicator color={colors.background} />
+            ) : (
+              <Text style={styles.sheetSaveText}>{draft.id ? 'Save Changes' : 'Create Alert'}</Text>
+            )}
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+/**
+ * Request body for a draft, or an error message for the user
+ */
+function ruleBody(draft: RuleDraft): { body: Record<string, unknown> } | { error: string } {
+  const name = draft.name.trim();
+  if (!name) return { error: 'Give the alert a name.' };
+
+  let params: AlertRule['params'] = {};
+  if (draft.type === 'price_drop') {
+    const minPercent = draft.minPercent.trim() ? Number(draft.minPercent) : 0;
+    if (!Number.isFinite(minPercent) || minPercent < 0 || minPercent > 100) {
+      return { error: 'The minimum drop must be between 0 and 100%.' };
+    }
+    params = { minPercent };
+  } else if (draft.type === 'new_product_tag') {
+    if (!draft.tag.trim()) return { error: 'Enter the tag to watch for.' };
+    params = { tag: draft.tag.trim() };
+  } else if (draft.type === 'vendor_new_products') {
+    if (!draft.vendor.trim()) return { error: 'Enter the vendor to watch.' };
+    params = { vendor: draft.vendor.trim() };
+  }
+
+  return { body: { name, type: draft.type, params, storeId: draft.storeId } };
+}
+
+export default function AlertRulesScreen() {
+  // Destructure router functions early for React Compiler compatibility
+  const { back } = useRouter();
+
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [stores, setStores] = useState<Store[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [editing, setEditing] = useState<RuleDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      const session = await getSession();
+      if (!session) return;
+
+      const headers = { Authorization: `Bearer ${session.access_token}` };
+      const [rulesResponse, storesResponse] = await Promise.all([
+        fetch(`${API_BASE_URL}/alert-rules`, { headers }),
+        fetch(`${API_BASE_URL}/stores`, { headers }),
+      ]);
+
+      if (rulesResponse.ok) {
+        const data = await rulesResponse.json();
+        setRules(data.rules || []);
+      }
+      if (storesResponse.ok) {
+        const data = await storesResponse.json();
+        setStores(data.stores || []);
+      }
+    } catch (error) {
+      console.error('Failed to load alert rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadRules();
+    setRefreshing(false);
+  }, []);
+
+  // Create (POST) or update (PATCH) a rule, returning the saved row
+  const requestRule = async (method: 'POST' | 'PATCH', path: string, body: Record<string, unknown>) => {
+    const session = await getSession();
+    if (!session) throw new Error('Please sign in again.');
+
+    const response = await fetch(`${API_BASE_URL}/alert-rules${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.details?.[0]?.message || data.error || 'Failed to save alert');
+    }
+    return data as AlertRule;
+  };
+
+  const handleSave = useCallback(async (draft: RuleDraft) => {
+    const result = ruleBody(draft);
+    if ('error' in result) {
+      Alert.alert('Check Alert', result.error);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = draft.id
+        ? await requestRule('PATCH', `/${draft.id}`, result.body)
+        : await requestRule('POST', '', result.body);
+
+      setRules(prev => draft.id
+        ? prev.map(rule => (rule.id === saved.id ? saved : rule))
+        : [saved, ...prev]);
+      setEditing(null);
+    } catch (error: any) {
+      Alert.alert('Could Not Save Alert', error.message || 'Failed to save alert');
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  const handleToggle = useCallback(async (id: string, enabled: boolean) => {
+    setRules(prev => prev.map(rule => (rule.id === id ? { ...rule, enabled } : rule)));
+    try {
+      await requestRule('PATCH', `/${id}`, { enabled });
+    } catch (error: any) {
+      setRules(prev => prev.map(rule => (rule.id === id ? { ...rule, enabled: !enabled } : rule)));
+      Alert.alert('Update Failed', error.message || 'Failed to update alert');
+    }
+  }, []);
+
+  const handleDelete = useCallback((id: string) => {
+    Alert.alert('Delete Alert', 'Stop watching for this? Past notifications are kept.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const session = await getSession();
+            if (!session) return;
+
+            const response = await fetch(`${API_BASE_URL}/alert-rules/${id}`, {
+              method: 'DELETE',
+              headers: { Authorization: `Bearer ${session.access_token}` },
+            });
+
+            if (response.ok || response.status === 404) {
+              setRules(prev => prev.filter(rule => rule.id !== id));
+            } else {
+              const data = await response.json();
+              Alert.alert('Delete Failed', data.error || 'Failed to delete alert');
+            }
+          } catch (error: any) {
+            Alert.alert('Delete Failed', error.message || 'Failed to delete alert');
+          }
+        },
+      },
+    ]);
+  }, []);
+
+  const handleEdit = useCallback((id: string) => {
+    const rule = rules.find(r => r.id === id);
+    if (!rule) return;
+    setEditing({
+      id: rule.id,
+      name: rule.name,
+      type: rule.type,
+      minPercent: String(rule.params.minPercent ?? 0),
+      tag: rule.params.tag || '',
+      vendor: rule.params.vendor || '',
+      storeId: rule.store_id || null,
+    });
+  }, [rules]);
+
+  const handleCreate = useCallback(() => setEditing(emptyDraft), []);
+  const handleCloseSheet = useCallback(() => setEditing(null), []);
+  const handleBack = useCallback(() => back(), [back]);
+
+  const scopeLabel = useCallback((storeId?: string | null) => {
+    if (!storeId) return 'All stores';
+    const store = stores.find(s => s.id === storeId);
+    return store ? storeLabel(store) : 'One store';
+  }, [stores]);
+
+  const renderItem = useCallback(({ item }: { item: AlertRule }) => (
+    <RuleItem
+      id={item.id}
+      name={item.name}
+      description={describeRule(item.type, item.params)}
+      scope={scopeLabel(item.store_id)}
+      type={item.type}
+      enabled={item.enabled}
+      onEdit={handleEdit}
+      onToggle={handleToggle}
+      onDelete={handleDelete}
+    />
+  ), [scopeLabel, handleEdit, handleToggle, handleDelete]);
+
+  const keyExtractor = useCallback((item: AlertRule) => item.id, []);
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable
+          onPress={handleBack}
+          style={({ pressed }) => [
+            styles.headerButton,
+            pressed ? { opacity: 0.7 } : null
+          ]}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Alert Rules</Text>
+        <Pressable
+          onPress={handleCreate}
+          style={({ pressed }) => [
+            styles.headerButton,
+            pressed ? { opacity: 0.7 } : null
+          ]}
+        >
+          <Ionicons name="add" size={24} color={colors.primary} />
+        </Pressable>
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : rules.length === 0 ? (
+        <View style={styles.centered}>
+          <Ionicons name="notifications-outline" size={48} color={colors.textMuted} />
+          <Text style={styles.emptyTitle}>No alerts yet</Text>
+          <Text style={styles.emptyText}>
+            Get notified about price drops, sales and new products when a store is scraped again.
+          </Text>
+          <Pressable
+            onPress={handleCreate}
+            style={({ pressed }) => [
+              styles.emptyButton,
+              pressed ? { opacity: 0.8 } : null
+            ]}
+          >
+            <Text style={styles.emptyButtonText}>Create Alert</Text>
+          </Pressable>
+        </View>
+      ) : (
+        <FlashList
+          data={rules}
+          extraData={stores}
+          keyExtractor={keyExtractor}
+          renderItem={renderItem}
+          estimatedItemSize={100}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={colors.primary} />
+          }
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+
+      <RuleSheet
+        visible={!!editing}
+        initial={editing || emptyDraft}
+        stores={stores}
+        saving={saving}
+        onSave={handleSave}
+        onClose={handleCloseSheet}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingTop: 48,
+    paddingBottom: 16,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderCurve: 'continuous',
+    backgroundColor: colors.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    gap: 12,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  emptyButton: {
+    marginTop: 8,
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    borderCurve: 'continuous',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  emptyButtonText: {
+    color: colors.background,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  listContent: {
+    paddingHorizontal: 24,
+    paddingBottom: 48,
+  },
+  ruleItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    borderCurve: 'continuous',
+    padding: 16,
+    marginBottom: 12,
+    gap: 14,
+  },
+  iconWrap: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    borderCurve: 'continuous',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  itemInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  itemTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  itemBody: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+  itemScope: {
+    fontSize: 12,
+    color: colors.textMuted,
+  },
+  itemActions: {
+    alignItems: 'center',
+    gap: 10,
+  },
+  sheetOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+  sheetBackdrop: {
+    flex: 1,
+  },
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: colors.card,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    borderCurve: 'continuous',
+    paddingTop: 20,
+    paddingBottom: 32,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    marginBottom: 8,
+  },
+  sheetTitle: {
+    color: colors.textPrimary,
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  sheetContent: {
+    paddingHorizontal: 24,
+    paddingBottom: 16,
+    gap: 20,
+  },
+  formSection: {
+    gap: 10,
+  },
+  formLabel: {
+    color: colors.textMuted,
+    fontSize: 11,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  input: {
+    backgroundColor: colors.background,
+    borderRadius: 12,
+    borderCurve: 'continuous',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  optionChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionChip: {
+    maxWidth: '100%',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderCurve: 'continuous',
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  optionChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionChipText: {
+    color: colors.textSecondary,
+    fontSize: 13,
+  },
+  optionChipTextActive: {
+    color: colors.background,
+    fontWeight: '600',
+  },
+  sheetSave: {
+    marginHorizontal: 24,
+    marginTop: 8,
+    backgroundColor: colors.primary,
+    borderRadius: 16,
+    borderCurve: 'continuous',
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  sheetSaveText: {
+    color: colors.background,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
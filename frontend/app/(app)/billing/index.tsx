@@ -197,6 +197,8 @@ export default function BillingScreen() {
   
   const [loading, setLoading] = useState(false);
   const [credits, setCredits] = useState(0);
+  // Members buy into their organization's shared wallet
+  const [organization, setOrganization] = useState<{ id: string; name: string } | null>(null);
   const [selectedPlan, setSelectedPlan] = useState<string | null>(null);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [purchasedCredits, setPurchasedCredits] = useState(0);
@@ -246,6 +248,7 @@ export default function BillingScreen() {
       if (response.ok) {
         const data = await response.json();
         setCredits(data.credits);
+        setOrganization(data.organization);
       }
     } catch (error) {
       console.error('Failed to load credits:', error);
@@ -257,7 +260,6 @@ export default function BillingScreen() {
       const session = await getSession();
       if (!session) return;
 
-      // Get transaction details to find payment ID
       const response = await fetch(`${API_BASE_URL}/payment/verify-payment`, {
         method: 'POST',
         headers: {
@@ -265,15 +267,20 @@ export default function BillingScreen() {
           Authorization: `Bearer ${session.access_token}`,
         },
         body: JSON.stringify({
-          paymentId: transactionId,
+          transactionId,
         }),
       });
 
       if (response.ok) {
         const data = await response.json();
         if (data.success) {
-          setCredits(data.total_credits);
-          setPurchasedCredits(data.credits_added);
+          // The webhook may have granted the credits before we got here
+          if (data.alreadyProcessed) {
+            await loadCredits();
+          } else {
+            setCredits(data.total_credits);
+          }
+          setPurchasedCredits(data.alreadyProcessed ? data.credits : data.credits_added);
           setPurchasedPlanName(plans.find(p => p.id === selectedPlan)?.name || '');
           setShowSuccessModal(true);
         }
@@ -306,6 +313,7 @@ export default function BillingScreen() {
         },
         body: JSON.stringify({
           planId: plan.id,
+          organizationId: organization?.id,
         }),
       });
 
@@ -322,8 +330,11 @@ export default function BillingScreen() {
           'dataflow://payment'
         );
 
-        // If user comes back without completing, reset
-        if (result.type === 'cancel' || result.type === 'dismiss') {
+        // The in-app browser hands back the redirect instead of a Linking event
+        if (result.type === 'success') {
+          await handleDeepLink({ url: result.url });
+        } else if (result.type === 'cancel' || result.type === 'dismiss') {
+          // If user comes back without completing, reset
           setLoading(false);
           setSelectedPlan(null);
         }
@@ -336,7 +347,7 @@ export default function BillingScreen() {
       setLoading(false);
       setSelectedPlan(null);
     }
-  }, [push]);
+  }, [push, organization]);
 
   // Navigation handlers with stable references
   const handleBack = useCallback(() => back(), [back]);
@@ -385,7 +396,9 @@ export default function BillingScreen() {
         <View style={styles.balanceCard}>
           <View style={styles.balanceHeader}>
             <Ionicons name="analytics" size={18} color={colors.primary} />
-            <Text style={styles.balanceLabel}>Current Credit Balance</Text>
+            <Text style={styles.balanceLabel}>
+              {organization ? `${organization.name} Shared Balance` : 'Current Credit Balance'}
+            </Text>
           </View>
           <View style={styles.balanceRow}>
             <Text style={styles.balanceValue}>{credits.toLocaleString()}</Text>
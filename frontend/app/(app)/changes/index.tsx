@@ -0,0 +1,559 @@
+import { useState, useEffect, useCallback, memo } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  StyleSheet,
+  StatusBar,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { API_BASE_URL } from '../../../lib/constants';
+import { getSession } from '../../../lib/auth';
+
+const colors = {
+  primary: '#38BDF8',
+  background: '#0F172A',
+  card: '#1E293B',
+  border: '#334155',
+  textPrimary: '#FFFFFF',
+  textSecondary: '#94A3B8',
+  textMuted: '#64748B',
+  success: '#22C55E',
+  error: '#EF4444',
+  purple: '#A855F7',
+  orange: '#F97316',
+};
+
+// Rows shown per section before "Show all"
+const SECTION_PREVIEW_COUNT = 5;
+
+interface Snapshot {
+  id: string;
+  job_id: string;
+  products_count: number;
+  created_at: string;
+}
+
+interface ProductChange {
+  product_id: number;
+  title: string;
+  handle: string;
+}
+
+interface VariantChange {
+  product_id: number;
+  variant_id: number;
+  product_title: string;
+  variant_title: string;
+}
+
+interface PriceChange extends VariantChange {
+  from: number | null;
+  to: number | null;
+  change_pct: number | null;
+}
+
+interface StoreChanges {
+  productsAdded: ProductChange[];
+  productsRemoved: ProductChange[];
+  titleChanges: { product_id: number; from: string; to: string }[];
+  priceChanges: PriceChange[];
+  compareAtPriceChanges: PriceChange[];
+  variantsAdded: VariantChange[];
+  variantsRemoved: VariantChange[];
+}
+
+interface ChangesResponse {
+  from: Snapshot;
+  to: Snapshot;
+  summary: {
+    productsAdded: number;
+    productsRemoved: number;
+    priceIncreases: number;
+    priceDecreases: number;
+  };
+  changes: StoreChanges;
+}
+
+interface ChangeRow {
+  key: string;
+  title: string;
+  subtitle?: string;
+  detail?: string;
+  detailColor?: string;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// Prices are in each store's own currency, so no symbol
+const formatPrice = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+const formatPriceChange = (change: PriceChange) => {
+  const pct = change.change_pct === null ? '' : ` (${change.change_pct > 0 ? '+' : ''}${change.change_pct}%)`;
+  return `${formatPrice(change.from)} → ${formatPrice(change.to)}${pct}`;
+};
+
+const priceChangeColor = (change: PriceChange) =>
+  (change.to ?? 0) > (change.from ?? 0) ? colors.error : colors.success;
+
+const variantSubtitle = (change: VariantChange) =>
+  change.variant_title && change.variant_title !== 'Default Title' ? change.variant_title : undefined;
+
+// Memoized summary tile with primitives
+const SummaryTile = memo(function SummaryTile({
+  label,
+  value,
+  color,
+}: {
+  label: string;
+  value: number;
+  color: string;
+}) {
+  return (
+    <View style={styles.summaryTile}>
+      <Text style={[styles.summaryValue, { color }]}>{value.toLocaleString()}</Text>
+      <Text style={styles.summaryLabel}>{label}</Text>
+    </View>
+  );
+});
+
+// Memoized change row with primitives
+const ChangeItem = memo(function ChangeItem({
+  title,
+  subtitle,
+  detail,
+  detailColor,
+}: {
+  title: string;
+  subtitle?: string;
+  detail?: string;
+  detailColor?: string;
+}) {
+  return (
+    <View style={styles.changeItem}>
+      <View style={styles.changeInfo}>
+        <Text style={styles.changeTitle} numberOfLines={1}>{title}</Text>
+        {subtitle ? <Text style={styles.changeSubtitle} numberOfLines={1}>{subtitle}</Text> : null}
+      </View>
+      {detail ? (
+        <Text style={[styles.changeDetail, { color: detailColor || colors.textSecondary }]}>{detail}</Text>
+      ) : null}
+    </View>
+  );
+});
+
+// Collapsible list of changes of one kind
+const ChangeSection = memo(function ChangeSection({
+  title,
+  icon,
+  color,
+  rows,
+}: {
+  title: string;
+  icon: string;
+  color: string;
+  rows: ChangeRow[];
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const toggle = useCallback(() => setExpanded(prev => !prev), []);
+
+  if (rows.length === 0) return null;
+
+  const visibleRows = expanded ? rows : rows.slice(0, SECTION_PREVIEW_COUNT);
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Ionicons name={icon as any} size={18} color={color} />
+        <Text style={styles.sectionTitle}>{title}</Text>
+        <Text style={[styles.sectionCount, { color }]}>{rows.length}</Text>
+      </View>
+      <View style={styles.sectionCard}>
+        {visibleRows.map(row => (
+          <ChangeItem
+            key={row.key}
+            title={row.title}
+            subtitle={row.subtitle}
+            detail={row.detail}
+            detailColor={row.detailColor}
+          />
+        ))}
+      </View>
+      {rows.length > SECTION_PREVIEW_COUNT ? (
+        <Pressable
+          onPress={toggle}
+          style={({ pressed }) => [styles.showAllButton, pressed ? { opacity: 0.7 } : null]}
+        >
+          <Text style={styles.showAllText}>
+            {expanded ? 'Show less' : `Show all ${rows.length}`}
+          </Text>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+});
+
+export default function ChangesScreen() {
+  // Destructure router functions early for React Compiler compatibility
+  const { back } = useRouter();
+  const { storeId, storeName, from, to } = useLocalSearchParams<{
+    storeId: string;
+    storeName?: string;
+    from?: string;
+    to?: string;
+  }>();
+
+  const [data, setData] = useState<ChangesResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadChanges();
+  }, [storeId, from, to]);
+
+  const loadChanges = async () => {
+    try {
+      const session = await getSession();
+      if (!session) return;
+
+      const query = new URLSearchParams();
+      if (from) query.append('from', from);
+      if (to) query.append('to', to);
+      const queryString = query.toString();
+
+      const response = await fetch(
+        `${API_BASE_URL}/stores/${storeId}/changes${queryString ? `?${queryString}` : ''}`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      );
+
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Failed to load changes');
+        return;
+      }
+
+      setData(result);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load changes:', err);
+      setError('Failed to load changes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBack = useCallback(() => back(), [back]);
+
+  const changes = data?.changes;
+  const hasChanges = !!changes && Object.values(changes).some(list => list.length > 0);
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable
+          onPress={handleBack}
+          style={({ pressed }) => [
+            styles.backButton,
+            pressed ? { opacity: 0.7 } : null
+          ]}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </Pressable>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle}>What Changed</Text>
+          {storeName ? <Text style={styles.headerSubtitle}>{storeName}</Text> : null}
+        </View>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : error || !data || !changes ? (
+        <View style={styles.centered}>
+          <Ionicons name="git-compare-outline" size={48} color={colors.textMuted} />
+          <Text style={styles.emptyText}>{error || 'No changes to show'}</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          {/* Compared period */}
+          <View style={styles.periodCard}>
+            <View style={styles.periodItem}>
+              <Text style={styles.periodLabel}>From</Text>
+              <Text style={styles.periodValue}>{formatDate(data.from.created_at)}</Text>
+              <Text style={styles.periodMeta}>{data.from.products_count.toLocaleString()} products</Text>
+            </View>
+            <Ionicons name="arrow-forward" size={20} color={colors.textMuted} />
+            <View style={styles.periodItem}>
+              <Text style={styles.periodLabel}>To</Text>
+              <Text style={styles.periodValue}>{formatDate(data.to.created_at)}</Text>
+              <Text style={styles.periodMeta}>{data.to.products_count.toLocaleString()} products</Text>
+            </View>
+          </View>
+
+          {/* Summary */}
+          <View style={styles.summaryGrid}>
+            <SummaryTile label="New" value={data.summary.productsAdded} color={colors.success} />
+            <SummaryTile label="Removed" value={data.summary.productsRemoved} color={colors.error} />
+            <SummaryTile label="Price Up" value={data.summary.priceIncreases} color={colors.orange} />
+            <SummaryTile label="Price Down" value={data.summary.priceDecreases} color={colors.primary} />
+          </View>
+
+          {!hasChanges ? (
+            <Text style={styles.emptyText}>Nothing changed between these scrapes.</Text>
+          ) : null}
+
+          <ChangeSection
+            title="Price Changes"
+            icon="pricetag-outline"
+            color={colors.orange}
+            rows={changes.priceChanges.map(change => ({
+              key: `price-${change.variant_id}`,
+              title: change.product_title,
+              subtitle: variantSubtitle(change),
+              detail: formatPriceChange(change),
+              detailColor: priceChangeColor(change),
+            }))}
+          />
+          <ChangeSection
+            title="New Products"
+            icon="add-circle-outline"
+            color={colors.success}
+            rows={changes.productsAdded.map(change => ({
+              key: `added-${change.product_id}`,
+              title: change.title,
+              subtitle: change.handle,
+            }))}
+          />
+          <ChangeSection
+            title="Removed Products"
+            icon="remove-circle-outline"
+            color={colors.error}
+            rows={changes.productsRemoved.map(change => ({
+              key: `removed-${change.product_id}`,
+              title: change.title,
+              subtitle: change.handle,
+            }))}
+          />
+          <ChangeSection
+            title="Compare-at Price Changes"
+            icon="pricetags-outline"
+            color={colors.purple}
+            rows={changes.compareAtPriceChanges.map(change => ({
+              key: `compare-${change.variant_id}`,
+              title: change.product_title,
+              subtitle: variantSubtitle(change),
+              detail: formatPriceChange(change),
+              detailColor: colors.textSecondary,
+            }))}
+          />
+          <ChangeSection
+            title="Renamed Products"
+            icon="create-outline"
+            color={colors.primary}
+            rows={changes.titleChanges.map(change => ({
+              key: `title-${change.product_id}`,
+              title: change.to,
+              subtitle: `was "${change.from}"`,
+            }))}
+          />
+          <ChangeSection
+            title="New Variants"
+            icon="layers-outline"
+            color={colors.success}
+            rows={changes.variantsAdded.map(change => ({
+              key: `variant-added-${change.variant_id}`,
+              title: change.product_title,
+              subtitle: change.variant_title,
+            }))}
+          />
+          <ChangeSection
+            title="Removed Variants"
+            icon="layers-outline"
+            color={colors.error}
+            rows={changes.variantsRemoved.map(change => ({
+              key: `variant-removed-${change.variant_id}`,
+              title: change.product_title,
+              subtitle: change.variant_title,
+            }))}
+          />
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingTop: 48,
+    paddingBottom: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderCurve: 'continuous',
+    backgroundColor: colors.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerText: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    gap: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingBottom: 48,
+    gap: 20,
+  },
+  periodCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    borderCurve: 'continuous',
+    padding: 16,
+  },
+  periodItem: {
+    gap: 2,
+  },
+  periodLabel: {
+    fontSize: 11,
+    color: colors.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  periodValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  periodMeta: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  summaryTile: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: colors.card,
+    borderRadius: 14,
+    borderCurve: 'continuous',
+    paddingVertical: 14,
+    gap: 4,
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  summaryLabel: {
+    fontSize: 11,
+    color: colors.textMuted,
+  },
+  section: {
+    gap: 10,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  sectionCount: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  sectionCard: {
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    borderCurve: 'continuous',
+    paddingHorizontal: 16,
+  },
+  changeItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.border,
+    gap: 12,
+  },
+  changeInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  changeTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+  changeSubtitle: {
+    fontSize: 12,
+    color: colors.textMuted,
+  },
+  changeDetail: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  showAllButton: {
+    alignSelf: 'center',
+    paddingVertical: 6,
+  },
+  showAllText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.primary,
+  },
+});
@@ -0,0 +1,806 @@
+import { useState, useEffect, useCallback, memo, ReactNode } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  StyleSheet,
+  StatusBar,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { API_BASE_URL } from '../../../lib/constants';
+import { getSession } from '../../../lib/auth';
+
+const colors = {
+  primary: '#38BDF8',
+  background: '#0F172A',
+  card: '#1E293B',
+  border: '#334155',
+  textPrimary: '#FFFFFF',
+  textSecondary: '#94A3B8',
+  textMuted: '#64748B',
+  success: '#22C55E',
+  error: '#EF4444',
+  purple: '#A855F7',
+  orange: '#F97316',
+  pink: '#EC4899',
+};
+
+// One colour per compared store, in selection order
+const storeColors = [colors.primary, colors.purple, colors.orange, colors.success, colors.pink];
+
+const MIN_JOBS = 2;
+const MAX_JOBS = 5;
+
+// Rows shown per section before "Show all"
+const SECTION_PREVIEW_COUNT = 8;
+
+interface ScrapeJob {
+  id: string;
+  store_url: string;
+  store_name?: string;
+  status: string;
+  products_count: number;
+  created_at: string;
+}
+
+interface ComparedStore {
+  job_id: string;
+  store_url: string;
+  store_name: string | null;
+  products: number;
+  vendors: number;
+  product_types: number;
+  median_price: number | null;
+}
+
+interface TypePricePosition {
+  products: number;
+  median_price: number;
+  price_index: number;
+}
+
+interface ProductMatchSide {
+  product_id: number;
+  title: string;
+  price: number | null;
+  diff_percent: number | null;
+}
+
+interface ProductMatch {
+  key: string;
+  matched_by: 'confirmed' | 'sku' | 'title';
+  products: (ProductMatchSide | null)[];
+}
+
+interface Comparison {
+  stores: ComparedStore[];
+  vendors: {
+    shared: { name: string; products: number[] }[];
+    unique: number[];
+  };
+  product_types: { name: string; stores: (TypePricePosition | null)[] }[];
+  matches: ProductMatch[];
+  matches_total: number;
+}
+
+const matchSources: Record<ProductMatch['matched_by'], string> = {
+  confirmed: 'Confirmed match',
+  sku: 'Matched by SKU',
+  title: 'Matched by title',
+};
+
+const getStoreName = (url: string) => {
+  return url.replace('.myshopify.com', '').replace('.com', '').replace('https://', '').replace('http://', '');
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+// Prices are in each store's own currency, so no symbol
+const formatPrice = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+const formatDiff = (value: number | null) =>
+  value === null || value === 0 ? '' : `${value > 0 ? '+' : ''}${value}%`;
+
+// Above the baseline is red, below it green, from the baseline store's point of view
+const diffColor = (value: number | null) =>
+  !value ? colors.textMuted : value > 0 ? colors.error : colors.success;
+
+const indexColor = (value: number) =>
+  value > 105 ? colors.error : value < 95 ? colors.success : colors.textSecondary;
+
+// Memoized selectable job row with primitives
+const JobOption = memo(function JobOption({
+  storeUrl,
+  createdAt,
+  productsCount,
+  position,
+  disabled,
+  onPress,
+}: {
+  storeUrl: string;
+  createdAt: string;
+  productsCount: number;
+  position: number; // Index in the selection, or -1
+  disabled: boolean;
+  onPress: () => void;
+}) {
+  const selected = position >= 0;
+
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      style={({ pressed }) => [
+        styles.jobOption,
+        selected ? { borderColor: storeColors[position] } : null,
+        disabled ? { opacity: 0.4 } : pressed ? { opacity: 0.7 } : null,
+      ]}
+    >
+      <View style={[styles.jobBadge, selected ? { backgroundColor: storeColors[position] } : null]}>
+        {selected ? <Text style={styles.jobBadgeText}>{position + 1}</Text> : null}
+      </View>
+      <View style={styles.jobInfo}>
+        <Text style={styles.jobName} numberOfLines={1}>{getStoreName(storeUrl)}</Text>
+        <Text style={styles.jobMeta}>
+          {formatDate(createdAt)} • {productsCount.toLocaleString()} Products
+        </Text>
+      </View>
+      {position === 0 ? <Text style={styles.baselineTag}>Baseline</Text> : null}
+    </Pressable>
+  );
+});
+
+// Memoized store summary card with primitives
+const StoreCard = memo(function StoreCard({
+  name,
+  color,
+  products,
+  vendors,
+  uniqueVendors,
+  medianPrice,
+}: {
+  name: string;
+  color: string;
+  products: number;
+  vendors: number;
+  uniqueVendors: number;
+  medianPrice: number | null;
+}) {
+  return (
+    <View style={[styles.storeCard, { borderTopColor: color }]}>
+      <Text style={styles.storeName} numberOfLines={1}>{name}</Text>
+      <Text style={styles.storeStat}>{products.toLocaleString()} products</Text>
+      <Text style={styles.storeStat}>{vendors} vendors • {uniqueVendors} unique</Text>
+      <Text style={styles.storeStat}>Median {formatPrice(medianPrice)}</Text>
+    </View>
+  );
+});
+
+// Row with a label and one value per store
+const StoreValuesRow = memo(function StoreValuesRow({
+  title,
+  subtitle,
+  values,
+  valueColors,
+}: {
+  title: string;
+  subtitle?: string;
+  values: string[];
+  valueColors?: string[];
+}) {
+  return (
+    <View style={styles.row}>
+      <View style={styles.rowInfo}>
+        <Text style={styles.rowTitle} numberOfLines={1}>{title}</Text>
+        {subtitle ? <Text style={styles.rowSubtitle} numberOfLines={1}>{subtitle}</Text> : null}
+      </View>
+      {values.map((value, store) => (
+        <Text
+          key={store}
+          style={[styles.rowValue, { color: valueColors?.[store] || colors.textSecondary }]}
+        >
+          {value}
+        </Text>
+      ))}
+    </View>
+  );
+});
+
+// Collapsible section with a store legend header
+const CompareSection = memo(function CompareSection({
+  title,
+  icon,
+  total,
+  storeCount,
+  children,
+}: {
+  title: string;
+  icon: string;
+  total: number;
+  storeCount: number;
+  children: ReactNode[];
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const toggle = useCallback(() => setExpanded(prev => !prev), []);
+
+  if (children.length === 0) return null;
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Ionicons name={icon as any} size={18} color={colors.primary} />
+        <Text style={styles.sectionTitle}>{title}</Text>
+        <Text style={styles.sectionCount}>{total.toLocaleString()}</Text>
+      </View>
+      <View style={styles.sectionCard}>
+        <View style={styles.legendRow}>
+          <View style={styles.rowInfo} />
+          {Array.from({ length: storeCount }, (_, store) => (
+            <View key={store} style={styles.legendCell}>
+              <View style={[styles.legendDot, { backgroundColor: storeColors[store] }]} />
+            </View>
+          ))}
+        </View>
+        {expanded ? children : children.slice(0, SECTION_PREVIEW_COUNT)}
+      </View>
+      {children.length > SECTION_PREVIEW_COUNT ? (
+        <Pressable
+          onPress={toggle}
+          style={({ pressed }) => [styles.showAllButton, pressed ? { opacity: 0.7 } : null]}
+        >
+          <Text style={styles.showAllText}>
+            {expanded ? 'Show less' : `Show all ${children.length}`}
+          </Text>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+});
+
+export default function CompareScreen() {
+  // Destructure router functions early for React Compiler compatibility
+  const { back } = useRouter();
+
+  const [jobs, setJobs] = useState<ScrapeJob[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [comparing, setComparing] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    loadJobs();
+  }, []);
+
+  const loadJobs = async () => {
+    try {
+      const session = await getSession();
+      if (!session) return;
+
+      const response = await fetch(`${API_BASE_URL}/scrape/history?limit=50`, {
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setJobs((data.jobs || []).filter((job: ScrapeJob) => job.status === 'completed'));
+      }
+    } catch (error) {
+      console.error('Failed to load history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Selection order matters: the first job is the baseline
+  const createToggleHandler = useCallback((jobId: string) => () => {
+    setSelected(prev =>
+      prev.includes(jobId)
+        ? prev.filter(id => id !== jobId)
+        : prev.length < MAX_JOBS ? [...prev, jobId] : prev
+    );
+  }, []);
+
+  const fetchComparison = async (format: 'json' | 'csv') => {
+    const session = await getSession();
+    if (!session) return null;
+
+    return fetch(`${API_BASE_URL}/compare`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ jobIds: selected, format }),
+    });
+  };
+
+  const handleCompare = useCallback(async () => {
+    setComparing(true);
+    try {
+      const response = await fetchComparison('json');
+      if (!response) return;
+
+      const data = await response.json();
+      if (!response.ok) {
+        Alert.alert('Error', data.error || 'Failed to compare stores');
+        return;
+      }
+
+      setComparison(data);
+    } catch (error) {
+      console.error('Failed to compare stores:', error);
+      Alert.alert('Error', 'Failed to compare stores');
+    } finally {
+      setComparing(false);
+    }
+  }, [selected]);
+
+  const handleExport = useCallback(async () => {
+    setExporting(true);
+    try {
+      const response = await fetchComparison('csv');
+      if (!response) return;
+
+      if (!response.ok) {
+        throw new Error('Export failed');
+      }
+
+      const csv = await response.text();
+      const fileName = `comparison_${Date.now()}.csv`;
+
+      if (Platform.OS === 'web') {
+        const url = window.URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = fileName;
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+      } else {
+        const fileUri = FileSystem.documentDirectory + fileName;
+        await FileSystem.writeAsStringAsync(fileUri, csv);
+
+        if (await Sharing.isAvailableAsync()) {
+          await Sharing.shareAsync(fileUri, {
+            mimeType: 'text/csv',
+            dialogTitle: 'Save Comparison CSV',
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Export error:', error);
+      Alert.alert('Export Failed', 'Unable to export the comparison. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  }, [selected]);
+
+  const handleBack = useCallback(() => {
+    if (comparison) {
+      setComparison(null);
+    } else {
+      back();
+    }
+  }, [comparison, back]);
+
+  const storeCount = comparison?.stores.length || 0;
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable
+          onPress={handleBack}
+          style={({ pressed }) => [
+            styles.iconButton,
+            pressed ? { opacity: 0.7 } : null
+          ]}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Compare Stores</Text>
+        {comparison ? (
+          <Pressable
+            onPress={handleExport}
+            disabled={exporting}
+            style={({ pressed }) => [
+              styles.iconButton,
+              pressed ? { opacity: 0.7 } : null
+            ]}
+          >
+            {exporting ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <Ionicons name="download-outline" size={22} color={colors.primary} />
+            )}
+          </Pressable>
+        ) : (
+          <View style={styles.headerSpacer} />
+        )}
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : !comparison ? (
+        jobs.length < MIN_JOBS ? (
+          <View style={styles.centered}>
+            <Ionicons name="git-compare-outline" size={48} color={colors.textMuted} />
+            <Text style={styles.emptyText}>
+              Complete at least two scrapes to compare stores.
+            </Text>
+          </View>
+        ) : (
+          <>
+            <ScrollView contentContainerStyle={styles.content}>
+              <Text style={styles.hint}>
+                Pick {MIN_JOBS} to {MAX_JOBS} scrapes. Prices are compared against the first one you pick, usually your own store.
+              </Text>
+              {jobs.map(job => {
+                const position = selected.indexOf(job.id);
+                return (
+                  <JobOption
+                    key={job.id}
+                    storeUrl={job.store_url}
+                    createdAt={job.created_at}
+                    productsCount={job.products_count}
+                    position={position}
+                    disabled={position === -1 && selected.length >= MAX_JOBS}
+                    onPress={createToggleHandler(job.id)}
+                  />
+                );
+              })}
+            </ScrollView>
+
+            <View style={styles.footer}>
+              <Pressable
+                onPress={handleCompare}
+                disabled={selected.length < MIN_JOBS || comparing}
+                style={({ pressed }) => [
+                  styles.compareButton,
+                  selected.length < MIN_JOBS ? { opacity: 0.5 } : pressed ? { opacity: 0.8 } : null,
+                ]}
+              >
+                {comparing ? (
+                  <ActivityIndicator size="small" color={colors.background} />
+                ) : (
+                  <Text style={styles.compareButtonText}>
+                    {selected.length < MIN_JOBS
+                      ? `Select ${MIN_JOBS - selected.length} more`
+                      : `Compare ${selected.length} Stores`}
+                  </Text>
+                )}
+              </Pressable>
+            </View>
+          </>
+        )
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          {/* Stores */}
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.storeCards}>
+            {comparison.stores.map((store, index) => (
+              <StoreCard
+                key={store.job_id}
+                name={store.store_name || getStoreName(store.store_url)}
+                color={storeColors[index]}
+                products={store.products}
+                vendors={store.vendors}
+                uniqueVendors={comparison.vendors.unique[index]}
+                medianPrice={store.median_price}
+              />
+            ))}
+          </ScrollView>
+
+          <CompareSection
+            title="Price Positioning"
+            icon="pricetags-outline"
+            total={comparison.product_types.length}
+            storeCount={storeCount}
+          >
+            {comparison.product_types.map(type => (
+              <StoreValuesRow
+                key={type.name}
+                title={type.name}
+                subtitle="Median price index (100 = market)"
+                values={type.stores.map(position => (position ? String(position.price_index) : '—'))}
+                valueColors={type.stores.map(position =>
+                  position ? indexColor(position.price_index) : colors.textMuted
+                )}
+              />
+            ))}
+          </CompareSection>
+
+          <CompareSection
+            title="Matched Products"
+            icon="git-compare-outline"
+            total={comparison.matches_total}
+            storeCount={storeCount}
+          >
+            {comparison.matches.map(match => {
+              const first = match.products.find(side => side !== null);
+              return (
+                <StoreValuesRow
+                  key={match.key}
+                  title={first?.title || ''}
+                  subtitle={matchSources[match.matched_by]}
+                  values={match.products.map(side =>
+                    side ? `${formatPrice(side.price)}\n${formatDiff(side.diff_percent)}` : '—'
+                  )}
+                  valueColors={match.products.map(side => (side ? diffColor(side.diff_percent) : colors.textMuted))}
+                />
+              );
+            })}
+          </CompareSection>
+
+          <CompareSection
+            title="Shared Vendors"
+            icon="business-outline"
+            total={comparison.vendors.shared.length}
+            storeCount={storeCount}
+          >
+            {comparison.vendors.shared.map(vendor => (
+              <StoreValuesRow
+                key={vendor.name}
+                title={vendor.name}
+                values={vendor.products.map(count => (count ? count.toLocaleString() : '—'))}
+              />
+            ))}
+          </CompareSection>
+
+          {comparison.matches_total > comparison.matches.length ? (
+            <Text style={styles.footnote}>
+              Showing {comparison.matches.length} of {comparison.matches_total.toLocaleString()} matched products. Export the CSV for all of them.
+            </Text>
+          ) : null}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingTop: 48,
+    paddingBottom: 16,
+  },
+  iconButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderCurve: 'continuous',
+    backgroundColor: colors.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    gap: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingBottom: 120,
+    gap: 12,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 19,
+    marginBottom: 4,
+  },
+  jobOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    borderCurve: 'continuous',
+    borderWidth: 1,
+    borderColor: 'transparent',
+    padding: 16,
+    gap: 14,
+  },
+  jobBadge: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  jobBadgeText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.background,
+  },
+  jobInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  jobName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    textTransform: 'capitalize',
+  },
+  jobMeta: {
+    fontSize: 12,
+    color: colors.textMuted,
+  },
+  baselineTag: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: colors.primary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  footer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    paddingHorizontal: 24,
+    paddingTop: 12,
+    paddingBottom: 32,
+    backgroundColor: colors.background,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  compareButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 16,
+    borderCurve: 'continuous',
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  compareButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.background,
+  },
+  storeCards: {
+    gap: 10,
+  },
+  storeCard: {
+    width: 160,
+    backgroundColor: colors.card,
+    borderRadius: 14,
+    borderCurve: 'continuous',
+    borderTopWidth: 3,
+    padding: 14,
+    gap: 4,
+  },
+  storeName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    textTransform: 'capitalize',
+    marginBottom: 4,
+  },
+  storeStat: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  section: {
+    gap: 10,
+    marginTop: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  sectionCount: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  sectionCard: {
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    borderCurve: 'continuous',
+    paddingHorizontal: 16,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 12,
+    paddingBottom: 4,
+    gap: 8,
+  },
+  legendCell: {
+    width: 56,
+    alignItems: 'flex-end',
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.border,
+    gap: 8,
+  },
+  rowInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+  rowSubtitle: {
+    fontSize: 11,
+    color: colors.textMuted,
+  },
+  rowValue: {
+    width: 56,
+    fontSize: 12,
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  showAllButton: {
+    alignSelf: 'center',
+    paddingVertical: 6,
+  },
+  showAllText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.primary,
+  },
+  footnote: {
+    fontSize: 12,
+    color: colors.textMuted,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
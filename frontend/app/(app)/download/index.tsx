@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, memo } from 'react';
 import { 
   View, 
   Text, 
@@ -31,17 +31,138 @@ const colors = {
   error: '#EF4444',
 };
 
+// Export formats offered by GET /scrape/download/:jobId?format=
+const EXPORT_FORMATS = [
+  {
+    id: 'csv',
+    label: 'CSV',
+    description: 'One row per variant, ready for spreadsheets',
+    icon: 'document-text-outline',
+    extension: 'csv',
+    mimeType: 'text/csv',
+  },
+  {
+    id: 'shopify',
+    label: 'Shopify CSV',
+    description: 'Matches the Shopify product import template',
+    icon: 'storefront-outline',
+    extension: 'csv',
+    mimeType: 'text/csv',
+  },
+  {
+    id: 'xlsx',
+    label: 'Excel',
+    description: 'Products, Variants, Images and Summary sheets',
+    icon: 'grid-outline',
+    extension: 'xlsx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+  {
+    id: 'json',
+    label: 'JSON',
+    description: 'Full product structure with variants and images',
+    icon: 'code-slash-outline',
+    extension: 'json',
+    mimeType: 'application/json',
+  },
+  {
+    id: 'ndjson',
+    label: 'NDJSON',
+    description: 'One product per line, for data pipelines',
+    icon: 'list-outline',
+    extension: 'ndjson',
+    mimeType: 'application/x-ndjson',
+  },
+] as const;
+
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+interface ExportTemplate {
+  id: string;
+  name: string;
+  granularity: 'variant' | 'product';
+}
+
+// Memoized FormatOption component with primitives
+const FormatOption = memo(function FormatOption({
+  icon,
+  label,
+  description,
+  selected,
+  onPress,
+}: {
+  icon: string;
+  label: string;
+  description: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [
+        styles.toggleCard,
+        selected ? styles.formatCardSelected : null,
+        pressed ? { opacity: 0.8 } : null
+      ]}
+    >
+      <View style={styles.toggleLeft}>
+        <View style={styles.toggleIcon}>
+          <Ionicons name={icon as any} size={18} color={colors.primary} />
+        </View>
+        <View style={styles.formatText}>
+          <Text style={styles.toggleTitle}>{label}</Text>
+          <Text style={styles.toggleSubtitle}>{description}</Text>
+        </View>
+      </View>
+      <Ionicons
+        name={selected ? 'radio-button-on' : 'radio-button-off'}
+        size={22}
+        color={selected ? colors.primary : colors.textMuted}
+      />
+    </Pressable>
+  );
+});
+
 export default function DownloadScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
   const { jobId, storeUrl, storeName, productCount } = params;
 
   const [downloading, setDownloading] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>(EXPORT_FORMATS[0]);
+  const [templates, setTemplates] = useState<ExportTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<string | null>(null);
   const [cleanData, setCleanData] = useState(true);
   const [detectDuplicates, setDetectDuplicates] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [downloadedFileName, setDownloadedFileName] = useState('');
 
+  // Saved column templates (managed via /templates) apply to the CSV format
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const session = await getSession();
+        if (!session) return;
+
+        const response = await fetch(`${API_BASE_URL}/templates`, {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          setTemplates(data.templates || []);
+        }
+      } catch (error) {
+        console.error('Failed to load templates:', error);
+      }
+    };
+
+    loadTemplates();
+  }, []);
+
   const handleDownloadCSV = useCallback(async () => {
     if (!jobId) {
       Alert.alert('Error', 'No job ID provided');
@@ -56,11 +177,12 @@ export default function DownloadScreen() {
         return;
       }
 
-      const fileName = `${storeName || 'products'}_${Date.now()}.csv`;
+      const fileName = `${storeName || 'products'}_${Date.now()}.${format.extension}`;
       setDownloadedFileName(fileName);
 
-      // Download CSV from backend
-      const downloadUrl = `${API_BASE_URL}/scrape/download/${jobId}`;
+      // Download the selected format from backend
+      const templateParam = format.id === 'csv' && templateId ? `&template=${templateId}` : '';
+      const downloadUrl = `${API_BASE_URL}/scrape/download/${jobId}?format=${format.id}${templateParam}`;
       
       if (Platform.OS === 'web') {
         // Web download - open in new tab or trigger download
@@ -105,8 +227,8 @@ export default function DownloadScreen() {
           
           if (canShare) {
             await Sharing.shareAsync(downloadResult.uri, {
-              mimeType: 'text/csv',
-              dialogTitle: 'Save CSV File',
+              mimeType: format.mimeType,
+              dialogTitle: `Save ${format.label} File`,
             });
           }
           
@@ -119,13 +241,13 @@ export default function DownloadScreen() {
       console.error('Download error:', error);
       Alert.alert(
         'Download Failed',
-        'Unable to download the CSV file. Please try again.',
+        `Unable to download the ${format.label} file. Please try again.`,
         [{ text: 'OK' }]
       );
     } finally {
       setDownloading(false);
     }
-  }, [jobId, storeName, router]);
+  }, [jobId, storeName, router, format, templateId]);
 
   const handleBack = useCallback(() => {
     router.back();
@@ -189,6 +311,48 @@ export default function DownloadScreen() {
           </View>
         </View>
 
+        {/* Export Format */}
+        <View style={styles.processingSection}>
+          <Text style={styles.sectionLabel}>Export Format</Text>
+          {EXPORT_FORMATS.map((option) => (
+            <FormatOption
+              key={option.id}
+              icon={option.icon}
+              label={option.label}
+              description={option.description}
+              selected={option.id === format.id}
+              onPress={() => setFormat(option)}
+            />
+          ))}
+        </View>
+
+        {/* Column Template (CSV only) */}
+        {format.id === 'csv' && templates.length > 0 ? (
+          <View style={styles.processingSection}>
+            <Text style={styles.sectionLabel}>Column Template</Text>
+            <View style={styles.templateChips}>
+              {[{ id: null, name: 'All columns' }, ...templates].map((template) => {
+                const selected = template.id === templateId;
+                return (
+                  <Pressable
+                    key={template.id || 'default'}
+                    onPress={() => setTemplateId(template.id)}
+                    style={({ pressed }) => [
+                      styles.templateChip,
+                      selected ? styles.templateChipSelected : null,
+                      pressed ? { opacity: 0.8 } : null
+                    ]}
+                  >
+                    <Text style={[styles.templateChipText, selected ? styles.templateChipTextSelected : null]}>
+                      {template.name}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+        ) : null}
+
         {/* Smart Processing Options */}
         <View style={styles.processingSection}>
           <Text style={styles.sectionLabel}>Smart Processing</Text>
@@ -249,7 +413,7 @@ export default function DownloadScreen() {
             ) : (
               <>
                 <Ionicons name="download" size={20} color={colors.background} />
-                <Text style={styles.primaryButtonText}>Download CSV</Text>
+                <Text style={styles.primaryButtonText}>Download {format.label}</Text>
               </>
             )}
           </Pressable>
@@ -297,7 +461,7 @@ export default function DownloadScreen() {
               </View>
               <View style={styles.fileDetails}>
                 <Text style={styles.fileName} numberOfLines={1}>
-                  {downloadedFileName || 'products.csv'}
+                  {downloadedFileName || `products.${format.extension}`}
                 </Text>
                 <Text style={styles.fileSize}>
                   {productCount || 0} products exported
@@ -321,7 +485,7 @@ export default function DownloadScreen() {
               </View>
               <View style={styles.statDivider} />
               <View style={styles.statBox}>
-                <Text style={styles.statValue}>CSV</Text>
+                <Text style={styles.statValue}>{format.extension.toUpperCase()}</Text>
                 <Text style={styles.statLabel}>Format</Text>
               </View>
             </View>
@@ -490,6 +654,39 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: colors.textMuted,
   },
+  formatCardSelected: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  formatText: {
+    flex: 1,
+  },
+  templateChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  templateChip: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderCurve: 'continuous',
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  templateChipSelected: {
+    borderColor: colors.primary,
+    backgroundColor: 'rgba(56, 189, 248, 0.15)',
+  },
+  templateChipText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  templateChipTextSelected: {
+    color: colors.primary,
+    fontWeight: '600',
+  },
   actionsSection: {
     paddingBottom: 32,
   },
@@ -6,7 +6,8 @@ import {
   TextInput, 
   RefreshControl,
   StyleSheet,
-  StatusBar
+  StatusBar,
+  Alert,
 } from 'react-native';
 import { FlashList } from '@shopify/flash-list';
 import { useRouter } from 'expo-router';
@@ -29,11 +30,16 @@ const colors = {
   pink: '#EC4899',
 };
 
+type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
 interface ScrapeJob {
   id: string;
   store_url: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  store_name?: string;
+  status: JobStatus;
   products_count: number;
+  store_id?: string | null;
+  shared?: boolean; // Run by a teammate in the user's organization
   created_at: string;
 }
 
@@ -107,14 +113,24 @@ const HistoryItem = memo(function HistoryItem({
   status,
   productsCount,
   createdAt,
+  hasChanges,
+  isShared,
   onExport,
+  onChanges,
+  onCancel,
+  onRetry,
 }: {
   id: string;
   storeUrl: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: JobStatus;
   productsCount: number;
   createdAt: string;
+  hasChanges: boolean;
+  isShared: boolean;
   onExport: () => void;
+  onChanges: () => void;
+  onCancel: () => void;
+  onRetry: () => void;
 }) {
   const avatarColor = getAvatarColor(storeUrl);
   const initial = getInitials(storeUrl);
@@ -142,6 +158,16 @@ const HistoryItem = memo(function HistoryItem({
               <View style={[styles.statusDot, { backgroundColor: colors.primary }]} />
               <Text style={[styles.statusText, { color: colors.primary }]}>PROCESSING...</Text>
             </>
+          ) : status === 'pending' ? (
+            <>
+              <View style={[styles.statusDot, { backgroundColor: colors.textMuted }]} />
+              <Text style={[styles.statusText, { color: colors.textMuted }]}>QUEUED</Text>
+            </>
+          ) : status === 'cancelled' ? (
+            <>
+              <View style={[styles.statusDot, { backgroundColor: colors.orange }]} />
+              <Text style={[styles.statusText, { color: colors.orange }]}>CANCELLED</Text>
+            </>
           ) : (
             <>
               <View style={[styles.statusDot, { backgroundColor: colors.error }]} />
@@ -150,30 +176,60 @@ const HistoryItem = memo(function HistoryItem({
           )}
         </View>
         <Text style={styles.itemMeta}>
-          {dateFormatted} • {productsCount.toLocaleString()} Products
+          {dateFormatted} • {productsCount.toLocaleString()} Products{isShared ? ' • Team' : ''}
         </Text>
       </View>
 
       {/* Export Button */}
       {status === 'completed' ? (
+        <View style={styles.itemActions}>
+          {hasChanges ? (
+            <Pressable
+              onPress={onChanges}
+              style={({ pressed }) => [
+                styles.actionButton,
+                styles.changesButton,
+                pressed ? { opacity: 0.7 } : null
+              ]}
+            >
+              <Ionicons name="swap-vertical-outline" size={16} color={colors.purple} />
+            </Pressable>
+          ) : null}
+          <Pressable
+            onPress={onExport}
+            style={({ pressed }) => [
+              styles.exportButton,
+              pressed ? { opacity: 0.7 } : null
+            ]}
+          >
+            <Ionicons name="download-outline" size={16} color={colors.primary} />
+            <Text style={styles.exportText}>Export</Text>
+          </Pressable>
+        </View>
+      ) : isShared ? null : status === 'running' || status === 'pending' ? (
         <Pressable
-          onPress={onExport}
+          onPress={onCancel}
           style={({ pressed }) => [
-            styles.exportButton,
+            styles.actionButton,
+            styles.cancelButton,
             pressed ? { opacity: 0.7 } : null
           ]}
         >
-          <Ionicons name="download-outline" size={16} color={colors.primary} />
-          <Text style={styles.exportText}>Export</Text>
+          <Ionicons name="close-circle-outline" size={16} color={colors.error} />
+          <Text style={[styles.actionText, { color: colors.error }]}>Cancel</Text>
         </Pressable>
-      ) : status === 'running' ? (
-        <View style={styles.statusIcon}>
-          <Ionicons name="hourglass-outline" size={20} color={colors.textMuted} />
-        </View>
       ) : (
-        <View style={[styles.statusIcon, { backgroundColor: 'rgba(239, 68, 68, 0.1)' }]}>
-          <Ionicons name="warning-outline" size={20} color={colors.error} />
-        </View>
+        <Pressable
+          onPress={onRetry}
+          style={({ pressed }) => [
+            styles.actionButton,
+            styles.retryButton,
+            pressed ? { opacity: 0.7 } : null
+          ]}
+        >
+          <Ionicons name="refresh-outline" size={16} color={colors.orange} />
+          <Text style={[styles.actionText, { color: colors.orange }]}>Retry</Text>
+        </Pressable>
       )}
     </View>
   );
@@ -268,10 +324,105 @@ export default function HistoryScreen() {
     });
   }, [push]);
 
+  // "What changed since last time" for stores with snapshot history
+  const createChangesHandler = useCallback((job: ScrapeJob) => () => {
+    if (!job.store_id) return;
+    push({
+      pathname: '/(app)/changes',
+      params: {
+        storeId: job.store_id,
+        storeName: job.store_name || getStoreName(job.store_url),
+      },
+    });
+  }, [push]);
+
+  // Cancel a queued or running job, then reflect the new status locally
+  const createCancelHandler = useCallback((jobId: string) => () => {
+    Alert.alert('Cancel Scrape', 'Stop this scrape? Its reserved credits will be refunded.', [
+      { text: 'Keep Running', style: 'cancel' },
+      {
+        text: 'Cancel Scrape',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const session = await getSession();
+            if (!session) return;
+
+            const response = await fetch(`${API_BASE_URL}/scrape/cancel/${jobId}`, {
+              method: 'POST',
+              headers: {
+                Authorization: `Bearer ${session.access_token}`,
+              },
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+              Alert.alert('Error', data.error || 'Failed to cancel scrape');
+              return;
+            }
+
+            setHistory(prev => prev.map(job =>
+              job.id === jobId ? { ...job, status: 'cancelled' } : job
+            ));
+          } catch (error) {
+            console.error('Failed to cancel job:', error);
+            Alert.alert('Error', 'Failed to cancel scrape');
+          }
+        },
+      },
+    ]);
+  }, []);
+
+  // Retry creates a new job for the same store and opens its results
+  const createRetryHandler = useCallback((job: ScrapeJob) => async () => {
+    try {
+      const session = await getSession();
+      if (!session) return;
+
+      const response = await fetch(`${API_BASE_URL}/scrape/retry/${job.id}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        if (response.status === 403) {
+          Alert.alert(
+            'Insufficient Credits',
+            `You need ${data.credits_needed} credits to retry this scrape.`,
+            [
+              { text: 'Cancel', style: 'cancel' },
+              { text: 'Buy Credits', onPress: () => push('/(app)/billing') },
+            ]
+          );
+        } else {
+          Alert.alert('Error', data.error || 'Failed to retry scrape');
+        }
+        return;
+      }
+
+      await loadHistory();
+      push({
+        pathname: '/(app)/results',
+        params: {
+          jobId: data.jobId,
+          storeUrl: job.store_url,
+          storeName: data.storeName || job.store_name || '',
+        },
+      });
+    } catch (error) {
+      console.error('Failed to retry job:', error);
+      Alert.alert('Error', 'Failed to retry scrape');
+    }
+  }, [push]);
+
   // Navigation handlers with stable references
   const handleBack = useCallback(() => back(), [back]);
   const navigateToHome = useCallback(() => push('/(app)/home'), [push]);
   const navigateToTrends = useCallback(() => push('/(app)/trends'), [push]);
+  const navigateToCompare = useCallback(() => push('/(app)/compare'), [push]);
   const navigateToSettings = useCallback(() => push('/(app)/settings'), [push]);
 
   // Render item with primitives passed to memoized component
@@ -282,9 +433,14 @@ export default function HistoryScreen() {
       status={item.status}
       productsCount={item.products_count}
       createdAt={item.created_at}
+      hasChanges={!!item.store_id}
+      isShared={!!item.shared}
       onExport={createExportHandler(item.id, item.products_count)}
+      onChanges={createChangesHandler(item)}
+      onCancel={createCancelHandler(item.id)}
+      onRetry={createRetryHandler(item)}
     />
-  ), [createExportHandler]);
+  ), [createExportHandler, createChangesHandler, createCancelHandler, createRetryHandler]);
 
   const keyExtractor = useCallback((item: ScrapeJob) => item.id, []);
 
@@ -306,12 +462,13 @@ export default function HistoryScreen() {
           </Pressable>
           <Text style={styles.headerTitle}>Scrape History</Text>
           <Pressable 
+            onPress={navigateToCompare}
             style={({ pressed }) => [
               styles.settingsButton,
               pressed ? { opacity: 0.7 } : null
             ]}
           >
-            <Ionicons name="options-outline" size={22} color={colors.textPrimary} />
+            <Ionicons name="git-compare-outline" size={22} color={colors.textPrimary} />
           </Pressable>
         </View>
 
@@ -501,14 +658,32 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: colors.primary,
   },
-  statusIcon: {
-    width: 40,
-    height: 40,
-    borderRadius: 20,
-    borderCurve: 'continuous',
-    backgroundColor: colors.border,
+  itemActions: {
+    flexDirection: 'row',
     alignItems: 'center',
-    justifyContent: 'center',
+    gap: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderCurve: 'continuous',
+    gap: 6,
+  },
+  cancelButton: {
+    backgroundColor: 'rgba(239, 68, 68, 0.1)',
+  },
+  changesButton: {
+    backgroundColor: 'rgba(168, 85, 247, 0.1)',
+  },
+  retryButton: {
+    backgroundColor: 'rgba(249, 115, 22, 0.1)',
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
   },
   bottomNav: {
     position: 'absolute',
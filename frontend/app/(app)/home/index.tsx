@@ -190,10 +190,12 @@ export default function HomeScreen() {
   const [recentScrapes, setRecentScrapes] = useState<ScrapeJob[]>(mockRecentScrapes);
   const [userName, setUserName] = useState('Researcher');
   const [userCredits, setUserCredits] = useState(5);
+  const [unreadCount, setUnreadCount] = useState(0);
 
   useEffect(() => {
     loadUserData();
     loadRecentScrapes();
+    loadUnreadCount();
   }, []);
 
   const loadUserData = async () => {
@@ -230,9 +232,29 @@ export default function HomeScreen() {
     }
   };
 
+  const loadUnreadCount = async () => {
+    try {
+      const session = await getSession();
+      if (!session) return;
+
+      const response = await fetch(`${API_BASE_URL}/notifications?limit=1&unread=true`, {
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setUnreadCount(data.unread_count || 0);
+      }
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    }
+  };
+
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    await loadRecentScrapes();
+    await Promise.all([loadRecentScrapes(), loadUnreadCount()]);
     setRefreshing(false);
   }, []);
 
@@ -282,6 +304,10 @@ export default function HomeScreen() {
   const navigateToHistory = useCallback(() => push('/(app)/history'), [push]);
   const navigateToTrends = useCallback(() => push('/(app)/trends'), [push]);
   const navigateToSettings = useCallback(() => push('/(app)/settings'), [push]);
+  const navigateToNotifications = useCallback(() => {
+    setUnreadCount(0);
+    push('/(app)/notifications');
+  }, [push]);
 
   // Render item with primitives passed to memoized component
   const renderScrapeItem = useCallback(({ item }: { item: ScrapeJob }) => (
@@ -409,12 +435,14 @@ export default function HomeScreen() {
           </View>
         </View>
         <Pressable 
+          onPress={navigateToNotifications}
           style={({ pressed }) => [
             styles.notificationBtn,
             pressed ? { opacity: 0.7 } : null
           ]}
         >
           <Ionicons name="notifications-outline" size={22} color={colors.textPrimary} />
+          {unreadCount > 0 ? <View style={styles.notificationDot} /> : null}
         </Pressable>
       </View>
 
@@ -492,6 +520,15 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  notificationDot: {
+    position: 'absolute',
+    top: 9,
+    right: 10,
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.error,
+  },
   listHeaderContainer: {
     paddingHorizontal: 24,
   },
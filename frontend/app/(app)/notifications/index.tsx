@@ -0,0 +1,330 @@
+import { useState, useEffect, useCallback, memo } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  RefreshControl,
+  ActivityIndicator,
+  StyleSheet,
+  StatusBar,
+} from 'react-native';
+import { FlashList } from '@shopify/flash-list';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { API_BASE_URL } from '../../../lib/constants';
+import { getSession } from '../../../lib/auth';
+
+const colors = {
+  primary: '#38BDF8',
+  background: '#0F172A',
+  card: '#1E293B',
+  border: '#334155',
+  textPrimary: '#FFFFFF',
+  textSecondary: '#94A3B8',
+  textMuted: '#64748B',
+  success: '#22C55E',
+  error: '#EF4444',
+  purple: '#A855F7',
+  orange: '#F97316',
+};
+
+type AlertRuleType = 'price_drop' | 'new_product_tag' | 'compare_at_set' | 'vendor_new_products';
+
+interface AppNotification {
+  id: string;
+  store_id?: string | null;
+  title: string;
+  body: string;
+  data?: { rule_type?: AlertRuleType; count?: number };
+  read_at?: string | null;
+  created_at: string;
+}
+
+const ruleIcons: Record<AlertRuleType, { icon: string; color: string }> = {
+  price_drop: { icon: 'trending-down-outline', color: colors.success },
+  new_product_tag: { icon: 'pricetag-outline', color: colors.primary },
+  compare_at_set: { icon: 'flash-outline', color: colors.orange },
+  vendor_new_products: { icon: 'storefront-outline', color: colors.purple },
+};
+
+const formatRelative = (dateString: string) => {
+  const minutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+// Memoized NotificationItem component with primitives
+const NotificationItem = memo(function NotificationItem({
+  title,
+  body,
+  createdAt,
+  ruleType,
+  unread,
+  onPress,
+}: {
+  title: string;
+  body: string;
+  createdAt: string;
+  ruleType?: AlertRuleType;
+  unread: boolean;
+  onPress?: () => void;
+}) {
+  const { icon, color } = (ruleType && ruleIcons[ruleType]) || { icon: 'notifications-outline', color: colors.primary };
+
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={!onPress}
+      style={({ pressed }) => [
+        styles.notificationItem,
+        pressed && onPress ? { opacity: 0.7 } : null
+      ]}
+    >
+      <View style={[styles.iconWrap, { backgroundColor: `${color}1A` }]}>
+        <Ionicons name={icon as any} size={20} color={color} />
+      </View>
+      <View style={styles.itemInfo}>
+        <View style={styles.titleRow}>
+          <Text style={styles.itemTitle} numberOfLines={1}>{title}</Text>
+          {unread ? <View style={styles.unreadDot} /> : null}
+        </View>
+        <Text style={styles.itemBody} numberOfLines={3}>{body}</Text>
+        <Text style={styles.itemTime}>{formatRelative(createdAt)}</Text>
+      </View>
+    </Pressable>
+  );
+});
+
+export default function NotificationsScreen() {
+  // Destructure router functions early for React Compiler compatibility
+  const { push, back } = useRouter();
+
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    loadNotifications();
+  }, []);
+
+  const loadNotifications = async () => {
+    try {
+      const session = await getSession();
+      if (!session) return;
+
+      const response = await fetch(`${API_BASE_URL}/notifications?limit=50`, {
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setNotifications(data.notifications || []);
+
+        // Opening the list marks everything as read; unread dots stay until the next visit
+        if (data.unread_count > 0) {
+          await fetch(`${API_BASE_URL}/notifications/read`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              Authorization: `Bearer ${session.access_token}`,
+            },
+            body: JSON.stringify({}),
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadNotifications();
+    setRefreshing(false);
+  }, []);
+
+  const handleBack = useCallback(() => back(), [back]);
+  const handleOpenRules = useCallback(() => push('/(app)/alerts'), [push]);
+
+  // Store alerts open the changes that triggered them
+  const createPressHandler = useCallback((notification: AppNotification) => {
+    if (!notification.store_id) return undefined;
+    return () => push({
+      pathname: '/(app)/changes',
+      params: { storeId: notification.store_id!, to: notification.created_at },
+    });
+  }, [push]);
+
+  const renderItem = useCallback(({ item }: { item: AppNotification }) => (
+    <NotificationItem
+      title={item.title}
+      body={item.body}
+      createdAt={item.created_at}
+      ruleType={item.data?.rule_type}
+      unread={!item.read_at}
+      onPress={createPressHandler(item)}
+    />
+  ), [createPressHandler]);
+
+  const keyExtractor = useCallback((item: AppNotification) => item.id, []);
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable
+          onPress={handleBack}
+          style={({ pressed }) => [
+            styles.backButton,
+            pressed ? { opacity: 0.7 } : null
+          ]}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Notifications</Text>
+        <Pressable
+          onPress={handleOpenRules}
+          style={({ pressed }) => [
+            styles.backButton,
+            pressed ? { opacity: 0.7 } : null
+          ]}
+        >
+          <Ionicons name="options-outline" size={22} color={colors.textPrimary} />
+        </Pressable>
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : notifications.length === 0 ? (
+        <View style={styles.centered}>
+          <Ionicons name="notifications-off-outline" size={48} color={colors.textMuted} />
+          <Text style={styles.emptyTitle}>No notifications yet</Text>
+          <Text style={styles.emptyText}>
+            Alerts for price drops and new products appear here after a store is scraped again.
+          </Text>
+        </View>
+      ) : (
+        <FlashList
+          data={notifications}
+          keyExtractor={keyExtractor}
+          renderItem={renderItem}
+          estimatedItemSize={110}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={colors.primary} />
+          }
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingTop: 48,
+    paddingBottom: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderCurve: 'continuous',
+    backgroundColor: colors.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    gap: 12,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  listContent: {
+    paddingHorizontal: 24,
+    paddingBottom: 48,
+  },
+  notificationItem: {
+    flexDirection: 'row',
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    borderCurve: 'continuous',
+    padding: 16,
+    marginBottom: 12,
+    gap: 14,
+  },
+  iconWrap: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    borderCurve: 'continuous',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  itemInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  itemTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.primary,
+  },
+  itemBody: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+  itemTime: {
+    fontSize: 12,
+    color: colors.textMuted,
+  },
+});
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, memo } from 'react';
+import { useState, useEffect, useCallback, useRef, memo, ReactNode } from 'react';
 import { 
   View, 
   Text, 
@@ -7,12 +7,16 @@ import {
   StyleSheet,
   StatusBar,
   Alert,
+  ScrollView,
+  TextInput,
+  Modal,
 } from 'react-native';
 import { FlashList } from '@shopify/flash-list';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { API_BASE_URL } from '../../../lib/constants';
 import { getSession } from '../../../lib/auth';
+import { openEventStream } from '../../../lib/sse';
 
 const colors = {
   primary: '#38BDF8',
@@ -24,6 +28,8 @@ const colors = {
   textMuted: '#64748B',
   success: '#22C55E',
   error: '#EF4444',
+  warning: '#F59E0B',
+  purple: '#A855F7',
 };
 
 interface Product {
@@ -41,15 +47,244 @@ interface Product {
   }[];
 }
 
+interface JobBilling {
+  reserved: number;
+  charged: number;
+  refunded: number;
+  note: string | null;
+}
+
 interface ScrapeStatus {
   id: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   products_count: number;
   store_url: string;
   store_name?: string;
   error_message?: string;
+  billing?: JobBilling;
+}
+
+interface CountBucket {
+  label: string;
+  count: number;
+}
+
+interface PriceDistribution {
+  product_type: string;
+  products: number;
+  variants: number;
+  min: number;
+  max: number;
+  mean: number;
+  percentiles: { p10: number; p25: number; p50: number; p75: number; p90: number };
+  histogram: { from: number; to: number; count: number }[];
+}
+
+interface CatalogueAnalytics {
+  prices: {
+    overall: PriceDistribution;
+    by_type: PriceDistribution[];
+  };
+  sale: {
+    variants_on_sale: number;
+    share_percent: number;
+    average_discount_percent: number;
+    max_discount_percent: number;
+    discount_depth: CountBucket[];
+  };
+  tags: {
+    unique: number;
+    top: { tag: string; products: number }[];
+  };
+  options: { name: string; products: number; share_percent: number; unique_values: number }[];
+  variants_per_product: {
+    min: number;
+    max: number;
+    mean: number;
+    median: number;
+    distribution: CountBucket[];
+  };
+  catalogue_age: {
+    median_age_days: number | null;
+    undated: number;
+    distribution: CountBucket[];
+  };
+}
+
+type ResultsTab = 'products' | 'insights';
+
+interface ProductFacet {
+  value: string;
+  products: number;
+}
+
+interface ProductFacets {
+  vendors: ProductFacet[];
+  product_types: ProductFacet[];
+  tags: ProductFacet[];
 }
 
+type SaleFilter = 'any' | 'on_sale' | 'full_price';
+
+// Filters for /scrape/products; prices stay text while being typed
+interface ProductFilters {
+  sortId: string | null;
+  vendor: string | null;
+  productType: string | null;
+  tag: string | null;
+  minPrice: string;
+  maxPrice: string;
+  sale: SaleFilter;
+}
+
+const emptyFilters: ProductFilters = {
+  sortId: null,
+  vendor: null,
+  productType: null,
+  tag: null,
+  minPrice: '',
+  maxPrice: '',
+  sale: 'any',
+};
+
+// Without a choice, search results come by relevance and the rest in scraped order
+const sortOptions = [
+  { id: 'price-asc', label: 'Price: Low to High', sort: 'price', order: 'asc' },
+  { id: 'price-desc', label: 'Price: High to Low', sort: 'price', order: 'desc' },
+  { id: 'created_at-desc', label: 'Newest', sort: 'created_at', order: 'desc' },
+  { id: 'created_at-asc', label: 'Oldest', sort: 'created_at', order: 'asc' },
+  { id: 'title-asc', label: 'Title A–Z', sort: 'title', order: 'asc' },
+];
+
+const saleOptions: { id: SaleFilter; label: string }[] = [
+  { id: 'any', label: 'Any' },
+  { id: 'on_sale', label: 'On Sale' },
+  { id: 'full_price', label: 'Full Price' },
+];
+
+// Facet values offered in the filter sheet
+const FACET_CHIP_COUNT = 20;
+
+interface ScrapeProgress {
+  status: ScrapeStatus['status'];
+  phase: 'queued' | 'fetching' | 'collections' | 'saving' | 'done';
+  page: number;
+  products: number;
+  eta_seconds: number | null;
+}
+
+const RECONNECT_DELAY = 3000;
+const PRODUCTS_PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const phaseLabels: Record<ScrapeProgress['phase'], string> = {
+  queued: 'Waiting in queue...',
+  fetching: 'Scraping store data...',
+  collections: 'Mapping collections...',
+  saving: 'Saving results...',
+  done: 'Loading results...',
+};
+
+const formatEta = (seconds: number | null) => {
+  if (seconds === null) return 'Estimating time left...';
+  if (seconds < 60) return `About ${Math.max(seconds, 1)}s left`;
+  return `About ${Math.ceil(seconds / 60)} min left`;
+};
+
+// Bar fill: page-based while fetching, since the total is unknown
+const getProgressFraction = (progress: ScrapeProgress | null) => {
+  if (!progress) return 0;
+  switch (progress.phase) {
+    case 'queued':
+      return 0.02;
+    case 'fetching': {
+      if (progress.eta_seconds === 0) return 0.9;
+      const elapsedShare = progress.page / (progress.page + 1);
+      return Math.min(0.05 + elapsedShare * 0.8, 0.85);
+    }
+    case 'collections':
+      return 0.9;
+    case 'saving':
+      return 0.95;
+    default:
+      return 1;
+  }
+};
+
+const formatAmount = (value: number) =>
+  value >= 1000 ? `${Math.round(value).toLocaleString()}` : `${Number(value.toFixed(2))}`;
+
+const formatAge = (days: number | null) => {
+  if (days === null) return '—';
+  if (days < 60) return `${days}d`;
+  if (days < 730) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
+
+const toggleValue = (current: string | null, value: string) =>
+  current?.toLowerCase() === value.toLowerCase() ? null : value;
+
+const countActiveFilters = (filters: ProductFilters) =>
+  [
+    filters.sortId,
+    filters.vendor,
+    filters.productType,
+    filters.tag,
+    filters.minPrice || filters.maxPrice,
+    filters.sale !== 'any',
+  ].filter(Boolean).length;
+
+const buildProductsQuery = (search: string, filters: ProductFilters) => {
+  const query = new URLSearchParams({ limit: String(PRODUCTS_PAGE_SIZE) });
+  const sort = sortOptions.find(option => option.id === filters.sortId);
+
+  if (search.trim()) query.append('q', search.trim());
+  if (sort) {
+    query.append('sort', sort.sort);
+    query.append('order', sort.order);
+  }
+  if (filters.vendor) query.append('vendor', filters.vendor);
+  if (filters.productType) query.append('product_type', filters.productType);
+  if (filters.tag) query.append('tag', filters.tag);
+  if (filters.minPrice && Number.isFinite(parseFloat(filters.minPrice))) query.append('min_price', filters.minPrice);
+  if (filters.maxPrice && Number.isFinite(parseFloat(filters.maxPrice))) query.append('max_price', filters.maxPrice);
+  if (filters.sale !== 'any') query.append('on_sale', String(filters.sale === 'on_sale'));
+
+  return query.toString();
+};
+
+const formatCredits = (count: number) => `${count} credit${count !== 1 ? 's' : ''}`;
+
+// e.g. "3 credits charged, 2 credits refunded"
+const describeCharge = (billing: JobBilling) => {
+  const charged = billing.charged + billing.reserved;
+  const refunded = billing.refunded > 0 ? `${formatCredits(billing.refunded)} refunded` : null;
+
+  if (charged === 0) {
+    return refunded ? `No credits charged, ${refunded}` : 'No credits charged';
+  }
+  return [`${formatCredits(charged)} charged`, refunded].filter(Boolean).join(', ');
+};
+
+// Memoized ChargeCard component: what the scrape cost and why
+const ChargeCard = memo(function ChargeCard({
+  summary,
+  note,
+}: {
+  summary: string;
+  note?: string | null;
+}) {
+  return (
+    <View style={styles.chargeCard}>
+      <Ionicons name="card-outline" size={18} color={colors.primary} />
+      <View style={styles.chargeInfo}>
+        <Text style={styles.chargeSummary}>{summary}</Text>
+        {note ? <Text style={styles.chargeNote}>{note}</Text> : null}
+      </View>
+    </View>
+  );
+});
+
 // Memoized ProductRow component with primitives
 const ProductRow = memo(function ProductRow({
   title,
@@ -99,6 +334,438 @@ const StatCard = memo(function StatCard({
   );
 });
 
+// Memoized tab button with primitives
+const TabButton = memo(function TabButton({
+  tab,
+  label,
+  active,
+  onSelect,
+}: {
+  tab: ResultsTab;
+  label: string;
+  active: boolean;
+  onSelect: (tab: ResultsTab) => void;
+}) {
+  const handlePress = useCallback(() => onSelect(tab), [onSelect, tab]);
+
+  return (
+    <Pressable
+      onPress={handlePress}
+      style={({ pressed }) => [
+        styles.tabButton,
+        active ? styles.tabButtonActive : null,
+        pressed ? { opacity: 0.8 } : null,
+      ]}
+    >
+      <Text style={[styles.tabText, active ? styles.tabTextActive : null]}>{label}</Text>
+    </Pressable>
+  );
+});
+
+// Memoized selectable chip with primitives
+const FilterChip = memo(function FilterChip({
+  label,
+  value,
+  active,
+  onSelect,
+}: {
+  label: string;
+  value: string;
+  active: boolean;
+  onSelect: (value: string) => void;
+}) {
+  const handlePress = useCallback(() => onSelect(value), [onSelect, value]);
+
+  return (
+    <Pressable
+      onPress={handlePress}
+      style={({ pressed }) => [
+        styles.filterChip,
+        active ? styles.filterChipActive : null,
+        pressed ? { opacity: 0.8 } : null,
+      ]}
+    >
+      <Text style={[styles.filterChipText, active ? styles.filterChipTextActive : null]} numberOfLines={1}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+});
+
+// Chips for one facet; tapping the selected value clears it
+function FacetChips({
+  title,
+  facets,
+  selected,
+  onSelect,
+}: {
+  title: string;
+  facets: ProductFacet[];
+  selected: string | null;
+  onSelect: (value: string) => void;
+}) {
+  if (facets.length === 0) return null;
+
+  return (
+    <View style={styles.filterSection}>
+      <Text style={styles.filterLabel}>{title}</Text>
+      <View style={styles.filterChips}>
+        {facets.slice(0, FACET_CHIP_COUNT).map(facet => (
+          <FilterChip
+            key={facet.value}
+            label={`${facet.value} (${facet.products})`}
+            value={facet.value}
+            active={selected?.toLowerCase() === facet.value.toLowerCase()}
+            onSelect={onSelect}
+          />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+// Bottom sheet editing a copy of the filters until they are applied
+function FilterSheet({
+  visible,
+  initial,
+  facets,
+  onApply,
+  onClose,
+}: {
+  visible: boolean;
+  initial: ProductFilters;
+  facets: ProductFacets | null;
+  onApply: (filters: ProductFilters) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<ProductFilters>(initial);
+
+  useEffect(() => {
+    if (visible) setDraft(initial);
+  }, [visible]);
+
+  const selectSort = useCallback((value: string) => {
+    setDraft(prev => ({ ...prev, sortId: toggleValue(prev.sortId, value) }));
+  }, []);
+  const selectVendor = useCallback((value: string) => {
+    setDraft(prev => ({ ...prev, vendor: toggleValue(prev.vendor, value) }));
+  }, []);
+  const selectProductType = useCallback((value: string) => {
+    setDraft(prev => ({ ...prev, productType: toggleValue(prev.productType, value) }));
+  }, []);
+  const selectTag = useCallback((value: string) => {
+    setDraft(prev => ({ ...prev, tag: toggleValue(prev.tag, value) }));
+  }, []);
+  const selectSale = useCallback((value: string) => {
+    setDraft(prev => ({ ...prev, sale: value as SaleFilter }));
+  }, []);
+  const setMinPrice = useCallback((value: string) => setDraft(prev => ({ ...prev, minPrice: value })), []);
+  const setMaxPrice = useCallback((value: string) => setDraft(prev => ({ ...prev, maxPrice: value })), []);
+
+  const handleReset = useCallback(() => setDraft(emptyFilters), []);
+  const handleApply = useCallback(() => onApply(draft), [onApply, draft]);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.sheetOverlay}>
+        <Pressable style={styles.sheetBackdrop} onPress={onClose} />
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <Text style={styles.sheetTitle}>Filter & Sort</Text>
+            <Pressable onPress={handleReset} style={({ pressed }) => (pressed ? { opacity: 0.7 } : null)}>
+              <Text style={styles.sheetReset}>Reset</Text>
+            </Pressable>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.sheetContent}>
+            <View style={styles.filterSection}>
+              <Text style={styles.filterLabel}>Sort By</Text>
+              <View style={styles.filterChips}>
+                {sortOptions.map(option => (
+                  <FilterChip
+                    key={option.id}
+                    label={option.label}
+                    value={option.id}
+                    active={draft.sortId === option.id}
+                    onSelect={selectSort}
+                  />
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.filterSection}>
+              <Text style={styles.filterLabel}>Price</Text>
+              <View style={styles.priceInputs}>
+                <TextInput
+                  value={draft.minPrice}
+                  onChangeText={setMinPrice}
+                  placeholder="Min"
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="decimal-pad"
+                  style={styles.priceInput}
+                />
+                <Text style={styles.priceDash}>–</Text>
+                <TextInput
+                  value={draft.maxPrice}
+                  onChangeText={setMaxPrice}
+                  placeholder="Max"
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="decimal-pad"
+                  style={styles.priceInput}
+                />
+              </View>
+            </View>
+
+            <View style={styles.filterSection}>
+              <Text style={styles.filterLabel}>Sale Status</Text>
+              <View style={styles.filterChips}>
+                {saleOptions.map(option => (
+                  <FilterChip
+                    key={option.id}
+                    label={option.label}
+                    value={option.id}
+                    active={draft.sale === option.id}
+                    onSelect={selectSale}
+                  />
+                ))}
+              </View>
+            </View>
+
+            <FacetChips title="Vendor" facets={facets?.vendors || []} selected={draft.vendor} onSelect={selectVendor} />
+            <FacetChips title="Product Type" facets={facets?.product_types || []} selected={draft.productType} onSelect={selectProductType} />
+            <FacetChips title="Tag" facets={facets?.tags || []} selected={draft.tag} onSelect={selectTag} />
+          </ScrollView>
+
+          <Pressable
+            onPress={handleApply}
+            style={({ pressed }) => [
+              styles.sheetApply,
+              pressed ? { opacity: 0.8 } : null
+            ]}
+          >
+            <Text style={styles.sheetApplyText}>Show Results</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// Vertical bars for a price histogram; prices above the last bin are counted in it
+const PriceHistogram = memo(function PriceHistogram({
+  bins,
+}: {
+  bins: PriceDistribution['histogram'];
+}) {
+  const max = bins.reduce((top, bin) => Math.max(top, bin.count), 0);
+  if (bins.length === 0 || max === 0) {
+    return <Text style={styles.insightEmpty}>No prices to chart</Text>;
+  }
+
+  return (
+    <View>
+      <View style={styles.histogram}>
+        {bins.map(bin => (
+          <View key={bin.from} style={styles.histogramSlot}>
+            <View style={[styles.histogramBar, { height: `${Math.max((bin.count / max) * 100, 2)}%` }]} />
+          </View>
+        ))}
+      </View>
+      <View style={styles.histogramAxis}>
+        <Text style={styles.axisLabel}>{formatAmount(bins[0].from)}</Text>
+        <Text style={styles.axisLabel}>{formatAmount(bins[bins.length - 1].to)}+</Text>
+      </View>
+    </View>
+  );
+});
+
+// Horizontal bars, one per bucket
+const BarList = memo(function BarList({
+  rows,
+  color,
+  suffix = '',
+}: {
+  rows: { label: string; value: number }[];
+  color: string;
+  suffix?: string;
+}) {
+  const max = rows.reduce((top, row) => Math.max(top, row.value), 0);
+
+  return (
+    <View style={styles.barList}>
+      {rows.map(row => (
+        <View key={row.label} style={styles.barListRow}>
+          <Text style={styles.barListLabel} numberOfLines={1}>{row.label}</Text>
+          <View style={styles.barListTrack}>
+            <View
+              style={[
+                styles.barListFill,
+                { width: `${max ? (row.value / max) * 100 : 0}%`, backgroundColor: color },
+              ]}
+            />
+          </View>
+          <Text style={styles.barListValue}>{row.value.toLocaleString()}{suffix}</Text>
+        </View>
+      ))}
+    </View>
+  );
+});
+
+// Memoized figure for the insight cards, with primitives
+const InsightFigure = memo(function InsightFigure({
+  label,
+  value,
+}: {
+  label: string;
+  value: string;
+}) {
+  return (
+    <View style={styles.insightFigure}>
+      <Text style={styles.insightFigureValue}>{value}</Text>
+      <Text style={styles.insightFigureLabel}>{label}</Text>
+    </View>
+  );
+});
+
+// Tags sized by how many products carry them
+const TagCloud = memo(function TagCloud({
+  tags,
+}: {
+  tags: CatalogueAnalytics['tags']['top'];
+}) {
+  const max = tags[0]?.products || 1;
+
+  return (
+    <View style={styles.tagCloud}>
+      {tags.map(tag => (
+        <View key={tag.tag} style={styles.tagChip}>
+          <Text style={[styles.tagText, { fontSize: 11 + Math.round((tag.products / max) * 7) }]}>
+            {tag.tag}
+          </Text>
+          <Text style={styles.tagCount}>{tag.products}</Text>
+        </View>
+      ))}
+    </View>
+  );
+});
+
+const InsightCard = memo(function InsightCard({
+  title,
+  icon,
+  children,
+}: {
+  title: string;
+  icon: string;
+  children: ReactNode;
+}) {
+  return (
+    <View style={styles.insightCard}>
+      <View style={styles.insightHeader}>
+        <Ionicons name={icon as any} size={18} color={colors.primary} />
+        <Text style={styles.insightTitle}>{title}</Text>
+      </View>
+      {children}
+    </View>
+  );
+});
+
+// Charts for GET /scrape/analytics/:jobId
+function InsightsView({ analytics }: { analytics: CatalogueAnalytics }) {
+  const [priceType, setPriceType] = useState<string | null>(null);
+
+  const distribution =
+    analytics.prices.by_type.find(type => type.product_type === priceType) || analytics.prices.overall;
+  const { percentiles } = distribution;
+  const { sale, variants_per_product: variants, catalogue_age: age } = analytics;
+
+  return (
+    <ScrollView contentContainerStyle={styles.insightsContent} showsVerticalScrollIndicator={false}>
+      <InsightCard title="Price Distribution" icon="bar-chart-outline">
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.typeChips}>
+          {[null, ...analytics.prices.by_type.map(type => type.product_type)].map(type => (
+            <Pressable
+              key={type ?? 'all'}
+              onPress={() => setPriceType(type)}
+              style={[styles.typeChip, type === priceType ? styles.typeChipActive : null]}
+            >
+              <Text style={[styles.typeChipText, type === priceType ? styles.typeChipTextActive : null]}>
+                {type ?? 'All'}
+              </Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+        <PriceHistogram bins={distribution.histogram} />
+        <View style={styles.figureRow}>
+          <InsightFigure label="P10" value={formatAmount(percentiles.p10)} />
+          <InsightFigure label="P25" value={formatAmount(percentiles.p25)} />
+          <InsightFigure label="Median" value={formatAmount(percentiles.p50)} />
+          <InsightFigure label="P75" value={formatAmount(percentiles.p75)} />
+          <InsightFigure label="P90" value={formatAmount(percentiles.p90)} />
+        </View>
+        <Text style={styles.insightNote}>
+          {distribution.variants.toLocaleString()} variants · {formatAmount(distribution.min)}–{formatAmount(distribution.max)} · mean {formatAmount(distribution.mean)}
+        </Text>
+      </InsightCard>
+
+      <InsightCard title="On Sale" icon="pricetags-outline">
+        <View style={styles.figureRow}>
+          <InsightFigure label="Variants on sale" value={`${sale.share_percent}%`} />
+          <InsightFigure label="Avg discount" value={`${sale.average_discount_percent}%`} />
+          <InsightFigure label="Deepest" value={`${sale.max_discount_percent}%`} />
+        </View>
+        {sale.variants_on_sale > 0 ? (
+          <BarList
+            rows={sale.discount_depth.map(bucket => ({ label: bucket.label, value: bucket.count }))}
+            color={colors.success}
+          />
+        ) : (
+          <Text style={styles.insightEmpty}>No variants have a compare-at price above their price</Text>
+        )}
+      </InsightCard>
+
+      <InsightCard title="Variants per Product" icon="layers-outline">
+        <View style={styles.figureRow}>
+          <InsightFigure label="Mean" value={`${variants.mean}`} />
+          <InsightFigure label="Median" value={`${variants.median}`} />
+          <InsightFigure label="Max" value={`${variants.max}`} />
+        </View>
+        <BarList
+          rows={variants.distribution.map(bucket => ({ label: bucket.label, value: bucket.count }))}
+          color={colors.primary}
+        />
+      </InsightCard>
+
+      <InsightCard title="Catalogue Age" icon="time-outline">
+        <View style={styles.figureRow}>
+          <InsightFigure label="Median age" value={formatAge(age.median_age_days)} />
+          <InsightFigure label="Undated" value={age.undated.toLocaleString()} />
+        </View>
+        <BarList
+          rows={age.distribution.map(bucket => ({ label: bucket.label, value: bucket.count }))}
+          color={colors.warning}
+        />
+      </InsightCard>
+
+      {analytics.options.length > 0 ? (
+        <InsightCard title="Options" icon="options-outline">
+          <BarList
+            rows={analytics.options.map(option => ({ label: option.name, value: option.share_percent }))}
+            color={colors.purple}
+            suffix="%"
+          />
+          <Text style={styles.insightNote}>Share of products offering each option</Text>
+        </InsightCard>
+      ) : null}
+
+      {analytics.tags.top.length > 0 ? (
+        <InsightCard title={`Tags (${analytics.tags.unique.toLocaleString()})`} icon="pricetag-outline">
+          <TagCloud tags={analytics.tags.top} />
+        </InsightCard>
+      ) : null}
+    </ScrollView>
+  );
+}
+
 export default function ResultsScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
@@ -106,11 +773,26 @@ export default function ResultsScreen() {
 
   const [loading, setLoading] = useState(true);
   const [scrapeStatus, setScrapeStatus] = useState<ScrapeStatus | null>(null);
+  const [progress, setProgress] = useState<ScrapeProgress | null>(null);
   const [products, setProducts] = useState<Product[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [userCredits, setUserCredits] = useState(0);
+  const [tab, setTab] = useState<ResultsTab>('products');
+  const [analytics, setAnalytics] = useState<CatalogueAnalytics | null>(null);
+  const [analyticsError, setAnalyticsError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<ProductFilters>(emptyFilters);
+  const [showFilters, setShowFilters] = useState(false);
+  const [facets, setFacets] = useState<ProductFacets | null>(null);
+  const [matchingCount, setMatchingCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  // Query of the latest product request; responses for older ones are dropped
+  const productsQueryRef = useRef('');
 
-  // Poll for job status
+  // Subscribe to live job progress
   useEffect(() => {
     if (!jobId) {
       setError('No job ID provided');
@@ -119,82 +801,164 @@ export default function ResultsScreen() {
     }
 
     let isActive = true;
-    const pollInterval = 3000; // Poll every 3 seconds
-
-    const pollStatus = async () => {
-      try {
-        const session = await getSession();
-        if (!session) {
-          router.replace('/(auth)/login');
-          return;
-        }
-
-        const response = await fetch(`${API_BASE_URL}/scrape/status/${jobId}`, {
-          headers: {
-            Authorization: `Bearer ${session.access_token}`,
-          },
-        });
+    let finished = false;
+    let stream: { close: () => void } | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
-        if (!response.ok) {
-          throw new Error('Failed to fetch status');
-        }
+    const connect = async () => {
+      const session = await getSession();
+      if (!session) {
+        router.replace('/(auth)/login');
+        return;
+      }
+      if (!isActive) return;
 
-        const data = await response.json();
+      stream = openEventStream(`${API_BASE_URL}/scrape/status/${jobId}/stream`, {
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        onMessage: async ({ event, data }) => {
+          if (!isActive) return;
+          const payload = JSON.parse(data);
 
-        if (!isActive) return;
-
-        setScrapeStatus(data);
-
-        if (data.status === 'completed') {
-          // Fetch preview data
-          await fetchPreviewData(session.access_token);
-          setLoading(false);
-        } else if (data.status === 'failed') {
-          setError(data.error_message || 'Scraping failed');
-          setLoading(false);
-        }
-        // If pending or running, continue polling
-      } catch (err) {
-        console.error('Poll error:', err);
-        // Don't set error here, just keep polling
-      }
+          if (event === 'progress') {
+            setProgress(payload);
+          } else if (event === 'done') {
+            finished = true;
+            setScrapeStatus(prev => ({ ...(prev as ScrapeStatus), ...payload }));
+
+            if (payload.status === 'completed') {
+              setLoading(false);
+            } else if (payload.status === 'failed') {
+              setError(payload.error_message || 'Scraping failed');
+              setLoading(false);
+            } else if (payload.status === 'cancelled') {
+              setError('This scrape was cancelled.');
+              setLoading(false);
+            }
+          }
+        },
+        onError: (err) => {
+          console.error('Progress stream error:', err);
+          scheduleReconnect();
+        },
+        onClose: () => {
+          if (!finished) scheduleReconnect();
+        },
+      });
     };
 
-    // Initial poll
-    pollStatus();
+    // Progress is persisted server-side, so reconnecting resumes where we left off
+    const scheduleReconnect = () => {
+      if (!isActive || finished) return;
+      reconnectTimer = setTimeout(connect, RECONNECT_DELAY);
+    };
 
-    // Set up interval for polling
-    const interval = setInterval(() => {
-      if (scrapeStatus?.status === 'completed' || scrapeStatus?.status === 'failed') {
-        clearInterval(interval);
-      } else {
-        pollStatus();
-      }
-    }, pollInterval);
+    connect();
 
     return () => {
       isActive = false;
-      clearInterval(interval);
+      stream?.close();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
     };
   }, [jobId]);
 
-  const fetchPreviewData = async (accessToken: string) => {
+  const isCompleted = scrapeStatus?.status === 'completed';
+
+  // Reload the first page whenever the search or filters change
+  useEffect(() => {
+    if (!isCompleted) return;
+
+    const timer = setTimeout(() => {
+      fetchProducts(buildProductsQuery(searchQuery, filters), null);
+    }, searchQuery ? SEARCH_DEBOUNCE_MS : 0);
+
+    return () => clearTimeout(timer);
+  }, [isCompleted, searchQuery, filters]);
+
+  const fetchProducts = async (query: string, cursor: string | null) => {
+    productsQueryRef.current = query;
+    if (cursor) {
+      setLoadingMore(true);
+    } else {
+      setSearching(true);
+    }
+
     try {
-      const response = await fetch(`${API_BASE_URL}/scrape/preview/${jobId}`, {
+      const session = await getSession();
+      if (!session) return;
+
+      const cursorParam = cursor ? `&cursor=${encodeURIComponent(cursor)}` : '';
+      const response = await fetch(`${API_BASE_URL}/scrape/products/${jobId}?${query}${cursorParam}`, {
         headers: {
-          Authorization: `Bearer ${accessToken}`,
+          Authorization: `Bearer ${session.access_token}`,
         },
       });
 
-      if (response.ok) {
-        const data = await response.json();
-        setProducts(data.products || []);
+      if (!response.ok || productsQueryRef.current !== query) return;
+
+      const data = await response.json();
+      setProducts(prev => (cursor ? [...prev, ...data.products] : data.products || []));
+      setMatchingCount(data.total || 0);
+      setNextCursor(data.nextCursor);
+      if (data.facets) setFacets(data.facets);
+    } catch (err) {
+      console.error('Fetch products error:', err);
+    } finally {
+      if (productsQueryRef.current === query) {
+        setSearching(false);
+        setLoadingMore(false);
       }
+    }
+  };
+
+  const handleEndReached = useCallback(() => {
+    if (nextCursor && !loadingMore && !searching) {
+      fetchProducts(productsQueryRef.current, nextCursor);
+    }
+  }, [nextCursor, loadingMore, searching]);
+
+  const openFilters = useCallback(() => setShowFilters(true), []);
+  const closeFilters = useCallback(() => setShowFilters(false), []);
+  const applyFilters = useCallback((next: ProductFilters) => {
+    setFilters(next);
+    setShowFilters(false);
+  }, []);
+
+  const fetchAnalytics = async () => {
+    try {
+      const session = await getSession();
+      if (!session) return;
+
+      const response = await fetch(`${API_BASE_URL}/scrape/analytics/${jobId}`, {
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setAnalyticsError(data.error || 'Failed to load insights');
+        return;
+      }
+
+      setAnalytics(data);
+      setAnalyticsError(null);
     } catch (err) {
-      console.error('Fetch preview error:', err);
+      console.error('Fetch analytics error:', err);
+      setAnalyticsError('Failed to load insights');
     }
   };
 
+  // Insights are computed on demand, the first time the tab is opened
+  const handleSelectTab = useCallback((next: ResultsTab) => {
+    setTab(next);
+    if (next === 'insights' && !analytics) {
+      setAnalyticsError(null);
+      fetchAnalytics();
+    }
+  }, [analytics, jobId]);
+
   const checkCredits = async () => {
     try {
       const session = await getSession();
@@ -264,20 +1028,29 @@ export default function ResultsScreen() {
   // Derive values
   const productCount = scrapeStatus?.products_count || products.length;
   const variantCount = products.reduce((sum, p) => sum + (p.variants?.length || 0), 0);
+  const activeFilterCount = countActiveFilters(filters);
+  const isFiltered = !!searchQuery.trim() || activeFilterCount > 0;
 
   if (loading) {
+    const phase = progress?.phase || 'queued';
+    const isFetching = phase === 'fetching';
+
     return (
       <View style={styles.loadingContainer}>
         <StatusBar barStyle="light-content" />
         <ActivityIndicator size="large" color={colors.primary} />
-        <Text style={styles.loadingText}>
-          {scrapeStatus?.status === 'running' ? 'Scraping store data...' : 'Loading results...'}
-        </Text>
-        {scrapeStatus?.status === 'running' && (
-          <Text style={styles.loadingSubtext}>
-            This may take a few moments. Found {productCount} products so far.
-          </Text>
-        )}
+        <Text style={styles.loadingText}>{phaseLabels[phase]}</Text>
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${getProgressFraction(progress) * 100}%` }]} />
+        </View>
+        {isFetching ? (
+          <>
+            <Text style={styles.loadingSubtext}>
+              Page {progress?.page || 0} • {(progress?.products || 0).toLocaleString()} products found
+            </Text>
+            <Text style={styles.progressEta}>{formatEta(progress?.eta_seconds ?? null)}</Text>
+          </>
+        ) : null}
       </View>
     );
   }
@@ -306,6 +1079,14 @@ export default function ResultsScreen() {
           <Ionicons name="warning" size={64} color={colors.error} />
           <Text style={styles.errorTitle}>Scraping Failed</Text>
           <Text style={styles.errorMessage}>{error}</Text>
+          {scrapeStatus?.billing ? (
+            <View style={styles.errorCharge}>
+              <ChargeCard
+                summary={describeCharge(scrapeStatus.billing)}
+                note={scrapeStatus.billing.note}
+              />
+            </View>
+          ) : null}
           <Pressable 
             onPress={handleBack}
             style={({ pressed }) => [
@@ -341,55 +1122,139 @@ export default function ResultsScreen() {
         </View>
       </View>
 
-      {/* Products List */}
-      <FlashList
-        data={products}
-        keyExtractor={keyExtractor}
-        renderItem={renderItem}
-        estimatedItemSize={65}
-        ListHeaderComponent={(
-          <View>
-            {/* Stats Cards */}
-            <View style={styles.statsRow}>
-              <StatCard 
-                icon="cube-outline" 
-                label="Products" 
-                value={productCount.toLocaleString()} 
-              />
-              <StatCard 
-                icon="layers-outline" 
-                label="Variants" 
-                value={variantCount.toLocaleString()} 
-              />
-            </View>
-
-            {/* Data Preview Section */}
-            <View style={styles.previewHeader}>
-              <Text style={styles.previewTitle}>Data Preview</Text>
-              <Text style={styles.previewSubtitle}>
-                Showing {Math.min(products.length, 50)} of {productCount} products
-              </Text>
-            </View>
+      {/* Tabs: the product list, or charts from /scrape/analytics */}
+      <View style={styles.tabBar}>
+        <TabButton tab="products" label="Products" active={tab === 'products'} onSelect={handleSelectTab} />
+        <TabButton tab="insights" label="Insights" active={tab === 'insights'} onSelect={handleSelectTab} />
+      </View>
 
-            {/* Table Header */}
-            <View style={styles.tableHeader}>
-              <Text style={[styles.tableHeaderText, { flex: 1 }]}>Product Title</Text>
-              <Text style={[styles.tableHeaderText, { width: 80, textAlign: 'right' }]}>Price</Text>
-            </View>
+      {tab === 'insights' ? (
+        analytics ? (
+          <InsightsView analytics={analytics} />
+        ) : (
+          <View style={styles.insightsLoading}>
+            {analyticsError ? (
+              <Text style={styles.insightEmpty}>{analyticsError}</Text>
+            ) : (
+              <ActivityIndicator size="large" color={colors.primary} />
+            )}
           </View>
-        )}
-        ListFooterComponent={(
-          <View style={styles.unlockCard}>
-            <View style={styles.lockIconContainer}>
-              <Ionicons name="lock-closed" size={24} color={colors.primary} />
+        )
+      ) : (
+        <FlashList
+          data={products}
+          keyExtractor={keyExtractor}
+          renderItem={renderItem}
+          estimatedItemSize={65}
+          onEndReached={handleEndReached}
+          onEndReachedThreshold={0.5}
+          ListHeaderComponent={(
+            <View>
+              {/* Stats Cards */}
+              <View style={styles.statsRow}>
+                <StatCard 
+                  icon="cube-outline" 
+                  label="Products" 
+                  value={productCount.toLocaleString()} 
+                />
+                <StatCard 
+                  icon="layers-outline" 
+                  label="Variants" 
+                  value={variantCount.toLocaleString()} 
+                />
+              </View>
+
+              {scrapeStatus?.billing ? (
+                <ChargeCard
+                  summary={describeCharge(scrapeStatus.billing)}
+                  note={scrapeStatus.billing.note}
+                />
+              ) : null}
+
+              {/* Data Preview Section */}
+              <View style={styles.previewHeader}>
+                <Text style={styles.previewTitle}>Data Preview</Text>
+                <Text style={styles.previewSubtitle}>
+                  {isFiltered
+                    ? `${matchingCount.toLocaleString()} of ${productCount.toLocaleString()} products match`
+                    : `Showing ${products.length.toLocaleString()} of ${productCount.toLocaleString()} products`}
+                </Text>
+              </View>
+
+              {/* Search and filters, served by /scrape/products */}
+              <View style={styles.searchRow}>
+                <View style={styles.searchContainer}>
+                  <Ionicons name="search" size={18} color={colors.textMuted} />
+                  <TextInput
+                    value={searchQuery}
+                    onChangeText={setSearchQuery}
+                    placeholder="Search titles, tags, descriptions..."
+                    placeholderTextColor={colors.textMuted}
+                    autoCorrect={false}
+                    returnKeyType="search"
+                    style={styles.searchInput}
+                  />
+                  {searching ? <ActivityIndicator size="small" color={colors.primary} /> : null}
+                </View>
+                <Pressable
+                  onPress={openFilters}
+                  style={({ pressed }) => [
+                    styles.filterButton,
+                    activeFilterCount > 0 ? styles.filterButtonActive : null,
+                    pressed ? { opacity: 0.7 } : null
+                  ]}
+                >
+                  <Ionicons
+                    name="options-outline"
+                    size={20}
+                    color={activeFilterCount > 0 ? colors.background : colors.textPrimary}
+                  />
+                  {activeFilterCount > 0 ? (
+                    <Text style={styles.filterCount}>{activeFilterCount}</Text>
+                  ) : null}
+                </Pressable>
+              </View>
+
+              {/* Table Header */}
+              <View style={styles.tableHeader}>
+                <Text style={[styles.tableHeaderText, { flex: 1 }]}>Product Title</Text>
+                <Text style={[styles.tableHeaderText, { width: 80, textAlign: 'right' }]}>Price</Text>
+              </View>
             </View>
-            <Text style={styles.unlockTitle}>Unlock Full Data</Text>
-            <Text style={styles.unlockSubtitle}>
-              Access all {productCount} rows including SKUs, Inventory, and Vendor data.
-            </Text>
-          </View>
-        )}
-        contentContainerStyle={styles.listContent}
+          )}
+          ListEmptyComponent={
+            searching ? null : (
+              <Text style={styles.emptyResults}>
+                {isFiltered ? 'No products match your search.' : 'No products found.'}
+              </Text>
+            )
+          }
+          ListFooterComponent={(
+            <View>
+              {loadingMore ? (
+                <ActivityIndicator style={styles.loadingMore} size="small" color={colors.primary} />
+              ) : null}
+              <View style={styles.unlockCard}>
+                <View style={styles.lockIconContainer}>
+                  <Ionicons name="lock-closed" size={24} color={colors.primary} />
+                </View>
+                <Text style={styles.unlockTitle}>Unlock Full Data</Text>
+                <Text style={styles.unlockSubtitle}>
+                  Access all {productCount} rows including SKUs, Inventory, and Vendor data.
+                </Text>
+              </View>
+            </View>
+          )}
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+
+      <FilterSheet
+        visible={showFilters}
+        initial={filters}
+        facets={facets}
+        onApply={applyFilters}
+        onClose={closeFilters}
       />
 
       {/* Bottom Button */}
@@ -425,6 +1290,24 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginTop: 16,
   },
+  progressTrack: {
+    width: '70%',
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.card,
+    marginTop: 20,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+    backgroundColor: colors.primary,
+  },
+  progressEta: {
+    color: colors.textMuted,
+    fontSize: 12,
+    marginTop: 4,
+  },
   loadingSubtext: {
     color: colors.textMuted,
     fontSize: 14,
@@ -473,6 +1356,189 @@ const styles = StyleSheet.create({
     paddingHorizontal: 24,
     paddingBottom: 16,
   },
+  tabBar: {
+    flexDirection: 'row',
+    marginHorizontal: 24,
+    marginBottom: 16,
+    padding: 4,
+    borderRadius: 14,
+    borderCurve: 'continuous',
+    backgroundColor: colors.card,
+  },
+  tabButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderCurve: 'continuous',
+  },
+  tabButtonActive: {
+    backgroundColor: colors.background,
+  },
+  tabText: {
+    color: colors.textMuted,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  tabTextActive: {
+    color: colors.textPrimary,
+  },
+  insightsContent: {
+    paddingHorizontal: 24,
+    paddingBottom: 16,
+    gap: 16,
+  },
+  insightsLoading: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  insightCard: {
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    borderCurve: 'continuous',
+    padding: 16,
+    gap: 12,
+  },
+  insightHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  insightTitle: {
+    color: colors.textPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  insightNote: {
+    color: colors.textMuted,
+    fontSize: 12,
+  },
+  insightEmpty: {
+    color: colors.textMuted,
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  typeChips: {
+    gap: 8,
+  },
+  typeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderCurve: 'continuous',
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  typeChipActive: {
+    borderColor: colors.primary,
+    backgroundColor: 'rgba(56, 189, 248, 0.15)',
+  },
+  typeChipText: {
+    color: colors.textSecondary,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  typeChipTextActive: {
+    color: colors.primary,
+  },
+  histogram: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 120,
+    gap: 3,
+  },
+  histogramSlot: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+  },
+  histogramBar: {
+    backgroundColor: colors.primary,
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+  },
+  histogramAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  axisLabel: {
+    color: colors.textMuted,
+    fontSize: 11,
+  },
+  figureRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  insightFigure: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  insightFigureValue: {
+    color: colors.textPrimary,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  insightFigureLabel: {
+    color: colors.textMuted,
+    fontSize: 11,
+    marginTop: 2,
+  },
+  barList: {
+    gap: 8,
+  },
+  barListRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  barListLabel: {
+    width: 88,
+    color: colors.textSecondary,
+    fontSize: 12,
+  },
+  barListTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.background,
+    overflow: 'hidden',
+  },
+  barListFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  barListValue: {
+    width: 48,
+    color: colors.textPrimary,
+    fontSize: 12,
+    textAlign: 'right',
+  },
+  tagCloud: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  tagChip: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    borderCurve: 'continuous',
+    backgroundColor: colors.background,
+  },
+  tagText: {
+    color: colors.textPrimary,
+    fontWeight: '500',
+  },
+  tagCount: {
+    color: colors.textMuted,
+    fontSize: 11,
+  },
   statsRow: {
     flexDirection: 'row',
     gap: 12,
@@ -500,6 +1566,30 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: '700',
   },
+  chargeCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    borderCurve: 'continuous',
+    padding: 16,
+    marginBottom: 20,
+  },
+  chargeInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  chargeSummary: {
+    color: colors.textPrimary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  chargeNote: {
+    color: colors.textMuted,
+    fontSize: 12,
+    lineHeight: 17,
+  },
   previewHeader: {
     marginBottom: 16,
   },
@@ -513,6 +1603,57 @@ const styles = StyleSheet.create({
     fontSize: 13,
     marginTop: 4,
   },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 8,
+  },
+  searchContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.card,
+    borderRadius: 14,
+    borderCurve: 'continuous',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    gap: 10,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  filterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    minWidth: 46,
+    height: 46,
+    borderRadius: 14,
+    borderCurve: 'continuous',
+    backgroundColor: colors.card,
+    paddingHorizontal: 12,
+    gap: 4,
+  },
+  filterButtonActive: {
+    backgroundColor: colors.primary,
+  },
+  filterCount: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: colors.background,
+  },
+  emptyResults: {
+    color: colors.textMuted,
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 32,
+  },
+  loadingMore: {
+    paddingVertical: 16,
+  },
   tableHeader: {
     flexDirection: 'row',
     paddingVertical: 12,
@@ -630,6 +1771,10 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 32,
   },
+  errorCharge: {
+    alignSelf: 'stretch',
+    marginBottom: 12,
+  },
   retryButton: {
     backgroundColor: colors.primary,
     borderRadius: 16,
@@ -642,4 +1787,112 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  sheetOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+  sheetBackdrop: {
+    flex: 1,
+  },
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: colors.card,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    borderCurve: 'continuous',
+    paddingTop: 20,
+    paddingBottom: 32,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    marginBottom: 8,
+  },
+  sheetTitle: {
+    color: colors.textPrimary,
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  sheetReset: {
+    color: colors.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  sheetContent: {
+    paddingHorizontal: 24,
+    paddingBottom: 16,
+    gap: 20,
+  },
+  filterSection: {
+    gap: 10,
+  },
+  filterLabel: {
+    color: colors.textMuted,
+    fontSize: 11,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  filterChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  filterChip: {
+    maxWidth: '100%',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderCurve: 'continuous',
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  filterChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  filterChipText: {
+    color: colors.textSecondary,
+    fontSize: 13,
+  },
+  filterChipTextActive: {
+    color: colors.background,
+    fontWeight: '600',
+  },
+  priceInputs: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  priceInput: {
+    flex: 1,
+    backgroundColor: colors.background,
+    borderRadius: 12,
+    borderCurve: 'continuous',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  priceDash: {
+    color: colors.textMuted,
+    fontSize: 16,
+  },
+  sheetApply: {
+    marginHorizontal: 24,
+    marginTop: 8,
+    backgroundColor: colors.primary,
+    borderRadius: 16,
+    borderCurve: 'continuous',
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  sheetApplyText: {
+    color: colors.background,
+    fontSize: 16,
+    fontWeight: '600',
+  },
 });
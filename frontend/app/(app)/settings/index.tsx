@@ -16,6 +16,7 @@ import {
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Clipboard from 'expo-clipboard';
 import { API_BASE_URL } from '../../../lib/constants';
 import { getSession, signOut, getCurrentUser } from '../../../lib/auth';
 
@@ -33,6 +34,46 @@ const colors = {
 
 const SYNC_OPTIONS = ['Every 1h', 'Every 3h', 'Every 6h', 'Every 12h', 'Every 24h'];
 
+interface StoreMonitor {
+  id: string;
+  store_url: string;
+  store_name?: string;
+  interval_hours: number;
+  status: 'active' | 'paused';
+  paused_reason?: string | null;
+  next_run_at: string;
+}
+
+interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+const API_KEY_SCOPES = ['read', 'scrape', 'billing'];
+
+const describeApiKey = (key: ApiKey) => {
+  const lastUsed = key.last_used_at
+    ? `used ${new Date(key.last_used_at).toLocaleDateString()}`
+    : 'never used';
+  return `${key.prefix}… · ${key.scopes.join(', ')} · ${lastUsed}`;
+};
+
+// "Every 6h" <-> 6
+const syncOptionToHours = (option: string) => parseInt(option.replace(/\D/g, ''), 10) || 6;
+const hoursToSyncOption = (hours: number) => `Every ${hours}h`;
+
+const describeMonitor = (monitor: StoreMonitor) => {
+  if (monitor.status === 'paused') {
+    return monitor.paused_reason === 'insufficient_credits' ? 'Paused · Out of credits' : 'Paused';
+  }
+  return hoursToSyncOption(monitor.interval_hours);
+};
+
 // Helper function to extract display name from email
 const getNameFromEmail = (email: string): string => {
   if (!email) return 'User';
@@ -173,6 +214,16 @@ export default function SettingsScreen() {
   const [syncFrequency, setSyncFrequency] = useState('Every 6h');
   const [showEditModal, setShowEditModal] = useState(false);
   const [showSyncModal, setShowSyncModal] = useState(false);
+  const [monitors, setMonitors] = useState<StoreMonitor[]>([]);
+  const [showMonitorModal, setShowMonitorModal] = useState(false);
+  const [monitorUrl, setMonitorUrl] = useState('');
+  const [savingMonitor, setSavingMonitor] = useState(false);
+  const [teamName, setTeamName] = useState<string | null>(null);
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [showApiKeyModal, setShowApiKeyModal] = useState(false);
+  const [apiKeyName, setApiKeyName] = useState('');
+  const [apiKeyScopes, setApiKeyScopes] = useState<string[]>(['read']);
+  const [creatingApiKey, setCreatingApiKey] = useState(false);
   const [editName, setEditName] = useState('');
   const [exporting, setExporting] = useState(false);
   const [userData, setUserData] = useState({
@@ -209,12 +260,12 @@ export default function SettingsScreen() {
         if (storedDarkMode !== null) {
           setDarkMode(storedDarkMode === 'true');
         }
-        if (storedSyncFreq) {
+        if (storedSyncFreq && SYNC_OPTIONS.includes(storedSyncFreq)) {
           setSyncFrequency(storedSyncFreq);
         }
       }
 
-      await loadUserData();
+      await Promise.all([loadUserData(), loadMonitors(), loadApiKeys()]);
     } catch (error) {
       console.error('Failed to initialize:', error);
     } finally {
@@ -239,12 +290,85 @@ export default function SettingsScreen() {
           ...prev,
           credits: data.credits || prev.credits,
         }));
+        setTeamName(data.organization?.name || null);
       }
     } catch (error) {
       console.error('Failed to load credits:', error);
     }
   };
 
+  const loadMonitors = async () => {
+    try {
+      const session = await getSession();
+      if (!session) return;
+
+      const response = await fetch(`${API_BASE_URL}/monitors`, {
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const loaded: StoreMonitor[] = data.monitors || [];
+        setMonitors(loaded);
+
+        // The server schedule wins over the locally saved preference
+        const option = loaded.length ? hoursToSyncOption(loaded[0].interval_hours) : null;
+        if (option && SYNC_OPTIONS.includes(option)) {
+          setSyncFrequency(option);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load monitors:', error);
+    }
+  };
+
+  const loadApiKeys = async () => {
+    try {
+      const session = await getSession();
+      if (!session) return;
+
+      const response = await fetch(`${API_BASE_URL}/api-keys`, {
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setApiKeys((data.keys || []).filter((key: ApiKey) => !key.revoked_at));
+      }
+    } catch (error) {
+      console.error('Failed to load API keys:', error);
+    }
+  };
+
+  // Create or update a monitor; the backend resumes paused monitors on save
+  const saveMonitor = async (url: string, intervalHours: number) => {
+    const session = await getSession();
+    if (!session) throw new Error('Not signed in');
+
+    const response = await fetch(`${API_BASE_URL}/monitors`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ url, intervalHours }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(
+        response.status === 403
+          ? `You need at least ${data.credits_needed} credits to schedule scrapes.`
+          : data.message || data.error || 'Failed to save monitor'
+      );
+    }
+    return data as StoreMonitor;
+  };
+
   // Use useCallback for stable function references
   const handleDarkModeToggle = useCallback(async (value: boolean) => {
     setDarkMode(value);
@@ -256,11 +380,177 @@ export default function SettingsScreen() {
     );
   }, []);
 
+  // The frequency applies to every monitored store and to stores added later
   const handleSyncFrequencyChange = useCallback(async (freq: string) => {
     setSyncFrequency(freq);
     await AsyncStorage.setItem('sync_frequency', freq);
     setShowSyncModal(false);
-    Alert.alert('Sync Frequency Updated', `Your Shopify data will now sync ${freq.toLowerCase()}.`);
+
+    if (monitors.length === 0) {
+      Alert.alert('Sync Frequency Updated', `Monitored stores will sync ${freq.toLowerCase()}.`);
+      return;
+    }
+
+    try {
+      const updated = await Promise.all(
+        monitors.map(monitor => saveMonitor(monitor.store_url, syncOptionToHours(freq)))
+      );
+      setMonitors(updated);
+      Alert.alert('Sync Frequency Updated', `Your Shopify data will now sync ${freq.toLowerCase()}.`);
+    } catch (error: any) {
+      Alert.alert('Update Failed', error.message || 'Failed to update sync frequency');
+      loadMonitors();
+    }
+  }, [monitors]);
+
+  const handleAddMonitor = useCallback(async () => {
+    const url = monitorUrl.trim();
+    if (!url) return;
+
+    setSavingMonitor(true);
+    try {
+      const monitor = await saveMonitor(url, syncOptionToHours(syncFrequency));
+      setMonitors(prev => [monitor, ...prev.filter(m => m.id !== monitor.id)]);
+      setMonitorUrl('');
+      setShowMonitorModal(false);
+    } catch (error: any) {
+      Alert.alert('Could Not Monitor Store', error.message || 'Failed to save monitor');
+    } finally {
+      setSavingMonitor(false);
+    }
+  }, [monitorUrl, syncFrequency]);
+
+  const createMonitorHandler = useCallback((monitor: StoreMonitor) => () => {
+    const name = monitor.store_name || monitor.store_url;
+
+    const stopMonitoring = async () => {
+      try {
+        const session = await getSession();
+        if (!session) return;
+
+        const response = await fetch(`${API_BASE_URL}/monitors/${monitor.id}`, {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          Alert.alert('Error', data.error || 'Failed to stop monitoring');
+          return;
+        }
+
+        setMonitors(prev => prev.filter(m => m.id !== monitor.id));
+      } catch (error) {
+        console.error('Failed to delete monitor:', error);
+        Alert.alert('Error', 'Failed to stop monitoring');
+      }
+    };
+
+    const resume = async () => {
+      try {
+        const updated = await saveMonitor(monitor.store_url, monitor.interval_hours);
+        setMonitors(prev => prev.map(m => (m.id === updated.id ? updated : m)));
+      } catch (error: any) {
+        Alert.alert('Could Not Resume', error.message || 'Failed to resume monitor');
+      }
+    };
+
+    Alert.alert(name, `Scraped ${describeMonitor(monitor).toLowerCase()}.`, [
+      ...(monitor.status === 'paused' ? [{ text: 'Resume', onPress: resume }] : []),
+      { text: 'Stop Monitoring', style: 'destructive' as const, onPress: stopMonitoring },
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  }, []);
+
+  const toggleApiKeyScope = useCallback((scope: string) => {
+    setApiKeyScopes(prev =>
+      prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]
+    );
+  }, []);
+
+  const handleCreateApiKey = useCallback(async () => {
+    const name = apiKeyName.trim();
+    if (!name || apiKeyScopes.length === 0) return;
+
+    setCreatingApiKey(true);
+    try {
+      const session = await getSession();
+      if (!session) return;
+
+      const response = await fetch(`${API_BASE_URL}/api-keys`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ name, scopes: apiKeyScopes }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        Alert.alert('Could Not Create Key', data.error || 'Failed to create API key');
+        return;
+      }
+
+      const { key, ...apiKey } = data;
+      setApiKeys(prev => [apiKey as ApiKey, ...prev]);
+      setApiKeyName('');
+      setApiKeyScopes(['read']);
+      setShowApiKeyModal(false);
+
+      // The plaintext key is never shown again
+      Alert.alert(
+        'API Key Created',
+        `Copy this key now, you won't be able to see it again.\n\n${key}`,
+        [
+          { text: 'Copy', onPress: () => Clipboard.setStringAsync(key) },
+          { text: 'Done', style: 'cancel' },
+        ]
+      );
+    } catch (error) {
+      console.error('Failed to create API key:', error);
+      Alert.alert('Error', 'Failed to create API key');
+    } finally {
+      setCreatingApiKey(false);
+    }
+  }, [apiKeyName, apiKeyScopes]);
+
+  const createApiKeyHandler = useCallback((apiKey: ApiKey) => () => {
+    const revoke = async () => {
+      try {
+        const session = await getSession();
+        if (!session) return;
+
+        const response = await fetch(`${API_BASE_URL}/api-keys/${apiKey.id}`, {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          Alert.alert('Error', data.error || 'Failed to revoke API key');
+          return;
+        }
+
+        setApiKeys(prev => prev.filter(k => k.id !== apiKey.id));
+      } catch (error) {
+        console.error('Failed to revoke API key:', error);
+        Alert.alert('Error', 'Failed to revoke API key');
+      }
+    };
+
+    Alert.alert(
+      apiKey.name,
+      'Revoking this key immediately stops any script or integration using it.',
+      [
+        { text: 'Revoke', style: 'destructive', onPress: revoke },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
   }, []);
 
   const handleEditName = useCallback(() => {
@@ -366,6 +656,22 @@ export default function SettingsScreen() {
     setShowSyncModal(false);
   }, []);
 
+  const openMonitorModal = useCallback(() => {
+    setShowMonitorModal(true);
+  }, []);
+
+  const closeMonitorModal = useCallback(() => {
+    setShowMonitorModal(false);
+  }, []);
+
+  const openApiKeyModal = useCallback(() => {
+    setShowApiKeyModal(true);
+  }, []);
+
+  const closeApiKeyModal = useCallback(() => {
+    setShowApiKeyModal(false);
+  }, []);
+
   const closeEditModal = useCallback(() => {
     setShowEditModal(false);
   }, []);
@@ -374,6 +680,7 @@ export default function SettingsScreen() {
   const navigateToHome = useCallback(() => push('/(app)/home'), [push]);
   const navigateToHistory = useCallback(() => push('/(app)/history'), [push]);
   const navigateToTrends = useCallback(() => push('/(app)/trends'), [push]);
+  const navigateToTeam = useCallback(() => push('/(app)/team'), [push]);
 
   // Derive usage percentage
   const usagePercentage = (userData.credits / userData.totalCredits) * 100;
@@ -488,6 +795,63 @@ export default function SettingsScreen() {
           </View>
         </View>
 
+        {/* Team */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Team</Text>
+          <View style={styles.settingsGroup}>
+            <SettingsItem
+              icon="people-outline"
+              label={teamName || 'Create or Join a Team'}
+              value={teamName ? 'Shared credits & history' : undefined}
+              onPress={navigateToTeam}
+            />
+          </View>
+        </View>
+
+        {/* Monitored Stores */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Monitored Stores</Text>
+          <View style={styles.settingsGroup}>
+            {monitors.map(monitor => (
+              <SettingsItem
+                key={monitor.id}
+                icon={monitor.status === 'paused' ? 'pause-circle-outline' : 'pulse-outline'}
+                label={monitor.store_name || monitor.store_url}
+                value={describeMonitor(monitor)}
+                onPress={createMonitorHandler(monitor)}
+                danger={monitor.paused_reason === 'insufficient_credits'}
+              />
+            ))}
+            <SettingsItem
+              icon="add-circle-outline"
+              label="Monitor a Store"
+              value={`Scraped ${syncFrequency.toLowerCase()}`}
+              onPress={openMonitorModal}
+            />
+          </View>
+        </View>
+
+        {/* API Keys */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>API Keys</Text>
+          <View style={styles.settingsGroup}>
+            {apiKeys.map(apiKey => (
+              <SettingsItem
+                key={apiKey.id}
+                icon="key-outline"
+                label={apiKey.name}
+                value={describeApiKey(apiKey)}
+                onPress={createApiKeyHandler(apiKey)}
+              />
+            ))}
+            <SettingsItem
+              icon="add-circle-outline"
+              label="Create API Key"
+              onPress={openApiKeyModal}
+            />
+          </View>
+        </View>
+
         {/* Privacy & Compliance */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Privacy & Compliance</Text>
@@ -603,6 +967,117 @@ export default function SettingsScreen() {
         </View>
       </Modal>
 
+      {/* Monitor Store Modal */}
+      <Modal
+        visible={showMonitorModal}
+        transparent
+        animationType="slide"
+        onRequestClose={closeMonitorModal}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Monitor a Store</Text>
+            <Text style={styles.modalSubtitle}>
+              We'll scrape it {syncFrequency.toLowerCase()} and charge credits for each run.
+            </Text>
+            <TextInput
+              style={styles.modalInput}
+              value={monitorUrl}
+              onChangeText={setMonitorUrl}
+              placeholder="store.myshopify.com"
+              placeholderTextColor={colors.textMuted}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              autoFocus
+            />
+            <View style={styles.modalButtons}>
+              <Pressable 
+                onPress={closeMonitorModal}
+                style={({ pressed }) => [
+                  styles.modalButtonCancel,
+                  pressed ? { opacity: 0.7 } : null
+                ]}
+              >
+                <Text style={styles.modalButtonCancelText}>Cancel</Text>
+              </Pressable>
+              <Pressable 
+                onPress={handleAddMonitor}
+                disabled={savingMonitor}
+                style={({ pressed }) => [
+                  styles.modalButtonSave,
+                  pressed ? { opacity: 0.8 } : null
+                ]}
+              >
+                {savingMonitor ? (
+                  <ActivityIndicator size="small" color={colors.background} />
+                ) : (
+                  <Text style={styles.modalButtonSaveText}>Monitor</Text>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Create API Key Modal */}
+      <Modal
+        visible={showApiKeyModal}
+        transparent
+        animationType="slide"
+        onRequestClose={closeApiKeyModal}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Create API Key</Text>
+            <Text style={styles.modalSubtitle}>
+              Use it as a Bearer token to call the DataFlow API from your own scripts.
+            </Text>
+            <TextInput
+              style={styles.modalInput}
+              value={apiKeyName}
+              onChangeText={setApiKeyName}
+              placeholder="Key name, e.g. Nightly export"
+              placeholderTextColor={colors.textMuted}
+              autoFocus
+            />
+            {API_KEY_SCOPES.map((scope) => (
+              <SyncOption
+                key={scope}
+                option={scope}
+                isSelected={apiKeyScopes.includes(scope)}
+                onSelect={() => toggleApiKeyScope(scope)}
+              />
+            ))}
+            <View style={styles.modalButtons}>
+              <Pressable 
+                onPress={closeApiKeyModal}
+                style={({ pressed }) => [
+                  styles.modalButtonCancel,
+                  pressed ? { opacity: 0.7 } : null
+                ]}
+              >
+                <Text style={styles.modalButtonCancelText}>Cancel</Text>
+              </Pressable>
+              <Pressable 
+                onPress={handleCreateApiKey}
+                disabled={creatingApiKey || !apiKeyName.trim() || apiKeyScopes.length === 0}
+                style={({ pressed }) => [
+                  styles.modalButtonSave,
+                  pressed ? { opacity: 0.8 } : null
+                ]}
+              >
+                {creatingApiKey ? (
+                  <ActivityIndicator size="small" color={colors.background} />
+                ) : (
+                  <Text style={styles.modalButtonSaveText}>Create</Text>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {/* Sync Frequency Modal */}
       <Modal
         visible={showSyncModal}
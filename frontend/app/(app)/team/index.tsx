@@ -0,0 +1,764 @@
+import { useState, useEffect, useCallback, memo } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  StyleSheet,
+  StatusBar,
+  TextInput,
+  Modal,
+  Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { API_BASE_URL } from '../../../lib/constants';
+import { getSession, getCurrentUser } from '../../../lib/auth';
+
+const colors = {
+  primary: '#38BDF8',
+  background: '#0F172A',
+  card: '#1E293B',
+  border: '#334155',
+  textPrimary: '#FFFFFF',
+  textSecondary: '#94A3B8',
+  textMuted: '#64748B',
+  success: '#22C55E',
+  error: '#EF4444',
+  purple: '#A855F7',
+  orange: '#F97316',
+};
+
+type Role = 'owner' | 'admin' | 'member';
+
+interface Organization {
+  id: string;
+  name: string;
+  credits: number;
+}
+
+interface Member {
+  user_id: string;
+  email: string | null;
+  role: Role;
+  created_at: string;
+}
+
+interface Invite {
+  id: string;
+  email: string;
+  role: Exclude<Role, 'owner'>;
+  expires_at: string;
+}
+
+interface Invitation {
+  id: string;
+  role: Exclude<Role, 'owner'>;
+  expires_at: string;
+  organizations: { id: string; name: string } | null;
+}
+
+const roleColors: Record<Role, string> = {
+  owner: colors.orange,
+  admin: colors.purple,
+  member: colors.textSecondary,
+};
+
+const roleDescriptions: Record<Role, string> = {
+  owner: 'an owner',
+  admin: 'an admin',
+  member: 'a member',
+};
+
+const canManage = (role: Role | null) => role === 'owner' || role === 'admin';
+
+// Authenticated JSON request; throws with the API's error message
+const apiRequest = async (path: string, method: string, body?: unknown) => {
+  const session = await getSession();
+  if (!session) throw new Error('Not signed in');
+
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method,
+    headers: {
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed');
+  }
+  return data;
+};
+
+// Memoized row used for members, invites and invitations
+const TeamRow = memo(function TeamRow({
+  icon,
+  title,
+  subtitle,
+  badge,
+  badgeColor,
+  onPress,
+}: {
+  icon: string;
+  title: string;
+  subtitle?: string;
+  badge?: string;
+  badgeColor?: string;
+  onPress?: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={!onPress}
+      style={({ pressed }) => [
+        styles.row,
+        pressed && onPress ? { opacity: 0.7 } : null
+      ]}
+    >
+      <View style={styles.rowIcon}>
+        <Ionicons name={icon as any} size={18} color={colors.primary} />
+      </View>
+      <View style={styles.rowContent}>
+        <Text style={styles.rowTitle} numberOfLines={1}>{title}</Text>
+        {subtitle ? <Text style={styles.rowSubtitle}>{subtitle}</Text> : null}
+      </View>
+      {badge ? (
+        <Text style={[styles.roleBadge, { color: badgeColor || colors.textSecondary }]}>{badge}</Text>
+      ) : null}
+      {onPress ? <Ionicons name="chevron-forward" size={18} color={colors.textMuted} /> : null}
+    </Pressable>
+  );
+});
+
+export default function TeamScreen() {
+  // Destructure router functions early for React Compiler compatibility
+  const { back } = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [role, setRole] = useState<Role | null>(null);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [teamName, setTeamName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [showInviteModal, setShowInviteModal] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<Exclude<Role, 'owner'>>('member');
+  const [inviting, setInviting] = useState(false);
+
+  useEffect(() => {
+    loadTeam();
+  }, []);
+
+  const loadTeam = async () => {
+    try {
+      const user = await getCurrentUser();
+      setUserId(user?.id || null);
+
+      const data = await apiRequest('/organizations', 'GET');
+      setOrganization(data.organization);
+      setRole(data.role || null);
+      setMembers(data.members || []);
+      setInvites(data.invites || []);
+      setInvitations(data.invitations || []);
+    } catch (error) {
+      console.error('Failed to load team:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadTeam();
+    setRefreshing(false);
+  }, []);
+
+  const handleBack = useCallback(() => back(), [back]);
+
+  const handleCreateTeam = useCallback(async () => {
+    const name = teamName.trim();
+    if (!name) return;
+
+    setCreating(true);
+    try {
+      await apiRequest('/organizations', 'POST', { name });
+      setTeamName('');
+      await loadTeam();
+    } catch (error: any) {
+      Alert.alert('Could Not Create Team', error.message);
+    } finally {
+      setCreating(false);
+    }
+  }, [teamName]);
+
+  const createAcceptHandler = useCallback((invitation: Invitation) => () => {
+    const name = invitation.organizations?.name || 'this team';
+
+    Alert.alert(
+      `Join ${name}?`,
+      'Your scrapes will use the team\'s shared credits and appear in the team\'s history.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Join',
+          onPress: async () => {
+            try {
+              await apiRequest(`/organizations/invites/${invitation.id}/accept`, 'POST');
+              await loadTeam();
+            } catch (error: any) {
+              Alert.alert('Could Not Join', error.message);
+            }
+          },
+        },
+      ]
+    );
+  }, []);
+
+  const handleInvite = useCallback(async () => {
+    const email = inviteEmail.trim();
+    if (!email) return;
+
+    setInviting(true);
+    try {
+      const data = await apiRequest('/organizations/invites', 'POST', { email, role: inviteRole });
+      setInvites(prev => [data.invite, ...prev]);
+      setInviteEmail('');
+      setShowInviteModal(false);
+      if (!data.email_sent) {
+        Alert.alert('Invitation Created', `We couldn't email ${email}. Ask them to sign in and open Settings → Team.`);
+      }
+    } catch (error: any) {
+      Alert.alert('Could Not Invite', error.message);
+    } finally {
+      setInviting(false);
+    }
+  }, [inviteEmail, inviteRole]);
+
+  const createInviteHandler = useCallback((invite: Invite) => () => {
+    Alert.alert(invite.email, `Invited as ${invite.role}.`, [
+      {
+        text: 'Withdraw Invitation',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await apiRequest(`/organizations/invites/${invite.id}`, 'DELETE');
+            setInvites(prev => prev.filter(i => i.id !== invite.id));
+          } catch (error: any) {
+            Alert.alert('Error', error.message);
+          }
+        },
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, []);
+
+  const createMemberHandler = useCallback((member: Member) => {
+    const isSelf = member.user_id === userId;
+    const canRemove = isSelf || role === 'owner' || (role === 'admin' && member.role === 'member');
+    if (!canRemove) return undefined;
+
+    return () => {
+      const setMemberRole = (newRole: Role) => async () => {
+        try {
+          await apiRequest(`/organizations/members/${member.user_id}`, 'PATCH', { role: newRole });
+          await loadTeam();
+        } catch (error: any) {
+          Alert.alert('Error', error.message);
+        }
+      };
+
+      const remove = async () => {
+        try {
+          await apiRequest(`/organizations/members/${member.user_id}`, 'DELETE');
+          await loadTeam();
+        } catch (error: any) {
+          Alert.alert('Error', error.message);
+        }
+      };
+
+      const roleActions = role === 'owner'
+        ? (['owner', 'admin', 'member'] as Role[])
+            .filter(r => r !== member.role)
+            .map(r => ({ text: `Make ${r.charAt(0).toUpperCase()}${r.slice(1)}`, onPress: setMemberRole(r) }))
+        : [];
+
+      Alert.alert(member.email || 'Member', `Role: ${member.role}`, [
+        ...roleActions,
+        ...(canRemove
+          ? [{ text: isSelf ? 'Leave Team' : 'Remove from Team', style: 'destructive' as const, onPress: remove }]
+          : []),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]);
+    };
+  }, [userId, role]);
+
+  const openInviteModal = useCallback(() => {
+    setShowInviteModal(true);
+  }, []);
+
+  const closeInviteModal = useCallback(() => {
+    setShowInviteModal(false);
+  }, []);
+
+  const selectMemberRole = useCallback(() => setInviteRole('member'), []);
+  const selectAdminRole = useCallback(() => setInviteRole('admin'), []);
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable
+          onPress={handleBack}
+          style={({ pressed }) => [
+            styles.backButton,
+            pressed ? { opacity: 0.7 } : null
+          ]}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Team</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+          contentInsetAdjustmentBehavior="automatic"
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={colors.primary} />
+          }
+        >
+          {organization ? (
+            <>
+              {/* Team Card */}
+              <View style={styles.teamCard}>
+                <Text style={styles.teamName}>{organization.name}</Text>
+                <Text style={styles.teamRole}>You are {role ? roleDescriptions[role] : 'a member'}</Text>
+                <View style={styles.walletRow}>
+                  <Ionicons name="wallet-outline" size={18} color={colors.primary} />
+                  <Text style={styles.walletValue}>{organization.credits.toLocaleString()}</Text>
+                  <Text style={styles.walletLabel}>shared credits</Text>
+                </View>
+              </View>
+
+              {/* Members */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Members ({members.length})</Text>
+                <View style={styles.group}>
+                  {members.map(member => (
+                    <TeamRow
+                      key={member.user_id}
+                      icon="person-outline"
+                      title={member.user_id === userId ? `${member.email || 'You'} (you)` : member.email || 'Member'}
+                      subtitle={`Joined ${new Date(member.created_at).toLocaleDateString()}`}
+                      badge={member.role.toUpperCase()}
+                      badgeColor={roleColors[member.role]}
+                      onPress={createMemberHandler(member)}
+                    />
+                  ))}
+                </View>
+              </View>
+
+              {/* Pending Invites */}
+              {canManage(role) ? (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Pending Invitations</Text>
+                  <View style={styles.group}>
+                    {invites.map(invite => (
+                      <TeamRow
+                        key={invite.id}
+                        icon="mail-outline"
+                        title={invite.email}
+                        subtitle={`Expires ${new Date(invite.expires_at).toLocaleDateString()}`}
+                        badge={invite.role.toUpperCase()}
+                        badgeColor={roleColors[invite.role]}
+                        onPress={createInviteHandler(invite)}
+                      />
+                    ))}
+                    <TeamRow
+                      icon="person-add-outline"
+                      title="Invite by Email"
+                      onPress={openInviteModal}
+                    />
+                  </View>
+                </View>
+              ) : null}
+            </>
+          ) : (
+            <>
+              {/* Invitations for the user */}
+              {invitations.length > 0 ? (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Invitations</Text>
+                  <View style={styles.group}>
+                    {invitations.map(invitation => (
+                      <TeamRow
+                        key={invitation.id}
+                        icon="people-outline"
+                        title={invitation.organizations?.name || 'Team'}
+                        subtitle={`Join as ${invitation.role}`}
+                        onPress={createAcceptHandler(invitation)}
+                      />
+                    ))}
+                  </View>
+                </View>
+              ) : null}
+
+              {/* Create a Team */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Create a Team</Text>
+                <View style={styles.createCard}>
+                  <Text style={styles.createText}>
+                    Teammates share one credit balance and see each other's scrape history.
+                  </Text>
+                  <TextInput
+                    style={styles.input}
+                    value={teamName}
+                    onChangeText={setTeamName}
+                    placeholder="Team name"
+                    placeholderTextColor={colors.textMuted}
+                  />
+                  <Pressable
+                    onPress={handleCreateTeam}
+                    disabled={creating || !teamName.trim()}
+                    style={({ pressed }) => [
+                      styles.primaryButton,
+                      !teamName.trim() ? { opacity: 0.5 } : null,
+                      pressed ? { opacity: 0.8 } : null
+                    ]}
+                  >
+                    {creating ? (
+                      <ActivityIndicator size="small" color={colors.background} />
+                    ) : (
+                      <Text style={styles.primaryButtonText}>Create Team</Text>
+                    )}
+                  </Pressable>
+                </View>
+              </View>
+            </>
+          )}
+        </ScrollView>
+      )}
+
+      {/* Invite Modal */}
+      <Modal
+        visible={showInviteModal}
+        transparent
+        animationType="slide"
+        onRequestClose={closeInviteModal}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Invite a Teammate</Text>
+            <TextInput
+              style={styles.input}
+              value={inviteEmail}
+              onChangeText={setInviteEmail}
+              placeholder="name@agency.com"
+              placeholderTextColor={colors.textMuted}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="email-address"
+              autoFocus
+            />
+            <View style={styles.roleToggle}>
+              <Pressable
+                onPress={selectMemberRole}
+                style={[styles.roleOption, inviteRole === 'member' ? styles.roleOptionActive : null]}
+              >
+                <Text style={[styles.roleOptionText, inviteRole === 'member' ? styles.roleOptionTextActive : null]}>
+                  Member
+                </Text>
+              </Pressable>
+              <Pressable
+                onPress={selectAdminRole}
+                style={[styles.roleOption, inviteRole === 'admin' ? styles.roleOptionActive : null]}
+              >
+                <Text style={[styles.roleOptionText, inviteRole === 'admin' ? styles.roleOptionTextActive : null]}>
+                  Admin
+                </Text>
+              </Pressable>
+            </View>
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={closeInviteModal}
+                style={({ pressed }) => [
+                  styles.modalButtonCancel,
+                  pressed ? { opacity: 0.7 } : null
+                ]}
+              >
+                <Text style={styles.modalButtonCancelText}>Cancel</Text>
+              </Pressable>
+              <Pressable
+                onPress={handleInvite}
+                disabled={inviting}
+                style={({ pressed }) => [
+                  styles.modalButtonSave,
+                  pressed ? { opacity: 0.8 } : null
+                ]}
+              >
+                {inviting ? (
+                  <ActivityIndicator size="small" color={colors.background} />
+                ) : (
+                  <Text style={styles.modalButtonSaveText}>Send Invite</Text>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingTop: 48,
+    paddingBottom: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderCurve: 'continuous',
+    backgroundColor: colors.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  teamCard: {
+    backgroundColor: colors.card,
+    borderRadius: 20,
+    borderCurve: 'continuous',
+    padding: 20,
+    marginBottom: 24,
+    gap: 6,
+  },
+  teamName: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  teamRole: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  walletRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 10,
+  },
+  walletValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.primary,
+    fontVariant: ['tabular-nums'],
+  },
+  walletLabel: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  section: {
+    marginBottom: 24,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 11,
+    color: colors.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  group: {
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    borderCurve: 'continuous',
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(51, 65, 85, 0.5)',
+    gap: 14,
+  },
+  rowIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    borderCurve: 'continuous',
+    backgroundColor: 'rgba(56, 189, 248, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowContent: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: 15,
+    color: colors.textPrimary,
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    color: colors.textMuted,
+  },
+  roleBadge: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+  createCard: {
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    borderCurve: 'continuous',
+    padding: 16,
+    gap: 12,
+  },
+  createText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+  },
+  input: {
+    backgroundColor: colors.background,
+    borderRadius: 12,
+    borderCurve: 'continuous',
+    padding: 16,
+    fontSize: 16,
+    color: colors.textPrimary,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  primaryButton: {
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderCurve: 'continuous',
+    backgroundColor: colors.primary,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.background,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    backgroundColor: colors.card,
+    borderRadius: 20,
+    borderCurve: 'continuous',
+    padding: 24,
+    width: '100%',
+    maxWidth: 340,
+    gap: 12,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    textAlign: 'center',
+  },
+  roleToggle: {
+    flexDirection: 'row',
+    backgroundColor: colors.background,
+    borderRadius: 12,
+    borderCurve: 'continuous',
+    padding: 4,
+  },
+  roleOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderCurve: 'continuous',
+    alignItems: 'center',
+  },
+  roleOptionActive: {
+    backgroundColor: colors.card,
+  },
+  roleOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textMuted,
+  },
+  roleOptionTextActive: {
+    color: colors.primary,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalButtonCancel: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderCurve: 'continuous',
+    backgroundColor: colors.border,
+    alignItems: 'center',
+  },
+  modalButtonCancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  modalButtonSave: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderCurve: 'continuous',
+    backgroundColor: colors.primary,
+    alignItems: 'center',
+  },
+  modalButtonSaveText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.background,
+  },
+});
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, memo } from 'react';
 import { 
   View, 
   Text, 
@@ -10,6 +10,8 @@ import {
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import { API_BASE_URL } from '../../../lib/constants';
+import { getSession } from '../../../lib/auth';
 
 const colors = {
   primary: '#38BDF8',
@@ -24,62 +26,203 @@ const colors = {
   warning: '#F59E0B',
 };
 
-// Mock trending data
-const trendingCategories = [
-  { name: 'Electronics', growth: '+24%', stores: 1245, trending: 'up' },
-  { name: 'Fashion', growth: '+18%', stores: 892, trending: 'up' },
-  { name: 'Home & Garden', growth: '+15%', stores: 756, trending: 'up' },
-  { name: 'Beauty', growth: '+12%', stores: 634, trending: 'up' },
-  { name: 'Sports', growth: '-3%', stores: 421, trending: 'down' },
-];
+const WINDOWS = [7, 30, 90] as const;
 
-const topProducts = [
-  { name: 'Wireless Earbuds Pro', price: '$79.99', sales: '12.4K', change: '+156%' },
-  { name: 'Smart Watch Series X', price: '$199.99', sales: '8.2K', change: '+89%' },
-  { name: 'Organic Skincare Set', price: '$45.00', sales: '6.8K', change: '+67%' },
-  { name: 'Yoga Mat Premium', price: '$35.00', sales: '5.1K', change: '+45%' },
-  { name: 'LED Desk Lamp', price: '$29.99', sales: '4.7K', change: '+38%' },
-];
+interface ProductTypeTrend {
+  product_type: string;
+  stores: number;
+  products: number;
+  median_price: number | null;
+}
 
-const marketInsights = [
-  {
-    title: 'Q4 Holiday Season',
-    description: 'Electronics and gift items are expected to surge 40% in the next 2 months.',
-    icon: 'gift-outline',
-    color: colors.primary,
-  },
-  {
-    title: 'Sustainable Products',
-    description: 'Eco-friendly products are seeing 3x higher engagement rates.',
-    icon: 'leaf-outline',
-    color: colors.success,
-  },
-  {
-    title: 'Mobile Shopping',
-    description: '68% of Shopify purchases now happen on mobile devices.',
-    icon: 'phone-portrait-outline',
-    color: colors.warning,
-  },
-];
+interface VendorTrend {
+  vendor: string;
+  stores: number;
+  products: number;
+  previous_products: number;
+  growth_percent: number;
+}
+
+interface MarketTrends {
+  window_days: number;
+  generated_at: string;
+  min_stores: number;
+  stores_tracked: number;
+  insufficient_data: boolean;
+  product_types: ProductTypeTrend[];
+  vendors: VendorTrend[];
+  new_products: {
+    total: number | null;
+    per_day: number | null;
+    days: { day: string; new_products: number | null }[];
+  };
+}
+
+const formatCount = (value: number | null) => (value === null ? '—' : value.toLocaleString());
+
+// Prices are in each store's own currency, so no symbol
+const formatPrice = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+// Memoized window chip with primitives
+const WindowChip = memo(function WindowChip({
+  days,
+  active,
+  onSelect,
+}: {
+  days: number;
+  active: boolean;
+  onSelect: (days: number) => void;
+}) {
+  const handlePress = useCallback(() => onSelect(days), [onSelect, days]);
+
+  return (
+    <Pressable
+      onPress={handlePress}
+      style={({ pressed }) => [
+        styles.windowChip,
+        active && styles.windowChipActive,
+        pressed && { opacity: 0.8 },
+      ]}
+    >
+      <Text style={[styles.windowChipText, active && styles.windowChipTextActive]}>{days}d</Text>
+    </Pressable>
+  );
+});
+
+// Memoized product type row with primitives
+const ProductTypeRow = memo(function ProductTypeRow({
+  name,
+  stores,
+  products,
+  medianPrice,
+}: {
+  name: string;
+  stores: number;
+  products: number;
+  medianPrice: number | null;
+}) {
+  return (
+    <View style={styles.categoryCard}>
+      <View style={styles.categoryInfo}>
+        <Text style={styles.categoryName} numberOfLines={1}>{name}</Text>
+        <Text style={styles.categoryStores}>
+          {products.toLocaleString()} products · {stores.toLocaleString()} stores
+        </Text>
+      </View>
+      <View style={styles.categoryPrice}>
+        <Text style={styles.priceText}>{formatPrice(medianPrice)}</Text>
+        <Text style={styles.priceLabel}>median</Text>
+      </View>
+    </View>
+  );
+});
+
+// Memoized vendor row with primitives
+const VendorRow = memo(function VendorRow({
+  rank,
+  name,
+  stores,
+  products,
+  previousProducts,
+  growthPercent,
+}: {
+  rank: number;
+  name: string;
+  stores: number;
+  products: number;
+  previousProducts: number;
+  growthPercent: number;
+}) {
+  return (
+    <View style={styles.productCard}>
+      <View style={styles.productRank}>
+        <Text style={styles.rankNumber}>{rank}</Text>
+      </View>
+      <View style={styles.productInfo}>
+        <Text style={styles.productName} numberOfLines={1}>{name}</Text>
+        <Text style={styles.productPrice}>{stores.toLocaleString()} stores</Text>
+      </View>
+      <View style={styles.productStats}>
+        <Text style={styles.salesText}>
+          {previousProducts.toLocaleString()} → {products.toLocaleString()}
+        </Text>
+        <Text style={styles.changeText}>+{growthPercent}%</Text>
+      </View>
+    </View>
+  );
+});
+
+// Memoized day bar with primitives; suppressed days are drawn as a stub
+const VelocityBar = memo(function VelocityBar({
+  value,
+  max,
+}: {
+  value: number | null;
+  max: number;
+}) {
+  const height = value === null || max === 0 ? 2 : Math.max((value / max) * 80, value > 0 ? 3 : 1);
+
+  return (
+    <View style={styles.barSlot}>
+      <View
+        style={[
+          styles.bar,
+          { height, backgroundColor: value === null ? colors.border : colors.primary },
+        ]}
+      />
+    </View>
+  );
+});
 
 export default function TrendsScreen() {
-  const router = useRouter();
+  // Destructure router functions early for React Compiler compatibility
+  const { back, push } = useRouter();
+  const [days, setDays] = useState<number>(30);
+  const [trends, setTrends] = useState<MarketTrends | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    // Simulate loading
-    setTimeout(() => setLoading(false), 1000);
-  }, []);
+    loadTrends();
+  }, [days]);
 
-  if (loading) {
-    return (
-      <View style={[styles.container, styles.loadingContainer]}>
-        <StatusBar barStyle="light-content" />
-        <ActivityIndicator size="large" color={colors.primary} />
-        <Text style={styles.loadingText}>Loading market trends...</Text>
-      </View>
-    );
-  }
+  const loadTrends = async () => {
+    setLoading(true);
+    try {
+      const session = await getSession();
+      if (!session) return;
+
+      const response = await fetch(`${API_BASE_URL}/trends?days=${days}`, {
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Failed to load market trends');
+        return;
+      }
+
+      setTrends(result);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load trends:', err);
+      setError('Failed to load market trends');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBack = useCallback(() => back(), [back]);
+  const handleSelectWindow = useCallback((value: number) => setDays(value), []);
+  const navigateToHome = useCallback(() => push('/(app)/home'), [push]);
+  const navigateToHistory = useCallback(() => push('/(app)/history'), [push]);
+  const navigateToSettings = useCallback(() => push('/(app)/settings'), [push]);
+
+  const velocityDays = trends?.new_products.days || [];
+  const velocityMax = velocityDays.reduce((max, day) => Math.max(max, day.new_products ?? 0), 0);
+  const hasSuppressedDays = velocityDays.some(day => day.new_products === null);
 
   return (
     <View style={styles.container}>
@@ -88,128 +231,156 @@ export default function TrendsScreen() {
       {/* Header */}
       <View style={styles.header}>
         <Pressable 
-          onPress={() => router.back()} 
+          onPress={handleBack} 
           style={({ pressed }) => [styles.backButton, pressed && { opacity: 0.8 }]}
         >
           <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
         </Pressable>
         <Text style={styles.headerTitle}>Market Trends</Text>
-        <Pressable 
-          style={({ pressed }) => [styles.filterButton, pressed && { opacity: 0.8 }]}
-        >
-          <Ionicons name="filter-outline" size={24} color={colors.textPrimary} />
-        </Pressable>
+        <View style={styles.headerSpacer} />
       </View>
 
-      <ScrollView 
-        style={styles.scrollView} 
-        showsVerticalScrollIndicator={false}
-        contentInsetAdjustmentBehavior="automatic"
-      >
-        {/* Market Overview */}
-        <View style={styles.overviewCard}>
-          <View style={styles.overviewHeader}>
-            <Ionicons name="trending-up" size={24} color={colors.success} />
-            <Text style={styles.overviewTitle}>Market Overview</Text>
-          </View>
-          <Text style={styles.overviewStat}>+18.5%</Text>
-          <Text style={styles.overviewLabel}>Overall E-commerce Growth This Month</Text>
-          <View style={styles.overviewStats}>
-            <View style={styles.statItem}>
-              <Text style={styles.statValue}>2.4M</Text>
-              <Text style={styles.statLabel}>Active Stores</Text>
-            </View>
-            <View style={styles.statDivider} />
-            <View style={styles.statItem}>
-              <Text style={styles.statValue}>$8.2B</Text>
-              <Text style={styles.statLabel}>Monthly Sales</Text>
-            </View>
-            <View style={styles.statDivider} />
-            <View style={styles.statItem}>
-              <Text style={styles.statValue}>156K</Text>
-              <Text style={styles.statLabel}>New Products</Text>
-            </View>
-          </View>
-        </View>
+      {/* Window */}
+      <View style={styles.windowRow}>
+        {WINDOWS.map(value => (
+          <WindowChip key={value} days={value} active={value === days} onSelect={handleSelectWindow} />
+        ))}
+      </View>
 
-        {/* Trending Categories */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Trending Categories</Text>
-          {trendingCategories.map((category, index) => (
-            <View key={index} style={styles.categoryCard}>
-              <View style={styles.categoryInfo}>
-                <Text style={styles.categoryName}>{category.name}</Text>
-                <Text style={styles.categoryStores}>{category.stores} stores</Text>
-              </View>
-              <View style={styles.categoryGrowth}>
-                <Ionicons 
-                  name={category.trending === 'up' ? 'arrow-up' : 'arrow-down'} 
-                  size={16} 
-                  color={category.trending === 'up' ? colors.success : colors.error} 
-                />
-                <Text style={[
-                  styles.growthText,
-                  { color: category.trending === 'up' ? colors.success : colors.error }
-                ]}>
-                  {category.growth}
-                </Text>
-              </View>
-            </View>
-          ))}
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+          <Text style={styles.loadingText}>Loading market trends...</Text>
         </View>
-
-        {/* Top Products */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Top Performing Products</Text>
-          {topProducts.map((product, index) => (
-            <View key={index} style={styles.productCard}>
-              <View style={styles.productRank}>
-                <Text style={styles.rankNumber}>{index + 1}</Text>
+      ) : error || !trends ? (
+        <View style={styles.loadingContainer}>
+          <Ionicons name="cloud-offline-outline" size={48} color={colors.textMuted} />
+          <Text style={styles.loadingText}>{error || 'No trends to show'}</Text>
+        </View>
+      ) : (
+        <ScrollView 
+          style={styles.scrollView} 
+          showsVerticalScrollIndicator={false}
+          contentInsetAdjustmentBehavior="automatic"
+        >
+          {/* Market Overview */}
+          <View style={styles.overviewCard}>
+            <View style={styles.overviewHeader}>
+              <Ionicons name="trending-up" size={24} color={colors.success} />
+              <Text style={styles.overviewTitle}>Market Overview</Text>
+            </View>
+            <Text style={styles.overviewStat}>{formatCount(trends.new_products.total)}</Text>
+            <Text style={styles.overviewLabel}>New products in the last {trends.window_days} days</Text>
+            <View style={styles.overviewStats}>
+              <View style={styles.statItem}>
+                <Text style={styles.statValue}>{trends.stores_tracked.toLocaleString()}</Text>
+                <Text style={styles.statLabel}>Stores Tracked</Text>
               </View>
-              <View style={styles.productInfo}>
-                <Text style={styles.productName}>{product.name}</Text>
-                <Text style={styles.productPrice}>{product.price}</Text>
+              <View style={styles.statDivider} />
+              <View style={styles.statItem}>
+                <Text style={styles.statValue}>{formatCount(trends.new_products.per_day)}</Text>
+                <Text style={styles.statLabel}>New / Day</Text>
               </View>
-              <View style={styles.productStats}>
-                <Text style={styles.salesText}>{product.sales} sales</Text>
-                <Text style={styles.changeText}>{product.change}</Text>
+              <View style={styles.statDivider} />
+              <View style={styles.statItem}>
+                <Text style={styles.statValue}>{trends.product_types.length}</Text>
+                <Text style={styles.statLabel}>Product Types</Text>
               </View>
             </View>
-          ))}
-        </View>
+          </View>
+
+          {trends.insufficient_data ? (
+            <View style={styles.noticeCard}>
+              <Ionicons name="information-circle-outline" size={20} color={colors.warning} />
+              <Text style={styles.noticeText}>
+                Trends appear once at least {trends.min_stores} stores have been scraped.
+              </Text>
+            </View>
+          ) : (
+            <>
+              {/* New Product Velocity */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>New Product Velocity</Text>
+                <View style={styles.velocityCard}>
+                  <View style={styles.barRow}>
+                    {velocityDays.map(day => (
+                      <VelocityBar key={day.day} value={day.new_products} max={velocityMax} />
+                    ))}
+                  </View>
+                  <View style={styles.velocityAxis}>
+                    <Text style={styles.axisText}>{velocityDays[0]?.day}</Text>
+                    <Text style={styles.axisText}>{velocityDays[velocityDays.length - 1]?.day}</Text>
+                  </View>
+                  {hasSuppressedDays ? (
+                    <Text style={styles.footnote}>
+                      Grey days had fewer than {trends.min_stores} stores adding products.
+                    </Text>
+                  ) : null}
+                </View>
+              </View>
 
-        {/* Market Insights */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Market Insights</Text>
-          {marketInsights.map((insight, index) => (
-            <View key={index} style={styles.insightCard}>
-              <View style={[styles.insightIcon, { backgroundColor: `${insight.color}20` }]}>
-                <Ionicons name={insight.icon as any} size={24} color={insight.color} />
+              {/* Top Product Types */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Top Product Types</Text>
+                {trends.product_types.length === 0 ? (
+                  <Text style={styles.emptyText}>Not enough data yet.</Text>
+                ) : (
+                  trends.product_types.map(type => (
+                    <ProductTypeRow
+                      key={type.product_type}
+                      name={type.product_type}
+                      stores={type.stores}
+                      products={type.products}
+                      medianPrice={type.median_price}
+                    />
+                  ))
+                )}
               </View>
-              <View style={styles.insightContent}>
-                <Text style={styles.insightTitle}>{insight.title}</Text>
-                <Text style={styles.insightDescription}>{insight.description}</Text>
+
+              {/* Fastest-Growing Vendors */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Fastest-Growing Vendors</Text>
+                {trends.vendors.length === 0 ? (
+                  <Text style={styles.emptyText}>No vendor grew across enough stores in this window.</Text>
+                ) : (
+                  trends.vendors.map((vendor, index) => (
+                    <VendorRow
+                      key={vendor.vendor}
+                      rank={index + 1}
+                      name={vendor.vendor}
+                      stores={vendor.stores}
+                      products={vendor.products}
+                      previousProducts={vendor.previous_products}
+                      growthPercent={vendor.growth_percent}
+                    />
+                  ))
+                )}
               </View>
-            </View>
-          ))}
-        </View>
+            </>
+          )}
 
-        {/* Bottom spacing */}
-        <View style={{ height: 100 }} />
-      </ScrollView>
+          <Text style={styles.footnote}>
+            Aggregated across all stores scraped on DataFlow. Groups covering fewer than{' '}
+            {trends.min_stores} stores are hidden, and median prices are in each store's own currency.
+          </Text>
+
+          {/* Bottom spacing */}
+          <View style={{ height: 100 }} />
+        </ScrollView>
+      )}
 
       {/* Bottom Navigation */}
       <View style={styles.bottomNav}>
         <Pressable 
           style={({ pressed }) => [styles.navItem, pressed && { opacity: 0.8 }]}
-          onPress={() => router.push('/(app)/home')}
+          onPress={navigateToHome}
         >
           <Ionicons name="grid-outline" size={24} color={colors.textMuted} />
           <Text style={styles.navText}>Dashboard</Text>
         </Pressable>
         <Pressable 
           style={({ pressed }) => [styles.navItem, pressed && { opacity: 0.8 }]}
-          onPress={() => router.push('/(app)/history')}
+          onPress={navigateToHistory}
         >
           <Ionicons name="search-outline" size={24} color={colors.textMuted} />
           <Text style={styles.navText}>Research</Text>
@@ -222,7 +393,7 @@ export default function TrendsScreen() {
         </Pressable>
         <Pressable 
           style={({ pressed }) => [styles.navItem, pressed && { opacity: 0.8 }]}
-          onPress={() => router.push('/(app)/settings')}
+          onPress={navigateToSettings}
         >
           <Ionicons name="settings-outline" size={24} color={colors.textMuted} />
           <Text style={styles.navText}>Settings</Text>
@@ -238,13 +409,17 @@ const styles = StyleSheet.create({
     backgroundColor: colors.background,
   },
   loadingContainer: {
+    flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingBottom: 80,
   },
   loadingText: {
     marginTop: 16,
     fontSize: 16,
     color: colors.textSecondary,
+    textAlign: 'center',
   },
   header: {
     flexDirection: 'row',
@@ -268,14 +443,35 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: colors.textPrimary,
   },
-  filterButton: {
+  headerSpacer: {
     width: 40,
-    height: 40,
-    borderRadius: 20,
+  },
+  windowRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 24,
+    marginBottom: 16,
+  },
+  windowChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
     borderCurve: 'continuous',
     backgroundColor: colors.card,
-    alignItems: 'center',
-    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  windowChipActive: {
+    backgroundColor: `${colors.primary}20`,
+    borderColor: colors.primary,
+  },
+  windowChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  windowChipTextActive: {
+    color: colors.primary,
   },
   scrollView: {
     flex: 1,
@@ -370,14 +566,73 @@ const styles = StyleSheet.create({
     color: colors.textMuted,
     marginTop: 2,
   },
-  categoryGrowth: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 4,
+  categoryPrice: {
+    alignItems: 'flex-end',
+    marginLeft: 12,
   },
-  growthText: {
+  priceText: {
     fontSize: 16,
     fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  priceLabel: {
+    fontSize: 11,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  velocityCard: {
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    borderCurve: 'continuous',
+    padding: 16,
+  },
+  barRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 80,
+    gap: 2,
+  },
+  barSlot: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    borderRadius: 2,
+  },
+  velocityAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  axisText: {
+    fontSize: 11,
+    color: colors.textMuted,
+  },
+  noticeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: `${colors.warning}15`,
+    borderRadius: 14,
+    borderCurve: 'continuous',
+    padding: 16,
+    marginBottom: 24,
+    gap: 10,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textMuted,
+  },
+  footnote: {
+    fontSize: 12,
+    color: colors.textMuted,
+    lineHeight: 18,
+    marginTop: 8,
   },
   productCard: {
     flexDirection: 'row',
@@ -429,37 +684,6 @@ const styles = StyleSheet.create({
     color: colors.success,
     marginTop: 2,
   },
-  insightCard: {
-    flexDirection: 'row',
-    backgroundColor: colors.card,
-    borderRadius: 16,
-    borderCurve: 'continuous',
-    padding: 16,
-    marginBottom: 12,
-    gap: 14,
-  },
-  insightIcon: {
-    width: 48,
-    height: 48,
-    borderRadius: 14,
-    borderCurve: 'continuous',
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  insightContent: {
-    flex: 1,
-  },
-  insightTitle: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: colors.textPrimary,
-    marginBottom: 4,
-  },
-  insightDescription: {
-    fontSize: 14,
-    color: colors.textSecondary,
-    lineHeight: 20,
-  },
   bottomNav: {
     position: 'absolute',
     bottom: 0,
@@ -25,13 +25,25 @@ const colors = {
   error: '#EF4444',
 };
 
+interface PriceQuote {
+  id: string;
+  credits: number;
+  product_estimate: number | null;
+  estimate_source: 'sitemap' | 'probe' | null;
+  expires_at: string;
+}
+
 interface ValidationData {
   isValid: boolean;
   url: string;
   storeName: string;
   productCount?: number;
+  quote?: PriceQuote;
 }
 
+const formatQuoteExpiry = (expiresAt: string) =>
+  new Date(expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
 export default function ValidationScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
@@ -51,6 +63,7 @@ export default function ValidationScreen() {
   }, []);
 
   const validateStore = async () => {
+    setValidating(true);
     if (!url) {
       setError('No store URL provided');
       setValidating(false);
@@ -130,17 +143,30 @@ export default function ValidationScreen() {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${session.access_token}`,
         },
-        body: JSON.stringify({ url: validationData.url }),
+        body: JSON.stringify({
+          url: validationData.url,
+          quoteId: validationData.quote?.id,
+        }),
       });
 
       const data = await response.json();
       console.log('[Start Scrape] Response:', data);
 
       if (!response.ok) {
-        if (data.error === 'Insufficient credits') {
+        if (data.error === 'Quote expired') {
+          setStartingScrape(false);
+          Alert.alert(
+            'Price Quote Expired',
+            'Prices are only held for a short while. Get a fresh quote for this store?',
+            [
+              { text: 'Cancel', style: 'cancel' },
+              { text: 'Refresh Quote', onPress: () => validateStore() },
+            ]
+          );
+        } else if (data.error === 'Insufficient credits') {
           Alert.alert(
             'Insufficient Credits',
-            'You need 5 credits to scrape a store. Would you like to purchase more?',
+            `You need ${data.credits_needed} credits to scrape this store. Would you like to purchase more?`,
             [
               { text: 'Cancel', style: 'cancel', onPress: () => setStartingScrape(false) },
               { 
@@ -301,16 +327,37 @@ export default function ValidationScreen() {
         
         <View style={styles.statCard}>
           <View>
-            <Text style={styles.statLabel}>Data Access</Text>
+            <Text style={styles.statLabel}>Catalogue Size</Text>
             <View style={styles.statValueRow}>
-              <Text style={styles.statValue}>Full</Text>
-              <Text style={styles.statUnit}>Products.json</Text>
+              <Text style={styles.statValue}>
+                {validationData?.productCount !== undefined
+                  ? `~${validationData.productCount.toLocaleString()}`
+                  : 'Unknown'}
+              </Text>
+              <Text style={styles.statUnit}>Products</Text>
             </View>
           </View>
           <View style={styles.statIconContainer}>
             <Ionicons name="cube-outline" size={24} color={colors.primary} />
           </View>
         </View>
+
+        {validationData?.quote ? (
+          <View style={styles.statCard}>
+            <View>
+              <Text style={styles.statLabel}>Price</Text>
+              <View style={styles.statValueRow}>
+                <Text style={styles.statValue}>{validationData.quote.credits}</Text>
+                <Text style={styles.statUnit}>
+                  Credits • held until {formatQuoteExpiry(validationData.quote.expires_at)}
+                </Text>
+              </View>
+            </View>
+            <View style={styles.statIconContainer}>
+              <Ionicons name="pricetag-outline" size={24} color={colors.primary} />
+            </View>
+          </View>
+        ) : null}
       </View>
 
       {/* Bottom Buttons */}
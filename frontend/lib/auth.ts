@@ -2,6 +2,7 @@ import { supabase } from './supabase';
 import * as Linking from 'expo-linking';
 import { makeRedirectUri } from 'expo-auth-session';
 import * as WebBrowser from 'expo-web-browser';
+import { unregisterPushToken } from './pushNotifications';
 
 export async function sendLoginCode(email: string) {
   console.log('Sending OTP to:', email);
@@ -210,6 +211,9 @@ export async function signInWithApple() {
 }
 
 export async function signOut() {
+  // Needs the session, so it runs before signing out
+  await unregisterPushToken();
+
   const { error } = await supabase.auth.signOut();
   if (error) {
     throw error;
@@ -0,0 +1,94 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import Constants from 'expo-constants';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { API_BASE_URL } from './constants';
+import { supabase } from './supabase';
+
+// The token this device registered, so sign-out can remove it again
+const PUSH_TOKEN_KEY = 'expo_push_token';
+
+// Show alerts that arrive while the app is open
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowAlert: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+async function authHeaders() {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session
+    ? {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`,
+      }
+    : null;
+}
+
+/**
+ * Register this device's Expo push token so alert notifications reach it
+ * Does nothing on web or when the user declines notifications.
+ */
+export async function registerPushToken() {
+  if (Platform.OS !== 'ios' && Platform.OS !== 'android') return;
+
+  try {
+    const headers = await authHeaders();
+    if (!headers) return;
+
+    const permissions = await Notifications.getPermissionsAsync();
+    const status = permissions.granted
+      ? permissions.status
+      : (await Notifications.requestPermissionsAsync()).status;
+    if (status !== 'granted') return;
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync('default', {
+        name: 'Alerts',
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+
+    const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+    const { data: token } = await Notifications.getExpoPushTokenAsync(projectId ? { projectId } : undefined);
+
+    const response = await fetch(`${API_BASE_URL}/notifications/push-tokens`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ token, platform: Platform.OS }),
+    });
+
+    if (response.ok) {
+      await AsyncStorage.setItem(PUSH_TOKEN_KEY, token);
+    }
+  } catch (error) {
+    // Simulators and builds without push credentials have no token
+    console.error('Failed to register push token:', error);
+  }
+}
+
+/**
+ * Stop sending pushes to this device
+ * Call before signing out, while the session can still authenticate the request.
+ */
+export async function unregisterPushToken() {
+  try {
+    const token = await AsyncStorage.getItem(PUSH_TOKEN_KEY);
+    if (!token) return;
+
+    const headers = await authHeaders();
+    if (headers) {
+      await fetch(`${API_BASE_URL}/notifications/push-tokens`, {
+        method: 'DELETE',
+        headers,
+        body: JSON.stringify({ token }),
+      });
+    }
+
+    await AsyncStorage.removeItem(PUSH_TOKEN_KEY);
+  } catch (error) {
+    console.error('Failed to unregister push token:', error);
+  }
+}
@@ -0,0 +1,76 @@
+// Minimal Server-Sent Events client
+// React Native has no EventSource and fetch() cannot stream, but XMLHttpRequest
+// exposes the partial response body while it downloads.
+
+export interface SSEMessage {
+  event: string;
+  data: string;
+}
+
+interface SSEOptions {
+  headers?: Record<string, string>;
+  onMessage: (message: SSEMessage) => void;
+  onError?: (error: Error) => void;
+  // Called when the server closes the stream
+  onClose?: () => void;
+}
+
+export function openEventStream(url: string, options: SSEOptions) {
+  const xhr = new XMLHttpRequest();
+  let offset = 0;
+  let buffer = '';
+  let aborted = false;
+
+  const flush = () => {
+    buffer += xhr.responseText.substring(offset);
+    offset = xhr.responseText.length;
+
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() || '';
+
+    for (const block of blocks) {
+      let event = 'message';
+      const data: string[] = [];
+
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).trim());
+        }
+      }
+
+      if (data.length > 0) {
+        options.onMessage({ event, data: data.join('\n') });
+      }
+    }
+  };
+
+  xhr.open('GET', url);
+  xhr.setRequestHeader('Accept', 'text/event-stream');
+  Object.entries(options.headers || {}).forEach(([key, value]) => {
+    xhr.setRequestHeader(key, value);
+  });
+
+  xhr.onprogress = flush;
+  xhr.onreadystatechange = () => {
+    if (xhr.readyState !== XMLHttpRequest.DONE || aborted) return;
+
+    if (xhr.status >= 200 && xhr.status < 300) {
+      flush();
+      options.onClose?.();
+    } else {
+      // status 0 means the connection dropped before any response
+      options.onError?.(new Error(xhr.status ? `Stream failed with status ${xhr.status}` : 'Stream connection error'));
+    }
+  };
+
+  xhr.send();
+
+  return {
+    close: () => {
+      aborted = true;
+      xhr.abort();
+    },
+  };
+}